@@ -0,0 +1,302 @@
+import { IAsyncStorageAdapter } from './IAsyncStorageAdapter';
+import { IBufferedStorageAdapter, AsyncStorageBridgeOptions } from './IBufferedStorageAdapter';
+import { IErrorHandler, AppError, ErrorType } from '../errors/IErrorHandler';
+
+/**
+ * Bridges an IAsyncStorageAdapter to the synchronous IStorageAdapter interface
+ *
+ * Reads are served from an in-memory cache populated by load(), and writes
+ * update the cache immediately and are persisted in the background in the
+ * order they were made. This lets StorageService run on top of IndexedDB
+ * without blocking the main thread on storage I/O.
+ *
+ * Values under lazyKeyPrefixes are not loaded up front, so large component
+ * content does not have to fit in memory; only the most recently used ones are
+ * kept, and others are read with getItemAsync().
+ */
+export class AsyncStorageAdapterBridge implements IBufferedStorageAdapter {
+  /**
+   * Default number of lazily loaded values kept in memory
+   * @private
+   */
+  private readonly DEFAULT_LAZY_CACHE_SIZE = 20;
+
+  /**
+   * Serialized values of preloaded keys
+   * Values are kept as JSON so callers get copies, matching localStorage semantics
+   * @private
+   */
+  private cache: Map<string, string> = new Map();
+
+  /**
+   * Serialized values of recently used lazy keys, least recently used first
+   * @private
+   */
+  private lazyCache: Map<string, string> = new Map();
+
+  /**
+   * All keys known to exist, including lazy keys whose values are not in memory
+   * @private
+   */
+  private knownKeys: Set<string> = new Set();
+
+  /**
+   * Tail of the background write queue
+   * @private
+   */
+  private pendingWrites: Promise<void> = Promise.resolve();
+
+  /**
+   * Number of writes queued so far
+   * @private
+   */
+  private queuedWrites = 0;
+
+  /**
+   * Number of queued writes covered by the last flush()
+   * @private
+   */
+  private flushedWrites = 0;
+
+  /**
+   * Number of the last write that failed, or 0
+   * @private
+   */
+  private lastFailedWrite = 0;
+
+  /**
+   * Creates a new bridge over an async storage adapter
+   * @param asyncAdapter The asynchronous adapter that persists the data
+   * @param errorHandler The error handler failed background writes are reported to
+   * @param options Bridge options
+   */
+  constructor(
+    private asyncAdapter: IAsyncStorageAdapter,
+    private errorHandler: IErrorHandler,
+    private options: AsyncStorageBridgeOptions = {}
+  ) {}
+
+  /**
+   * Populate the cache from the underlying async adapter
+   * Must be awaited before the bridge is handed to a consumer
+   * @returns Promise resolving once all stored items except lazy ones are cached
+   */
+  public async load(): Promise<void> {
+    const keys = await this.asyncAdapter.keys();
+
+    for (const key of keys) {
+      this.knownKeys.add(key);
+      if (this.isLazyKey(key)) continue;
+
+      const value = await this.asyncAdapter.getItem<unknown>(key);
+      if (value !== null) {
+        this.cache.set(key, JSON.stringify(value));
+      }
+    }
+  }
+
+  /**
+   * Wait for all queued background writes to finish
+   * Failures are also reported to the error handler as they happen.
+   * @returns Promise resolving to false if any write queued since the last flush failed
+   */
+  public flush(): Promise<boolean> {
+    const since = this.flushedWrites;
+    this.flushedWrites = this.queuedWrites;
+
+    return this.pendingWrites.then(() => this.lastFailedWrite <= since);
+  }
+
+  /**
+   * Get an item from the cache
+   * @param key Storage key
+   * @returns The stored value or null if not found
+   * @throws AppError with STORAGE type if the item is lazy and not in memory
+   */
+  public getItem<T>(key: string): T | null {
+    const item = this.getCached(key);
+
+    if (item === undefined && this.isLazyKey(key) && this.knownKeys.has(key)) {
+      throw new AppError(
+        ErrorType.STORAGE,
+        `Item '${key}' is not loaded; read it with getItemAsync()`,
+        { key }
+      );
+    }
+
+    try {
+      return item !== undefined ? JSON.parse(item) : null;
+    } catch (error) {
+      console.error(`Failed to get item '${key}' from storage cache:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get an item, reading lazy items from the async adapter if needed
+   * @param key Storage key
+   * @returns Promise resolving to the stored value or null if not found
+   */
+  public async getItemAsync<T>(key: string): Promise<T | null> {
+    if (this.getCached(key) === undefined && this.isLazyKey(key) && this.knownKeys.has(key)) {
+      // Queued writes to the key may have been evicted from memory already
+      await this.pendingWrites;
+
+      if (this.getCached(key) === undefined) {
+        const value = await this.asyncAdapter.getItem<T>(key);
+        if (value === null) return null;
+        this.setCached(key, JSON.stringify(value));
+      }
+    }
+
+    return this.getItem<T>(key);
+  }
+
+  /**
+   * Store an item in the cache and persist it in the background
+   * If persisting fails, the cache is rolled back and the failure is reported.
+   * @param key Storage key
+   * @param value Value to store
+   * @returns True if the value was accepted
+   */
+  public setItem<T>(key: string, value: T): boolean {
+    let serialized: string;
+    try {
+      serialized = JSON.stringify(value);
+    } catch (error) {
+      console.error(`Failed to set item '${key}' in storage cache:`, error);
+      return false;
+    }
+
+    const previous = this.getCached(key);
+    const existed = this.knownKeys.has(key);
+    this.setCached(key, serialized);
+    this.knownKeys.add(key);
+
+    this.enqueue(`set item '${key}'`, () => this.asyncAdapter.setItem(key, JSON.parse(serialized)), () => {
+      // Only roll back if no later write replaced the value
+      if (this.getCached(key) !== serialized) return;
+
+      if (previous !== undefined) {
+        this.setCached(key, previous);
+      } else {
+        this.deleteCached(key);
+        if (!existed) this.knownKeys.delete(key);
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Remove an item from the cache and the underlying storage
+   * @param key Storage key
+   * @returns True if the removal was accepted
+   */
+  public removeItem(key: string): boolean {
+    this.deleteCached(key);
+    this.knownKeys.delete(key);
+    this.enqueue(`remove item '${key}'`, () => this.asyncAdapter.removeItem(key));
+    return true;
+  }
+
+  /**
+   * Clear the cache and the underlying storage
+   * @returns True if the clear was accepted
+   */
+  public clear(): boolean {
+    this.cache.clear();
+    this.lazyCache.clear();
+    this.knownKeys.clear();
+    this.enqueue('clear storage', () => this.asyncAdapter.clear());
+    return true;
+  }
+
+  /**
+   * Check if a key exists
+   * @param key Storage key
+   * @returns True if key exists
+   */
+  public hasItem(key: string): boolean {
+    return this.knownKeys.has(key);
+  }
+
+  /**
+   * Check if a key's value is loaded lazily
+   * @param key Storage key
+   * @returns True if the key has one of the lazy prefixes
+   * @private
+   */
+  private isLazyKey(key: string): boolean {
+    return (this.options.lazyKeyPrefixes || []).some(prefix => key.startsWith(prefix));
+  }
+
+  /**
+   * Get the serialized value of a key from memory
+   * @param key Storage key
+   * @returns Serialized value, or undefined if not in memory
+   * @private
+   */
+  private getCached(key: string): string | undefined {
+    return this.isLazyKey(key) ? this.lazyCache.get(key) : this.cache.get(key);
+  }
+
+  /**
+   * Keep the serialized value of a key in memory
+   * Lazy values beyond lazyCacheSize are evicted, least recently used first.
+   * @param key Storage key
+   * @param serialized Serialized value
+   * @private
+   */
+  private setCached(key: string, serialized: string): void {
+    if (!this.isLazyKey(key)) {
+      this.cache.set(key, serialized);
+      return;
+    }
+
+    this.lazyCache.delete(key);
+    this.lazyCache.set(key, serialized);
+
+    const limit = this.options.lazyCacheSize ?? this.DEFAULT_LAZY_CACHE_SIZE;
+    while (this.lazyCache.size > limit) {
+      this.lazyCache.delete(this.lazyCache.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Remove the value of a key from memory
+   * @param key Storage key
+   * @private
+   */
+  private deleteCached(key: string): void {
+    this.cache.delete(key);
+    this.lazyCache.delete(key);
+  }
+
+  /**
+   * Queue a write against the async adapter after all earlier writes
+   * @param description Operation description used in error reports
+   * @param write Function performing the write
+   * @param onFailure Function undoing the write's effect on the cache
+   * @private
+   */
+  private enqueue(description: string, write: () => Promise<boolean>, onFailure?: () => void): void {
+    const writeNumber = ++this.queuedWrites;
+    const fail = (error?: unknown) => {
+      this.lastFailedWrite = writeNumber;
+      onFailure?.();
+      this.errorHandler.handle(
+        new AppError(
+          ErrorType.STORAGE,
+          `Failed to ${description} in async storage`,
+          error
+        )
+      );
+    };
+
+    this.pendingWrites = this.pendingWrites
+      .then(write)
+      .then(success => {
+        if (!success) fail();
+      }, fail);
+  }
+}
@@ -0,0 +1,215 @@
+import { IRemoteStorageAdapter } from './IRemoteStorageAdapter';
+import {
+  REMOTE_STORAGE_ROUTES,
+  ComponentListResponse,
+  ComponentLoadResponse,
+  ComponentSaveRequest,
+  ComponentSaveResponse,
+  RemoteStorageErrorResponse
+} from './RemoteStorageContract';
+import { AppError, ErrorType } from '../errors/IErrorHandler';
+import { ComponentMetadata } from '../models/ComponentMetadata';
+import { StorageComponentContent } from '../models/index';
+import { reviveMetadataDates } from '../utils/metadata';
+
+/**
+ * HTTP result returned by the fetch function
+ */
+export type RemoteFetchResult = Awaited<ReturnType<typeof fetch>>;
+
+/**
+ * Fetch function signature used by the remote adapter
+ */
+export type RemoteFetchFunction = (url: string, init?: RequestInit) => Promise<RemoteFetchResult>;
+
+/**
+ * Configuration options for the HTTP remote storage adapter
+ */
+export interface RemoteStorageOptions {
+  /**
+   * Base URL of the remote storage endpoint (e.g. https://example.edu/api)
+   */
+  baseUrl: string;
+
+  /**
+   * Additional headers sent with every request (e.g. authorization)
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Request timeout in milliseconds
+   */
+  timeoutMs?: number;
+
+  /**
+   * Fetch implementation (defaults to the global fetch)
+   */
+  fetch?: RemoteFetchFunction;
+}
+
+/**
+ * HTTP remote storage adapter implementation
+ * Talks to an endpoint implementing the REST contract in RemoteStorageContract
+ */
+export class HttpRemoteStorageAdapter implements IRemoteStorageAdapter {
+  /**
+   * Default request timeout in milliseconds
+   * @private
+   */
+  private readonly DEFAULT_TIMEOUT_MS = 10000;
+
+  /**
+   * Creates a new HTTP remote storage adapter
+   * @param options Endpoint and transport options
+   */
+  constructor(private options: RemoteStorageOptions) {}
+
+  /**
+   * List all components stored remotely
+   * @returns Promise resolving to component metadata
+   */
+  public async listComponents(): Promise<ComponentMetadata[]> {
+    const { body } = await this.request<ComponentListResponse>('GET', REMOTE_STORAGE_ROUTES.COMPONENTS);
+    return (body?.components || []).map(reviveMetadataDates);
+  }
+
+  /**
+   * Load a component's content from the remote store
+   * @param id Component ID
+   * @returns Promise resolving to the component content, or null if not found
+   */
+  public async loadComponent(id: string): Promise<StorageComponentContent | null> {
+    const { status, body } = await this.request<ComponentLoadResponse>('GET', REMOTE_STORAGE_ROUTES.component(id));
+
+    if (status === 404 || !body) {
+      return null;
+    }
+
+    return body.componentContent;
+  }
+
+  /**
+   * Save a component to the remote store
+   * @param metadata Component metadata
+   * @param content Component content
+   * @returns Promise resolving to the metadata as stored remotely
+   */
+  public async saveComponent(
+    metadata: ComponentMetadata,
+    content: StorageComponentContent
+  ): Promise<ComponentMetadata> {
+    const payload: ComponentSaveRequest = { metadata, componentContent: content };
+    const { body } = await this.request<ComponentSaveResponse>(
+      'PUT',
+      REMOTE_STORAGE_ROUTES.component(metadata.id),
+      payload
+    );
+
+    return reviveMetadataDates(body?.metadata || metadata);
+  }
+
+  /**
+   * Delete a component from the remote store
+   * @param id Component ID
+   * @returns Promise resolving to true if deleted, false if it did not exist
+   */
+  public async deleteComponent(id: string): Promise<boolean> {
+    const { status } = await this.request<void>('DELETE', REMOTE_STORAGE_ROUTES.component(id));
+    return status !== 404;
+  }
+
+  /**
+   * Perform a JSON request against the endpoint
+   * A 404 status is returned to the caller; any other failure throws
+   * @param method HTTP method
+   * @param path Route relative to the base URL
+   * @param body Optional JSON request body
+   * @returns Promise resolving to the status and parsed body
+   * @throws AppError with NETWORK type on transport errors, timeouts and error statuses
+   * @private
+   */
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<{ status: number; body: T | null }> {
+    const url = this.options.baseUrl.replace(/\/+$/, '') + path;
+    const fetchFn = this.options.fetch ?? ((input: string, init?: RequestInit) => fetch(input, init));
+    const controller = new AbortController();
+    const timeoutMs = this.options.timeoutMs ?? this.DEFAULT_TIMEOUT_MS;
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const isTimeout = (error: unknown) => error instanceof Error && error.name === 'AbortError';
+    const timeoutError = (error: unknown) => new AppError(
+      ErrorType.NETWORK,
+      `Remote storage request timed out after ${timeoutMs}ms: ${method} ${url}`,
+      { method, url, originalError: error }
+    );
+
+    // The timeout covers reading the body as well as receiving the headers
+    try {
+      let response: RemoteFetchResult;
+      try {
+        response = await fetchFn(url, {
+          method,
+          headers: {
+            'Accept': 'application/json',
+            ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+            ...this.options.headers
+          },
+          body: body !== undefined ? JSON.stringify(body) : undefined,
+          signal: controller.signal
+        });
+      } catch (error) {
+        throw isTimeout(error) ? timeoutError(error) : new AppError(
+          ErrorType.NETWORK,
+          `Remote storage request failed: ${method} ${url}`,
+          { method, url, originalError: error }
+        );
+      }
+
+      if (response.status === 404) {
+        return { status: 404, body: null };
+      }
+
+      if (!response.ok) {
+        const errorBody = await this.parseErrorBody(response);
+        throw new AppError(
+          ErrorType.NETWORK,
+          `Remote storage request failed with status ${response.status}: ${errorBody?.error || response.statusText}`,
+          { method, url, status: response.status }
+        );
+      }
+
+      if (response.status === 204) {
+        return { status: 204, body: null };
+      }
+
+      try {
+        return { status: response.status, body: await response.json() as T };
+      } catch (error) {
+        throw isTimeout(error) ? timeoutError(error) : new AppError(
+          ErrorType.NETWORK,
+          `Remote storage returned an invalid response: ${method} ${url}`,
+          { method, url, status: response.status, originalError: error }
+        );
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Parse an error response body, tolerating empty or invalid bodies
+   * @param response Fetch response
+   * @returns Parsed body or null
+   * @private
+   */
+  private async parseErrorBody(response: RemoteFetchResult): Promise<RemoteStorageErrorResponse | null> {
+    try {
+      const text = await response.text();
+      return text ? JSON.parse(text) : null;
+    } catch {
+      return null;
+    }
+  }
+}
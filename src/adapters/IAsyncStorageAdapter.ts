@@ -0,0 +1,47 @@
+/**
+ * Asynchronous storage adapter interface
+ * Async sibling of IStorageAdapter for storage mechanisms that cannot be
+ * accessed synchronously (e.g. IndexedDB)
+ */
+export interface IAsyncStorageAdapter {
+  /**
+   * Get an item from storage
+   * @param key Storage key
+   * @returns Promise resolving to the stored value or null if not found
+   */
+  getItem<T>(key: string): Promise<T | null>;
+
+  /**
+   * Store an item
+   * @param key Storage key
+   * @param value Value to store
+   * @returns Promise resolving to true if successful
+   */
+  setItem<T>(key: string, value: T): Promise<boolean>;
+
+  /**
+   * Remove an item from storage
+   * @param key Storage key
+   * @returns Promise resolving to true if successful
+   */
+  removeItem(key: string): Promise<boolean>;
+
+  /**
+   * Clear all items from storage
+   * @returns Promise resolving to true if successful
+   */
+  clear(): Promise<boolean>;
+
+  /**
+   * Check if a key exists in storage
+   * @param key Storage key
+   * @returns Promise resolving to true if key exists
+   */
+  hasItem(key: string): Promise<boolean>;
+
+  /**
+   * Get all keys currently in storage
+   * @returns Promise resolving to an array of storage keys
+   */
+  keys(): Promise<string[]>;
+}
@@ -0,0 +1,37 @@
+import { IStorageAdapter } from './IStorageAdapter';
+
+/**
+ * Storage adapter that accepts writes synchronously and persists them later
+ * Successful sync results only mean a write was accepted; flush() reports
+ * whether it reached the underlying storage.
+ */
+export interface IBufferedStorageAdapter extends IStorageAdapter {
+  /**
+   * Get an item, reading it from the underlying storage if it is not in memory
+   * @param key Storage key
+   * @returns Promise resolving to the stored value or null if not found
+   */
+  getItemAsync<T>(key: string): Promise<T | null>;
+
+  /**
+   * Wait for all accepted writes to be persisted
+   * @returns Promise resolving to false if any write since the last flush failed
+   */
+  flush(): Promise<boolean>;
+}
+
+/**
+ * Options for AsyncStorageAdapterBridge
+ */
+export interface AsyncStorageBridgeOptions {
+  /**
+   * Key prefixes whose values are not loaded into memory by load()
+   * Read them with getItemAsync(); sync reads only see recently used values.
+   */
+  lazyKeyPrefixes?: string[];
+
+  /**
+   * Number of lazily loaded values kept in memory after use (defaults to 20)
+   */
+  lazyCacheSize?: number;
+}
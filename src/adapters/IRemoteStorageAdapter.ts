@@ -0,0 +1,40 @@
+import { ComponentMetadata } from '../models/ComponentMetadata';
+import { StorageComponentContent } from '../models/index';
+
+/**
+ * Remote storage adapter interface
+ * Abstracts a remote component store for components with locationType 'remote'
+ */
+export interface IRemoteStorageAdapter {
+  /**
+   * List all components stored remotely
+   * @returns Promise resolving to component metadata
+   * @throws AppError with type ErrorType.NETWORK if the request fails
+   */
+  listComponents(): Promise<ComponentMetadata[]>;
+
+  /**
+   * Load a component's content from the remote store
+   * @param id Component ID
+   * @returns Promise resolving to the component content, or null if not found
+   * @throws AppError with type ErrorType.NETWORK if the request fails
+   */
+  loadComponent(id: string): Promise<StorageComponentContent | null>;
+
+  /**
+   * Save a component to the remote store
+   * @param metadata Component metadata
+   * @param content Component content
+   * @returns Promise resolving to the metadata as stored remotely
+   * @throws AppError with type ErrorType.NETWORK if the request fails
+   */
+  saveComponent(metadata: ComponentMetadata, content: StorageComponentContent): Promise<ComponentMetadata>;
+
+  /**
+   * Delete a component from the remote store
+   * @param id Component ID
+   * @returns Promise resolving to true if deleted, false if it did not exist
+   * @throws AppError with type ErrorType.NETWORK if the request fails
+   */
+  deleteComponent(id: string): Promise<boolean>;
+}
@@ -0,0 +1,205 @@
+import { IAsyncStorageAdapter } from './IAsyncStorageAdapter';
+
+/**
+ * IndexedDB adapter implementation
+ * Stores values in a single object store keyed by the same storage keys
+ * used with localStorage, so the devpreview_* key schema is preserved
+ */
+export class IndexedDBStorageAdapter implements IAsyncStorageAdapter {
+  /**
+   * Pending or open database connection
+   * @private
+   */
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Creates a new IndexedDB storage adapter
+   * @param dbName Name of the IndexedDB database
+   * @param storeName Name of the object store holding the items
+   * @param factory Optional IDBFactory (defaults to the global indexedDB)
+   */
+  constructor(
+    private readonly dbName: string = 'devpreview',
+    private readonly storeName: string = 'devpreview_items',
+    private readonly factory?: IDBFactory
+  ) {}
+
+  /**
+   * Get an item from IndexedDB
+   * @param key Storage key
+   * @returns Promise resolving to the stored value or null if not found
+   */
+  public async getItem<T>(key: string): Promise<T | null> {
+    try {
+      const item = await this.withStore<T | undefined>('readonly', store => store.get(key));
+      return item === undefined ? null : item;
+    } catch (error) {
+      console.error(`Failed to get item '${key}' from IndexedDB:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Store an item in IndexedDB
+   * @param key Storage key
+   * @param value Value to store
+   * @returns Promise resolving to true if successful
+   */
+  public async setItem<T>(key: string, value: T): Promise<boolean> {
+    try {
+      await this.withStore('readwrite', store => store.put(value, key));
+      return true;
+    } catch (error) {
+      console.error(`Failed to set item '${key}' in IndexedDB:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove an item from IndexedDB
+   * @param key Storage key
+   * @returns Promise resolving to true if successful
+   */
+  public async removeItem(key: string): Promise<boolean> {
+    try {
+      await this.withStore('readwrite', store => store.delete(key));
+      return true;
+    } catch (error) {
+      console.error(`Failed to remove item '${key}' from IndexedDB:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Clear all items from the object store
+   * @returns Promise resolving to true if successful
+   */
+  public async clear(): Promise<boolean> {
+    try {
+      await this.withStore('readwrite', store => store.clear());
+      return true;
+    } catch (error) {
+      console.error('Failed to clear IndexedDB store:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Check if a key exists in IndexedDB
+   * @param key Storage key
+   * @returns Promise resolving to true if key exists
+   */
+  public async hasItem(key: string): Promise<boolean> {
+    try {
+      const count = await this.withStore('readonly', store => store.count(key));
+      return count > 0;
+    } catch (error) {
+      console.error(`Failed to check item '${key}' in IndexedDB:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Get all keys currently in the object store
+   * @returns Promise resolving to an array of storage keys
+   */
+  public async keys(): Promise<string[]> {
+    try {
+      const keys = await this.withStore('readonly', store => store.getAllKeys());
+      return keys.map(key => String(key));
+    } catch (error) {
+      console.error('Failed to list keys in IndexedDB:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Close the database connection
+   * A new connection is opened on the next operation
+   */
+  public async close(): Promise<void> {
+    if (!this.dbPromise) return;
+
+    const pending = this.dbPromise;
+    this.dbPromise = null;
+
+    try {
+      (await pending).close();
+    } catch {
+      // Connection never opened, nothing to close
+    }
+  }
+
+  /**
+   * Open the database, creating the object store on first use
+   * @returns Promise resolving to the open database
+   * @private
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (this.dbPromise) {
+      return this.dbPromise;
+    }
+
+    const factory = this.factory ?? (typeof indexedDB !== 'undefined' ? indexedDB : undefined);
+    if (!factory) {
+      return Promise.reject(new Error('IndexedDB is not available in this environment'));
+    }
+
+    this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = factory.open(this.dbName, 1);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(this.storeName)) {
+          db.createObjectStore(this.storeName);
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+
+        // Release the connection if another tab upgrades the database
+        db.onversionchange = () => {
+          db.close();
+          this.dbPromise = null;
+        };
+
+        resolve(db);
+      };
+
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error(`Opening database '${this.dbName}' is blocked`));
+    });
+
+    // Allow a later operation to retry if opening failed
+    this.dbPromise.catch(() => {
+      this.dbPromise = null;
+    });
+
+    return this.dbPromise;
+  }
+
+  /**
+   * Run a single request against the object store
+   * Resolves once the surrounding transaction has completed
+   * @param mode Transaction mode
+   * @param operation Function issuing the request against the store
+   * @returns Promise resolving to the request result
+   * @private
+   */
+  private async withStore<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.openDatabase();
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+    });
+  }
+}
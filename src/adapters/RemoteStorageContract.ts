@@ -0,0 +1,86 @@
+import { ComponentMetadata } from '../models/ComponentMetadata';
+import { StorageComponentContent } from '../models/index';
+
+/**
+ * REST contract for the remote component storage endpoint
+ * See docs/services/RemoteStorageApi.md for the full description.
+ *
+ * All routes are relative to the configured base URL and exchange JSON.
+ * Dates are transferred as ISO 8601 strings.
+ */
+export const REMOTE_STORAGE_ROUTES = {
+  /**
+   * GET: list all remote components
+   * Response: ComponentListResponse
+   */
+  COMPONENTS: '/components',
+
+  /**
+   * GET: load a component (ComponentLoadResponse, 404 if missing)
+   * PUT: save a component (ComponentSaveRequest → ComponentSaveResponse)
+   * DELETE: delete a component (204, 404 if missing)
+   * @param id Component ID
+   * @returns Route for a single component
+   */
+  component: (id: string): string => `/components/${encodeURIComponent(id)}`
+};
+
+/**
+ * Response body of GET /components
+ */
+export interface ComponentListResponse {
+  /**
+   * Metadata of every component stored remotely
+   */
+  components: ComponentMetadata[];
+}
+
+/**
+ * Response body of GET /components/:id
+ */
+export interface ComponentLoadResponse {
+  /**
+   * Component metadata
+   */
+  metadata: ComponentMetadata;
+
+  /**
+   * Component content
+   */
+  componentContent: StorageComponentContent;
+}
+
+/**
+ * Request body of PUT /components/:id
+ */
+export interface ComponentSaveRequest {
+  /**
+   * Component metadata (its id must match the route)
+   */
+  metadata: ComponentMetadata;
+
+  /**
+   * Component content
+   */
+  componentContent: StorageComponentContent;
+}
+
+/**
+ * Response body of PUT /components/:id
+ */
+export interface ComponentSaveResponse {
+  /**
+   * Component metadata as stored by the server
+   */
+  metadata: ComponentMetadata;
+}
+
+/**
+ * Error body returned with any non-2xx status
+ */
+export interface RemoteStorageErrorResponse {
+  /**
+   * Human-readable error message
+   */
+  error: string;
+}
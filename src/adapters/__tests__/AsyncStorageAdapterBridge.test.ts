@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { AsyncStorageAdapterBridge } from '../AsyncStorageAdapterBridge';
+import { IndexedDBStorageAdapter } from '../IndexedDBStorageAdapter';
+import { IAsyncStorageAdapter } from '../IAsyncStorageAdapter';
+import { IErrorHandler, ErrorType } from '../../errors/IErrorHandler';
+
+describe('AsyncStorageAdapterBridge', () => {
+  let asyncAdapter: IndexedDBStorageAdapter;
+  let bridge: AsyncStorageAdapterBridge;
+  let errorHandler: IErrorHandler;
+
+  beforeEach(async () => {
+    errorHandler = {
+      handle: vi.fn(),
+      createAndHandle: vi.fn(),
+      handleIframeError: vi.fn(),
+      handleMathApiError: vi.fn(),
+      attemptRecovery: vi.fn()
+    };
+    asyncAdapter = new IndexedDBStorageAdapter('bridge-db', 'test-store', new IDBFactory());
+    bridge = new AsyncStorageAdapterBridge(asyncAdapter, errorHandler);
+    await bridge.load();
+  });
+
+  afterEach(async () => {
+    await asyncAdapter.close();
+  });
+
+  it('should serve writes synchronously and persist them in the background', async () => {
+    // Arrange
+    const testObj = { name: 'test', value: 123 };
+
+    // Act
+    const result = bridge.setItem('test-key', testObj);
+
+    // Assert
+    expect(result).toBe(true);
+    expect(bridge.getItem('test-key')).toEqual(testObj);
+
+    expect(await bridge.flush()).toBe(true);
+    expect(await asyncAdapter.getItem('test-key')).toEqual(testObj);
+  });
+
+  it('should return copies rather than cached references', () => {
+    // Arrange
+    bridge.setItem('test-key', { value: 1 });
+
+    // Act
+    const first = bridge.getItem<{ value: number }>('test-key')!;
+    first.value = 2;
+
+    // Assert
+    expect(bridge.getItem('test-key')).toEqual({ value: 1 });
+  });
+
+  it('should load existing items from the async adapter', async () => {
+    // Arrange
+    await asyncAdapter.setItem('devpreview_last_edited', 'abc');
+    const reloaded = new AsyncStorageAdapterBridge(asyncAdapter, errorHandler);
+
+    // Act
+    await reloaded.load();
+
+    // Assert
+    expect(reloaded.hasItem('devpreview_last_edited')).toBe(true);
+    expect(reloaded.getItem('devpreview_last_edited')).toBe('abc');
+  });
+
+  it('should apply removals and clears in order', async () => {
+    // Arrange
+    bridge.setItem('key1', 'value1');
+    bridge.setItem('key2', 'value2');
+
+    // Act
+    bridge.removeItem('key1');
+    bridge.clear();
+    bridge.setItem('key3', 'value3');
+    await bridge.flush();
+
+    // Assert
+    expect(bridge.hasItem('key1')).toBe(false);
+    expect(bridge.hasItem('key2')).toBe(false);
+    expect(await asyncAdapter.keys()).toEqual(['key3']);
+  });
+
+  it('should report failed background writes and roll back the cache', async () => {
+    // Arrange
+    const failingAdapter = {
+      setItem: vi.fn()
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false)
+        .mockRejectedValueOnce(new Error('QuotaExceededError'))
+    } as unknown as IAsyncStorageAdapter;
+    const failingBridge = new AsyncStorageAdapterBridge(failingAdapter, errorHandler);
+    failingBridge.setItem('saved-key', 'saved');
+    expect(await failingBridge.flush()).toBe(true);
+
+    // Act
+    const result = failingBridge.setItem('saved-key', 'changed');
+    failingBridge.setItem('new-key', 'value');
+    const persisted = await failingBridge.flush();
+
+    // Assert
+    expect(result).toBe(true);
+    expect(persisted).toBe(false);
+    expect(await failingBridge.flush()).toBe(true);
+    expect(failingBridge.getItem('saved-key')).toBe('saved');
+    expect(failingBridge.hasItem('new-key')).toBe(false);
+    expect(errorHandler.handle).toHaveBeenCalledTimes(2);
+    expect(errorHandler.handle).toHaveBeenCalledWith(expect.objectContaining({
+      type: ErrorType.STORAGE,
+      message: "Failed to set item 'new-key' in async storage"
+    }));
+  });
+
+  it('should keep values under lazy prefixes out of memory until read', async () => {
+    // Arrange
+    await asyncAdapter.setItem('devpreview_components', ['a', 'b']);
+    await asyncAdapter.setItem('devpreview_component_a', { html: 'a' });
+    await asyncAdapter.setItem('devpreview_component_b', { html: 'b' });
+    const lazyBridge = new AsyncStorageAdapterBridge(asyncAdapter, errorHandler, {
+      lazyKeyPrefixes: ['devpreview_component_'],
+      lazyCacheSize: 1
+    });
+    await lazyBridge.load();
+
+    // Act
+    const list = lazyBridge.getItem('devpreview_components');
+    const unloadedRead = () => lazyBridge.getItem('devpreview_component_a');
+    const loaded = await lazyBridge.getItemAsync('devpreview_component_a');
+    const cachedRead = lazyBridge.getItem('devpreview_component_a');
+    await lazyBridge.getItemAsync('devpreview_component_b');
+
+    // Assert
+    expect(list).toEqual(['a', 'b']);
+    expect(lazyBridge.hasItem('devpreview_component_a')).toBe(true);
+    expect(unloadedRead).toThrow(expect.objectContaining({ type: ErrorType.STORAGE }));
+    expect(loaded).toEqual({ html: 'a' });
+    expect(cachedRead).toEqual({ html: 'a' });
+    expect(unloadedRead).toThrow(expect.objectContaining({ type: ErrorType.STORAGE }));
+    expect(lazyBridge.getItem('devpreview_component_b')).toEqual({ html: 'b' });
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { HttpRemoteStorageAdapter } from '../HttpRemoteStorageAdapter';
+import { RemoteStorageStubServer } from '../../test/RemoteStorageStubServer';
+import { ErrorType } from '../../errors/IErrorHandler';
+import { ComponentMetadata } from '../../models/ComponentMetadata';
+import { StorageComponentContent } from '../../models/index';
+
+describe('HttpRemoteStorageAdapter', () => {
+  const metadata: ComponentMetadata = {
+    id: 'remote 1',
+    name: 'Remote Widget',
+    locationType: 'remote',
+    lastEdited: new Date('2025-01-01T00:00:00.000Z')
+  };
+
+  const content: StorageComponentContent = {
+    html: '<div>Remote</div>',
+    css: '',
+    js: '',
+    metadata: { desmos: { expressions: [] } }
+  };
+
+  let server: RemoteStorageStubServer;
+  let adapter: HttpRemoteStorageAdapter;
+
+  beforeEach(() => {
+    server = new RemoteStorageStubServer();
+    adapter = new HttpRemoteStorageAdapter({
+      baseUrl: server.baseUrl + '/',
+      headers: { Authorization: 'Bearer token' },
+      fetch: server.fetch
+    });
+  });
+
+  it('should save and load a component through the REST contract', async () => {
+    // Act
+    const saved = await adapter.saveComponent(metadata, content);
+    const loaded = await adapter.loadComponent('remote 1');
+
+    // Assert
+    expect(server.requests[0]).toEqual({
+      method: 'PUT',
+      path: '/components/remote%201',
+      body: { metadata: JSON.parse(JSON.stringify(metadata)), componentContent: content }
+    });
+    expect(saved.lastEdited).toBeInstanceOf(Date);
+    expect(loaded).toEqual(content);
+  });
+
+  it('should list components with revived dates', async () => {
+    // Arrange
+    await adapter.saveComponent(metadata, content);
+
+    // Act
+    const components = await adapter.listComponents();
+
+    // Assert
+    expect(components).toEqual([metadata]);
+  });
+
+  it('should return null when a component does not exist', async () => {
+    expect(await adapter.loadComponent('missing')).toBeNull();
+  });
+
+  it('should report whether a delete removed anything', async () => {
+    // Arrange
+    await adapter.saveComponent(metadata, content);
+
+    // Act & Assert
+    expect(await adapter.deleteComponent('remote 1')).toBe(true);
+    expect(await adapter.deleteComponent('remote 1')).toBe(false);
+  });
+
+  it('should throw NETWORK errors when the endpoint is unreachable', async () => {
+    // Arrange
+    server.setOffline(true);
+
+    // Act & Assert
+    await expect(adapter.listComponents()).rejects.toMatchObject({
+      type: ErrorType.NETWORK,
+      message: expect.stringContaining('GET https://stub.test/api/components')
+    });
+  });
+
+  it('should throw NETWORK errors for error statuses', async () => {
+    // Arrange
+    server.failNext(500);
+
+    // Act & Assert
+    await expect(adapter.saveComponent(metadata, content)).rejects.toMatchObject({
+      type: ErrorType.NETWORK,
+      message: expect.stringContaining('status 500: Stub failure 500'),
+      details: expect.objectContaining({ status: 500 })
+    });
+  });
+
+  it('should time out slow requests', async () => {
+    // Arrange
+    const slowAdapter = new HttpRemoteStorageAdapter({
+      baseUrl: server.baseUrl,
+      timeoutMs: 10,
+      fetch: (_url, init) => new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => {
+          reject(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+        });
+      })
+    });
+
+    // Act & Assert
+    await expect(slowAdapter.loadComponent('x')).rejects.toMatchObject({
+      type: ErrorType.NETWORK,
+      message: expect.stringContaining('timed out after 10ms')
+    });
+  });
+
+  it('should time out responses whose body stalls', async () => {
+    // Arrange
+    const stalledAdapter = new HttpRemoteStorageAdapter({
+      baseUrl: server.baseUrl,
+      timeoutMs: 10,
+      fetch: async (_url, init) => ({
+        ok: true,
+        status: 200,
+        json: () => new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => {
+            reject(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+          });
+        })
+      }) as unknown as Response
+    });
+
+    // Act & Assert
+    await expect(stalledAdapter.loadComponent('x')).rejects.toMatchObject({
+      type: ErrorType.NETWORK,
+      message: expect.stringContaining('timed out after 10ms')
+    });
+  });
+});
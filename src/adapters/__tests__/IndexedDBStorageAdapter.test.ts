@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { IndexedDBStorageAdapter } from '../IndexedDBStorageAdapter';
+
+describe('IndexedDBStorageAdapter', () => {
+  let adapter: IndexedDBStorageAdapter;
+
+  beforeEach(() => {
+    // Fresh in-memory IndexedDB for every test
+    adapter = new IndexedDBStorageAdapter('test-db', 'test-store', new IDBFactory());
+  });
+
+  afterEach(async () => {
+    await adapter.close();
+  });
+
+  it('should set and get an item', async () => {
+    // Arrange
+    const testObj = { name: 'test', value: 123 };
+
+    // Act
+    const setResult = await adapter.setItem('test-key', testObj);
+    const result = await adapter.getItem('test-key');
+
+    // Assert
+    expect(setResult).toBe(true);
+    expect(result).toEqual(testObj);
+  });
+
+  it('should return null for non-existent items', async () => {
+    // Act
+    const result = await adapter.getItem('non-existent');
+
+    // Assert
+    expect(result).toBeNull();
+  });
+
+  it('should remove an item', async () => {
+    // Arrange
+    await adapter.setItem('test-key', 'test-value');
+
+    // Act
+    const result = await adapter.removeItem('test-key');
+
+    // Assert
+    expect(result).toBe(true);
+    expect(await adapter.hasItem('test-key')).toBe(false);
+  });
+
+  it('should clear all items', async () => {
+    // Arrange
+    await adapter.setItem('key1', 'value1');
+    await adapter.setItem('key2', 'value2');
+
+    // Act
+    const result = await adapter.clear();
+
+    // Assert
+    expect(result).toBe(true);
+    expect(await adapter.keys()).toEqual([]);
+  });
+
+  it('should check if an item exists', async () => {
+    // Arrange
+    await adapter.setItem('existing-key', 'test');
+
+    // Act & Assert
+    expect(await adapter.hasItem('existing-key')).toBe(true);
+    expect(await adapter.hasItem('non-existent-key')).toBe(false);
+  });
+
+  it('should list stored keys using the devpreview key schema', async () => {
+    // Arrange
+    await adapter.setItem('devpreview_components', []);
+    await adapter.setItem('devpreview_component_abc', { html: '', css: '', js: '' });
+
+    // Act
+    const keys = await adapter.keys();
+
+    // Assert
+    expect(keys.sort()).toEqual(['devpreview_component_abc', 'devpreview_components']);
+  });
+
+  it('should persist values across connections', async () => {
+    // Arrange
+    const factory = new IDBFactory();
+    const first = new IndexedDBStorageAdapter('shared-db', 'test-store', factory);
+    await first.setItem('test-key', { large: 'x'.repeat(10000) });
+    await first.close();
+
+    // Act
+    const second = new IndexedDBStorageAdapter('shared-db', 'test-store', factory);
+    const result = await second.getItem<{ large: string }>('test-key');
+    await second.close();
+
+    // Assert
+    expect(result?.large.length).toBe(10000);
+  });
+
+  it('should handle errors when setting an item', async () => {
+    // Arrange
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    // Act - functions cannot be structured-cloned into IndexedDB
+    const result = await adapter.setItem('test-key', { fn: () => undefined });
+
+    // Assert
+    expect(result).toBe(false);
+    expect(consoleSpy).toHaveBeenCalled();
+  });
+});
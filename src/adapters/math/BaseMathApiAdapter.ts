@@ -0,0 +1,123 @@
+import { IMathApiAdapter, MathImageOptions } from './IMathApiAdapter';
+import { IErrorHandler, AppError, ErrorType } from '../../errors/IErrorHandler';
+
+/**
+ * Abstract base class for math API adapters
+ * Provides global API lookup and error reporting through handleMathApiError
+ */
+export abstract class BaseMathApiAdapter implements IMathApiAdapter {
+  /**
+   * Container the visualization is rendered into, set by initialize
+   */
+  protected container: HTMLElement | null = null;
+
+  /**
+   * Creates a new math API adapter
+   * @param errorHandler Error handler for reporting math API errors
+   * @param globalScope Object holding the math API globals (defaults to window)
+   */
+  constructor(
+    protected errorHandler: IErrorHandler,
+    protected globalScope: Record<string, any> = window as unknown as Record<string, any>
+  ) {}
+
+  /**
+   * Get the math API type handled by this adapter
+   * Must be implemented by derived classes
+   */
+  abstract getApiType(): string;
+
+  /**
+   * Get the version of the loaded math API
+   * Must be implemented by derived classes
+   */
+  abstract getApiVersion(): string;
+
+  /**
+   * Get the features this adapter supports
+   * Must be implemented by derived classes
+   */
+  abstract getSupportedFeatures(): string[];
+
+  /**
+   * Initialize the math API
+   * Must be implemented by derived classes
+   */
+  abstract initialize(container: HTMLElement, options?: Record<string, unknown>): Promise<void>;
+
+  /**
+   * Update the math content
+   * Must be implemented by derived classes
+   */
+  abstract updateContent(content: string): Promise<void>;
+
+  /**
+   * Get the current state of the math visualization
+   * Must be implemented by derived classes
+   */
+  abstract getState(): any;
+
+  /**
+   * Set the state of the math visualization
+   * Must be implemented by derived classes
+   */
+  abstract setState(state: any): Promise<void>;
+
+  /**
+   * Capture the visualization as a PNG image
+   * Must be implemented by derived classes
+   */
+  abstract captureImage(options?: MathImageOptions): Promise<string>;
+
+  /**
+   * Clean up resources used by the math API
+   * Must be implemented by derived classes
+   */
+  abstract destroy(): void;
+
+  /**
+   * Get a math API global, reporting an error if it has not been loaded
+   * @param name Global property name (e.g., 'Desmos')
+   * @returns The global value
+   * @throws AppError with MATH_API type if the global is missing
+   */
+  protected requireGlobal<T = any>(name: string): T {
+    const api = this.globalScope[name];
+
+    if (api === undefined || api === null) {
+      throw this.fail(`${name} is not loaded`, { globalProperty: name });
+    }
+
+    return api as T;
+  }
+
+  /**
+   * Report a math API error and create the error to throw
+   * @param message Error message
+   * @param details Error details
+   * @param error Original error, if any
+   * @returns AppError with MATH_API type
+   */
+  protected fail(message: string, details: Record<string, unknown> = {}, error?: unknown): AppError {
+    const fullDetails = error === undefined
+      ? details
+      : { ...details, originalError: error instanceof Error ? error.message : error };
+
+    this.errorHandler.handleMathApiError(this.getApiType(), message, fullDetails);
+
+    return new AppError(
+      ErrorType.MATH_API,
+      `Error in ${this.getApiType()} API: ${message}`,
+      { apiType: this.getApiType(), ...fullDetails }
+    );
+  }
+
+  /**
+   * Get the error message of an unknown thrown value
+   * @param error Thrown value
+   * @returns Error message
+   */
+  protected describeError(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
@@ -0,0 +1,187 @@
+import { BaseMathApiAdapter } from './BaseMathApiAdapter';
+import { MathImageOptions } from './IMathApiAdapter';
+
+/**
+ * Desmos calculator constructors by calculatorType option
+ */
+const DESMOS_CALCULATORS: Record<string, string> = {
+  graphing: 'GraphingCalculator',
+  scientific: 'ScientificCalculator',
+  fourfunction: 'FourFunctionCalculator',
+  geometry: 'Geometry'
+};
+
+/**
+ * Desmos API adapter
+ * Content is one LaTeX expression per line, or a JSON calculator state
+ */
+export class DesmosAdapter extends BaseMathApiAdapter {
+  private calculator: any = null;
+  private expressionIds: string[] = [];
+
+  /**
+   * Get the math API type handled by this adapter
+   */
+  getApiType(): string {
+    return 'desmos';
+  }
+
+  /**
+   * Get the version of the loaded Desmos API
+   */
+  getApiVersion(): string {
+    const version = this.globalScope.Desmos?.version;
+    return typeof version === 'string' || typeof version === 'number' ? String(version) : 'unknown';
+  }
+
+  /**
+   * Get the features this adapter supports
+   */
+  getSupportedFeatures(): string[] {
+    return ['expressions', 'state', 'image', 'graphing', 'scientific', 'fourfunction', 'geometry'];
+  }
+
+  /**
+   * Create a Desmos calculator in the container
+   * The calculatorType option selects graphing (default), scientific, fourfunction or geometry;
+   * other options are passed to the Desmos constructor.
+   * @param container The container element
+   * @param options Desmos calculator options
+   * @throws AppError with MATH_API type if Desmos is not loaded or the calculator cannot be created
+   */
+  async initialize(container: HTMLElement, options: Record<string, unknown> = {}): Promise<void> {
+    const Desmos = this.requireGlobal('Desmos');
+    const { calculatorType = 'graphing', ...calculatorOptions } = options;
+    const constructorName = DESMOS_CALCULATORS[String(calculatorType)];
+
+    if (!constructorName || typeof Desmos[constructorName] !== 'function') {
+      throw this.fail(`Unsupported calculator type: ${calculatorType}`, { calculatorType });
+    }
+
+    this.destroy();
+
+    try {
+      this.calculator = Desmos[constructorName](container, calculatorOptions);
+      this.container = container;
+    } catch (error) {
+      throw this.fail(`Failed to create calculator: ${this.describeError(error)}`, { calculatorType }, error);
+    }
+  }
+
+  /**
+   * Replace the calculator's expressions
+   * Each non-empty line is a LaTeX expression; content starting with '{' is applied as a state.
+   * @param content Expressions or JSON state
+   * @throws AppError with MATH_API type if the calculator rejects the content
+   */
+  async updateContent(content: string): Promise<void> {
+    const calculator = this.requireCalculator();
+
+    if (content.trim().startsWith('{')) {
+      let state: unknown;
+      try {
+        state = JSON.parse(content);
+      } catch (error) {
+        throw this.fail(`Invalid state JSON: ${this.describeError(error)}`, {}, error);
+      }
+      return this.setState(state);
+    }
+
+    const expressions = content
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line !== '')
+      .map((latex, index) => ({ id: `expr-${index + 1}`, latex }));
+
+    try {
+      const staleIds = this.expressionIds.slice(expressions.length);
+      if (staleIds.length > 0) {
+        calculator.removeExpressions(staleIds.map(id => ({ id })));
+      }
+      calculator.setExpressions(expressions);
+      this.expressionIds = expressions.map(expression => expression.id);
+    } catch (error) {
+      throw this.fail(`Failed to set expressions: ${this.describeError(error)}`, { expressions }, error);
+    }
+  }
+
+  /**
+   * Get the calculator state
+   * @returns Desmos state object
+   * @throws AppError with MATH_API type if the calculator is not initialized
+   */
+  getState(): any {
+    return this.requireCalculator().getState();
+  }
+
+  /**
+   * Set the calculator state
+   * @param state Desmos state object
+   * @throws AppError with MATH_API type if Desmos rejects the state
+   */
+  async setState(state: any): Promise<void> {
+    const calculator = this.requireCalculator();
+
+    try {
+      calculator.setState(state);
+      this.expressionIds = [];
+    } catch (error) {
+      throw this.fail(`Failed to set state: ${this.describeError(error)}`, {}, error);
+    }
+  }
+
+  /**
+   * Capture the graph as a PNG image
+   * @param options Image size
+   * @returns Promise resolving to a PNG data URL
+   * @throws AppError with MATH_API type if the calculator cannot take screenshots
+   */
+  async captureImage(options: MathImageOptions = {}): Promise<string> {
+    const calculator = this.requireCalculator();
+
+    if (typeof calculator.asyncScreenshot !== 'function') {
+      throw this.fail('Screenshots are not supported by this calculator');
+    }
+
+    return new Promise<string>((resolve, reject) => {
+      try {
+        calculator.asyncScreenshot({
+          width: options.width || this.container?.clientWidth || 400,
+          height: options.height || this.container?.clientHeight || 300
+        }, (dataUrl: string) => resolve(dataUrl));
+      } catch (error) {
+        reject(this.fail(`Failed to capture image: ${this.describeError(error)}`, {}, error));
+      }
+    });
+  }
+
+  /**
+   * Destroy the calculator
+   */
+  destroy(): void {
+    if (this.calculator) {
+      try {
+        this.calculator.destroy();
+      } catch (error) {
+        this.fail(`Failed to destroy calculator: ${this.describeError(error)}`, {}, error);
+      }
+    }
+
+    this.calculator = null;
+    this.container = null;
+    this.expressionIds = [];
+  }
+
+  /**
+   * Get the calculator, reporting an error if initialize has not completed
+   * @returns The Desmos calculator
+   * @throws AppError with MATH_API type if not initialized
+   * @private
+   */
+  private requireCalculator(): any {
+    if (!this.calculator) {
+      throw this.fail('Calculator is not initialized');
+    }
+    return this.calculator;
+  }
+}
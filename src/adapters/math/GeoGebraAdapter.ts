@@ -0,0 +1,188 @@
+import { BaseMathApiAdapter } from './BaseMathApiAdapter';
+import { MathImageOptions } from './IMathApiAdapter';
+
+/**
+ * GeoGebra Apps API adapter
+ * Content is one GeoGebra command per line; state is the base64-encoded construction
+ */
+export class GeoGebraAdapter extends BaseMathApiAdapter {
+  /**
+   * Default milliseconds to wait for the applet to load
+   * @private
+   */
+  private readonly DEFAULT_LOAD_TIMEOUT = 15000;
+
+  private api: any = null;
+
+  /**
+   * Get the math API type handled by this adapter
+   */
+  getApiType(): string {
+    return 'geogebra';
+  }
+
+  /**
+   * Get the version of the loaded GeoGebra applet
+   */
+  getApiVersion(): string {
+    try {
+      return this.api?.getVersion?.() || 'unknown';
+    } catch {
+      return 'unknown';
+    }
+  }
+
+  /**
+   * Get the features this adapter supports
+   */
+  getSupportedFeatures(): string[] {
+    return ['commands', 'state', 'image', 'graphing', 'geometry', '3d', 'cas'];
+  }
+
+  /**
+   * Inject a GeoGebra applet into the container and wait for it to load
+   * Options are passed to GGBApplet as applet parameters (e.g., appName, showToolBar);
+   * loadTimeout sets the milliseconds to wait for the applet.
+   * @param container The container element
+   * @param options GeoGebra applet parameters
+   * @throws AppError with MATH_API type if GGBApplet is not loaded or the applet fails to load
+   */
+  async initialize(container: HTMLElement, options: Record<string, unknown> = {}): Promise<void> {
+    const GGBApplet = this.requireGlobal('GGBApplet');
+    const { loadTimeout = this.DEFAULT_LOAD_TIMEOUT, ...parameters } = options;
+
+    this.destroy();
+
+    if (!container.id) {
+      container.id = `ggb-${Date.now().toString(36)}`;
+    }
+
+    this.api = await new Promise<any>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(this.fail('Applet did not load in time', { loadTimeout }));
+      }, Number(loadTimeout));
+
+      try {
+        const applet = new GGBApplet({
+          appName: 'graphing',
+          width: container.clientWidth || 800,
+          height: container.clientHeight || 600,
+          ...parameters,
+          appletOnLoad: (api: any) => {
+            clearTimeout(timer);
+            resolve(api);
+          }
+        }, true);
+        applet.inject(container.id);
+      } catch (error) {
+        clearTimeout(timer);
+        reject(this.fail(`Failed to create applet: ${this.describeError(error)}`, { parameters }, error));
+      }
+    });
+
+    this.container = container;
+  }
+
+  /**
+   * Replace the construction with the given commands
+   * @param content One GeoGebra command per line
+   * @throws AppError with MATH_API type if a command is rejected
+   */
+  async updateContent(content: string): Promise<void> {
+    const api = this.requireApi();
+    const commands = content.split('\n').map(line => line.trim()).filter(line => line !== '');
+
+    api.newConstruction();
+
+    for (const [index, command] of commands.entries()) {
+      let accepted: boolean;
+      try {
+        accepted = api.evalCommand(command);
+      } catch (error) {
+        throw this.fail(`Failed to run command: ${command}`, { command, line: index + 1 }, error);
+      }
+
+      if (!accepted) {
+        throw this.fail(`Invalid command: ${command}`, { command, line: index + 1 });
+      }
+    }
+  }
+
+  /**
+   * Get the construction as a base64 string
+   * @returns Base64-encoded .ggb construction
+   * @throws AppError with MATH_API type if the applet is not initialized
+   */
+  getState(): any {
+    return this.requireApi().getBase64();
+  }
+
+  /**
+   * Load a construction from a base64 string
+   * @param state Base64-encoded .ggb construction, as returned by getState
+   * @throws AppError with MATH_API type if the state is not a string or cannot be loaded
+   */
+  async setState(state: any): Promise<void> {
+    const api = this.requireApi();
+
+    if (typeof state !== 'string') {
+      throw this.fail('State must be a base64-encoded construction', { stateType: typeof state });
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      try {
+        api.setBase64(state, () => resolve());
+      } catch (error) {
+        reject(this.fail(`Failed to set state: ${this.describeError(error)}`, {}, error));
+      }
+    });
+  }
+
+  /**
+   * Capture the construction as a PNG image
+   * The applet exports at a scale matching the requested width.
+   * @param options Image size
+   * @returns Promise resolving to a PNG data URL
+   * @throws AppError with MATH_API type if the applet is not initialized or the export fails
+   */
+  async captureImage(options: MathImageOptions = {}): Promise<string> {
+    const api = this.requireApi();
+    const currentWidth = this.container?.clientWidth || 0;
+    const scale = options.width && currentWidth ? options.width / currentWidth : 1;
+
+    try {
+      return `data:image/png;base64,${api.getPNGBase64(scale, false, 72)}`;
+    } catch (error) {
+      throw this.fail(`Failed to capture image: ${this.describeError(error)}`, { scale }, error);
+    }
+  }
+
+  /**
+   * Remove the applet
+   */
+  destroy(): void {
+    if (this.api) {
+      try {
+        this.api.remove();
+      } catch (error) {
+        this.fail(`Failed to remove applet: ${this.describeError(error)}`, {}, error);
+      }
+    }
+
+    this.api = null;
+    this.container = null;
+  }
+
+  /**
+   * Get the applet API, reporting an error if initialize has not completed
+   * @returns The GeoGebra applet API
+   * @throws AppError with MATH_API type if not initialized
+   * @private
+   */
+  private requireApi(): any {
+    if (!this.api) {
+      throw this.fail('Applet is not initialized');
+    }
+    return this.api;
+  }
+}
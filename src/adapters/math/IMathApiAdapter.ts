@@ -0,0 +1,114 @@
+/**
+ * Options for capturing a math visualization as an image
+ */
+export interface MathImageOptions {
+  /**
+   * Image width in pixels (defaults to the container width)
+   */
+  width?: number;
+
+  /**
+   * Image height in pixels (defaults to the container height)
+   */
+  height?: number;
+}
+
+/**
+ * Common interface for all math API adapters
+ * Provides a consistent way to interact with different math visualization tools
+ */
+export interface IMathApiAdapter {
+  /**
+   * Get the math API type handled by this adapter (e.g., 'desmos', 'geogebra')
+   * @returns Math API type
+   */
+  getApiType(): string;
+
+  /**
+   * Get the version of the loaded math API
+   * @returns Version string or 'unknown' if not determinable
+   */
+  getApiVersion(): string;
+
+  /**
+   * Get the features this adapter supports
+   * @returns Array of feature identifiers
+   */
+  getSupportedFeatures(): string[];
+
+  /**
+   * Initialize the math API
+   * @param container The container element where the math visualization will be rendered
+   * @param options Initialization options specific to the math API
+   * @returns Promise that resolves when initialization is complete
+   * @throws AppError with type ErrorType.MATH_API if the API is not loaded or fails to start
+   */
+  initialize(container: HTMLElement, options?: Record<string, unknown>): Promise<void>;
+
+  /**
+   * Update the math content
+   * @param content The math content to render (format depends on the specific API)
+   * @returns Promise that resolves when the update is complete
+   * @throws AppError with type ErrorType.MATH_API if the content is rejected
+   */
+  updateContent(content: string): Promise<void>;
+
+  /**
+   * Get the current state of the math visualization
+   * @returns The current state as a serializable value
+   * @throws AppError with type ErrorType.MATH_API if the adapter is not initialized
+   */
+  getState(): any;
+
+  /**
+   * Set the state of the math visualization
+   * @param state The state to set, as returned by getState
+   * @returns Promise that resolves when the state is set
+   * @throws AppError with type ErrorType.MATH_API if the state is rejected
+   */
+  setState(state: any): Promise<void>;
+
+  /**
+   * Capture the visualization as a PNG image
+   * @param options Image size
+   * @returns Promise resolving to a PNG data URL
+   * @throws AppError with type ErrorType.MATH_API if the adapter is not initialized or cannot capture images
+   */
+  captureImage(options?: MathImageOptions): Promise<string>;
+
+  /**
+   * Clean up resources used by the math API
+   */
+  destroy(): void;
+}
+
+/**
+ * Function that creates an adapter for a math API type
+ */
+export type MathApiAdapterCreator = () => IMathApiAdapter;
+
+/**
+ * Factory for math API adapters, keyed by PreviewConfig.mathApiType
+ */
+export interface IMathApiAdapterFactory {
+  /**
+   * Create an adapter for a math API type
+   * @param type Math API type (e.g., 'desmos', 'geogebra'), case-insensitive
+   * @returns A new, uninitialized adapter
+   * @throws AppError with type ErrorType.MATH_API if the type is not supported
+   */
+  createAdapter(type: string): IMathApiAdapter;
+
+  /**
+   * Register or replace the adapter for a math API type
+   * @param type Math API type
+   * @param creator Function that creates the adapter
+   */
+  registerAdapter(type: string, creator: MathApiAdapterCreator): void;
+
+  /**
+   * Get the supported math API types
+   * @returns Array of math API types
+   */
+  getSupportedTypes(): string[];
+}
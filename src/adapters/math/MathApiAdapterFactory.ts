@@ -0,0 +1,64 @@
+import { IMathApiAdapter, IMathApiAdapterFactory, MathApiAdapterCreator } from './IMathApiAdapter';
+import { DesmosAdapter } from './DesmosAdapter';
+import { GeoGebraAdapter } from './GeoGebraAdapter';
+import { IErrorHandler, AppError, ErrorType } from '../../errors/IErrorHandler';
+
+/**
+ * Math API adapter factory implementation
+ * Creates adapters by PreviewConfig.mathApiType, with Desmos and GeoGebra registered by default
+ */
+export class MathApiAdapterFactory implements IMathApiAdapterFactory {
+  private creators: Map<string, MathApiAdapterCreator> = new Map();
+
+  /**
+   * Creates a new MathApiAdapterFactory
+   * @param errorHandler Error handler passed to the adapters
+   * @param globalScope Object holding the math API globals (defaults to window)
+   */
+  constructor(
+    private errorHandler: IErrorHandler,
+    globalScope: Record<string, any> = window as unknown as Record<string, any>
+  ) {
+    this.registerAdapter('desmos', () => new DesmosAdapter(errorHandler, globalScope));
+    this.registerAdapter('geogebra', () => new GeoGebraAdapter(errorHandler, globalScope));
+  }
+
+  /**
+   * Create an adapter for a math API type
+   * @param type Math API type, case-insensitive
+   * @returns A new, uninitialized adapter
+   * @throws AppError with MATH_API type if the type is not supported
+   */
+  public createAdapter(type: string): IMathApiAdapter {
+    const creator = this.creators.get((type || '').toLowerCase());
+
+    if (!creator) {
+      const details = { supportedTypes: this.getSupportedTypes() };
+      this.errorHandler.handleMathApiError(type, 'Unsupported math API type', details);
+      throw new AppError(
+        ErrorType.MATH_API,
+        `Unsupported math API type: ${type}`,
+        { apiType: type, ...details }
+      );
+    }
+
+    return creator();
+  }
+
+  /**
+   * Register or replace the adapter for a math API type
+   * @param type Math API type
+   * @param creator Function that creates the adapter
+   */
+  public registerAdapter(type: string, creator: MathApiAdapterCreator): void {
+    this.creators.set(type.toLowerCase(), creator);
+  }
+
+  /**
+   * Get the supported math API types
+   * @returns Array of math API types
+   */
+  public getSupportedTypes(): string[] {
+    return Array.from(this.creators.keys());
+  }
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DesmosAdapter } from '../DesmosAdapter';
+import { IErrorHandler, ErrorType } from '../../../errors/IErrorHandler';
+
+/**
+ * Fake Desmos calculator recording the calls the adapter makes
+ */
+function createFakeCalculator() {
+  let state: any = { version: 11, expressions: { list: [] } };
+
+  return {
+    setExpressions: vi.fn(),
+    removeExpressions: vi.fn(),
+    getState: vi.fn(() => state),
+    setState: vi.fn((next: any) => {
+      if (!next || typeof next !== 'object') throw new Error('Invalid state');
+      state = next;
+    }),
+    asyncScreenshot: vi.fn((_options: any, callback: (dataUrl: string) => void) => callback('data:image/png;base64,AAAA')),
+    destroy: vi.fn()
+  };
+}
+
+describe('DesmosAdapter', () => {
+  let errorHandler: IErrorHandler;
+  let calculator: ReturnType<typeof createFakeCalculator>;
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    errorHandler = {
+      handle: vi.fn(),
+      createAndHandle: vi.fn(),
+      handleIframeError: vi.fn(),
+      handleMathApiError: vi.fn(),
+      attemptRecovery: vi.fn()
+    };
+
+    calculator = createFakeCalculator();
+    (window as any).Desmos = {
+      version: '1.9.0',
+      GraphingCalculator: vi.fn(() => calculator),
+      ScientificCalculator: vi.fn(() => calculator)
+    };
+
+    container = document.createElement('div');
+  });
+
+  afterEach(() => {
+    delete (window as any).Desmos;
+  });
+
+  it('should create the requested calculator type with the remaining options', async () => {
+    // Arrange
+    const adapter = new DesmosAdapter(errorHandler);
+
+    // Act
+    await adapter.initialize(container, { calculatorType: 'scientific', keypad: false });
+
+    // Assert
+    expect((window as any).Desmos.ScientificCalculator).toHaveBeenCalledWith(container, { keypad: false });
+    expect(adapter.getApiVersion()).toBe('1.9.0');
+  });
+
+  it('should report a missing Desmos global through handleMathApiError', async () => {
+    // Arrange
+    delete (window as any).Desmos;
+    const adapter = new DesmosAdapter(errorHandler);
+
+    // Act & Assert
+    await expect(adapter.initialize(container)).rejects.toMatchObject({
+      type: ErrorType.MATH_API,
+      message: 'Error in desmos API: Desmos is not loaded'
+    });
+    expect(errorHandler.handleMathApiError).toHaveBeenCalledWith('desmos', 'Desmos is not loaded', { globalProperty: 'Desmos' });
+  });
+
+  it('should set one expression per line and remove stale ones', async () => {
+    // Arrange
+    const adapter = new DesmosAdapter(errorHandler);
+    await adapter.initialize(container);
+    await adapter.updateContent('y=x^2\n\ny=2x\ny=3');
+
+    // Act
+    await adapter.updateContent('y=x^3');
+
+    // Assert
+    expect(calculator.setExpressions).toHaveBeenLastCalledWith([{ id: 'expr-1', latex: 'y=x^3' }]);
+    expect(calculator.removeExpressions).toHaveBeenCalledWith([{ id: 'expr-2' }, { id: 'expr-3' }]);
+  });
+
+  it('should apply JSON content as calculator state', async () => {
+    // Arrange
+    const adapter = new DesmosAdapter(errorHandler);
+    await adapter.initialize(container);
+    const state = { version: 11, expressions: { list: [{ id: 'a', latex: 'y=1' }] } };
+
+    // Act
+    await adapter.updateContent(JSON.stringify(state));
+
+    // Assert
+    expect(adapter.getState()).toEqual(state);
+  });
+
+  it('should report rejected states', async () => {
+    // Arrange
+    const adapter = new DesmosAdapter(errorHandler);
+    await adapter.initialize(container);
+
+    // Act & Assert
+    await expect(adapter.setState('nonsense')).rejects.toThrow('Error in desmos API: Failed to set state: Invalid state');
+    expect(errorHandler.handleMathApiError).toHaveBeenCalledWith(
+      'desmos',
+      'Failed to set state: Invalid state',
+      { originalError: 'Invalid state' }
+    );
+  });
+
+  it('should capture the graph as a PNG data URL', async () => {
+    // Arrange
+    const adapter = new DesmosAdapter(errorHandler);
+    await adapter.initialize(container);
+
+    // Act
+    const image = await adapter.captureImage({ width: 200, height: 100 });
+
+    // Assert
+    expect(image).toBe('data:image/png;base64,AAAA');
+    expect(calculator.asyncScreenshot).toHaveBeenCalledWith({ width: 200, height: 100 }, expect.any(Function));
+  });
+
+  it('should require initialization before use and destroy the calculator', async () => {
+    // Arrange
+    const adapter = new DesmosAdapter(errorHandler);
+
+    // Act & Assert
+    expect(() => adapter.getState()).toThrow('Error in desmos API: Calculator is not initialized');
+
+    await adapter.initialize(container);
+    adapter.destroy();
+    expect(calculator.destroy).toHaveBeenCalled();
+    expect(() => adapter.getState()).toThrow('Calculator is not initialized');
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GeoGebraAdapter } from '../GeoGebraAdapter';
+import { IErrorHandler, ErrorType } from '../../../errors/IErrorHandler';
+
+/**
+ * Fake GeoGebra applet API recording the calls the adapter makes
+ */
+function createFakeApi() {
+  return {
+    getVersion: vi.fn(() => '5.2.817.0'),
+    newConstruction: vi.fn(),
+    evalCommand: vi.fn((command: string) => !command.includes('???')),
+    getBase64: vi.fn(() => 'UEsDBBQ='),
+    setBase64: vi.fn((_base64: string, callback: () => void) => callback()),
+    getPNGBase64: vi.fn(() => 'AAAA'),
+    remove: vi.fn()
+  };
+}
+
+describe('GeoGebraAdapter', () => {
+  let errorHandler: IErrorHandler;
+  let api: ReturnType<typeof createFakeApi>;
+  let globals: Record<string, any>;
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    errorHandler = {
+      handle: vi.fn(),
+      createAndHandle: vi.fn(),
+      handleIframeError: vi.fn(),
+      handleMathApiError: vi.fn(),
+      attemptRecovery: vi.fn()
+    };
+
+    api = createFakeApi();
+    globals = {
+      GGBApplet: vi.fn(function (this: any, parameters: any) {
+        this.inject = vi.fn(() => parameters.appletOnLoad(api));
+      })
+    };
+
+    container = document.createElement('div');
+  });
+
+  it('should inject an applet and wait for it to load', async () => {
+    // Arrange
+    const adapter = new GeoGebraAdapter(errorHandler, globals);
+
+    // Act
+    await adapter.initialize(container, { appName: 'geometry', showToolBar: true });
+
+    // Assert
+    expect(globals.GGBApplet).toHaveBeenCalledWith(
+      expect.objectContaining({ appName: 'geometry', showToolBar: true }),
+      true
+    );
+    expect(container.id).not.toBe('');
+    expect(adapter.getApiVersion()).toBe('5.2.817.0');
+  });
+
+  it('should time out when the applet never loads', async () => {
+    // Arrange
+    globals.GGBApplet = vi.fn(function (this: any) {
+      this.inject = vi.fn();
+    });
+    const adapter = new GeoGebraAdapter(errorHandler, globals);
+
+    // Act & Assert
+    await expect(adapter.initialize(container, { loadTimeout: 10 })).rejects.toMatchObject({
+      type: ErrorType.MATH_API,
+      message: 'Error in geogebra API: Applet did not load in time'
+    });
+    expect(errorHandler.handleMathApiError).toHaveBeenCalledWith('geogebra', 'Applet did not load in time', { loadTimeout: 10 });
+  });
+
+  it('should run one command per line on a new construction', async () => {
+    // Arrange
+    const adapter = new GeoGebraAdapter(errorHandler, globals);
+    await adapter.initialize(container);
+
+    // Act
+    await adapter.updateContent('A=(1,2)\n\nf(x)=x^2');
+
+    // Assert
+    expect(api.newConstruction).toHaveBeenCalled();
+    expect(api.evalCommand.mock.calls).toEqual([['A=(1,2)'], ['f(x)=x^2']]);
+  });
+
+  it('should report commands GeoGebra rejects with their line', async () => {
+    // Arrange
+    const adapter = new GeoGebraAdapter(errorHandler, globals);
+    await adapter.initialize(container);
+
+    // Act & Assert
+    await expect(adapter.updateContent('A=(1,2)\nB=???')).rejects.toThrow('Invalid command: B=???');
+    expect(errorHandler.handleMathApiError).toHaveBeenCalledWith(
+      'geogebra',
+      'Invalid command: B=???',
+      { command: 'B=???', line: 2 }
+    );
+  });
+
+  it('should round-trip state as a base64 construction', async () => {
+    // Arrange
+    const adapter = new GeoGebraAdapter(errorHandler, globals);
+    await adapter.initialize(container);
+
+    // Act
+    const state = adapter.getState();
+    await adapter.setState(state);
+
+    // Assert
+    expect(state).toBe('UEsDBBQ=');
+    expect(api.setBase64).toHaveBeenCalledWith('UEsDBBQ=', expect.any(Function));
+    await expect(adapter.setState({})).rejects.toThrow('State must be a base64-encoded construction');
+  });
+
+  it('should export the construction as a PNG data URL', async () => {
+    // Arrange
+    const adapter = new GeoGebraAdapter(errorHandler, globals);
+    await adapter.initialize(container);
+
+    // Act
+    const image = await adapter.captureImage();
+
+    // Assert
+    expect(image).toBe('data:image/png;base64,AAAA');
+    expect(api.getPNGBase64).toHaveBeenCalledWith(1, false, 72);
+  });
+
+  it('should report a missing GGBApplet global', async () => {
+    // Arrange
+    const adapter = new GeoGebraAdapter(errorHandler, {});
+
+    // Act & Assert
+    await expect(adapter.initialize(container)).rejects.toThrow('Error in geogebra API: GGBApplet is not loaded');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MathApiAdapterFactory } from '../MathApiAdapterFactory';
+import { DesmosAdapter } from '../DesmosAdapter';
+import { GeoGebraAdapter } from '../GeoGebraAdapter';
+import { IMathApiAdapter } from '../IMathApiAdapter';
+import { IErrorHandler, ErrorType } from '../../../errors/IErrorHandler';
+
+describe('MathApiAdapterFactory', () => {
+  let errorHandler: IErrorHandler;
+
+  beforeEach(() => {
+    errorHandler = {
+      handle: vi.fn(),
+      createAndHandle: vi.fn(),
+      handleIframeError: vi.fn(),
+      handleMathApiError: vi.fn(),
+      attemptRecovery: vi.fn()
+    };
+  });
+
+  it('should create adapters by math API type', () => {
+    // Arrange
+    const factory = new MathApiAdapterFactory(errorHandler, {});
+
+    // Act & Assert
+    expect(factory.getSupportedTypes()).toEqual(['desmos', 'geogebra']);
+    expect(factory.createAdapter('desmos')).toBeInstanceOf(DesmosAdapter);
+    expect(factory.createAdapter('GeoGebra')).toBeInstanceOf(GeoGebraAdapter);
+  });
+
+  it('should accept additional adapters', () => {
+    // Arrange
+    const factory = new MathApiAdapterFactory(errorHandler, {});
+    const adapter = { getApiType: () => 'mathjs' } as IMathApiAdapter;
+
+    // Act
+    factory.registerAdapter('mathjs', () => adapter);
+
+    // Assert
+    expect(factory.createAdapter('mathjs')).toBe(adapter);
+  });
+
+  it('should report unsupported types', () => {
+    // Arrange
+    const factory = new MathApiAdapterFactory(errorHandler, {});
+
+    // Act & Assert
+    expect(() => factory.createAdapter('wolfram')).toThrow(
+      expect.objectContaining({ type: ErrorType.MATH_API, message: 'Unsupported math API type: wolfram' })
+    );
+    expect(errorHandler.handleMathApiError).toHaveBeenCalledWith(
+      'wolfram',
+      'Unsupported math API type',
+      { supportedTypes: ['desmos', 'geogebra'] }
+    );
+  });
+});
@@ -0,0 +1,9 @@
+/**
+ * Math API adapter exports
+ */
+
+export * from './IMathApiAdapter';
+export * from './BaseMathApiAdapter';
+export * from './DesmosAdapter';
+export * from './GeoGebraAdapter';
+export * from './MathApiAdapterFactory';
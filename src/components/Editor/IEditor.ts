@@ -1,3 +1,6 @@
+import { FormatResult } from '../../formatting/IFormattingService';
+import { DiagnosticDetails } from '../../diagnostics/IDiagnosticsService';
+
 /**
  * Editor content data structure
  * Represents the content being edited in the editor component
@@ -25,6 +28,36 @@ export interface EditorContent {
  */
 export type ComponentData = EditorContent;
 
+/**
+ * Key under which editors store their undo history in StorageComponentContent.metadata
+ */
+export const EDITOR_HISTORY_METADATA_KEY = 'editorHistory';
+
+/**
+ * Editor undo history saved in component metadata
+ */
+export interface EditorHistoryMetadata {
+  /**
+   * Content before each change that can be undone, oldest first
+   */
+  undoStack: EditorContent[];
+
+  /**
+   * Content the history was saved at
+   */
+  content: EditorContent;
+
+  /**
+   * Content of each change that can be redone, most recently undone last
+   */
+  redoStack: EditorContent[];
+
+  /**
+   * ISO timestamp of when the history was saved
+   */
+  savedAt: string;
+}
+
 /**
  * Editor change listener type
  */
@@ -49,8 +82,59 @@ export interface IEditor {
   
   /**
    * Format code in the editor
+   * Panes that cannot be parsed are left unchanged and reported in the result.
+   * @returns Formatted content and the errors of panes that were not formatted
+   */
+  formatCode(): FormatResult;
+
+  /**
+   * Undo the last change to the document
+   * The HTML, CSS and JavaScript panes share one history, which includes
+   * changes made by setContent and formatCode.
+   * @returns True if a change was undone
+   */
+  undo(): boolean;
+
+  /**
+   * Redo the last undone change
+   * @returns True if a change was redone
+   */
+  redo(): boolean;
+
+  /**
+   * Check whether there is a change to undo
+   * @returns True if undo would change the content
+   */
+  canUndo(): boolean;
+
+  /**
+   * Check whether there is an undone change to redo
+   * @returns True if redo would change the content
+   */
+  canRedo(): boolean;
+
+  /**
+   * Run changes as a single history entry
+   * Transactions can be nested; the entry is recorded when the outermost one ends.
+   * @param changes Function making the changes
+   * @returns The function's result
+   */
+  transaction<T>(changes: () => T): T;
+
+  /**
+   * Store the undo history in component metadata
+   * Pass the result as EditorConfig.metadata to reopen the editor with the same history.
+   * @param metadata Existing component metadata
+   * @returns Copy of the metadata with the history under EDITOR_HISTORY_METADATA_KEY
+   */
+  saveHistory(metadata?: Record<string, any>): Record<string, any>;
+
+  /**
+   * Show markers for problems in the code
+   * Optional; editors without markers ignore diagnostics.
+   * @param diagnostics Problems to mark, replacing any shown before
    */
-  formatCode(): void;
+  setDiagnostics?(diagnostics: DiagnosticDetails[]): void;
   
   /**
    * Add change event listener
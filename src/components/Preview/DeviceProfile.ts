@@ -0,0 +1,80 @@
+/**
+ * Orientation of an emulated device
+ */
+export type DeviceOrientation = 'portrait' | 'landscape';
+
+/**
+ * Screen a preview emulates
+ */
+export interface DeviceProfile {
+  /**
+   * Unique profile identifier
+   */
+  id: string;
+
+  /**
+   * Display name
+   */
+  name: string;
+
+  /**
+   * Viewport width in CSS pixels, in portrait orientation
+   */
+  width: number;
+
+  /**
+   * Viewport height in CSS pixels, in portrait orientation
+   */
+  height: number;
+
+  /**
+   * Device pixel ratio reported to component scripts as window.devicePixelRatio
+   */
+  devicePixelRatio?: number;
+
+  /**
+   * User agent reported to component scripts as navigator.userAgent
+   */
+  userAgent?: string;
+}
+
+/**
+ * Size and scale at which a preview currently renders
+ */
+export interface PreviewViewport {
+  /**
+   * Emulated profile, or null when the preview fills its container
+   */
+  profile: DeviceProfile | null;
+
+  /**
+   * Current orientation
+   */
+  orientation: DeviceOrientation;
+
+  /**
+   * Rendered viewport width in CSS pixels, or null when filling the container
+   */
+  width: number | null;
+
+  /**
+   * Rendered viewport height in CSS pixels, or null when filling the container
+   */
+  height: number | null;
+
+  /**
+   * Scale applied to fit the container (1 when zoom-to-fit is off)
+   */
+  scale: number;
+}
+
+/**
+ * Profiles available by default
+ * The 'mobile' and 'tablet' profiles back DeviceSize.MOBILE and DeviceSize.TABLET.
+ */
+export const DEFAULT_DEVICE_PROFILES: DeviceProfile[] = [
+  { id: 'mobile', name: 'Mobile', width: 320, height: 568, devicePixelRatio: 2 },
+  { id: 'mobile-large', name: 'Large mobile', width: 414, height: 896, devicePixelRatio: 3 },
+  { id: 'tablet', name: 'Tablet', width: 768, height: 1024, devicePixelRatio: 2 },
+  { id: 'tablet-large', name: 'Large tablet', width: 1024, height: 1366, devicePixelRatio: 2 }
+];
@@ -0,0 +1,83 @@
+import { IPreview } from './IPreview';
+import { IMathApiAdapter } from '../../adapters/math/IMathApiAdapter';
+
+/**
+ * Key under which math previews store their state in StorageComponentContent.metadata
+ */
+export const MATH_STATE_METADATA_KEY = 'mathApi';
+
+/**
+ * Math API state saved in component metadata
+ */
+export interface MathStateMetadata {
+  /**
+   * Math API type the state belongs to (e.g., 'desmos')
+   */
+  apiType: string;
+
+  /**
+   * Version of the math API that produced the state
+   */
+  apiVersion: string;
+
+  /**
+   * State as returned by the adapter's getState
+   */
+  state: unknown;
+
+  /**
+   * ISO timestamp of when the state was captured
+   */
+  savedAt: string;
+}
+
+/**
+ * Preview hosting a math API visualization next to the component document
+ */
+export interface IMathPreview extends IPreview {
+  /**
+   * Get the math API adapter hosted by the preview
+   * @returns The adapter
+   */
+  getAdapter(): IMathApiAdapter;
+
+  /**
+   * Wait for the adapter to initialize and restore any saved state
+   * @returns Promise that resolves when the math API is ready
+   * @throws AppError with type ErrorType.MATH_API if initialization failed
+   */
+  whenReady(): Promise<void>;
+
+  /**
+   * Update the math content once the adapter is ready
+   * @param source Math content in the adapter's format (e.g., one expression per line)
+   * @returns Promise that resolves when the update is complete
+   */
+  updateMath(source: string): Promise<void>;
+
+  /**
+   * Get the current math API state
+   * @returns State as returned by the adapter
+   */
+  getState(): unknown;
+
+  /**
+   * Set the math API state once the adapter is ready
+   * @param state State as returned by getState
+   * @returns Promise that resolves when the state is set
+   */
+  setState(state: unknown): Promise<void>;
+
+  /**
+   * Store the current math API state in component metadata
+   * Pass the result as PreviewConfig.metadata to reopen the preview with the same state.
+   * @param metadata Existing component metadata
+   * @returns Copy of the metadata with the state under MATH_STATE_METADATA_KEY
+   */
+  saveState(metadata?: Record<string, any>): Record<string, any>;
+
+  /**
+   * Destroy the adapter and remove the preview's elements
+   */
+  destroy(): void;
+}
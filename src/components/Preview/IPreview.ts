@@ -1,4 +1,5 @@
 import { EditorContent } from '../Editor/IEditor';
+import { DeviceProfile, DeviceOrientation, PreviewViewport } from './DeviceProfile';
 
 /**
  * Device size type
@@ -25,6 +26,31 @@ export interface IPreview {
    */
   setDeviceSize(size: DeviceSize): void;
   
+  /**
+   * Emulate a device profile
+   * @param profile Profile to emulate, or null to fill the container
+   * @param orientation Orientation to render in (defaults to the current orientation)
+   */
+  setDeviceProfile(profile: DeviceProfile | null, orientation?: DeviceOrientation): void;
+  
+  /**
+   * Rotate the emulated device
+   * @param orientation Orientation to render in
+   */
+  setOrientation(orientation: DeviceOrientation): void;
+  
+  /**
+   * Scale the emulated device down to fit the container
+   * @param enabled Whether to zoom to fit
+   */
+  setZoomToFit(enabled: boolean): void;
+  
+  /**
+   * Get the size and scale the preview currently renders at
+   * @returns Current viewport
+   */
+  getViewport(): PreviewViewport;
+  
   /**
    * Get preview iframe element
    * @returns HTMLIFrameElement
@@ -3,4 +3,6 @@
  * Exports all Preview-related types and interfaces
  */
 
-export * from './IPreview';
\ No newline at end of file
+export * from './IPreview';
+export * from './DeviceProfile';
+export * from './IMathPreview';
@@ -0,0 +1,151 @@
+import { EditorContent, IEditor } from '../components/Editor/IEditor';
+import { IEventBus } from '../events/IEventBus';
+import { IErrorHandler, AppError, ErrorType } from '../errors/IErrorHandler';
+import { CodePane } from '../formatting/IFormattingService';
+import {
+  IDiagnosticsService,
+  IDiagnosticRule,
+  DiagnosticDetails,
+  DiagnosticsResult,
+  DiagnosticsAttachOptions
+} from './IDiagnosticsService';
+import { DIAGNOSTICS_EVENTS, DiagnosticsUpdatedEvent } from './events';
+import { createDefaultDiagnosticRules } from './rules';
+
+/**
+ * Diagnostics Service implementation
+ * Runs the registered rules over editor content, publishes the results on the
+ * event bus, and passes them to attached editors to render markers.
+ */
+export class DiagnosticsService implements IDiagnosticsService {
+  /**
+   * Default delay between the last change and checking an attached editor
+   * @private
+   */
+  private readonly DEFAULT_DEBOUNCE_MS = 300;
+
+  /**
+   * Order of the panes in results
+   * @private
+   */
+  private readonly PANES: CodePane[] = ['html', 'css', 'js'];
+
+  /**
+   * Rules keyed by ID, in the order they run
+   * @private
+   */
+  private rules: Map<string, IDiagnosticRule> = new Map();
+
+  /**
+   * Creates a new DiagnosticsService
+   * @param eventBus Event bus to publish results on
+   * @param errorHandler The error handler for rules that fail
+   * @param rules Rules to run (defaults to the syntax and Blackboard rules)
+   */
+  constructor(
+    private eventBus: IEventBus,
+    private errorHandler: IErrorHandler,
+    rules: IDiagnosticRule[] = createDefaultDiagnosticRules()
+  ) {
+    rules.forEach(rule => this.rules.set(rule.id, rule));
+  }
+
+  /**
+   * Check editor content and publish the result
+   * A rule that throws is reported to the error handler and skipped.
+   * @param content Content to check
+   * @returns Problems found
+   */
+  public check(content: EditorContent): DiagnosticsResult {
+    const diagnostics: DiagnosticDetails[] = [];
+
+    this.rules.forEach(rule => {
+      try {
+        diagnostics.push(...rule.check(content));
+      } catch (error) {
+        this.errorHandler.handle(
+          new AppError(
+            ErrorType.RUNTIME,
+            `Diagnostic rule failed: ${rule.id}`,
+            { ruleId: rule.id, error }
+          )
+        );
+      }
+    });
+
+    diagnostics.sort((a, b) =>
+      this.PANES.indexOf(a.pane) - this.PANES.indexOf(b.pane) || a.line - b.line || a.column - b.column
+    );
+
+    const result: DiagnosticsResult = {
+      diagnostics,
+      errorCount: diagnostics.filter(diagnostic => diagnostic.severity === 'error').length,
+      warningCount: diagnostics.filter(diagnostic => diagnostic.severity === 'warning').length
+    };
+
+    const eventData: DiagnosticsUpdatedEvent = { ...result, timestamp: Date.now() };
+    this.eventBus.emit(DIAGNOSTICS_EVENTS.UPDATED, eventData);
+
+    return result;
+  }
+
+  /**
+   * Check an editor whenever its content changes and pass the problems to its setDiagnostics
+   * The editor is checked immediately, then after changes settle.
+   * @param editor Editor to check
+   * @param options Attach options
+   * @returns Function that stops checking the editor and clears its markers
+   */
+  public attach(editor: IEditor, options: DiagnosticsAttachOptions = {}): () => void {
+    const debounceMs = options.debounceMs ?? this.DEFAULT_DEBOUNCE_MS;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const run = (content: EditorContent) => {
+      timer = null;
+      const result = this.check(content);
+      editor.setDiagnostics?.(result.diagnostics);
+    };
+
+    const unsubscribe = editor.addEventListener(content => {
+      if (timer !== null) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(() => run(content), debounceMs);
+    });
+
+    run(editor.getContent());
+
+    return () => {
+      if (timer !== null) {
+        clearTimeout(timer);
+      }
+      unsubscribe();
+      editor.setDiagnostics?.([]);
+    };
+  }
+
+  /**
+   * Add a rule, replacing any rule with the same ID
+   * @param rule Rule to add
+   */
+  public registerRule(rule: IDiagnosticRule): void {
+    this.rules.set(rule.id, rule);
+  }
+
+  /**
+   * Remove a rule
+   * @param id Rule ID
+   * @returns True if a rule was removed
+   */
+  public removeRule(id: string): boolean {
+    return this.rules.delete(id);
+  }
+
+  /**
+   * Get the active rules
+   * @returns Rules in the order they run
+   */
+  public getRules(): IDiagnosticRule[] {
+    return Array.from(this.rules.values());
+  }
+}
@@ -0,0 +1,131 @@
+import { EditorContent, IEditor } from '../components/Editor/IEditor';
+import { CodePane } from '../formatting/IFormattingService';
+
+/**
+ * Severity of a diagnostic
+ * Errors break the component or are removed when it is published; warnings
+ * point out code that is likely to misbehave.
+ */
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * A problem found in editor content
+ */
+export interface DiagnosticDetails {
+  /**
+   * Pane containing the problem
+   */
+  pane: CodePane;
+
+  /**
+   * 1-based line of the problem
+   */
+  line: number;
+
+  /**
+   * 1-based column of the problem
+   */
+  column: number;
+
+  /**
+   * Severity of the problem
+   */
+  severity: DiagnosticSeverity;
+
+  /**
+   * Description of the problem
+   */
+  message: string;
+
+  /**
+   * ID of the rule that reported the problem
+   */
+  ruleId: string;
+}
+
+/**
+ * Result of checking editor content
+ */
+export interface DiagnosticsResult {
+  /**
+   * Problems ordered by pane, line and column
+   */
+  diagnostics: DiagnosticDetails[];
+
+  /**
+   * Number of errors
+   */
+  errorCount: number;
+
+  /**
+   * Number of warnings
+   */
+  warningCount: number;
+}
+
+/**
+ * Options for checking an editor as it changes
+ */
+export interface DiagnosticsAttachOptions {
+  /**
+   * Milliseconds to wait after the last change before checking (default 300)
+   */
+  debounceMs?: number;
+}
+
+/**
+ * Rule that checks editor content
+ */
+export interface IDiagnosticRule {
+  /**
+   * Rule identifier, reported with each diagnostic
+   */
+  readonly id: string;
+
+  /**
+   * Check editor content
+   * @param content Content to check
+   * @returns Problems found
+   */
+  check(content: EditorContent): DiagnosticDetails[];
+}
+
+/**
+ * Diagnostics Service Interface
+ * Checks editor content against a set of rules and publishes the results
+ */
+export interface IDiagnosticsService {
+  /**
+   * Check editor content and publish the result
+   * @param content Content to check
+   * @returns Problems found
+   */
+  check(content: EditorContent): DiagnosticsResult;
+
+  /**
+   * Check an editor whenever its content changes and pass the problems to its setDiagnostics
+   * @param editor Editor to check
+   * @param options Attach options
+   * @returns Function that stops checking the editor and clears its markers
+   */
+  attach(editor: IEditor, options?: DiagnosticsAttachOptions): () => void;
+
+  /**
+   * Add a rule, replacing any rule with the same ID
+   * @param rule Rule to add
+   */
+  registerRule(rule: IDiagnosticRule): void;
+
+  /**
+   * Remove a rule
+   * @param id Rule ID
+   * @returns True if a rule was removed
+   */
+  removeRule(id: string): boolean;
+
+  /**
+   * Get the active rules
+   * @returns Rules in the order they run
+   */
+  getRules(): IDiagnosticRule[];
+}
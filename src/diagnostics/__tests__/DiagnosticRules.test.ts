@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { SyntaxRule, ForbiddenTagsRule, InlineEventHandlerRule } from '../rules';
+
+describe('Diagnostic rules', () => {
+  // #region SyntaxRule
+  describe('SyntaxRule', () => {
+    it('should report panes that cannot be parsed', () => {
+      // Arrange
+      const rule = new SyntaxRule();
+
+      // Act
+      const diagnostics = rule.check({
+        html: '<div>\n  <span>Text\n</div>',
+        css: '.card { color: red;',
+        js: 'const a = 1;\nrun(a;'
+      });
+
+      // Assert
+      expect(diagnostics).toEqual([
+        { pane: 'html', line: 2, column: 3, severity: 'error', message: 'Unclosed <span>', ruleId: 'syntax' },
+        { pane: 'css', line: 1, column: 7, severity: 'error', message: "Unclosed '{'", ruleId: 'syntax' },
+        { pane: 'js', line: 2, column: 4, severity: 'error', message: "Unclosed '('", ruleId: 'syntax' }
+      ]);
+    });
+
+    it('should report JavaScript the parser rejects at the offending token', () => {
+      // Arrange
+      const rule = new SyntaxRule();
+      const scripts = [
+        'const = 5;',
+        'let x = ;',
+        'if x { y() }',
+        'a +* b',
+        'function () {}',
+        'run();\n// const = 5;\nconst y = \'=\' + 1 = 2;',
+        'if (ready) {\n  start();\n}\nconst total ='
+      ];
+
+      // Act
+      const diagnostics = scripts.map(js => rule.check({ html: '', css: '', js }));
+
+      // Assert
+      expect(diagnostics.map(found => found.map(diagnostic => [diagnostic.pane, diagnostic.line, diagnostic.column]))).toEqual([
+        [['js', 1, 7]],
+        [['js', 1, 9]],
+        [['js', 1, 4]],
+        [['js', 1, 4]],
+        [['js', 1, 10]],
+        [['js', 3, 19]],
+        [['js', 4, 13]]
+      ]);
+      expect(diagnostics.every(found => found[0].severity === 'error' && found[0].ruleId === 'syntax' && found[0].message)).toBe(true);
+    });
+
+    it('should report return statements outside functions', () => {
+      // Arrange
+      const rule = new SyntaxRule();
+
+      // Act
+      const topLevel = rule.check({ html: '', css: '', js: 'run();\nif (done) {\n  return 5;\n}' });
+      const nested = rule.check({ html: '', css: '', js: 'function f() { return 5; }\nconst g = () => { return f(); };\nconst o = { return: 1 };' });
+
+      // Assert
+      expect(topLevel).toEqual([{
+        pane: 'js',
+        line: 3,
+        column: 3,
+        severity: 'error',
+        message: "'return' is only allowed inside a function",
+        ruleId: 'syntax'
+      }]);
+      expect(nested).toEqual([]);
+    });
+
+    it('should tell function bodies from blocks when looking for return statements', () => {
+      // Arrange
+      const rule = new SyntaxRule();
+      const functions = [
+        'class Counter {',
+        '  get value() { if (this.n) { return this.n; } return 0; }',
+        '}',
+        'const add = (a, b) => { for (const x of [a]) { return x + b; } };',
+        'items.forEach(function (item) { return item.return; });'
+      ].join('\n');
+
+      // Act
+      const nested = rule.check({ html: '', css: '', js: functions });
+      const topLevel = rule.check({ html: '', css: '', js: `${functions}\nwhile (add(1, 2)) {\n  return;\n}` });
+
+      // Assert
+      expect(nested).toEqual([]);
+      expect(topLevel).toEqual([expect.objectContaining({
+        line: 7,
+        column: 3,
+        message: "'return' is only allowed inside a function"
+      })]);
+    });
+
+    it('should accept valid code', () => {
+      // Act
+      const diagnostics = new SyntaxRule().check({ html: '<p>Hi</p>', css: 'p { margin: 0 }', js: 'run();' });
+
+      // Assert
+      expect(diagnostics).toEqual([]);
+    });
+  });
+  // #endregion
+
+  // #region Blackboard rules
+  describe('ForbiddenTagsRule', () => {
+    it('should report tags Blackboard removes', () => {
+      // Arrange
+      const html = '<p>Quiz</p>\n<script>if (a < b) {}</script>\n<!-- <iframe> -->\n  <iframe src="x"></iframe>';
+
+      // Act
+      const diagnostics = new ForbiddenTagsRule().check({ html, css: '', js: '' });
+
+      // Assert
+      expect(diagnostics.map(diagnostic => [diagnostic.line, diagnostic.column, diagnostic.message])).toEqual([
+        [2, 1, '<script> is removed by Blackboard; move the code to the JavaScript pane'],
+        [4, 3, '<iframe> is removed by Blackboard']
+      ]);
+    });
+
+    it('should use the configured tags', () => {
+      // Act
+      const diagnostics = new ForbiddenTagsRule(['marquee']).check({ html: '<MARQUEE>Hi</MARQUEE><form></form>', css: '', js: '' });
+
+      // Assert
+      expect(diagnostics).toEqual([
+        expect.objectContaining({ line: 1, column: 1, message: '<marquee> is removed by Blackboard', ruleId: 'blackboard/forbidden-tags' })
+      ]);
+    });
+  });
+
+  describe('InlineEventHandlerRule', () => {
+    it('should report inline event handlers and javascript: URLs', () => {
+      // Arrange
+      const html = '<button type="button"\n        onClick="check()">Check</button>\n<a href=" javascript:void(0)">Link</a>\n<a href="#one">One</a>';
+
+      // Act
+      const diagnostics = new InlineEventHandlerRule().check({ html, css: '', js: '' });
+
+      // Assert
+      expect(diagnostics).toEqual([
+        {
+          pane: 'html',
+          line: 2,
+          column: 9,
+          severity: 'error',
+          message: "Inline event handler 'onClick' is removed by Blackboard; add an event listener in the JavaScript pane",
+          ruleId: 'blackboard/inline-event-handlers'
+        },
+        expect.objectContaining({ line: 3, column: 4, message: expect.stringContaining("javascript: URL in 'href'") })
+      ]);
+    });
+  });
+  // #endregion
+});
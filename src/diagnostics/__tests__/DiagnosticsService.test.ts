@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DiagnosticsService } from '../DiagnosticsService';
+import { DIAGNOSTICS_EVENTS } from '../events';
+import { IDiagnosticRule, DiagnosticDetails } from '../IDiagnosticsService';
+import { EnhancedEventBus } from '../../events/EnhancedEventBus';
+import { IErrorHandler, ErrorType } from '../../errors/IErrorHandler';
+import { IEditor, EditorChangeListener, EditorContent } from '../../components/Editor';
+
+describe('DiagnosticsService', () => {
+  let errorHandler: IErrorHandler;
+  let eventBus: EnhancedEventBus;
+
+  beforeEach(() => {
+    errorHandler = {
+      handle: vi.fn(),
+      createAndHandle: vi.fn(),
+      handleIframeError: vi.fn(),
+      handleMathApiError: vi.fn(),
+      attemptRecovery: vi.fn()
+    };
+    eventBus = new EnhancedEventBus();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should report problems ordered by pane and position and publish them', () => {
+    // Arrange
+    const service = new DiagnosticsService(eventBus, errorHandler);
+    const handler = vi.fn();
+    eventBus.on(DIAGNOSTICS_EVENTS.UPDATED, handler);
+
+    // Act
+    const result = service.check({
+      html: '<p onclick="go()">Go</p>\n<script>go();</script>',
+      css: '',
+      js: 'go('
+    });
+
+    // Assert
+    expect(result.diagnostics.map(diagnostic => [diagnostic.pane, diagnostic.line, diagnostic.ruleId])).toEqual([
+      ['html', 1, 'blackboard/inline-event-handlers'],
+      ['html', 2, 'blackboard/forbidden-tags'],
+      ['js', 1, 'syntax']
+    ]);
+    expect(result.errorCount).toBe(3);
+    expect(result.warningCount).toBe(0);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ ...result, timestamp: expect.any(Number) }));
+  });
+
+  it('should run registered rules and skip rules that fail', () => {
+    // Arrange
+    const todoRule: IDiagnosticRule = {
+      id: 'todo',
+      check: content => content.js.includes('TODO') ?
+        [{ pane: 'js', line: 1, column: 1, severity: 'warning', message: 'Unfinished code', ruleId: 'todo' }] :
+        []
+    };
+    const failingRule: IDiagnosticRule = {
+      id: 'broken',
+      check: () => {
+        throw new Error('Rule bug');
+      }
+    };
+    const service = new DiagnosticsService(eventBus, errorHandler, [failingRule]);
+
+    // Act
+    service.registerRule(todoRule);
+    const result = service.check({ html: '', css: '', js: '// TODO' });
+
+    // Assert
+    expect(result.diagnostics).toEqual([expect.objectContaining({ ruleId: 'todo', severity: 'warning' })]);
+    expect(result.warningCount).toBe(1);
+    expect(errorHandler.handle).toHaveBeenCalledWith(expect.objectContaining({
+      type: ErrorType.RUNTIME,
+      message: 'Diagnostic rule failed: broken'
+    }));
+    expect(service.removeRule('broken')).toBe(true);
+    expect(service.getRules()).toEqual([todoRule]);
+  });
+
+  it('should check attached editors after changes settle', () => {
+    // Arrange
+    vi.useFakeTimers();
+    const listeners: EditorChangeListener[] = [];
+    let content: EditorContent = { html: '<p>Hi</p>', css: '', js: '' };
+    const editor: IEditor = {
+      getContent: () => content,
+      setContent: vi.fn(),
+      formatCode: vi.fn(),
+      undo: vi.fn(),
+      redo: vi.fn(),
+      canUndo: vi.fn(),
+      canRedo: vi.fn(),
+      transaction: changes => changes(),
+      saveHistory: vi.fn(),
+      addEventListener: listener => {
+        listeners.push(listener);
+        return () => listeners.splice(listeners.indexOf(listener), 1);
+      },
+      setDiagnostics: vi.fn()
+    };
+    const service = new DiagnosticsService(eventBus, errorHandler);
+
+    // Act
+    const detach = service.attach(editor, { debounceMs: 100 });
+    content = { html: '<p>Hi', css: '', js: '' };
+    listeners.forEach(listener => listener(content));
+    content = { html: '<b>Hi', css: '', js: '' };
+    listeners.forEach(listener => listener(content));
+    vi.advanceTimersByTime(100);
+    detach();
+
+    // Assert
+    const calls = (editor.setDiagnostics as ReturnType<typeof vi.fn>).mock.calls.map(call => call[0] as DiagnosticDetails[]);
+    expect(calls).toHaveLength(3);
+    expect(calls[0]).toEqual([]);
+    expect(calls[1]).toEqual([expect.objectContaining({ message: 'Unclosed <b>' })]);
+    expect(calls[2]).toEqual([]);
+    expect(listeners).toHaveLength(0);
+  });
+});
@@ -0,0 +1,38 @@
+import { DiagnosticDetails } from './IDiagnosticsService';
+
+/**
+ * Diagnostics event constants
+ * These events are published through the event bus when content is checked
+ */
+export const DIAGNOSTICS_EVENTS = {
+  /**
+   * Emitted after editor content is checked
+   * Event data: { diagnostics: DiagnosticDetails[], errorCount: number, warningCount: number, timestamp: number }
+   */
+  UPDATED: 'diagnostics:updated'
+} as const;
+
+/**
+ * Diagnostics updated event data interface
+ */
+export interface DiagnosticsUpdatedEvent {
+  /**
+   * Problems ordered by pane, line and column
+   */
+  diagnostics: DiagnosticDetails[];
+
+  /**
+   * Number of errors
+   */
+  errorCount: number;
+
+  /**
+   * Number of warnings
+   */
+  warningCount: number;
+
+  /**
+   * Check timestamp
+   */
+  timestamp: number;
+}
@@ -0,0 +1,90 @@
+/**
+ * Attribute of a start tag found in markup
+ */
+export interface HtmlAttributeDetails {
+  /**
+   * Attribute name as written
+   */
+  name: string;
+
+  /**
+   * Attribute value without quotes (empty for boolean attributes)
+   */
+  value: string;
+
+  /**
+   * Offset of the attribute name
+   */
+  offset: number;
+}
+
+/**
+ * Start tag found in markup
+ */
+export interface HtmlTagDetails {
+  /**
+   * Lowercase tag name
+   */
+  name: string;
+
+  /**
+   * Offset of the '<'
+   */
+  offset: number;
+
+  /**
+   * Attributes in source order
+   */
+  attributes: HtmlAttributeDetails[];
+}
+
+/**
+ * Matches comments, the content of raw text elements, and start tags
+ */
+const TAG_PATTERN = /<!--[\s\S]*?(?:-->|$)|<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?|\s*\/(?!>))*)\s*\/?>/g;
+
+/**
+ * Matches the attributes of a start tag
+ */
+const ATTRIBUTE_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+/**
+ * Find the start tags in markup
+ * Comments and the content of script, style and textarea elements are skipped.
+ * @param html Markup to scan
+ * @returns Start tags in source order
+ */
+export function scanHtmlTags(html: string): HtmlTagDetails[] {
+  const tags: HtmlTagDetails[] = [];
+  const pattern = new RegExp(TAG_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(html)) !== null) {
+    if (!match[1]) {
+      continue;
+    }
+
+    const name = match[1].toLowerCase();
+    const attributesStart = match.index + 1 + match[1].length;
+    const attributes: HtmlAttributeDetails[] = [];
+    const attributePattern = new RegExp(ATTRIBUTE_PATTERN.source, 'g');
+    let attribute: RegExpExecArray | null;
+
+    while ((attribute = attributePattern.exec(match[2])) !== null) {
+      attributes.push({
+        name: attribute[1],
+        value: attribute[2] ?? attribute[3] ?? attribute[4] ?? '',
+        offset: attributesStart + attribute.index
+      });
+    }
+
+    tags.push({ name, offset: match.index, attributes });
+
+    if (['script', 'style', 'textarea'].includes(name)) {
+      const end = html.slice(pattern.lastIndex).search(new RegExp(`</${name}\\s*>`, 'i'));
+      pattern.lastIndex = end === -1 ? html.length : pattern.lastIndex + end;
+    }
+  }
+
+  return tags;
+}
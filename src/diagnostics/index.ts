@@ -0,0 +1,8 @@
+/**
+ * Diagnostics module exports
+ */
+
+export * from './IDiagnosticsService';
+export * from './DiagnosticsService';
+export * from './events';
+export * from './rules';
@@ -0,0 +1,62 @@
+import { EditorContent } from '../../components/Editor/IEditor';
+import { getSourcePosition } from '../../formatting/formatterUtils';
+import { DiagnosticDetails, IDiagnosticRule } from '../IDiagnosticsService';
+import { scanHtmlTags } from '../htmlTags';
+
+/**
+ * Tags Blackboard removes from component markup
+ * Scripts and styles belong in the JavaScript and CSS panes, which are bundled
+ * separately when the component is published.
+ */
+export const BLACKBOARD_FORBIDDEN_TAGS = [
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'form', 'base', 'meta', 'link'
+];
+
+/**
+ * Reports HTML tags that are removed when the component is added to Blackboard
+ */
+export class ForbiddenTagsRule implements IDiagnosticRule {
+  public readonly id = 'blackboard/forbidden-tags';
+
+  /**
+   * Creates a new ForbiddenTagsRule
+   * @param tags Lowercase names of the forbidden tags
+   */
+  constructor(private tags: string[] = BLACKBOARD_FORBIDDEN_TAGS) {}
+
+  /**
+   * Check the HTML pane for forbidden tags
+   * @param content Content to check
+   * @returns One error per forbidden tag
+   */
+  public check(content: EditorContent): DiagnosticDetails[] {
+    const html = content.html || '';
+
+    return scanHtmlTags(html)
+      .filter(tag => this.tags.includes(tag.name))
+      .map(tag => ({
+        pane: 'html',
+        ...getSourcePosition(html, tag.offset),
+        severity: 'error',
+        message: this.getMessage(tag.name),
+        ruleId: this.id
+      }));
+  }
+
+  /**
+   * Describe why a tag is reported
+   * @param name Tag name
+   * @returns Message
+   * @private
+   */
+  private getMessage(name: string): string {
+    if (name === 'script') {
+      return '<script> is removed by Blackboard; move the code to the JavaScript pane';
+    }
+    if (name === 'style') {
+      return '<style> is removed by Blackboard; move the rules to the CSS pane';
+    }
+
+    return `<${name}> is removed by Blackboard`;
+  }
+}
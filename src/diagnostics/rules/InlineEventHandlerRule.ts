@@ -0,0 +1,53 @@
+import { EditorContent } from '../../components/Editor/IEditor';
+import { getSourcePosition } from '../../formatting/formatterUtils';
+import { DiagnosticDetails, IDiagnosticRule } from '../IDiagnosticsService';
+import { scanHtmlTags } from '../htmlTags';
+
+/**
+ * Reports inline event handler attributes and javascript: URLs, which
+ * Blackboard strips from component markup
+ */
+export class InlineEventHandlerRule implements IDiagnosticRule {
+  public readonly id = 'blackboard/inline-event-handlers';
+
+  /**
+   * Attributes that hold URLs
+   * @private
+   */
+  private readonly URL_ATTRIBUTES = ['href', 'src', 'action', 'formaction', 'xlink:href'];
+
+  /**
+   * Check the HTML pane for inline script
+   * @param content Content to check
+   * @returns One error per handler attribute or javascript: URL
+   */
+  public check(content: EditorContent): DiagnosticDetails[] {
+    const html = content.html || '';
+    const diagnostics: DiagnosticDetails[] = [];
+
+    scanHtmlTags(html).forEach(tag => {
+      tag.attributes.forEach(attribute => {
+        const name = attribute.name.toLowerCase();
+        let message: string | null = null;
+
+        if (/^on[a-z]+$/.test(name)) {
+          message = `Inline event handler '${attribute.name}' is removed by Blackboard; add an event listener in the JavaScript pane`;
+        } else if (this.URL_ATTRIBUTES.includes(name) && /^\s*javascript:/i.test(attribute.value)) {
+          message = `javascript: URL in '${attribute.name}' is removed by Blackboard; add an event listener in the JavaScript pane`;
+        }
+
+        if (message) {
+          diagnostics.push({
+            pane: 'html',
+            ...getSourcePosition(html, attribute.offset),
+            severity: 'error',
+            message,
+            ruleId: this.id
+          });
+        }
+      });
+    });
+
+    return diagnostics;
+  }
+}
@@ -0,0 +1,210 @@
+import { EditorContent } from '../../components/Editor/IEditor';
+import { AppError } from '../../errors/IErrorHandler';
+import { CodePane, DEFAULT_FORMATTING_OPTIONS, ICodeFormatter } from '../../formatting/IFormattingService';
+import { HtmlFormatter } from '../../formatting/HtmlFormatter';
+import { CssFormatter } from '../../formatting/CssFormatter';
+import { JsFormatter } from '../../formatting/JsFormatter';
+import { createSyntaxError } from '../../formatting/formatterUtils';
+import { DiagnosticDetails, IDiagnosticRule } from '../IDiagnosticsService';
+
+/**
+ * Lexemes of JavaScript, used to cut code at token boundaries
+ * Comments and strings are single lexemes, so code is never cut inside them.
+ */
+const JS_LEXEME = /\/\/[^\n]*|\/\*[\s\S]*?\*\/|'(?:\\.|[^'\\\n])*'|"(?:\\.|[^"\\\n])*"|`(?:\\[\s\S]|[^`\\])*`|[\w$]+|\s+|[\s\S]/g;
+
+/**
+ * Label wrapped around JavaScript to find 'return' statements outside functions
+ * A 'break' to it is only valid where a 'return' would run at the top level.
+ */
+const TOP_LEVEL_LABEL = 'devpreview_top_level';
+
+/**
+ * Keywords whose parenthesized head is followed by a block rather than a function body
+ */
+const BLOCK_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'with']);
+
+/**
+ * Reports code that cannot be parsed: unclosed or misnested tags, unbalanced
+ * braces and brackets, and unterminated strings, comments and regular expressions
+ * Uses the parsers of the code formatters, so code the editor cannot format is
+ * reported at the same position. JavaScript that passes them is also compiled
+ * by the browser's parser, which reports every other syntax error.
+ */
+export class SyntaxRule implements IDiagnosticRule {
+  public readonly id = 'syntax';
+
+  /**
+   * Parsers keyed by pane
+   * @private
+   */
+  private parsers: Record<CodePane, ICodeFormatter>;
+
+  /**
+   * Creates a new SyntaxRule
+   */
+  constructor() {
+    const cssFormatter = new CssFormatter();
+    const jsFormatter = new JsFormatter();
+    this.parsers = {
+      html: new HtmlFormatter(cssFormatter, jsFormatter),
+      css: cssFormatter,
+      js: jsFormatter
+    };
+  }
+
+  /**
+   * Check that every pane can be parsed
+   * @param content Content to check
+   * @returns One error for each pane that cannot be parsed
+   */
+  public check(content: EditorContent): DiagnosticDetails[] {
+    const diagnostics: DiagnosticDetails[] = [];
+
+    (Object.keys(this.parsers) as CodePane[]).forEach(pane => {
+      const code = content[pane] || '';
+
+      try {
+        this.parsers[pane].format(code, DEFAULT_FORMATTING_OPTIONS);
+
+        if (pane === 'js') {
+          this.parseScript(code);
+        }
+      } catch (error) {
+        const details = error instanceof AppError && error.details ? error.details : {};
+        diagnostics.push({
+          pane,
+          line: details.line || 1,
+          column: details.column || 1,
+          severity: 'error',
+          message: error instanceof Error ? error.message : String(error),
+          ruleId: this.id
+        });
+      }
+    });
+
+    return diagnostics;
+  }
+
+  /**
+   * Parse JavaScript with the browser's parser
+   * Parsers do not report where they failed, so the error is placed at the last
+   * token of the shortest prefix that fails with the same message as every longer
+   * prefix. Shorter prefixes can fail for other reasons, e.g. an unfinished block,
+   * so the search starts from the end of the code.
+   * @param code Source code
+   * @throws AppError with VALIDATION type and { line, column } details if the code cannot be parsed
+   * @private
+   */
+  private parseScript(code: string): void {
+    const message = this.getParseError(code);
+
+    if (message === null) {
+      this.checkTopLevelReturn(code);
+      return;
+    }
+
+    const tokens = Array.from(code.matchAll(JS_LEXEME))
+      .filter(match => !/^\s/.test(match[0]))
+      .map(match => ({ start: match.index, end: match.index + match[0].length }));
+    const fails = (index: number) => this.getParseError(code.slice(0, tokens[index].end)) === message;
+
+    // Step back from the last token in growing steps until a prefix parses differently
+    let high = tokens.length - 1;
+    let step = 1;
+    while (high - step >= 0 && fails(high - step)) {
+      high -= step;
+      step *= 2;
+    }
+    let low = Math.max(high - step + 1, 0);
+
+    // Between the two, find the first prefix that fails with the message
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      if (fails(middle)) {
+        high = middle;
+      } else {
+        low = middle + 1;
+      }
+    }
+
+    throw createSyntaxError(message, code, tokens.length > 0 ? tokens[low].start : 0);
+  }
+
+  /**
+   * Reject 'return' statements outside functions
+   * The code is compiled as a function body, which allows them, but previews run
+   * it as a script, which does not. The first 'return' outside the function bodies
+   * found by findTopLevelReturn() is confirmed with a single compile.
+   * @param code Source code that parses as a function body
+   * @throws AppError with VALIDATION type and { line, column } details at the first top-level 'return'
+   * @private
+   */
+  private checkTopLevelReturn(code: string): void {
+    const start = this.findTopLevelReturn(code);
+    if (start === null) return;
+
+    const end = start + 'return'.length;
+    const probe = `${TOP_LEVEL_LABEL}: {\n${code.slice(0, start)}break ${TOP_LEVEL_LABEL};${code.slice(end)}\n}`;
+    if (this.getParseError(probe) === null) {
+      throw createSyntaxError("'return' is only allowed inside a function", code, start);
+    }
+  }
+
+  /**
+   * Find the first 'return' that is not inside a function body
+   * Braces open a function body after '=>' and after a parenthesized list that
+   * does not belong to a block keyword such as 'if'.
+   * @param code Source code
+   * @returns Offset of the 'return', or null if there is none
+   * @private
+   */
+  private findTopLevelReturn(code: string): number | null {
+    const tokens = Array.from(code.matchAll(JS_LEXEME))
+      .filter(match => !/^(\s|\/\/|\/\*)/.test(match[0]));
+    // Token before each open parenthesis, and whether each open brace starts a function body
+    const parens: string[] = [];
+    const braces: boolean[] = [];
+    let functionDepth = 0;
+    let closedParenOwner = '';
+
+    for (let index = 0; index < tokens.length; index++) {
+      const token = tokens[index][0];
+      const previous = index > 0 ? tokens[index - 1][0] : '';
+
+      if (token === '(') {
+        parens.push(previous);
+      } else if (token === ')') {
+        closedParenOwner = parens.pop() ?? '';
+      } else if (token === '{') {
+        const isArrow = previous === '>' && index > 1 && tokens[index - 2][0] === '=';
+        const isFunction = isArrow || (previous === ')' && !BLOCK_KEYWORDS.has(closedParenOwner));
+        braces.push(isFunction);
+        if (isFunction) functionDepth++;
+      } else if (token === '}') {
+        if (braces.pop()) functionDepth--;
+      } else if (token === 'return' && functionDepth === 0 && previous !== '.' && tokens[index + 1]?.[0] !== ':') {
+        return tokens[index].index;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the message of the syntax error in JavaScript
+   * The code is compiled as a function body but never run. Pages whose Content
+   * Security Policy forbids compiling code are not checked.
+   * @param code Source code
+   * @returns Error message, or null if the code parses or cannot be checked
+   * @private
+   */
+  private getParseError(code: string): string | null {
+    try {
+      new Function(code);
+      return null;
+    } catch (error) {
+      return error instanceof SyntaxError ? error.message : null;
+    }
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Diagnostic rule exports
+ */
+
+import { IDiagnosticRule } from '../IDiagnosticsService';
+import { SyntaxRule } from './SyntaxRule';
+import { ForbiddenTagsRule } from './ForbiddenTagsRule';
+import { InlineEventHandlerRule } from './InlineEventHandlerRule';
+
+export * from './SyntaxRule';
+export * from './ForbiddenTagsRule';
+export * from './InlineEventHandlerRule';
+
+/**
+ * Create the rules the diagnostics service runs by default
+ * @returns Syntax and Blackboard rules
+ */
+export function createDefaultDiagnosticRules(): IDiagnosticRule[] {
+  return [
+    new SyntaxRule(),
+    new ForbiddenTagsRule(),
+    new InlineEventHandlerRule()
+  ];
+}
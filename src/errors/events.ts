@@ -0,0 +1,97 @@
+import { ErrorType } from './IErrorHandler';
+
+/**
+ * Payload of general and error-type-specific error events
+ * Emitted for ERROR_OCCURRED and the NETWORK, VALIDATION and FACTORY error events
+ */
+export interface ErrorOccurredEvent {
+  /**
+   * Error type
+   */
+  type: ErrorType;
+
+  /**
+   * Error message
+   */
+  message: string;
+
+  /**
+   * Additional error details
+   */
+  details?: unknown;
+
+  /**
+   * When the error was handled
+   */
+  timestamp: Date;
+}
+
+/**
+ * Payload of iframe error events
+ */
+export interface IframeErrorEvent {
+  /**
+   * Iframe source URL or identifier
+   */
+  source: string;
+
+  /**
+   * Error message reported by the iframe
+   */
+  message: string;
+
+  /**
+   * Additional error details
+   */
+  details?: unknown;
+
+  /**
+   * When the error was handled
+   */
+  timestamp: Date;
+}
+
+/**
+ * Payload of math API error events
+ */
+export interface MathApiErrorEvent {
+  /**
+   * Math API type (e.g., 'desmos', 'geogebra')
+   */
+  apiType: string;
+
+  /**
+   * Error message
+   */
+  message: string;
+
+  /**
+   * Additional error details
+   */
+  details?: unknown;
+
+  /**
+   * When the error was handled
+   */
+  timestamp: Date;
+}
+
+/**
+ * Payload of error recovery events
+ */
+export interface RecoveryAttemptEvent {
+  /**
+   * Type of error being recovered from
+   */
+  errorType: ErrorType;
+
+  /**
+   * Recovery context information
+   */
+  context: unknown;
+
+  /**
+   * When recovery was attempted
+   */
+  timestamp: Date;
+}
@@ -3,4 +3,5 @@
  */
 
 export * from './IErrorHandler';
-export * from './ErrorHandler';
\ No newline at end of file
+export * from './ErrorHandler';
+export * from './events';
@@ -0,0 +1,107 @@
+import {
+  FACTORY_EVENTS,
+  ComponentCreatedEvent,
+  ComponentCreateFailedEvent,
+  FactoryRegisteredEvent,
+  FactoryRegistrationFailedEvent
+} from '../factories/events';
+import { ErrorEventType } from '../errors/ErrorHandler';
+import {
+  ErrorOccurredEvent,
+  IframeErrorEvent,
+  MathApiErrorEvent,
+  RecoveryAttemptEvent
+} from '../errors/events';
+import {
+  STORAGE_EVENTS,
+  SYNC_EVENTS,
+  AUTOSAVE_EVENTS,
+  RevisionCreatedEvent,
+  RevisionRestoredEvent,
+  ThumbnailCapturedEvent,
+  SyncStartedEvent,
+  SyncProgressEvent,
+  SyncConflictEvent,
+  SyncConflictResolvedEvent,
+  SyncCompletedEvent,
+  AutosaveDirtyChangedEvent,
+  AutosaveEvent,
+  AutosaveFailedEvent,
+  AutosaveDraftRecoveredEvent,
+  AutosaveDraftConflictEvent
+} from '../services/events';
+import {
+  IFRAME_EVENTS,
+  IframeMessageReceivedEvent,
+  IframeMessageSentEvent,
+  IframeReadyEvent,
+  IframeCommunicationErrorEvent
+} from './events';
+import { DIAGNOSTICS_EVENTS, DiagnosticsUpdatedEvent } from '../diagnostics/events';
+
+/**
+ * Factory events and their payloads
+ */
+export interface FactoryEventMap {
+  [FACTORY_EVENTS.COMPONENT_CREATED]: ComponentCreatedEvent;
+  [FACTORY_EVENTS.COMPONENT_CREATE_FAILED]: ComponentCreateFailedEvent;
+  [FACTORY_EVENTS.FACTORY_REGISTERED]: FactoryRegisteredEvent;
+  [FACTORY_EVENTS.FACTORY_REGISTRATION_FAILED]: FactoryRegistrationFailedEvent;
+}
+
+/**
+ * Error events and their payloads, as emitted by ErrorHandler
+ */
+export interface ErrorEventMap {
+  [ErrorEventType.ERROR_OCCURRED]: ErrorOccurredEvent;
+  [ErrorEventType.COMPONENT_ERROR]: ErrorOccurredEvent;
+  [ErrorEventType.NETWORK_ERROR]: ErrorOccurredEvent;
+  [ErrorEventType.VALIDATION_ERROR]: ErrorOccurredEvent;
+  [ErrorEventType.IFRAME_ERROR]: IframeErrorEvent;
+  [ErrorEventType.FACTORY_ERROR]: ErrorOccurredEvent;
+  [ErrorEventType.MATH_API_ERROR]: MathApiErrorEvent;
+  [ErrorEventType.RECOVERY_ATTEMPT]: RecoveryAttemptEvent;
+}
+
+/**
+ * Storage, sync and autosave events and their payloads
+ */
+export interface ServiceEventMap {
+  [STORAGE_EVENTS.REVISION_CREATED]: RevisionCreatedEvent;
+  [STORAGE_EVENTS.REVISION_RESTORED]: RevisionRestoredEvent;
+  [STORAGE_EVENTS.THUMBNAIL_CAPTURED]: ThumbnailCapturedEvent;
+  [SYNC_EVENTS.STARTED]: SyncStartedEvent;
+  [SYNC_EVENTS.PROGRESS]: SyncProgressEvent;
+  [SYNC_EVENTS.CONFLICT]: SyncConflictEvent;
+  [SYNC_EVENTS.CONFLICT_RESOLVED]: SyncConflictResolvedEvent;
+  [SYNC_EVENTS.COMPLETED]: SyncCompletedEvent;
+  [AUTOSAVE_EVENTS.DIRTY_CHANGED]: AutosaveDirtyChangedEvent;
+  [AUTOSAVE_EVENTS.SAVING]: AutosaveEvent;
+  [AUTOSAVE_EVENTS.SAVED]: AutosaveEvent;
+  [AUTOSAVE_EVENTS.FAILED]: AutosaveFailedEvent;
+  [AUTOSAVE_EVENTS.DRAFT_RECOVERED]: AutosaveDraftRecoveredEvent;
+  [AUTOSAVE_EVENTS.DRAFT_CONFLICT]: AutosaveDraftConflictEvent;
+}
+
+/**
+ * Iframe bridge events and their payloads
+ */
+export interface IframeEventMap {
+  [IFRAME_EVENTS.MESSAGE_RECEIVED]: IframeMessageReceivedEvent;
+  [IFRAME_EVENTS.MESSAGE_SENT]: IframeMessageSentEvent;
+  [IFRAME_EVENTS.READY]: IframeReadyEvent;
+  [IFRAME_EVENTS.COMMUNICATION_ERROR]: IframeCommunicationErrorEvent;
+}
+
+/**
+ * Diagnostics events and their payloads
+ */
+export interface DiagnosticsEventMap {
+  [DIAGNOSTICS_EVENTS.UPDATED]: DiagnosticsUpdatedEvent;
+}
+
+/**
+ * All standard application events and their payloads
+ * Extend this interface to declare additional events for a typed bus.
+ */
+export interface DevPreviewEventMap extends FactoryEventMap, ErrorEventMap, ServiceEventMap, IframeEventMap, DiagnosticsEventMap {}
@@ -29,6 +29,28 @@ export interface IIframeBridge {
    * Initialize the bridge and start listening for messages
    */
   initialize(): void;
+
+  /**
+   * Register an iframe to receive forwarded events and send messages
+   * Messages from registered iframes with an opaque ('null') origin, such as sandboxed
+   * srcdoc frames, are accepted even though that origin cannot be allow-listed.
+   * @param iframe The iframe element
+   */
+  registerIframe(iframe: HTMLIFrameElement): void;
+
+  /**
+   * Stop forwarding events to an iframe and accepting its opaque-origin messages
+   * @param iframe The iframe element
+   */
+  unregisterIframe(iframe: HTMLIFrameElement): void;
+
+  /**
+   * Forward an event bus event to every registered iframe
+   * @param event The event name on the bus
+   * @param messageType Message type posted to the iframes (defaults to the event name)
+   * @returns Function that stops forwarding the event
+   */
+  forwardEvent(event: string, messageType?: string): () => void;
   
   /**
    * Send an event to a specific iframe
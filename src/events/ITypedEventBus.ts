@@ -0,0 +1,45 @@
+/**
+ * Names of the events declared in an event map
+ */
+export type EventName<TEvents> = keyof TEvents & string;
+
+/**
+ * Callback for an event declared in an event map
+ */
+export type TypedEventCallback<TEvents, K extends EventName<TEvents>> = (data: TEvents[K]) => void;
+
+/**
+ * Event bus interface whose event names and payloads are checked at compile time
+ * The event map declares every event as a key with its payload type as the value.
+ */
+export interface ITypedEventBus<TEvents> {
+  /**
+   * Register an event listener
+   * @param event Event name declared in the event map
+   * @param callback Function to execute with the event payload
+   * @returns Unsubscribe function
+   */
+  on<K extends EventName<TEvents>>(event: K, callback: TypedEventCallback<TEvents, K>): () => void;
+
+  /**
+   * Remove an event listener
+   * @param event Event name declared in the event map
+   * @param callback Callback function to remove
+   */
+  off<K extends EventName<TEvents>>(event: K, callback: TypedEventCallback<TEvents, K>): void;
+
+  /**
+   * Emit an event
+   * @param event Event name declared in the event map
+   * @param data Payload matching the type declared for the event
+   */
+  emit<K extends EventName<TEvents>>(event: K, data: TEvents[K]): void;
+
+  /**
+   * Register a one-time event listener
+   * @param event Event name declared in the event map
+   * @param callback Function to execute once with the event payload
+   * @returns Unsubscribe function
+   */
+  once<K extends EventName<TEvents>>(event: K, callback: TypedEventCallback<TEvents, K>): () => void;
+}
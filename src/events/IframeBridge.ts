@@ -0,0 +1,431 @@
+import { IIframeBridge, IframeMessage } from './IIframeBridge';
+import { IEnhancedEventBus } from './EnhancedIEventBus';
+import { IFRAME_EVENTS, IFRAME_EVENT_PREFIX, IFRAME_MESSAGE_TYPES } from './events';
+import { IErrorHandler, AppError, ErrorType } from '../errors/IErrorHandler';
+
+/**
+ * Options for the iframe bridge
+ */
+export interface IframeBridgeOptions {
+  /**
+   * Origins allowed to send messages, in addition to the parent's own origin
+   */
+  allowedOrigins?: string[];
+
+  /**
+   * Bus events forwarded to every registered iframe once the bridge is initialized
+   */
+  forwardEvents?: string[];
+
+  /**
+   * Milliseconds to wait for a response to requestFromIframe (defaults to 5000)
+   */
+  requestTimeout?: number;
+
+  /**
+   * Window to listen on for messages (defaults to the global window)
+   */
+  window?: Window;
+}
+
+/**
+ * A request waiting for its response
+ */
+interface PendingIframeRequest {
+  requestType: string;
+  iframe: HTMLIFrameElement;
+  resolve: (result: any) => void;
+  reject: (error: AppError) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Iframe bridge implementation
+ * Carries event bus events to iframes with postMessage, emits messages from
+ * iframes on the bus and correlates requests with their responses
+ */
+export class IframeBridge implements IIframeBridge {
+  /**
+   * Default milliseconds to wait for a response
+   * @private
+   */
+  private readonly DEFAULT_REQUEST_TIMEOUT = 5000;
+
+  private allowedOrigins: Set<string>;
+  private iframes: Set<HTMLIFrameElement> = new Set();
+  private forwarders: Map<string, () => void> = new Map();
+  private pendingRequests: Map<string, PendingIframeRequest> = new Map();
+  private requestCounter = 0;
+  private window: Window;
+  private initialized = false;
+
+  /**
+   * Creates a new IframeBridge
+   * @param eventBus Event bus to forward events from and emit messages on
+   * @param errorHandler The error handler for error management
+   * @param options Bridge options
+   */
+  constructor(
+    private eventBus: IEnhancedEventBus,
+    private errorHandler: IErrorHandler,
+    private options: IframeBridgeOptions = {}
+  ) {
+    this.window = options.window || window;
+    this.allowedOrigins = new Set((options.allowedOrigins || []).map(origin => this.normalizeOrigin(origin)));
+  }
+
+  /**
+   * Initialize the bridge and start listening for messages
+   * Calling it again has no effect until the bridge is disposed.
+   */
+  public initialize(): void {
+    if (this.initialized) return;
+
+    this.window.addEventListener('message', this.handleMessage);
+    (this.options.forwardEvents || []).forEach(event => this.forwardEvent(event));
+    this.initialized = true;
+  }
+
+  /**
+   * Register an iframe to receive forwarded events and send messages
+   * @param iframe The iframe element
+   */
+  public registerIframe(iframe: HTMLIFrameElement): void {
+    this.iframes.add(iframe);
+  }
+
+  /**
+   * Stop forwarding events to an iframe and accepting its opaque-origin messages
+   * @param iframe The iframe element
+   */
+  public unregisterIframe(iframe: HTMLIFrameElement): void {
+    this.iframes.delete(iframe);
+  }
+
+  /**
+   * Forward an event bus event to every registered iframe
+   * @param event The event name on the bus
+   * @param messageType Message type posted to the iframes (defaults to the event name)
+   * @returns Function that stops forwarding the event
+   */
+  public forwardEvent(event: string, messageType: string = event): () => void {
+    this.forwarders.get(event)?.();
+
+    const unsubscribe = this.eventBus.on(event, data => {
+      this.iframes.forEach(iframe => this.sendEventToIframe(iframe, messageType, data));
+    });
+
+    const stop = () => {
+      unsubscribe();
+      if (this.forwarders.get(event) === stop) {
+        this.forwarders.delete(event);
+      }
+    };
+
+    this.forwarders.set(event, stop);
+    return stop;
+  }
+
+  /**
+   * Send an event to a specific iframe
+   * @param iframe The target iframe element
+   * @param event The event name, used as the message type
+   * @param data The event data
+   */
+  public sendEventToIframe(iframe: HTMLIFrameElement, event: string, data: any): void {
+    this.postToIframe(iframe, { type: event, payload: data, source: 'parent', target: iframe.id || undefined });
+  }
+
+  /**
+   * Sends a request to the iframe and returns a promise for the response
+   * The iframe answers with a '<requestType>-response' message carrying the same
+   * correlationId and a payload of { result } or { error }.
+   * @param iframe The target iframe
+   * @param requestType The request type
+   * @param data The request payload
+   * @returns Promise resolving to the response result
+   * @throws AppError with RUNTIME type if the request cannot be sent, times out or the iframe reports an error
+   */
+  public requestFromIframe<T = any>(iframe: HTMLIFrameElement, requestType: string, data: any): Promise<T> {
+    const correlationId = `req-${Date.now().toString(36)}-${++this.requestCounter}`;
+    const timeout = this.options.requestTimeout ?? this.DEFAULT_REQUEST_TIMEOUT;
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(correlationId);
+        const message = `Request timed out: ${requestType}`;
+        this.errorHandler.handleIframeError(iframe, message, { requestType, correlationId, timeout });
+        reject(new AppError(ErrorType.RUNTIME, message, { requestType, correlationId, timeout }));
+      }, timeout);
+
+      this.pendingRequests.set(correlationId, { requestType, iframe, resolve, reject, timer });
+
+      const sent = this.postToIframe(iframe, {
+        type: requestType,
+        payload: data,
+        correlationId,
+        source: 'parent',
+        target: iframe.id || undefined
+      });
+
+      if (!sent) {
+        clearTimeout(timer);
+        this.pendingRequests.delete(correlationId);
+        reject(new AppError(
+          ErrorType.RUNTIME,
+          `Failed to send request to iframe: ${requestType}`,
+          { requestType, correlationId }
+        ));
+      }
+    });
+  }
+
+  /**
+   * Set allowed origins for security validation
+   * @param origins Array of allowed origins
+   */
+  public setAllowedOrigins(origins: string[]): void {
+    this.allowedOrigins = new Set(origins.map(origin => this.normalizeOrigin(origin)));
+  }
+
+  /**
+   * Add an allowed origin to the existing list
+   * @param origin Origin to add to allowed list
+   */
+  public addAllowedOrigin(origin: string): void {
+    this.allowedOrigins.add(this.normalizeOrigin(origin));
+  }
+
+  /**
+   * Check if an origin is in the allowed list
+   * The parent's own origin is always allowed.
+   * @param origin Origin to check
+   * @returns Whether the origin is allowed
+   */
+  public isAllowedOrigin(origin: string): boolean {
+    const normalized = this.normalizeOrigin(origin);
+    return this.allowedOrigins.has(normalized) || normalized === this.window.location.origin;
+  }
+
+  /**
+   * Stop listening for messages and clean up resources
+   * Pending requests are rejected.
+   */
+  public dispose(): void {
+    this.window.removeEventListener('message', this.handleMessage);
+    Array.from(this.forwarders.values()).forEach(stop => stop());
+    this.iframes.clear();
+
+    this.pendingRequests.forEach((request, correlationId) => {
+      clearTimeout(request.timer);
+      request.reject(new AppError(
+        ErrorType.RUNTIME,
+        `Iframe bridge disposed before a response to: ${request.requestType}`,
+        { requestType: request.requestType, correlationId }
+      ));
+    });
+    this.pendingRequests.clear();
+    this.initialized = false;
+  }
+
+  /**
+   * Handle a message event received by the window
+   * Arrow function so it can be added and removed as a listener.
+   * @param event The message event
+   * @private
+   */
+  private handleMessage = (event: MessageEvent): void => {
+    const message = event.data as IframeMessage;
+
+    if (!message || typeof message !== 'object' || typeof message.type !== 'string' || message.source !== 'iframe') {
+      return; // Not a bridge message
+    }
+
+    const iframe = Array.from(this.iframes).find(frame => frame.contentWindow === event.source);
+    const trusted = this.isAllowedOrigin(event.origin) || (event.origin === 'null' && iframe !== undefined);
+
+    if (!trusted) {
+      this.errorHandler.handleIframeError(
+        event.origin || 'unknown-origin',
+        `Message received from unauthorized origin: ${event.origin}`,
+        { origin: event.origin, type: message.type }
+      );
+      return;
+    }
+
+    if (message.correlationId && this.pendingRequests.has(message.correlationId)) {
+      this.resolveRequest(message, event.source);
+      return;
+    }
+
+    const source = iframe ? this.describeIframe(iframe) : event.origin;
+
+    if (message.type === IFRAME_MESSAGE_TYPES.READY) {
+      this.acknowledgeReady(event);
+      this.eventBus.emit(IFRAME_EVENTS.READY, {
+        source,
+        url: message.payload?.url ?? '',
+        timestamp: new Date()
+      });
+      return;
+    }
+
+    if (message.type === IFRAME_MESSAGE_TYPES.ERROR) {
+      const { message: errorMessage, ...details } = message.payload || {};
+      this.errorHandler.handleIframeError(iframe || source, String(errorMessage ?? 'Unknown error'), details);
+      return;
+    }
+
+    if (message.type === IFRAME_MESSAGE_TYPES.CSP_VIOLATION) {
+      const details = message.payload || {};
+      this.errorHandler.handleIframeError(
+        iframe || source,
+        `Content Security Policy violation: ${details.effectiveDirective || details.violatedDirective} blocked ${details.blockedURI || 'inline content'}`,
+        details
+      );
+      return;
+    }
+
+    if (message.type === IFRAME_MESSAGE_TYPES.TEX_ERROR) {
+      const { renderer, message: errorMessage, ...details } = message.payload || {};
+      this.errorHandler.handleMathApiError(
+        String(renderer ?? 'tex'),
+        String(errorMessage ?? 'Invalid TeX'),
+        { ...details, source }
+      );
+      return;
+    }
+
+    this.eventBus.emit(IFRAME_EVENTS.MESSAGE_RECEIVED, {
+      source,
+      type: message.type,
+      data: message.payload,
+      timestamp: new Date()
+    });
+    this.eventBus.emit(`${IFRAME_EVENT_PREFIX}${message.type}`, message.payload);
+  };
+
+  /**
+   * Settle a pending request with its response message
+   * Responses must have the expected type and come from the requested iframe.
+   * @param message The response message
+   * @param sourceWindow Window that posted the response
+   * @private
+   */
+  private resolveRequest(message: IframeMessage, sourceWindow: MessageEventSource | null): void {
+    const correlationId = message.correlationId as string;
+    const request = this.pendingRequests.get(correlationId) as PendingIframeRequest;
+
+    if (message.type !== `${request.requestType}-response` ||
+        (request.iframe.contentWindow && sourceWindow !== request.iframe.contentWindow)) {
+      return;
+    }
+
+    clearTimeout(request.timer);
+    this.pendingRequests.delete(correlationId);
+
+    if (message.payload?.error !== undefined) {
+      request.reject(new AppError(
+        ErrorType.RUNTIME,
+        `Iframe request failed: ${request.requestType}: ${message.payload.error}`,
+        { requestType: request.requestType, correlationId, error: message.payload.error }
+      ));
+      return;
+    }
+
+    request.resolve(message.payload?.result);
+  }
+
+  /**
+   * Reply to a client runtime's readiness handshake
+   * @param event The READY message event
+   * @private
+   */
+  private acknowledgeReady(event: MessageEvent): void {
+    const ack: IframeMessage = { type: IFRAME_MESSAGE_TYPES.READY_ACK, payload: null, source: 'parent' };
+    (event.source as Window | null)?.postMessage(ack, event.origin === 'null' ? '*' : event.origin);
+  }
+
+  /**
+   * Post a message to an iframe and report failures
+   * @param iframe The target iframe
+   * @param message The message to post
+   * @returns True if the message was posted
+   * @private
+   */
+  private postToIframe(iframe: HTMLIFrameElement, message: IframeMessage): boolean {
+    const target = this.describeIframe(iframe);
+
+    try {
+      if (!iframe.contentWindow) {
+        throw new Error('contentWindow is null');
+      }
+
+      iframe.contentWindow.postMessage(message, this.getTargetOrigin(iframe));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.errorHandler.handleIframeError(
+        iframe,
+        `Failed to send message to iframe: ${reason}`,
+        { type: message.type, target }
+      );
+      this.eventBus.emit(IFRAME_EVENTS.COMMUNICATION_ERROR, {
+        target,
+        error: reason,
+        timestamp: new Date()
+      });
+      return false;
+    }
+
+    this.eventBus.emit(IFRAME_EVENTS.MESSAGE_SENT, {
+      target,
+      type: message.type,
+      data: message.payload,
+      timestamp: new Date()
+    });
+    return true;
+  }
+
+  /**
+   * Get the origin to post messages to for an iframe
+   * Frames loaded from a URL use its origin; sandboxed frames without
+   * allow-same-origin have an opaque origin and need '*'.
+   * @param iframe The target iframe
+   * @returns Target origin for postMessage
+   * @private
+   */
+  private getTargetOrigin(iframe: HTMLIFrameElement): string {
+    const src = iframe.getAttribute('src');
+    const url = src ? new URL(src, this.window.location.href) : null;
+
+    if (url && (url.protocol === 'http:' || url.protocol === 'https:')) {
+      return url.origin;
+    }
+
+    if (iframe.hasAttribute('sandbox') && !/\ballow-same-origin\b/.test(iframe.getAttribute('sandbox') || '')) {
+      return '*';
+    }
+
+    return this.window.location.origin;
+  }
+
+  /**
+   * Describe an iframe for events and error details
+   * @param iframe The iframe element
+   * @returns The iframe ID, source URL or 'unknown-iframe'
+   * @private
+   */
+  private describeIframe(iframe: HTMLIFrameElement): string {
+    return iframe.id || iframe.getAttribute('src') || 'unknown-iframe';
+  }
+
+  /**
+   * Normalize an origin by dropping any trailing slash
+   * @param origin Origin to normalize
+   * @returns Normalized origin
+   * @private
+   */
+  private normalizeOrigin(origin: string): string {
+    return origin.replace(/\/+$/, '');
+  }
+}
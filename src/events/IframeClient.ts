@@ -0,0 +1,198 @@
+import { IFRAME_MESSAGE_TYPES } from './events';
+
+/**
+ * Options for the iframe client runtime
+ */
+export interface IframeClientOptions {
+  /**
+   * Origin of the parent page; messages from other origins are ignored (defaults to '*')
+   */
+  parentOrigin?: string;
+
+  /**
+   * Global variable the client is assigned to (defaults to 'DevPreviewBridge'; empty to skip)
+   */
+  globalName?: string;
+}
+
+/**
+ * Iframe-side client of the IframeBridge protocol
+ * Available to component code as window.DevPreviewBridge when injected by a preview.
+ */
+export interface IIframeClient {
+  /**
+   * Send an event to the parent, emitted there as 'iframe:<type>'
+   * @param type Message type
+   * @param payload Message payload
+   */
+  emit(type: string, payload?: unknown): void;
+
+  /**
+   * Listen for events the parent sends to this iframe
+   * @param type Message type
+   * @param handler Function called with the message payload
+   * @returns Unsubscribe function
+   */
+  on(type: string, handler: (payload: any) => void): () => void;
+
+  /**
+   * Answer the parent's requestFromIframe calls of a type
+   * The handler's return value (or resolved promise) is sent as the result;
+   * a thrown error or rejection is sent as the error message.
+   * @param type Request type
+   * @param handler Function producing the response
+   * @returns Function that stops answering
+   */
+  respond(type: string, handler: (payload: any) => unknown): () => void;
+
+  /**
+   * Resolves when the parent bridge acknowledges the readiness handshake
+   */
+  ready: Promise<void>;
+
+  /**
+   * Check whether the parent bridge has acknowledged the handshake
+   * @returns Whether the bridge is connected
+   */
+  isConnected(): boolean;
+}
+
+/**
+ * Default global variable name of the client inside previews
+ */
+export const IFRAME_CLIENT_GLOBAL = 'DevPreviewBridge';
+
+/**
+ * Install the client runtime in a window inside an iframe
+ * @param win The iframe's window
+ * @param options Client options
+ * @returns The installed client
+ */
+export function installIframeClient(win: Window = window, options: IframeClientOptions = {}): IIframeClient {
+  return runIframeClient(win, { globalName: IFRAME_CLIENT_GLOBAL, ...options }, IFRAME_MESSAGE_TYPES);
+}
+
+/**
+ * Get the client runtime as a script to inline into preview documents
+ * @param options Client options
+ * @returns JavaScript source that installs the client in the window it runs in
+ */
+export function getIframeClientScript(options: IframeClientOptions = {}): string {
+  const args = [
+    JSON.stringify({ globalName: IFRAME_CLIENT_GLOBAL, ...options }),
+    JSON.stringify(IFRAME_MESSAGE_TYPES)
+  ].join(', ');
+
+  return `(${runIframeClient.toString()})(window, ${args});`.replace(/<\/script/gi, '<\\/script');
+}
+
+/**
+ * Client runtime implementation
+ * Must not reference anything outside its own body, because getIframeClientScript
+ * serializes it with Function.prototype.toString.
+ * @param win The iframe's window
+ * @param options Client options
+ * @param types Reserved protocol message types
+ * @returns The installed client
+ */
+function runIframeClient(
+  win: Window,
+  options: IframeClientOptions,
+  types: typeof IFRAME_MESSAGE_TYPES
+): IIframeClient {
+  const parentWindow = win.parent;
+  const targetOrigin = options.parentOrigin || '*';
+  const handlers: Record<string, Array<(payload: any) => void>> = {};
+  const responders: Record<string, (payload: any) => unknown> = {};
+  let connected = false;
+  let markReady: () => void = () => undefined;
+  const ready = new Promise<void>(resolve => { markReady = resolve; });
+
+  const post = (message: Record<string, unknown>) => {
+    if (parentWindow && parentWindow !== win) {
+      parentWindow.postMessage({ ...message, source: 'iframe' }, targetOrigin);
+    }
+  };
+
+  const describe = (reason: any) => (reason && reason.message ? String(reason.message) : String(reason));
+
+  const reportError = (message: string, details: Record<string, unknown>) => {
+    post({ type: types.ERROR, payload: { message, ...details } });
+  };
+
+  win.addEventListener('message', (event: MessageEvent) => {
+    const message = event.data;
+
+    if (event.source !== parentWindow || (targetOrigin !== '*' && event.origin !== targetOrigin)) return;
+    if (!message || typeof message !== 'object' || message.source !== 'parent' || typeof message.type !== 'string') return;
+
+    if (message.type === types.READY_ACK) {
+      connected = true;
+      markReady();
+      return;
+    }
+
+    const responder = responders[message.type];
+    if (message.correlationId && responder) {
+      const reply = (payload: Record<string, unknown>) => post({
+        type: `${message.type}-response`,
+        payload,
+        correlationId: message.correlationId
+      });
+
+      Promise.resolve()
+        .then(() => responder(message.payload))
+        .then(result => reply({ result }), error => reply({ error: describe(error) }));
+      return;
+    }
+
+    (handlers[message.type] || []).slice().forEach(handler => {
+      try {
+        handler(message.payload);
+      } catch (error: any) {
+        reportError(`Error in handler for '${message.type}': ${describe(error)}`, { stack: error && error.stack });
+      }
+    });
+  });
+
+  win.addEventListener('error', (event: ErrorEvent) => {
+    reportError(event.message || 'Script error', {
+      filename: event.filename,
+      line: event.lineno,
+      column: event.colno,
+      stack: event.error && event.error.stack
+    });
+  });
+
+  win.addEventListener('unhandledrejection', (event: PromiseRejectionEvent) => {
+    reportError(`Unhandled promise rejection: ${describe(event.reason)}`, {
+      stack: event.reason && event.reason.stack
+    });
+  });
+
+  const client: IIframeClient = {
+    emit: (type, payload) => post({ type, payload }),
+    on: (type, handler) => {
+      (handlers[type] = handlers[type] || []).push(handler);
+      return () => {
+        handlers[type] = (handlers[type] || []).filter(h => h !== handler);
+      };
+    },
+    respond: (type, handler) => {
+      responders[type] = handler;
+      return () => {
+        if (responders[type] === handler) delete responders[type];
+      };
+    },
+    ready,
+    isConnected: () => connected
+  };
+
+  if (options.globalName) {
+    (win as any)[options.globalName] = client;
+  }
+
+  post({ type: types.READY, payload: { url: win.location ? win.location.href : '' } });
+
+  return client;
+}
@@ -0,0 +1,65 @@
+import { ITypedEventBus, EventName, TypedEventCallback } from './ITypedEventBus';
+import { IEventBus } from './IEventBus';
+import { EnhancedEventBus } from './EnhancedEventBus';
+import { DevPreviewEventMap } from './EventMap';
+
+/**
+ * Typed event bus implementation
+ * Adds compile-time checking of event names and payloads on top of an untyped
+ * bus. Listeners and emitters that still use the untyped bus share its events,
+ * so code can move to the typed API one module at a time.
+ */
+export class TypedEventBus<TEvents = DevPreviewEventMap> implements ITypedEventBus<TEvents> {
+  /**
+   * Creates a new TypedEventBus
+   * @param eventBus Untyped bus that carries the events (IEventBus or IEnhancedEventBus)
+   */
+  constructor(private eventBus: IEventBus = new EnhancedEventBus()) {}
+
+  /**
+   * Register an event listener
+   * @param event Event name declared in the event map
+   * @param callback Function to execute with the event payload
+   * @returns Unsubscribe function
+   */
+  public on<K extends EventName<TEvents>>(event: K, callback: TypedEventCallback<TEvents, K>): () => void {
+    return this.eventBus.on(event, callback);
+  }
+
+  /**
+   * Remove an event listener
+   * @param event Event name declared in the event map
+   * @param callback Callback function to remove
+   */
+  public off<K extends EventName<TEvents>>(event: K, callback: TypedEventCallback<TEvents, K>): void {
+    this.eventBus.off(event, callback);
+  }
+
+  /**
+   * Emit an event
+   * @param event Event name declared in the event map
+   * @param data Payload matching the type declared for the event
+   */
+  public emit<K extends EventName<TEvents>>(event: K, data: TEvents[K]): void {
+    this.eventBus.emit(event, data);
+  }
+
+  /**
+   * Register a one-time event listener
+   * @param event Event name declared in the event map
+   * @param callback Function to execute once with the event payload
+   * @returns Unsubscribe function
+   */
+  public once<K extends EventName<TEvents>>(event: K, callback: TypedEventCallback<TEvents, K>): () => void {
+    return this.eventBus.once(event, callback);
+  }
+
+  /**
+   * Get the untyped bus carrying this bus's events
+   * Pass it to components that only accept IEventBus, such as ErrorHandler.
+   * @returns The underlying untyped bus
+   */
+  public asEventBus(): IEventBus {
+    return this.eventBus;
+  }
+}
@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IframeBridge } from '../IframeBridge';
+import { EnhancedEventBus } from '../EnhancedEventBus';
+import { IFRAME_EVENTS } from '../events';
+import { IErrorHandler, ErrorType } from '../../errors/IErrorHandler';
+
+describe('IframeBridge', () => {
+  const trustedOrigin = 'https://www.desmos.com';
+
+  let eventBus: EnhancedEventBus;
+  let errorHandler: IErrorHandler;
+  let bridge: IframeBridge;
+  let iframe: HTMLIFrameElement;
+  let postMessage: ReturnType<typeof vi.fn>;
+
+  /**
+   * Simulate a message posted by the iframe to the parent window
+   */
+  const receive = (data: any, origin: string = trustedOrigin, source: Window | null = iframe.contentWindow) => {
+    window.dispatchEvent(new MessageEvent('message', { data, origin, source }));
+  };
+
+  beforeEach(() => {
+    eventBus = new EnhancedEventBus();
+    errorHandler = {
+      handle: vi.fn(),
+      createAndHandle: vi.fn(),
+      handleIframeError: vi.fn(),
+      handleMathApiError: vi.fn(),
+      attemptRecovery: vi.fn()
+    };
+
+    iframe = document.createElement('iframe');
+    iframe.id = 'preview-frame';
+    document.body.appendChild(iframe);
+    postMessage = vi.fn();
+    (iframe.contentWindow as Window).postMessage = postMessage;
+
+    bridge = new IframeBridge(eventBus, errorHandler, { allowedOrigins: [`${trustedOrigin}/`] });
+    bridge.initialize();
+    bridge.registerIframe(iframe);
+  });
+
+  afterEach(() => {
+    bridge.dispose();
+    iframe.remove();
+    vi.useRealTimers();
+  });
+
+  // #region Parent to iframe
+
+  it('should post events to an iframe', () => {
+    // Act
+    bridge.sendEventToIframe(iframe, 'content-update', { html: '<p></p>' });
+
+    // Assert
+    expect(postMessage).toHaveBeenCalledWith(
+      { type: 'content-update', payload: { html: '<p></p>' }, source: 'parent', target: 'preview-frame' },
+      window.location.origin
+    );
+  });
+
+  it('should target the iframe origin and fall back to * for opaque sandboxes', () => {
+    // Arrange
+    const getAttribute = vi.spyOn(iframe, 'getAttribute');
+    const hasAttribute = vi.spyOn(iframe, 'hasAttribute');
+
+    // Act
+    getAttribute.mockImplementation(name => (name === 'src' ? 'https://www.geogebra.org/classic' : null));
+    bridge.sendEventToIframe(iframe, 'a', null);
+    getAttribute.mockImplementation(name => (name === 'sandbox' ? 'allow-scripts' : null));
+    hasAttribute.mockImplementation(name => name === 'sandbox');
+    bridge.sendEventToIframe(iframe, 'b', null);
+
+    // Assert
+    expect(postMessage.mock.calls.map(call => call[1])).toEqual(['https://www.geogebra.org', '*']);
+  });
+
+  it('should forward selected bus events to registered iframes', () => {
+    // Arrange
+    const stop = bridge.forwardEvent('editor:content-changed', 'content-update');
+
+    // Act
+    eventBus.emit('editor:content-changed', { html: 'a' });
+    stop();
+    eventBus.emit('editor:content-changed', { html: 'b' });
+
+    // Assert
+    expect(postMessage).toHaveBeenCalledTimes(1);
+    expect(postMessage.mock.calls[0][0]).toMatchObject({ type: 'content-update', payload: { html: 'a' } });
+  });
+
+  it('should report iframes that cannot receive messages', () => {
+    // Arrange
+    const detached = document.createElement('iframe');
+    const communicationError = vi.fn();
+    eventBus.on(IFRAME_EVENTS.COMMUNICATION_ERROR, communicationError);
+
+    // Act
+    bridge.sendEventToIframe(detached, 'content-update', {});
+
+    // Assert
+    expect(errorHandler.handleIframeError).toHaveBeenCalledWith(
+      detached,
+      'Failed to send message to iframe: contentWindow is null',
+      expect.objectContaining({ type: 'content-update' })
+    );
+    expect(communicationError).toHaveBeenCalledWith(expect.objectContaining({ error: 'contentWindow is null' }));
+  });
+
+  // #endregion
+
+  // #region Iframe to parent
+
+  it('should emit messages from allowed origins on the bus', () => {
+    // Arrange
+    const received = vi.fn();
+    const typed = vi.fn();
+    eventBus.on(IFRAME_EVENTS.MESSAGE_RECEIVED, received);
+    eventBus.on('iframe:calculator-state-changed', typed);
+
+    // Act
+    receive({ type: 'calculator-state-changed', payload: { state: 1 }, source: 'iframe' });
+
+    // Assert
+    expect(received).toHaveBeenCalledWith({
+      source: 'preview-frame',
+      type: 'calculator-state-changed',
+      data: { state: 1 },
+      timestamp: expect.any(Date)
+    });
+    expect(typed).toHaveBeenCalledWith({ state: 1 });
+  });
+
+  it('should reject messages from origins that are not allowed', () => {
+    // Arrange
+    const received = vi.fn();
+    eventBus.on(IFRAME_EVENTS.MESSAGE_RECEIVED, received);
+
+    // Act
+    receive({ type: 'steal', payload: {}, source: 'iframe' }, 'https://malicious.example');
+    bridge.setAllowedOrigins([]);
+    receive({ type: 'steal', payload: {}, source: 'iframe' });
+
+    // Assert
+    expect(received).not.toHaveBeenCalled();
+    expect(errorHandler.handleIframeError).toHaveBeenCalledWith(
+      'https://malicious.example',
+      'Message received from unauthorized origin: https://malicious.example',
+      { origin: 'https://malicious.example', type: 'steal' }
+    );
+    expect(errorHandler.handleIframeError).toHaveBeenCalledTimes(2);
+  });
+
+  it('should accept opaque origins only from registered iframes', () => {
+    // Arrange
+    const received = vi.fn();
+    eventBus.on(IFRAME_EVENTS.MESSAGE_RECEIVED, received);
+
+    // Act
+    receive({ type: 'ready', payload: null, source: 'iframe' }, 'null');
+    receive({ type: 'ready', payload: null, source: 'iframe' }, 'null', window);
+
+    // Assert
+    expect(received).toHaveBeenCalledTimes(1);
+    expect(errorHandler.handleIframeError).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore messages that are not bridge messages', () => {
+    // Act
+    receive('hello', 'https://malicious.example');
+    receive({ type: 'echo', source: 'parent' });
+
+    // Assert
+    expect(errorHandler.handleIframeError).not.toHaveBeenCalled();
+  });
+
+  // #endregion
+
+  // #region Requests
+
+  it('should resolve requests with the correlated response', async () => {
+    // Act
+    const promise = bridge.requestFromIframe(iframe, 'get-state', { full: true });
+    const request = postMessage.mock.calls[0][0];
+    receive({ type: 'get-state-response', correlationId: 'other', payload: { result: 'wrong' }, source: 'iframe' });
+    receive({ type: 'get-state-response', correlationId: request.correlationId, payload: { result: { x: 1 } }, source: 'iframe' });
+
+    // Assert
+    expect(request).toMatchObject({ type: 'get-state', payload: { full: true }, source: 'parent' });
+    await expect(promise).resolves.toEqual({ x: 1 });
+  });
+
+  it('should reject requests the iframe answers with an error', async () => {
+    // Act
+    const promise = bridge.requestFromIframe(iframe, 'evaluate-command', { command: 'x=' });
+    const { correlationId } = postMessage.mock.calls[0][0];
+    receive({ type: 'evaluate-command-response', correlationId, payload: { error: 'Syntax error' }, source: 'iframe' });
+
+    // Assert
+    await expect(promise).rejects.toMatchObject({
+      type: ErrorType.RUNTIME,
+      message: 'Iframe request failed: evaluate-command: Syntax error'
+    });
+  });
+
+  it('should time out requests without a response', async () => {
+    // Arrange
+    vi.useFakeTimers();
+    bridge.dispose();
+    bridge = new IframeBridge(eventBus, errorHandler, { requestTimeout: 100 });
+    bridge.initialize();
+
+    // Act
+    const promise = bridge.requestFromIframe(iframe, 'get-state', null);
+    const assertion = expect(promise).rejects.toThrow('Request timed out: get-state');
+    vi.advanceTimersByTime(100);
+
+    // Assert
+    await assertion;
+    expect(errorHandler.handleIframeError).toHaveBeenCalledWith(
+      iframe,
+      'Request timed out: get-state',
+      expect.objectContaining({ timeout: 100 })
+    );
+  });
+
+  it('should reject pending requests when disposed', async () => {
+    // Act
+    const promise = bridge.requestFromIframe(iframe, 'get-state', null);
+    bridge.dispose();
+
+    // Assert
+    await expect(promise).rejects.toThrow('Iframe bridge disposed before a response to: get-state');
+  });
+
+  // #endregion
+});
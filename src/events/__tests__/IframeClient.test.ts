@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { installIframeClient, getIframeClientScript, IIframeClient } from '../IframeClient';
+import { IframeBridge } from '../IframeBridge';
+import { EnhancedEventBus } from '../EnhancedEventBus';
+import { IFRAME_EVENTS } from '../events';
+import { IErrorHandler } from '../../errors/IErrorHandler';
+
+/**
+ * Wait for queued postMessage deliveries
+ */
+const flushMessages = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Deliver postMessage calls between the parent and an iframe as MessageEvents
+ * jsdom does not set origin and source on posted messages, which the bridge checks,
+ * and an iframe's parent is a different object from the test's window.
+ */
+function connectWindows(frameWindow: Window): void {
+  const origin = window.location.origin;
+  const deliver = (target: Window, source: Window) => (data: any) => {
+    setTimeout(() => target.dispatchEvent(new MessageEvent('message', { data, origin, source })));
+  };
+
+  frameWindow.parent.postMessage = deliver(window, frameWindow) as Window['postMessage'];
+  frameWindow.postMessage = deliver(frameWindow, frameWindow.parent) as Window['postMessage'];
+}
+
+describe('IframeClient', () => {
+  let eventBus: EnhancedEventBus;
+  let errorHandler: IErrorHandler;
+  let bridge: IframeBridge;
+  let iframe: HTMLIFrameElement;
+  let frameWindow: Window;
+
+  beforeEach(() => {
+    eventBus = new EnhancedEventBus();
+    errorHandler = {
+      handle: vi.fn(),
+      createAndHandle: vi.fn(),
+      handleIframeError: vi.fn(),
+      handleMathApiError: vi.fn(),
+      attemptRecovery: vi.fn()
+    };
+
+    iframe = document.createElement('iframe');
+    iframe.id = 'preview-frame';
+    document.body.appendChild(iframe);
+    frameWindow = iframe.contentWindow as Window;
+    connectWindows(frameWindow);
+
+    bridge = new IframeBridge(eventBus, errorHandler);
+    bridge.initialize();
+    bridge.registerIframe(iframe);
+  });
+
+  afterEach(() => {
+    bridge.dispose();
+    iframe.remove();
+  });
+
+  it('should complete the readiness handshake with the parent bridge', async () => {
+    // Arrange
+    const ready = vi.fn();
+    eventBus.on(IFRAME_EVENTS.READY, ready);
+
+    // Act
+    const client = installIframeClient(frameWindow);
+    await client.ready;
+
+    // Assert
+    expect(client.isConnected()).toBe(true);
+    expect(ready).toHaveBeenCalledWith(expect.objectContaining({ source: 'preview-frame' }));
+    expect((frameWindow as any).DevPreviewBridge).toBe(client);
+  });
+
+  it('should exchange events with the parent bridge', async () => {
+    // Arrange
+    const client = installIframeClient(frameWindow);
+    const fromParent = vi.fn();
+    const fromIframe = vi.fn();
+    client.on('content-update', fromParent);
+    eventBus.on('iframe:calculator-state-changed', fromIframe);
+
+    // Act
+    bridge.sendEventToIframe(iframe, 'content-update', { html: '<p></p>' });
+    client.emit('calculator-state-changed', { expressions: 2 });
+    await flushMessages();
+
+    // Assert
+    expect(fromParent).toHaveBeenCalledWith({ html: '<p></p>' });
+    expect(fromIframe).toHaveBeenCalledWith({ expressions: 2 });
+  });
+
+  it('should answer parent requests with results and errors', async () => {
+    // Arrange
+    const client = installIframeClient(frameWindow);
+    client.respond('get-state', async payload => ({ zoom: payload.zoom * 2 }));
+    client.respond('evaluate-command', () => {
+      throw new Error('Unknown command');
+    });
+
+    // Act & Assert
+    await expect(bridge.requestFromIframe(iframe, 'get-state', { zoom: 2 })).resolves.toEqual({ zoom: 4 });
+    await expect(bridge.requestFromIframe(iframe, 'evaluate-command', {}))
+      .rejects.toThrow('Iframe request failed: evaluate-command: Unknown command');
+  });
+
+  it('should forward uncaught errors and unhandled rejections to handleIframeError', async () => {
+    // Arrange
+    installIframeClient(frameWindow);
+    const rejection = new Event('unhandledrejection') as PromiseRejectionEvent;
+    Object.defineProperty(rejection, 'reason', { value: new Error('Network down') });
+
+    // Act
+    frameWindow.dispatchEvent(new ErrorEvent('error', { message: 'x is not defined', filename: 'preview.js', lineno: 3, colno: 7 }));
+    frameWindow.dispatchEvent(rejection);
+    await flushMessages();
+
+    // Assert
+    expect(errorHandler.handleIframeError).toHaveBeenCalledWith(
+      iframe,
+      'x is not defined',
+      expect.objectContaining({ filename: 'preview.js', line: 3, column: 7 })
+    );
+    expect(errorHandler.handleIframeError).toHaveBeenCalledWith(
+      iframe,
+      'Unhandled promise rejection: Network down',
+      expect.any(Object)
+    );
+  });
+
+  it('should stop delivering to removed handlers', async () => {
+    // Arrange
+    const client: IIframeClient = installIframeClient(frameWindow);
+    const handler = vi.fn();
+    const off = client.on('content-update', handler);
+
+    // Act
+    off();
+    bridge.sendEventToIframe(iframe, 'content-update', {});
+    await flushMessages();
+
+    // Assert
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should produce a self-contained script for preview documents', async () => {
+    // Arrange
+    const script = getIframeClientScript({ globalName: 'Bridge' });
+    const ready = vi.fn();
+    eventBus.on(IFRAME_EVENTS.READY, ready);
+
+    // Act
+    new Function('window', script)(frameWindow);
+    await (frameWindow as any).Bridge.ready;
+
+    // Assert
+    expect(script).not.toMatch(/<\/script/i);
+    expect(ready).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TypedEventBus } from '../TypedEventBus';
+import { EventBus } from '../EventBus';
+import { EnhancedEventBus } from '../EnhancedEventBus';
+import { FACTORY_EVENTS, ComponentCreatedEvent } from '../../factories/events';
+import { ErrorHandler, ErrorEventType } from '../../errors/ErrorHandler';
+import { ErrorType } from '../../errors/IErrorHandler';
+
+describe('TypedEventBus', () => {
+  const created: ComponentCreatedEvent = {
+    type: 'editor',
+    id: 'editor-container',
+    factoryId: 'monaco',
+    timestamp: 1
+  };
+
+  it('should deliver declared payloads to typed listeners', () => {
+    // Arrange
+    const bus = new TypedEventBus();
+    const callback = vi.fn();
+
+    // Act
+    bus.on(FACTORY_EVENTS.COMPONENT_CREATED, callback);
+    bus.emit(FACTORY_EVENTS.COMPONENT_CREATED, created);
+
+    // Assert
+    expect(callback).toHaveBeenCalledWith(created);
+  });
+
+  it('should unsubscribe with off and the returned function', () => {
+    // Arrange
+    const bus = new TypedEventBus();
+    const first = vi.fn();
+    const second = vi.fn();
+    bus.on(FACTORY_EVENTS.COMPONENT_CREATED, first);
+    const unsubscribe = bus.on(FACTORY_EVENTS.COMPONENT_CREATED, second);
+
+    // Act
+    bus.off(FACTORY_EVENTS.COMPONENT_CREATED, first);
+    unsubscribe();
+    bus.emit(FACTORY_EVENTS.COMPONENT_CREATED, created);
+
+    // Assert
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('should call once listeners a single time', () => {
+    // Arrange
+    const bus = new TypedEventBus();
+    const callback = vi.fn();
+
+    // Act
+    bus.once(FACTORY_EVENTS.COMPONENT_CREATED, callback);
+    bus.emit(FACTORY_EVENTS.COMPONENT_CREATED, created);
+    bus.emit(FACTORY_EVENTS.COMPONENT_CREATED, created);
+
+    // Assert
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should accept custom event maps', () => {
+    // Arrange
+    const bus = new TypedEventBus<{ 'editor:saved': { componentId: string } }>();
+    const callback = vi.fn();
+
+    // Act
+    bus.on('editor:saved', event => callback(event.componentId));
+    bus.emit('editor:saved', { componentId: 'graph' });
+
+    // Assert
+    expect(callback).toHaveBeenCalledWith('graph');
+  });
+
+  // #region Untyped bus interop
+
+  it('should share events with listeners on the untyped bus', () => {
+    // Arrange
+    const untyped = new EventBus();
+    const bus = new TypedEventBus(untyped);
+    const legacyListener = vi.fn();
+    const typedListener = vi.fn();
+    untyped.on(FACTORY_EVENTS.COMPONENT_CREATED, legacyListener);
+    bus.on(FACTORY_EVENTS.COMPONENT_CREATED, typedListener);
+
+    // Act
+    bus.emit(FACTORY_EVENTS.COMPONENT_CREATED, created);
+    untyped.emit(FACTORY_EVENTS.COMPONENT_CREATED, { ...created, id: 'other' });
+
+    // Assert
+    expect(legacyListener.mock.calls).toEqual([[created], [{ ...created, id: 'other' }]]);
+    expect(typedListener).toHaveBeenCalledTimes(2);
+  });
+
+  it('should receive ErrorHandler events through the untyped adapter', () => {
+    // Arrange
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const bus = new TypedEventBus(new EnhancedEventBus());
+    const errorHandler = new ErrorHandler(undefined, bus.asEventBus());
+    const callback = vi.fn();
+    bus.on(ErrorEventType.VALIDATION_ERROR, event => callback(event.type, event.message));
+
+    // Act
+    errorHandler.createAndHandle(ErrorType.VALIDATION, 'Bad input');
+
+    // Assert
+    expect(callback).toHaveBeenCalledWith(ErrorType.VALIDATION, 'Bad input');
+  });
+
+  // #endregion
+});
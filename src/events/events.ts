@@ -0,0 +1,172 @@
+/**
+ * Iframe bridge event constants
+ * These events are published through the event bus by the iframe bridge
+ */
+export const IFRAME_EVENTS = {
+  /**
+   * Emitted for every non-response message received from an iframe
+   * Event data: { source: string, type: string, data: unknown, timestamp: Date }
+   */
+  MESSAGE_RECEIVED: 'iframe:message-received',
+
+  /**
+   * Emitted after a message is posted to an iframe
+   * Event data: { target: string, type: string, data: unknown, timestamp: Date }
+   */
+  MESSAGE_SENT: 'iframe:message-sent',
+
+  /**
+   * Emitted when the client runtime in an iframe announces it is ready
+   * Event data: { source: string, url: string, timestamp: Date }
+   */
+  READY: 'iframe:ready',
+
+  /**
+   * Emitted when a message cannot be posted to an iframe
+   * Event data: { target: string, error: string, timestamp: Date }
+   */
+  COMMUNICATION_ERROR: 'iframe:communication-error'
+} as const;
+
+/**
+ * Message types reserved by the bridge protocol between IframeBridge and the iframe client runtime
+ */
+export const IFRAME_MESSAGE_TYPES = {
+  /**
+   * Posted by the client runtime once it is listening
+   * Payload: { url: string }
+   */
+  READY: 'bridge:ready',
+
+  /**
+   * Posted by the parent bridge in reply to READY
+   */
+  READY_ACK: 'bridge:ready-ack',
+
+  /**
+   * Posted by the client runtime for uncaught errors and unhandled rejections
+   * Payload: { message: string, filename?: string, line?: number, column?: number, stack?: string }
+   */
+  ERROR: 'bridge:error',
+
+  /**
+   * Posted by the injected TeX renderer when an expression fails to parse
+   * Payload: { renderer: string, message: string, expression: string, displayMode: boolean, position?: number, element?: string }
+   */
+  TEX_ERROR: 'bridge:tex-error',
+
+  /**
+   * Posted by the injected violation reporter when the document's Content Security Policy blocks a resource
+   * Payload: { blockedURI: string, violatedDirective: string, effectiveDirective: string, sourceFile?: string, line?: number, column?: number, sample?: string }
+   */
+  CSP_VIOLATION: 'bridge:csp-violation',
+
+  /**
+   * Posted by hot-updating previews to replace the component styles
+   * Payload: { css: string }
+   */
+  PATCH_CSS: 'bridge:patch-css',
+
+  /**
+   * Posted by hot-updating previews to apply HTML changes to the document body
+   * Payload: { previousHtml: string, html: string }
+   */
+  PATCH_HTML: 'bridge:patch-html'
+} as const;
+
+/**
+ * Prefix of the bus events that carry inbound iframe messages by type
+ * A message of type 'calculator-state-changed' is emitted as 'iframe:calculator-state-changed'
+ * with the message payload as event data.
+ */
+export const IFRAME_EVENT_PREFIX = 'iframe:';
+
+/**
+ * Iframe message received event data interface
+ */
+export interface IframeMessageReceivedEvent {
+  /**
+   * Iframe ID or source URL
+   */
+  source: string;
+
+  /**
+   * Message type
+   */
+  type: string;
+
+  /**
+   * Message payload
+   */
+  data: unknown;
+
+  /**
+   * When the message was received
+   */
+  timestamp: Date;
+}
+
+/**
+ * Iframe ready event data interface
+ */
+export interface IframeReadyEvent {
+  /**
+   * Iframe ID or source URL
+   */
+  source: string;
+
+  /**
+   * Document URL reported by the iframe
+   */
+  url: string;
+
+  /**
+   * When the handshake was received
+   */
+  timestamp: Date;
+}
+
+/**
+ * Iframe message sent event data interface
+ */
+export interface IframeMessageSentEvent {
+  /**
+   * Iframe ID or source URL
+   */
+  target: string;
+
+  /**
+   * Message type
+   */
+  type: string;
+
+  /**
+   * Message payload
+   */
+  data: unknown;
+
+  /**
+   * When the message was sent
+   */
+  timestamp: Date;
+}
+
+/**
+ * Iframe communication error event data interface
+ */
+export interface IframeCommunicationErrorEvent {
+  /**
+   * Iframe ID or source URL
+   */
+  target: string;
+
+  /**
+   * Error message
+   */
+  error: string;
+
+  /**
+   * When the error occurred
+   */
+  timestamp: Date;
+}
@@ -19,7 +19,18 @@ export interface EditorConfig {
    * Whether the editor should be in read-only mode
    */
   readOnly?: boolean;
+
+  /**
+   * Team whose formatting options apply when formatting code
+   */
+  teamId?: string;
   
+  /**
+   * Stored component metadata
+   * Editors restore undo history saved with saveHistory from it.
+   */
+  metadata?: Record<string, any>;
+
   /**
    * Additional editor-specific options
    */
@@ -1,7 +1,38 @@
-import { IPreview } from '../components/Preview';
+import { IPreview, DeviceProfile, DeviceOrientation } from '../components/Preview';
 import { IComponentFactory } from './IComponentFactory';
 import { EditorContent } from '../components/Editor';
 
+/**
+ * TeX renderer that can be injected into preview documents
+ */
+export type MathRendererType = 'katex' | 'mathjax';
+
+/**
+ * Options for rendering TeX in preview documents
+ */
+export interface MathRendererOptions {
+  /**
+   * Renderer to inject
+   */
+  renderer: MathRendererType;
+  
+  /**
+   * Base URL of the locally served renderer assets (defaults to '/vendor/')
+   * The library build places the bundled renderers in its 'vendor' directory.
+   */
+  assetBaseUrl?: string;
+}
+
+/**
+ * How the preview document is loaded into its iframe
+ */
+export type PreviewRenderMode = 'srcdoc' | 'blob';
+
+/**
+ * How content updates are applied to a loaded preview document
+ */
+export type PreviewUpdateMode = 'reload' | 'hot';
+
 /**
  * Configuration options for preview creation
  */
@@ -25,6 +56,85 @@ export interface PreviewConfig {
    * Additional API-specific options
    */
   apiOptions?: Record<string, unknown>;
+  
+  /**
+   * Stored component metadata
+   * Math previews restore saved math API state from it.
+   */
+  metadata?: Record<string, any>;
+  
+  /**
+   * Sandbox tokens applied to the preview iframe (defaults to DEFAULT_PREVIEW_SANDBOX)
+   * Add 'allow-popups' or 'allow-modals' to let previews open windows or dialogs.
+   * 'allow-same-origin' is rejected together with 'allow-scripts', since scripts
+   * could then remove the sandbox; use the iframe bridge for parent communication.
+   */
+  sandbox?: string[];
+  
+  /**
+   * Load the preview document through the srcdoc attribute (default) or a blob URL
+   */
+  renderMode?: PreviewRenderMode;
+  
+  /**
+   * Reload the document on every update (default) or hot update it: CSS changes
+   * are patched into the loaded document, HTML changes are applied to its body
+   * while the scripts in the HTML are unchanged, and only JavaScript changes reload it.
+   * Hot updates are sent through the container's 'iframeBridge'; without one every update reloads.
+   */
+  updateMode?: PreviewUpdateMode;
+  
+  /**
+   * Delay in milliseconds before an update is applied; updates within the delay
+   * are coalesced into the latest one (defaults to 0, applying updates immediately)
+   */
+  updateDebounceMs?: number;
+  
+  /**
+   * Inject the iframe client runtime (window.DevPreviewBridge) into the preview document
+   */
+  enableIframeClient?: boolean;
+  
+  /**
+   * Inject a TeX renderer that typesets $$...$$, \[...\] and \(...\) on every update
+   * Parse errors are reported through the error handler via the iframe bridge.
+   */
+  mathRenderer?: MathRendererOptions;
+  
+  /**
+   * External dependencies the component may load (library IDs or absolute URLs)
+   * Libraries referenced in the content are detected and allowed automatically.
+   */
+  dependencies?: string[];
+  
+  /**
+   * Restrict the preview document with a Content Security Policy derived from its
+   * dependencies (defaults to true). Violations are reported through the error
+   * handler via the iframe bridge.
+   */
+  enableCsp?: boolean;
+  
+  /**
+   * Device profile to emulate, as a profile ID or definition (defaults to filling the container)
+   * IDs are looked up in the container's 'deviceProfileRegistry' service, or in
+   * DEFAULT_DEVICE_PROFILES when none is registered.
+   */
+  deviceProfile?: string | DeviceProfile;
+  
+  /**
+   * Orientation of the emulated device (defaults to 'portrait')
+   */
+  orientation?: DeviceOrientation;
+  
+  /**
+   * Scale emulated devices down to fit the container
+   */
+  zoomToFit?: boolean;
+  
+  /**
+   * Device profiles rendered side by side by the multi-device preview
+   */
+  deviceProfiles?: Array<string | DeviceProfile>;
 }
 
 /**
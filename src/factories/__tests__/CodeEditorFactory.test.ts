@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import CodeMirror from 'codemirror';
+import { CodeEditorFactory } from '../editors/CodeEditorFactory';
+import { registerDefaultFactories } from '..';
+import { ServiceContainer } from '../../core/ServiceContainer';
+import { EnhancedEventBus } from '../../events/EnhancedEventBus';
+import { IErrorHandler, ErrorType } from '../../errors/IErrorHandler';
+import { IFactoryRegistry } from '../IFactoryRegistry';
+import { FormattingService } from '../../formatting/FormattingService';
+import { IEditor } from '../../components/Editor';
+import { EditorConfig } from '../IEditorFactory';
+import { CodePane } from '../../formatting/IFormattingService';
+
+describe('CodeEditorFactory', () => {
+  let errorHandler: IErrorHandler;
+  let container: ServiceContainer;
+  let host: HTMLDivElement;
+
+  /**
+   * Get the CodeMirror instance of a pane
+   * @param pane Pane
+   */
+  const codeMirror = (pane: CodePane): CodeMirror.Editor =>
+    (host.querySelector(`.editor-section-${pane} .CodeMirror`) as any).CodeMirror;
+
+  /**
+   * Press a key in a pane
+   * @param pane Pane with focus
+   * @param keyCode Code of the key to press
+   * @param shiftKey Whether Shift is held
+   */
+  const press = (pane: CodePane, keyCode: number, shiftKey = false) => {
+    codeMirror(pane).getInputField()
+      .dispatchEvent(new KeyboardEvent('keydown', { keyCode, shiftKey, bubbles: true, cancelable: true }));
+  };
+
+  const ENTER = 13;
+  const TAB = 9;
+
+  beforeEach(() => {
+    errorHandler = {
+      handle: vi.fn(),
+      createAndHandle: vi.fn(),
+      handleIframeError: vi.fn(),
+      handleMathApiError: vi.fn(),
+      attemptRecovery: vi.fn()
+    };
+
+    container = new ServiceContainer();
+    container.register('eventBus', new EnhancedEventBus());
+
+    host = document.createElement('div');
+    host.id = 'editor';
+    document.body.appendChild(host);
+  });
+
+  afterEach(() => {
+    host.remove();
+  });
+
+  it('should be selectable through the factory registry', () => {
+    // Arrange
+    registerDefaultFactories(container, errorHandler);
+    const registry = container.get<IFactoryRegistry>('factoryRegistry');
+
+    // Act
+    const factory = registry.getFactory<IEditor, EditorConfig>('editor', 'code') as CodeEditorFactory;
+    const editor = factory.create({ containerId: 'editor', initialContent: { html: '<p>Hi</p>', css: '', js: '' } }, container);
+
+    // Assert
+    expect(factory.getSupportedFeatures()).toEqual(expect.arrayContaining(['syntax-highlighting', 'line-numbers', 'bracket-matching']));
+    expect(editor.getContent()).toEqual({ html: '<p>Hi</p>', css: '', js: '' });
+  });
+
+  it('should highlight code and number lines with CodeMirror', () => {
+    // Act
+    new CodeEditorFactory(errorHandler).create({
+      containerId: 'editor',
+      initialContent: { html: '', css: '', js: 'const a = 1;\nlet b;' }
+    }, container);
+
+    // Assert
+    const pane = host.querySelector('.editor-section-js') as HTMLElement;
+    expect(pane.querySelectorAll('.CodeMirror')).toHaveLength(1);
+    expect(pane.querySelector('.cm-keyword')?.textContent).toBe('const');
+    expect(codeMirror('js').getOption('mode')).toBe('javascript');
+    expect(codeMirror('html').getOption('mode')).toBe('htmlmixed');
+    expect(codeMirror('js').getOption('lineNumbers')).toBe(true);
+    expect(document.getElementById('code-editor-styles')).not.toBeNull();
+  });
+
+  it('should honor options', () => {
+    // Act
+    new CodeEditorFactory(errorHandler).create({
+      containerId: 'editor',
+      options: { lineNumbers: false, highlighting: false, bracketMatching: false },
+      initialContent: { html: '', css: '', js: 'const a = 1;' }
+    }, container);
+
+    // Assert
+    expect(host.querySelectorAll('.CodeMirror')).toHaveLength(3);
+    expect(host.querySelector('.cm-keyword')).toBeNull();
+    expect(codeMirror('js').getOption('lineNumbers')).toBe(false);
+    expect(codeMirror('js').getOption('matchBrackets')).toBe(false);
+  });
+
+  it('should reject invalid options', () => {
+    // Arrange
+    const factory = new CodeEditorFactory(errorHandler);
+
+    // Act & Assert
+    expect(() => factory.create({ containerId: 'editor', options: { lineNumbers: 'yes' } }, container))
+      .toThrow(expect.objectContaining({ type: ErrorType.VALIDATION, message: 'Code editor options must be booleans: lineNumbers' }));
+  });
+
+  it('should mark the bracket matching the one next to the cursor', () => {
+    // Arrange
+    new CodeEditorFactory(errorHandler).create({
+      containerId: 'editor',
+      initialContent: { html: '', css: '', js: 'if (a) { b(); }' }
+    }, container);
+
+    // Act
+    codeMirror('js').setCursor({ line: 0, ch: 8 });
+
+    // Assert
+    const marked = Array.from(host.querySelectorAll('.editor-section-js .CodeMirror-matchingbracket')).map(span => span.textContent);
+    expect(marked).toEqual(['{', '}']);
+  });
+
+  it('should indent new lines inside blocks and with Tab', () => {
+    // Arrange
+    const editor = new CodeEditorFactory(errorHandler).create({
+      containerId: 'editor',
+      initialContent: { html: '', css: '', js: 'if (a) {' }
+    }, container);
+    const listener = vi.fn();
+    editor.addEventListener(listener);
+    codeMirror('js').setCursor({ line: 0, ch: 8 });
+
+    // Act
+    press('js', ENTER);
+    press('js', TAB);
+    const indented = editor.getContent().js;
+    press('js', TAB, true);
+
+    // Assert
+    expect(indented).toBe('if (a) {\n    ');
+    expect(editor.getContent().js).toBe('if (a) {\n  ');
+    expect(codeMirror('js').getCursor()).toEqual(expect.objectContaining({ line: 1, ch: 2 }));
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it('should use the team indentation', () => {
+    // Arrange
+    const formattingService = new FormattingService();
+    formattingService.setTeamOptions('math-dept', { indentStyle: 'tab' });
+    container.register('formattingService', formattingService);
+    const editor = new CodeEditorFactory(errorHandler).create({
+      containerId: 'editor',
+      teamId: 'math-dept',
+      initialContent: { html: '', css: '', js: 'if (a) {\nb();\n}' }
+    }, container);
+
+    // Act
+    const result = editor.formatCode();
+    codeMirror('js').setCursor({ line: 0, ch: 0 });
+    press('js', TAB);
+
+    // Assert
+    expect(result.changed).toBe(true);
+    expect(editor.getContent().js).toBe('\tif (a) {\n\tb();\n}');
+    expect(codeMirror('js').getOption('indentWithTabs')).toBe(true);
+  });
+
+  it('should undo edits with the editor history', () => {
+    // Arrange
+    const editor = new CodeEditorFactory(errorHandler).create({
+      containerId: 'editor',
+      initialContent: { html: '<p>Hi</p>', css: '', js: 'if (a) {}' }
+    }, container);
+    codeMirror('js').setCursor({ line: 0, ch: 8 });
+    press('js', ENTER);
+    editor.setContent({ html: '<p>Hello</p>', css: '', js: editor.getContent().js });
+
+    // Act
+    const undone = editor.undo();
+    const undoneAgain = editor.undo();
+
+    // Assert
+    expect(undone).toBe(true);
+    expect(undoneAgain).toBe(true);
+    expect(editor.getContent()).toEqual({ html: '<p>Hi</p>', css: '', js: 'if (a) {}' });
+    expect(editor.canUndo()).toBe(false);
+    expect(editor.canRedo()).toBe(true);
+  });
+
+  it('should route the undo key to the editor history', () => {
+    // Arrange
+    const editor = new CodeEditorFactory(errorHandler).create({
+      containerId: 'editor',
+      initialContent: { html: '', css: '', js: 'a();' }
+    }, container);
+    codeMirror('js').setCursor({ line: 0, ch: 4 });
+    press('js', ENTER);
+
+    // Act
+    codeMirror('js').getInputField()
+      .dispatchEvent(new KeyboardEvent('keydown', { keyCode: 90, ctrlKey: true, bubbles: true, cancelable: true }));
+
+    // Assert
+    expect(editor.getContent().js).toBe('a();');
+    expect(editor.canRedo()).toBe(true);
+  });
+
+  it('should mark lines with diagnostics in the gutter', () => {
+    // Arrange
+    const editor = new CodeEditorFactory(errorHandler).create({
+      containerId: 'editor',
+      initialContent: { html: '<p>Hi</p>\n<p onclick="go()">Go</p>', css: '', js: '' }
+    }, container);
+
+    // Act
+    editor.setDiagnostics?.([
+      { pane: 'html', line: 2, column: 4, severity: 'error', message: 'Inline handler', ruleId: 'blackboard/inline-event-handlers' },
+      { pane: 'js', line: 1, column: 1, severity: 'warning', message: 'Unused', ruleId: 'custom' }
+    ]);
+
+    // Assert
+    const marker = codeMirror('html').lineInfo(1).gutterMarkers['code-editor-diagnostics'] as HTMLElement;
+    expect(marker.className).toBe('code-editor-marker code-editor-marker-error');
+    expect(marker.title).toBe('Inline handler');
+    expect(codeMirror('html').lineInfo(0).gutterMarkers).toBeFalsy();
+    expect(host.querySelector('.editor-section-js .editor-diagnostic-warning')?.textContent).toBe('1:1 Unused (custom)');
+  });
+
+  it('should not change read-only editors', () => {
+    // Arrange
+    const editor = new CodeEditorFactory(errorHandler).create({
+      containerId: 'editor',
+      readOnly: true,
+      initialContent: { html: '', css: '', js: 'if (a) {\nb();\n}' }
+    }, container);
+
+    // Act
+    const result = editor.formatCode();
+    codeMirror('js').setCursor({ line: 0, ch: 0 });
+    press('js', TAB);
+
+    // Assert
+    expect(codeMirror('js').getOption('readOnly')).toBe(true);
+    expect(result.changed).toBe(false);
+    expect(editor.getContent().js).toBe('if (a) {\nb();\n}');
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { installCspViolationReporter, getCspViolationReporterTag } from '../previews/CspViolationReporter';
+import { IframeBridge } from '../../events/IframeBridge';
+import { EnhancedEventBus } from '../../events/EnhancedEventBus';
+import { IErrorHandler } from '../../errors/IErrorHandler';
+
+/**
+ * Wait for queued postMessage deliveries
+ */
+const flushMessages = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Deliver the iframe's messages to the parent as MessageEvents
+ * jsdom does not set origin and source on posted messages, which the bridge checks.
+ */
+function connectWindows(frameWindow: Window): void {
+  frameWindow.parent.postMessage = ((data: any) => {
+    setTimeout(() => window.dispatchEvent(new MessageEvent('message', {
+      data,
+      origin: window.location.origin,
+      source: frameWindow
+    })));
+  }) as Window['postMessage'];
+}
+
+/**
+ * Create a violation event
+ * jsdom does not implement SecurityPolicyViolationEvent.
+ */
+function createViolation(init: Record<string, unknown>): Event {
+  return Object.assign(new Event('securitypolicyviolation'), init);
+}
+
+describe('CspViolationReporter', () => {
+  let errorHandler: IErrorHandler;
+  let bridge: IframeBridge;
+  let iframe: HTMLIFrameElement;
+  let frameWindow: Window;
+
+  beforeEach(() => {
+    errorHandler = {
+      handle: vi.fn(),
+      createAndHandle: vi.fn(),
+      handleIframeError: vi.fn(),
+      handleMathApiError: vi.fn(),
+      attemptRecovery: vi.fn()
+    };
+
+    iframe = document.createElement('iframe');
+    iframe.id = 'preview-frame';
+    document.body.appendChild(iframe);
+    frameWindow = iframe.contentWindow as Window;
+    connectWindows(frameWindow);
+
+    bridge = new IframeBridge(new EnhancedEventBus(), errorHandler);
+    bridge.initialize();
+    bridge.registerIframe(iframe);
+  });
+
+  afterEach(() => {
+    bridge.dispose();
+    iframe.remove();
+  });
+
+  it('should serialize a self-contained reporter', () => {
+    // Act
+    const tag = getCspViolationReporterTag();
+
+    // Assert
+    expect(tag).toMatch(/^<script>\(function runCspViolationReporter/);
+    expect(tag).toContain('(window, "bridge:csp-violation");</script>');
+  });
+
+  it('should report violations to the error handler through the bridge', async () => {
+    // Arrange
+    installCspViolationReporter(frameWindow);
+
+    // Act
+    frameWindow.document.dispatchEvent(createViolation({
+      blockedURI: 'https://tracker.example.com/pixel.js',
+      violatedDirective: 'script-src-elem',
+      effectiveDirective: 'script-src-elem',
+      sourceFile: 'about:srcdoc',
+      lineNumber: 12,
+      columnNumber: 3,
+      sample: ''
+    }));
+    await flushMessages();
+
+    // Assert
+    expect(errorHandler.handleIframeError).toHaveBeenCalledWith(
+      iframe,
+      'Content Security Policy violation: script-src-elem blocked https://tracker.example.com/pixel.js',
+      expect.objectContaining({ sourceFile: 'about:srcdoc', line: 12, column: 3, sample: undefined })
+    );
+  });
+
+  it('should stop reporting once removed', async () => {
+    // Arrange
+    const remove = installCspViolationReporter(frameWindow);
+
+    // Act
+    remove();
+    frameWindow.document.dispatchEvent(createViolation({ blockedURI: 'inline', violatedDirective: 'script-src' }));
+    await flushMessages();
+
+    // Assert
+    expect(errorHandler.handleIframeError).not.toHaveBeenCalled();
+  });
+});
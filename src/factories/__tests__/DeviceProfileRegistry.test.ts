@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { DeviceProfileRegistry } from '../previews/DeviceProfileRegistry';
+import { IStorageAdapter } from '../../adapters/IStorageAdapter';
+import { DEFAULT_DEVICE_PROFILES } from '../../components/Preview';
+import { ErrorType } from '../../errors/IErrorHandler';
+
+/**
+ * In-memory storage adapter that serializes like localStorage
+ */
+class MemoryStorageAdapter implements IStorageAdapter {
+  public items = new Map<string, string>();
+
+  getItem<T>(key: string): T | null {
+    const item = this.items.get(key);
+    return item !== undefined ? JSON.parse(item) : null;
+  }
+
+  setItem<T>(key: string, value: T): boolean {
+    this.items.set(key, JSON.stringify(value));
+    return true;
+  }
+
+  removeItem(key: string): boolean {
+    this.items.delete(key);
+    return true;
+  }
+
+  clear(): boolean {
+    this.items.clear();
+    return true;
+  }
+
+  hasItem(key: string): boolean {
+    return this.items.has(key);
+  }
+}
+
+describe('DeviceProfileRegistry', () => {
+  const phone = { id: 'bb-app-phone', name: 'Blackboard app (phone)', width: 360, height: 740, devicePixelRatio: 3 };
+
+  it('should provide the default profiles', () => {
+    // Arrange
+    const registry = new DeviceProfileRegistry();
+
+    // Act
+    const profiles = registry.getAll();
+
+    // Assert
+    expect(profiles).toEqual(DEFAULT_DEVICE_PROFILES);
+    expect(registry.get('mobile')).toMatchObject({ width: 320, height: 568 });
+  });
+
+  it('should persist user-defined profiles only', () => {
+    // Arrange
+    const storage = new MemoryStorageAdapter();
+    const registry = new DeviceProfileRegistry(DEFAULT_DEVICE_PROFILES, storage);
+
+    // Act
+    registry.register(phone);
+    registry.remove('tablet');
+    const reloaded = new DeviceProfileRegistry(DEFAULT_DEVICE_PROFILES, storage);
+
+    // Assert
+    expect(storage.getItem('devpreview_device_profiles')).toEqual([phone]);
+    expect(reloaded.get('bb-app-phone')).toEqual(phone);
+    expect(reloaded.get('tablet')).toBeDefined();
+  });
+
+  it('should forget removed user-defined profiles', () => {
+    // Arrange
+    const storage = new MemoryStorageAdapter();
+    const registry = new DeviceProfileRegistry([], storage);
+    registry.register(phone);
+
+    // Act
+    const removed = registry.remove(phone.id);
+
+    // Assert
+    expect(removed).toBe(true);
+    expect(new DeviceProfileRegistry([], storage).getAll()).toEqual([]);
+  });
+
+  it('should skip invalid stored profiles', () => {
+    // Arrange
+    const storage = new MemoryStorageAdapter();
+    storage.setItem('devpreview_device_profiles', [phone, { ...phone, id: 'broken', width: 'wide' }, null, { name: 'No ID' }]);
+
+    // Act
+    const registry = new DeviceProfileRegistry([], storage);
+
+    // Assert
+    expect(registry.getAll()).toEqual([phone]);
+  });
+
+  it('should ignore stored profiles that are not a list', () => {
+    // Arrange
+    const storage = new MemoryStorageAdapter();
+    storage.setItem('devpreview_device_profiles', { id: 'watch' });
+
+    // Act
+    const registry = new DeviceProfileRegistry([], storage);
+
+    // Assert
+    expect(registry.getAll()).toEqual([]);
+  });
+
+  it('should reject invalid profiles', () => {
+    // Arrange
+    const registry = new DeviceProfileRegistry();
+
+    // Act & Assert
+    expect(() => registry.register({ ...phone, width: 0 })).toThrow(expect.objectContaining({ type: ErrorType.VALIDATION }));
+    expect(() => registry.register({ ...phone, devicePixelRatio: -1 })).toThrow(expect.objectContaining({ type: ErrorType.VALIDATION }));
+  });
+
+  it('should resolve IDs and definitions', () => {
+    // Arrange
+    const registry = new DeviceProfileRegistry();
+
+    // Act & Assert
+    expect(registry.resolve('tablet').width).toBe(768);
+    expect(registry.resolve(phone)).toBe(phone);
+    expect(() => registry.resolve('watch')).toThrow('Unknown device profile: watch');
+  });
+});
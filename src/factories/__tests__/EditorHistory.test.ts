@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EditorHistory } from '../editors/EditorHistory';
+import { SimpleEditorFactory } from '../editors/SimpleEditorFactory';
+import { ServiceContainer } from '../../core/ServiceContainer';
+import { EnhancedEventBus } from '../../events/EnhancedEventBus';
+import { IErrorHandler } from '../../errors/IErrorHandler';
+import { EditorContent, EDITOR_HISTORY_METADATA_KEY } from '../../components/Editor';
+
+/**
+ * Create editor content with only JavaScript
+ * @param js JavaScript code
+ * @returns Editor content
+ */
+const script = (js: string): EditorContent => ({ html: '', css: '', js });
+
+describe('EditorHistory', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should undo and redo changes across panes', () => {
+    // Arrange
+    const history = new EditorHistory({ html: '<p></p>', css: '', js: '' });
+
+    // Act
+    history.record({ html: '<p>Hi</p>', css: '', js: '' });
+    history.record({ html: '<p>Hi</p>', css: 'p {}', js: '' });
+    const undone = [history.undo(), history.undo(), history.undo()];
+    const redone = history.redo();
+
+    // Assert
+    expect(undone).toEqual([
+      { html: '<p>Hi</p>', css: '', js: '' },
+      { html: '<p></p>', css: '', js: '' },
+      null
+    ]);
+    expect(redone).toEqual({ html: '<p>Hi</p>', css: '', js: '' });
+    expect(history.canUndo()).toBe(true);
+    expect(history.canRedo()).toBe(true);
+  });
+
+  it('should group quick typing in one pane and clear redo on new changes', () => {
+    // Arrange
+    vi.useFakeTimers();
+    const history = new EditorHistory(script(''));
+
+    // Act
+    history.record(script('a'), 'js');
+    history.record(script('ab'), 'js');
+    vi.advanceTimersByTime(1500);
+    history.record(script('abc'), 'js');
+    history.undo();
+    history.record(script('abd'), 'js');
+
+    // Assert
+    expect(history.canRedo()).toBe(false);
+    expect(history.undo()).toEqual(script('ab'));
+    expect(history.undo()).toEqual(script(''));
+  });
+
+  it('should record a transaction as one entry', () => {
+    // Arrange
+    const history = new EditorHistory(script(''));
+
+    // Act
+    history.begin();
+    history.record(script('a'));
+    history.begin();
+    history.record(script('b'));
+    history.end();
+    const canUndoInside = history.canUndo();
+    history.end();
+
+    // Assert
+    expect(canUndoInside).toBe(false);
+    expect(history.undo()).toEqual(script(''));
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it('should drop the oldest entries beyond the limit', () => {
+    // Arrange
+    const history = new EditorHistory(script('0'), 2);
+
+    // Act
+    ['1', '2', '3'].forEach(js => history.record(script(js)));
+
+    // Assert
+    expect(history.undo()).toEqual(script('2'));
+    expect(history.undo()).toEqual(script('1'));
+    expect(history.undo()).toBeNull();
+  });
+
+  it('should restore a saved history only at the content it was saved at', () => {
+    // Arrange
+    const saved = new EditorHistory(script('a'));
+    saved.record(script('b'));
+    const metadata = saved.save({ owner: 'math-dept' });
+    const restored = new EditorHistory(script(''));
+    const stale = new EditorHistory(script(''));
+
+    // Act
+    const wasRestored = restored.restore(script('b'), metadata);
+    const wasStaleRestored = stale.restore(script('c'), metadata);
+
+    // Assert
+    expect(metadata.owner).toBe('math-dept');
+    expect(metadata[EDITOR_HISTORY_METADATA_KEY]).toEqual(expect.objectContaining({ content: script('b'), undoStack: [script('a')] }));
+    expect(wasRestored).toBe(true);
+    expect(restored.undo()).toEqual(script('a'));
+    expect(wasStaleRestored).toBe(false);
+    expect(stale.canUndo()).toBe(false);
+  });
+
+  describe('editor history', () => {
+    let errorHandler: IErrorHandler;
+    let container: ServiceContainer;
+    let host: HTMLDivElement;
+
+    beforeEach(() => {
+      errorHandler = {
+        handle: vi.fn(),
+        createAndHandle: vi.fn(),
+        handleIframeError: vi.fn(),
+        handleMathApiError: vi.fn(),
+        attemptRecovery: vi.fn()
+      };
+
+      container = new ServiceContainer();
+      container.register('eventBus', new EnhancedEventBus());
+
+      host = document.createElement('div');
+      host.id = 'editor';
+      document.body.appendChild(host);
+    });
+
+    afterEach(() => {
+      host.remove();
+    });
+
+    it('should undo setContent and formatCode but not the initial content', () => {
+      // Arrange
+      const editor = new SimpleEditorFactory(errorHandler).create({
+        containerId: 'editor',
+        initialContent: script('if (a) {\nb();\n}')
+      }, container);
+      const listener = vi.fn();
+      editor.addEventListener(listener);
+
+      // Act
+      editor.formatCode();
+      editor.setContent({ html: '<p>Template</p>', css: '', js: '' });
+      editor.undo();
+      const afterTemplateUndo = editor.getContent();
+      editor.undo();
+      const undoneToStart = editor.undo();
+
+      // Assert
+      expect(afterTemplateUndo).toEqual(script('if (a) {\n  b();\n}'));
+      expect(editor.getContent()).toEqual(script('if (a) {\nb();\n}'));
+      expect(undoneToStart).toBe(false);
+      expect(editor.canRedo()).toBe(true);
+      expect(listener).toHaveBeenCalledTimes(4);
+    });
+
+    it('should undo typing in a pane and route the undo shortcuts to the history', () => {
+      // Arrange
+      const editor = new SimpleEditorFactory(errorHandler).create({ containerId: 'editor' }, container);
+      const css = host.querySelector('.editor-textarea-css') as HTMLTextAreaElement;
+
+      // Act
+      editor.transaction(() => {
+        editor.setContent({ html: '<p class="note">Hi</p>', css: '', js: '' });
+        css.value = '.note { color: red; }';
+        css.dispatchEvent(new Event('input'));
+      });
+      const undoEvent = new KeyboardEvent('keydown', { key: 'z', ctrlKey: true, cancelable: true });
+      css.dispatchEvent(undoEvent);
+      const afterUndo = editor.getContent();
+      css.dispatchEvent(new KeyboardEvent('keydown', { key: 'Z', ctrlKey: true, shiftKey: true, cancelable: true }));
+
+      // Assert
+      expect(undoEvent.defaultPrevented).toBe(true);
+      expect(afterUndo).toEqual({ html: '', css: '', js: '' });
+      expect(editor.getContent()).toEqual({ html: '<p class="note">Hi</p>', css: '.note { color: red; }', js: '' });
+    });
+
+    it('should reopen with a saved history', () => {
+      // Arrange
+      const factory = new SimpleEditorFactory(errorHandler);
+      const first = factory.create({ containerId: 'editor', initialContent: script('a') }, container);
+      first.setContent(script('b'));
+      const metadata = first.saveHistory();
+
+      // Act
+      const reopened = factory.create({ containerId: 'editor', initialContent: script('b'), metadata }, container);
+      reopened.undo();
+
+      // Assert
+      expect(reopened.getContent()).toEqual(script('a'));
+    });
+
+    it('should not undo in read-only editors', () => {
+      // Arrange
+      const editor = new SimpleEditorFactory(errorHandler).create({ containerId: 'editor', readOnly: true }, container);
+      editor.setContent(script('a'));
+
+      // Act
+      const undone = editor.undo();
+
+      // Assert
+      expect(undone).toBe(false);
+      expect(editor.canUndo()).toBe(false);
+      expect(editor.getContent()).toEqual(script('a'));
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { installHotUpdate, getHotUpdateTag, HOT_UPDATE_STYLE_ID } from '../previews/HotUpdate';
+import { StandardPreview } from '../previews/StandardPreviewFactory';
+import { EnhancedEventBus } from '../../events/EnhancedEventBus';
+import { IErrorHandler } from '../../errors/IErrorHandler';
+
+describe('HotUpdate', () => {
+  let iframe: HTMLIFrameElement;
+  let frameWindow: Window;
+  let frameDocument: Document;
+  let remove: () => void;
+
+  /**
+   * Simulate a patch posted by the parent preview
+   */
+  const receive = (type: string, payload: Record<string, string>, source: Window | null = frameWindow.parent) => {
+    frameWindow.dispatchEvent(new MessageEvent('message', { data: { type, payload, source: 'parent' }, source }));
+  };
+
+  beforeEach(() => {
+    iframe = document.createElement('iframe');
+    document.body.appendChild(iframe);
+    frameWindow = iframe.contentWindow as Window;
+    frameDocument = frameWindow.document;
+    frameDocument.head.innerHTML = `<style id="${HOT_UPDATE_STYLE_ID}">p { color: red; }</style>`;
+    frameDocument.body.innerHTML = '<h1 class="title">Graph</h1><div id="app"></div><p>Caption</p><script>run();</script>';
+    remove = installHotUpdate(frameWindow);
+  });
+
+  afterEach(() => {
+    remove();
+    iframe.remove();
+  });
+
+  it('should serialize a self-contained runtime', () => {
+    // Act
+    const tag = getHotUpdateTag();
+
+    // Assert
+    expect(tag).toMatch(/^<script>\(function runHotUpdate/);
+    expect(tag).toContain('"bridge:patch-css"');
+    expect(tag).toContain('"devpreview-style", "DevPreviewMath");</script>');
+  });
+
+  it('should replace the component styles', () => {
+    // Act
+    receive('bridge:patch-css', { css: 'p { color: blue; }' });
+
+    // Assert
+    expect(frameDocument.getElementById(HOT_UPDATE_STYLE_ID)?.textContent).toBe('p { color: blue; }');
+  });
+
+  it('should patch changed markup and keep elements created by scripts', () => {
+    // Arrange
+    const previousHtml = '<h1 class="title">Graph</h1><div id="app"></div><p>Caption</p>';
+    const app = frameDocument.getElementById('app') as HTMLElement;
+    app.innerHTML = '<canvas></canvas>';
+    const heading = frameDocument.querySelector('h1') as HTMLElement;
+
+    // Act
+    receive('bridge:patch-html', {
+      previousHtml,
+      html: '<h1 class="title large">Parabola</h1><div id="app"></div><p>Caption</p><footer>Notes</footer>'
+    });
+
+    // Assert
+    expect(frameDocument.querySelector('h1')).toBe(heading);
+    expect(heading.className).toBe('title large');
+    expect(heading.textContent).toBe('Parabola');
+    expect(frameDocument.getElementById('app')).toBe(app);
+    expect(app.innerHTML).toBe('<canvas></canvas>');
+    expect(frameDocument.body.innerHTML).toBe(
+      '<h1 class="title large">Parabola</h1><div id="app"><canvas></canvas></div><p>Caption</p><footer>Notes</footer><script>run();</script>'
+    );
+  });
+
+  it('should patch documents built by the preview without replacing the body', () => {
+    // Arrange
+    const errorHandler: IErrorHandler = {
+      handle: vi.fn(),
+      createAndHandle: vi.fn(),
+      handleIframeError: vi.fn(),
+      handleMathApiError: vi.fn(),
+      attemptRecovery: vi.fn()
+    };
+    const previewIframe = document.createElement('iframe');
+    const previousHtml = '<div id="app"></div><p>Caption</p>';
+    new StandardPreview(previewIframe, new EnhancedEventBus(), errorHandler, { updateMode: 'hot' })
+      .update({ html: previousHtml, css: '', js: 'run();' });
+    const built = new DOMParser().parseFromString(previewIframe.srcdoc, 'text/html');
+    frameDocument.replaceChild(frameDocument.importNode(built.documentElement, true), frameDocument.documentElement);
+    const app = frameDocument.getElementById('app') as HTMLElement;
+
+    // Act
+    receive('bridge:patch-html', { previousHtml, html: '<div id="app"></div><p>Legend</p>' });
+
+    // Assert
+    expect(frameDocument.getElementById('app')).toBe(app);
+    expect(frameDocument.querySelector('p')?.textContent).toBe('Legend');
+  });
+
+  it('should replace the children of changed elements that scripts have modified', () => {
+    // Arrange
+    frameDocument.body.innerHTML = '<p>a <span class="devpreview-math">x</span> b</p>';
+
+    // Act
+    receive('bridge:patch-html', { previousHtml: '<p>a \\(x\\) b</p>', html: '<p>a \\(y\\) b</p>' });
+
+    // Assert
+    expect(frameDocument.body.innerHTML).toBe('<p>a \\(y\\) b</p>');
+  });
+
+  it('should typeset math after patching HTML', () => {
+    // Arrange
+    const typeset = vi.fn(() => Promise.resolve());
+    (frameWindow as any).DevPreviewMath = { typeset };
+
+    // Act
+    receive('bridge:patch-html', { previousHtml: '<p>Caption</p>', html: '<p>\\(x^2\\)</p>' });
+
+    // Assert
+    expect(typeset).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore patches that do not come from the parent', () => {
+    // Act
+    receive('bridge:patch-css', { css: '' }, frameWindow);
+
+    // Assert
+    expect(frameDocument.getElementById(HOT_UPDATE_STYLE_ID)?.textContent).toBe('p { color: red; }');
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MathPreviewFactory, MathPreview } from '../previews/MathPreviewFactory';
+import { FactoryRegistry } from '../FactoryRegistry';
+import { ServiceContainer } from '../../core/ServiceContainer';
+import { EnhancedEventBus } from '../../events/EnhancedEventBus';
+import { IErrorHandler, ErrorType } from '../../errors/IErrorHandler';
+import { IMathApiAdapter, IMathApiAdapterFactory } from '../../adapters/math/IMathApiAdapter';
+import { IMathPreview, MATH_STATE_METADATA_KEY } from '../../components/Preview';
+
+/**
+ * Fake adapter keeping its state in memory
+ */
+function createFakeAdapter(): IMathApiAdapter {
+  let state: unknown = { expressions: [] };
+  let loaded = false;
+
+  return {
+    getApiType: () => 'desmos',
+    getApiVersion: () => (loaded ? '1.9.0' : 'unknown'),
+    getSupportedFeatures: () => ['graphing', 'state'],
+    initialize: vi.fn(async () => { loaded = true; }),
+    updateContent: vi.fn(async () => undefined),
+    getState: vi.fn(() => state),
+    setState: vi.fn(async (next: unknown) => { state = next; }),
+    captureImage: vi.fn(async () => 'data:image/png;base64,'),
+    destroy: vi.fn()
+  };
+}
+
+describe('MathPreviewFactory', () => {
+  let errorHandler: IErrorHandler;
+  let container: ServiceContainer;
+  let adapterFactory: IMathApiAdapterFactory;
+  let adapters: IMathApiAdapter[];
+  let host: HTMLDivElement;
+
+  beforeEach(() => {
+    errorHandler = {
+      handle: vi.fn(),
+      createAndHandle: vi.fn(),
+      handleIframeError: vi.fn(),
+      handleMathApiError: vi.fn(),
+      attemptRecovery: vi.fn()
+    };
+
+    container = new ServiceContainer();
+    container.register('eventBus', new EnhancedEventBus());
+
+    adapters = [];
+    adapterFactory = {
+      createAdapter: vi.fn(() => {
+        const adapter = createFakeAdapter();
+        adapters.push(adapter);
+        return adapter;
+      }),
+      registerAdapter: vi.fn(),
+      getSupportedTypes: () => ['desmos']
+    };
+
+    host = document.createElement('div');
+    host.id = 'preview';
+    document.body.appendChild(host);
+  });
+
+  afterEach(() => {
+    host.remove();
+  });
+
+  it('should register under the math API type', () => {
+    // Arrange
+    const registry = new FactoryRegistry(errorHandler);
+
+    // Act
+    registry.registerFactory(new MathPreviewFactory(errorHandler, 'Desmos', adapterFactory));
+
+    // Assert
+    expect(registry.getFactory('preview', 'desmos')).toBeInstanceOf(MathPreviewFactory);
+  });
+
+  it('should initialize the adapter with apiOptions in its own host element', async () => {
+    // Arrange
+    const factory = new MathPreviewFactory(errorHandler, 'desmos', adapterFactory);
+
+    // Act
+    const preview = factory.create({
+      containerId: 'preview',
+      mathApiType: 'desmos',
+      apiOptions: { calculatorType: 'scientific' }
+    }, container) as IMathPreview;
+    await preview.whenReady();
+
+    // Assert
+    expect(preview).toBeInstanceOf(MathPreview);
+    expect(preview.getAdapter().initialize).toHaveBeenCalledWith(
+      document.getElementById('preview-math'),
+      { calculatorType: 'scientific' }
+    );
+    expect(preview.getIframe().parentElement).toBe(host);
+  });
+
+  it('should report the library version and adapter features', async () => {
+    // Arrange
+    const factory = new MathPreviewFactory(errorHandler, 'desmos', adapterFactory);
+    expect(factory.getApiVersion()).toBe('unknown');
+
+    // Act
+    const preview = factory.create({ containerId: 'preview', mathApiType: 'desmos' }, container) as IMathPreview;
+    await preview.whenReady();
+
+    // Assert
+    expect(factory.getApiVersion()).toBe('1.9.0');
+    expect(factory.getSupportedFeatures()).toEqual(expect.arrayContaining(['math-api', 'graphing', 'state']));
+  });
+
+  it('should round-trip state through component metadata', async () => {
+    // Arrange
+    const factory = new MathPreviewFactory(errorHandler, 'desmos', adapterFactory);
+    const first = factory.create({ containerId: 'preview', mathApiType: 'desmos' }, container) as IMathPreview;
+    await first.setState({ expressions: ['y=x^2'] });
+
+    // Act
+    const metadata = first.saveState({ libraries: ['desmos'] });
+    first.destroy();
+    const second = factory.create({ containerId: 'preview', mathApiType: 'desmos', metadata }, container) as IMathPreview;
+    await second.whenReady();
+
+    // Assert
+    expect(metadata.libraries).toEqual(['desmos']);
+    expect(metadata[MATH_STATE_METADATA_KEY]).toMatchObject({ apiType: 'desmos', state: { expressions: ['y=x^2'] } });
+    expect(second.getState()).toEqual({ expressions: ['y=x^2'] });
+    expect(host.children).toHaveLength(2);
+  });
+
+  it('should ignore state saved by another math API', async () => {
+    // Arrange
+    const factory = new MathPreviewFactory(errorHandler, 'desmos', adapterFactory);
+    const metadata = { [MATH_STATE_METADATA_KEY]: { apiType: 'geogebra', apiVersion: '5', state: 'UEsDBBQ=', savedAt: '' } };
+
+    // Act
+    const preview = factory.create({ containerId: 'preview', mathApiType: 'desmos', metadata }, container) as IMathPreview;
+    await preview.whenReady();
+
+    // Assert
+    expect(preview.getAdapter().setState).not.toHaveBeenCalled();
+  });
+
+  it('should reject configurations for other math API types', () => {
+    // Arrange
+    const factory = new MathPreviewFactory(errorHandler, 'desmos', adapterFactory);
+
+    // Act & Assert
+    expect(() => factory.create({ containerId: 'preview', mathApiType: 'geogebra' }, container)).toThrow(
+      expect.objectContaining({ type: ErrorType.VALIDATION })
+    );
+    expect(() => factory.create({ containerId: 'preview' }, container)).toThrow('Math API type is required');
+    expect(errorHandler.handle).toHaveBeenCalledTimes(2);
+  });
+});
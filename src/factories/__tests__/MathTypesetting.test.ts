@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { installMathTypesetter, getMathRendererTags } from '../previews/MathTypesetting';
+import { IframeBridge } from '../../events/IframeBridge';
+import { EnhancedEventBus } from '../../events/EnhancedEventBus';
+import { IErrorHandler } from '../../errors/IErrorHandler';
+
+/**
+ * Wait for queued postMessage deliveries
+ */
+const flushMessages = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Deliver the iframe's messages to the parent as MessageEvents
+ * jsdom does not set origin and source on posted messages, which the bridge checks.
+ */
+function connectWindows(frameWindow: Window): void {
+  frameWindow.parent.postMessage = ((data: any) => {
+    setTimeout(() => window.dispatchEvent(new MessageEvent('message', {
+      data,
+      origin: window.location.origin,
+      source: frameWindow
+    })));
+  }) as Window['postMessage'];
+}
+
+/**
+ * Fake KaTeX that rejects expressions containing '\\frac{'
+ */
+const fakeKatex = {
+  render: vi.fn((tex: string, element: HTMLElement, options: { displayMode: boolean }) => {
+    if (tex.includes('\\frac{')) {
+      throw Object.assign(new Error("KaTeX parse error: Expected '}'"), { position: 6 });
+    }
+    element.innerHTML = `<span class="katex">${options.displayMode ? 'D' : 'I'}:${tex}</span>`;
+  })
+};
+
+describe('MathTypesetting', () => {
+  let errorHandler: IErrorHandler;
+  let bridge: IframeBridge;
+  let iframe: HTMLIFrameElement;
+  let frameWindow: Window;
+
+  beforeEach(() => {
+    errorHandler = {
+      handle: vi.fn(),
+      createAndHandle: vi.fn(),
+      handleIframeError: vi.fn(),
+      handleMathApiError: vi.fn(),
+      attemptRecovery: vi.fn()
+    };
+
+    iframe = document.createElement('iframe');
+    iframe.id = 'preview-frame';
+    document.body.appendChild(iframe);
+    frameWindow = iframe.contentWindow as Window;
+    connectWindows(frameWindow);
+
+    bridge = new IframeBridge(new EnhancedEventBus(), errorHandler);
+    bridge.initialize();
+    bridge.registerIframe(iframe);
+
+    fakeKatex.render.mockClear();
+  });
+
+  afterEach(() => {
+    bridge.dispose();
+    iframe.remove();
+  });
+
+  it('should load renderer assets from the local asset base URL', () => {
+    // Act
+    const katexTags = getMathRendererTags({ renderer: 'katex', assetBaseUrl: '/static/libs' });
+    const mathJaxTags = getMathRendererTags({ renderer: 'mathjax' });
+
+    // Assert
+    expect(katexTags).toContain('<link rel="stylesheet" href="/static/libs/katex/katex.min.css">');
+    expect(katexTags).toContain('<script src="/static/libs/katex/katex.min.js"></script>');
+    expect(mathJaxTags).toContain('window.MathJax = ');
+    expect(mathJaxTags).toContain('<script src="/vendor/mathjax/tex-chtml.js"></script>');
+    expect(mathJaxTags).not.toContain('cdn');
+  });
+
+  it('should resolve the asset base URL against the document base URL', () => {
+    // Act
+    const tags = getMathRendererTags({ renderer: 'katex' }, 'https://lms.example.com/courses/1/page.html');
+
+    // Assert
+    expect(tags).toContain('<script src="https://lms.example.com/vendor/katex/katex.min.js"></script>');
+  });
+
+  it('should typeset inline and display math with KaTeX', () => {
+    // Arrange
+    (frameWindow as any).katex = fakeKatex;
+    frameWindow.document.body.innerHTML = '<p>Area \\(\\pi r^2\\) and $$x^2$$ done</p><code>$$skip$$</code>';
+
+    // Act
+    installMathTypesetter(frameWindow, 'katex');
+
+    // Assert
+    const paragraph = frameWindow.document.querySelector('p') as HTMLElement;
+    expect(paragraph.textContent).toBe('Area I:\\pi r^2 and D:x^2 done');
+    expect(frameWindow.document.querySelector('code')?.textContent).toBe('$$skip$$');
+    expect((frameWindow as any).DevPreviewMath).toBeDefined();
+  });
+
+  it('should only typeset new math when typeset again', async () => {
+    // Arrange
+    (frameWindow as any).katex = fakeKatex;
+    frameWindow.document.body.innerHTML = '<p>\\(a\\)</p>';
+    const typesetter = installMathTypesetter(frameWindow, 'katex');
+
+    // Act
+    frameWindow.document.body.insertAdjacentHTML('beforeend', '<p>\\(b\\)</p>');
+    await typesetter.typeset();
+
+    // Assert
+    expect(fakeKatex.render.mock.calls.map(call => call[0])).toEqual(['a', 'b']);
+  });
+
+  it('should report TeX parse errors through the error handler', async () => {
+    // Arrange
+    (frameWindow as any).katex = fakeKatex;
+    frameWindow.document.body.innerHTML = '<p id="q1">Solve $$\\frac{1}{2$$</p>';
+
+    // Act
+    installMathTypesetter(frameWindow, 'katex');
+    await flushMessages();
+
+    // Assert
+    expect(frameWindow.document.querySelector('.devpreview-math-error')?.textContent).toBe('$$\\frac{1}{2$$');
+    expect(errorHandler.handleMathApiError).toHaveBeenCalledWith(
+      'katex',
+      "KaTeX parse error: Expected '}'",
+      expect.objectContaining({ expression: '\\frac{1}{2', displayMode: true, position: 6, element: 'p#q1' })
+    );
+  });
+
+  it('should report MathJax errors found after typesetting', async () => {
+    // Arrange
+    frameWindow.document.body.innerHTML = '<div id="eq"><mjx-container><mjx-merror data-mjx-error="Missing close brace"></mjx-merror></mjx-container></div>';
+    const root = frameWindow.document.querySelector('mjx-container');
+    (frameWindow as any).MathJax = {
+      typesetPromise: vi.fn(async () => undefined),
+      startup: {
+        promise: Promise.resolve(),
+        document: { math: [{ math: 'x^{2', display: false, typesetRoot: root }] }
+      }
+    };
+
+    // Act
+    await installMathTypesetter(frameWindow, 'mathjax').typeset();
+    await flushMessages();
+
+    // Assert
+    expect(errorHandler.handleMathApiError).toHaveBeenCalledTimes(1);
+    expect(errorHandler.handleMathApiError).toHaveBeenCalledWith(
+      'mathjax',
+      'Missing close brace',
+      expect.objectContaining({ expression: 'x^{2', element: 'div#eq' })
+    );
+  });
+});
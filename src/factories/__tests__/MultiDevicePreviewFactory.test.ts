@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MultiDevicePreviewFactory, MultiDevicePreview } from '../previews/MultiDevicePreviewFactory';
+import { DeviceProfileRegistry } from '../previews/DeviceProfileRegistry';
+import { ServiceContainer } from '../../core/ServiceContainer';
+import { EnhancedEventBus } from '../../events/EnhancedEventBus';
+import { IErrorHandler } from '../../errors/IErrorHandler';
+
+describe('MultiDevicePreviewFactory', () => {
+  let errorHandler: IErrorHandler;
+  let container: ServiceContainer;
+  let host: HTMLDivElement;
+
+  beforeEach(() => {
+    errorHandler = {
+      handle: vi.fn(),
+      createAndHandle: vi.fn(),
+      handleIframeError: vi.fn(),
+      handleMathApiError: vi.fn(),
+      attemptRecovery: vi.fn()
+    };
+
+    container = new ServiceContainer();
+    container.register('eventBus', new EnhancedEventBus());
+
+    host = document.createElement('div');
+    host.id = 'preview';
+    document.body.appendChild(host);
+  });
+
+  afterEach(() => {
+    host.remove();
+  });
+
+  it('should render the content once per device profile', () => {
+    // Arrange
+    const iframeBridge = { registerIframe: vi.fn() };
+    container.register('iframeBridge', iframeBridge);
+
+    // Act
+    const preview = new MultiDevicePreviewFactory(errorHandler).create({
+      containerId: 'preview',
+      deviceProfiles: ['mobile', { id: 'watch', name: 'Watch', width: 200, height: 240 }],
+      initialContent: { html: '<p>Hi</p>', css: '', js: '' }
+    }, container) as MultiDevicePreview;
+
+    // Assert
+    const iframes = Array.from(host.querySelectorAll('iframe'));
+    expect(iframes).toHaveLength(2);
+    expect(iframes.every(iframe => iframe.srcdoc.includes('<p>Hi</p>'))).toBe(true);
+    expect(iframes.map(iframe => iframe.style.width)).toEqual(['320px', '200px']);
+    expect(Array.from(host.querySelectorAll('.devpreview-device-label')).map(label => label.textContent))
+      .toEqual(['Mobile · 320×568', 'Watch · 200×240']);
+    expect(iframeBridge.registerIframe).toHaveBeenCalledTimes(2);
+    expect(preview.getIframe()).toBe(iframes[0]);
+  });
+
+  it('should rotate every device', () => {
+    // Arrange
+    const preview = new MultiDevicePreviewFactory(errorHandler).create({
+      containerId: 'preview',
+      deviceProfiles: ['mobile', 'tablet']
+    }, container) as MultiDevicePreview;
+
+    // Act
+    preview.setOrientation('landscape');
+
+    // Assert
+    expect(preview.getViewports().map(viewport => [viewport.width, viewport.height])).toEqual([[568, 320], [1024, 768]]);
+    expect(host.querySelector('.devpreview-device-label')?.textContent).toBe('Mobile · 568×320');
+  });
+
+  it('should look up profiles in the registered profile registry', () => {
+    // Arrange
+    const registry = new DeviceProfileRegistry([]);
+    registry.register({ id: 'bb-app-phone', name: 'Blackboard app', width: 360, height: 740 });
+    container.register('deviceProfileRegistry', registry);
+    const factory = new MultiDevicePreviewFactory(errorHandler);
+
+    // Act
+    const preview = factory.create({ containerId: 'preview', deviceProfiles: ['bb-app-phone'] }, container);
+
+    // Assert
+    expect(preview.getViewport().profile?.name).toBe('Blackboard app');
+    expect(() => factory.create({ containerId: 'preview', deviceProfiles: ['mobile'] }, container))
+      .toThrow('Unknown device profile: mobile');
+  });
+
+  it('should require device profiles', () => {
+    // Arrange
+    const factory = new MultiDevicePreviewFactory(errorHandler);
+
+    // Act & Assert
+    expect(() => factory.create({ containerId: 'preview', deviceProfiles: [] }, container))
+      .toThrow('At least one device profile is required for the multi-device preview');
+    expect(host.children).toHaveLength(0);
+  });
+
+  it('should remove the devices already built when creation fails', () => {
+    // Arrange
+    const iframeBridge = {
+      registerIframe: vi.fn()
+        .mockImplementationOnce(() => undefined)
+        .mockImplementationOnce(() => { throw new Error('Bridge unavailable'); }),
+      unregisterIframe: vi.fn()
+    };
+    container.register('iframeBridge', iframeBridge);
+    const factory = new MultiDevicePreviewFactory(errorHandler);
+
+    // Act & Assert
+    expect(() => factory.create({ containerId: 'preview', deviceProfiles: ['mobile', 'tablet'] }, container))
+      .toThrow('Bridge unavailable');
+    expect(host.children).toHaveLength(0);
+    expect(iframeBridge.unregisterIframe).toHaveBeenCalledTimes(2);
+  });
+
+  it('should remove every device when destroyed', () => {
+    // Arrange
+    const preview = new MultiDevicePreviewFactory(errorHandler).create({
+      containerId: 'preview',
+      deviceProfiles: ['mobile', 'tablet']
+    }, container) as MultiDevicePreview;
+
+    // Act
+    preview.destroy();
+
+    // Assert
+    expect(host.children).toHaveLength(0);
+  });
+});
@@ -0,0 +1,413 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StandardPreviewFactory, StandardPreview } from '../previews/StandardPreviewFactory';
+import { ServiceContainer } from '../../core/ServiceContainer';
+import { EnhancedEventBus } from '../../events/EnhancedEventBus';
+import { IframeBridge } from '../../events/IframeBridge';
+import { IErrorHandler, ErrorType } from '../../errors/IErrorHandler';
+import { DeviceSize } from '../../components/Preview';
+
+describe('StandardPreviewFactory', () => {
+  let errorHandler: IErrorHandler;
+  let container: ServiceContainer;
+  let host: HTMLDivElement;
+
+  beforeEach(() => {
+    errorHandler = {
+      handle: vi.fn(),
+      createAndHandle: vi.fn(),
+      handleIframeError: vi.fn(),
+      handleMathApiError: vi.fn(),
+      attemptRecovery: vi.fn()
+    };
+
+    container = new ServiceContainer();
+    container.register('eventBus', new EnhancedEventBus());
+
+    host = document.createElement('div');
+    host.id = 'preview';
+    document.body.appendChild(host);
+  });
+
+  afterEach(() => {
+    host.remove();
+  });
+
+  it('should inject the iframe client runtime when enabled', () => {
+    // Arrange
+    const iframeBridge = { registerIframe: vi.fn() };
+    container.register('iframeBridge', iframeBridge);
+
+    // Act
+    const preview = new StandardPreviewFactory(errorHandler).create({
+      containerId: 'preview',
+      enableIframeClient: true,
+      initialContent: { html: '<p>Hi</p>', css: '', js: '' }
+    }, container);
+
+    // Assert
+    expect(preview.getIframe().srcdoc).toContain('DevPreviewBridge');
+    expect(iframeBridge.registerIframe).toHaveBeenCalledWith(preview.getIframe());
+  });
+
+  it('should not inject the runtime by default', () => {
+    // Act
+    const preview = new StandardPreviewFactory(errorHandler).create({
+      containerId: 'preview',
+      initialContent: { html: '<p>Hi</p>', css: '', js: '' }
+    }, container);
+
+    // Assert
+    expect(preview.getIframe().srcdoc).not.toContain('DevPreviewBridge');
+    expect(preview.getIframe().srcdoc).toContain('<p>Hi</p>');
+  });
+
+  it('should inject the TeX renderer and register with the bridge', () => {
+    // Arrange
+    const iframeBridge = { registerIframe: vi.fn() };
+    container.register('iframeBridge', iframeBridge);
+
+    // Act
+    const preview = new StandardPreviewFactory(errorHandler).create({
+      containerId: 'preview',
+      mathRenderer: { renderer: 'katex', assetBaseUrl: '/assets/' },
+      initialContent: { html: '<p>\\(x^2\\)</p>', css: '', js: '' }
+    }, container);
+
+    // Assert
+    expect(preview.getIframe().srcdoc).toContain('/assets/katex/katex.min.js');
+    expect(preview.getIframe().srcdoc).toContain('DevPreviewMath');
+    expect(iframeBridge.registerIframe).toHaveBeenCalledWith(preview.getIframe());
+  });
+
+  it('should unregister from the bridge when destroyed', () => {
+    // Arrange
+    const iframeBridge = { registerIframe: vi.fn(), unregisterIframe: vi.fn() };
+    container.register('iframeBridge', iframeBridge);
+    const preview = new StandardPreviewFactory(errorHandler).create({ containerId: 'preview' }, container);
+    const iframe = preview.getIframe();
+
+    // Act
+    preview.destroy();
+
+    // Assert
+    expect(iframeBridge.registerIframe).toHaveBeenCalledWith(iframe);
+    expect(iframeBridge.unregisterIframe).toHaveBeenCalledWith(iframe);
+  });
+
+  it('should render through srcdoc in a sandbox without same-origin access', () => {
+    // Act
+    const preview = new StandardPreviewFactory(errorHandler).create({
+      containerId: 'preview',
+      initialContent: { html: '<p>Hi</p>', css: '', js: 'parent.document.title' }
+    }, container);
+
+    // Assert
+    const iframe = preview.getIframe();
+    expect(iframe.getAttribute('sandbox')).toBe('allow-scripts allow-forms');
+    expect(iframe.srcdoc).toContain('parent.document.title');
+    expect(iframe.contentDocument?.body.innerHTML ?? '').not.toContain('<p>Hi</p>');
+  });
+
+  it('should apply the configured sandbox policy and reject unknown tokens', () => {
+    // Arrange
+    const factory = new StandardPreviewFactory(errorHandler);
+
+    // Act
+    const preview = factory.create({ containerId: 'preview', sandbox: ['allow-scripts', 'allow-popups', 'allow-modals'] }, container);
+
+    // Assert
+    expect(preview.getIframe().getAttribute('sandbox')).toBe('allow-scripts allow-popups allow-modals');
+    expect(() => factory.create({ containerId: 'preview', sandbox: ['allow-everything'] }, container))
+      .toThrow('Unsupported sandbox tokens: allow-everything');
+    expect(() => factory.create({ containerId: 'preview', sandbox: ['allow-scripts', 'allow-same-origin'] }, container))
+      .toThrow(expect.objectContaining({ type: ErrorType.VALIDATION }));
+  });
+
+  it('should apply a Content Security Policy derived from the dependencies', () => {
+    // Act
+    const preview = new StandardPreviewFactory(errorHandler).create({
+      containerId: 'preview',
+      dependencies: ['geogebra'],
+      mathRenderer: { renderer: 'katex', assetBaseUrl: 'https://static.example.com/libs/' },
+      initialContent: { html: '<p>Hi</p>', css: '', js: '' }
+    }, container);
+
+    // Assert
+    const srcdoc = preview.getIframe().srcdoc;
+    expect(srcdoc).toContain(
+      '<meta http-equiv="Content-Security-Policy" content="default-src \'none\'; ' +
+      'script-src \'unsafe-inline\' https://www.geogebra.org https://cdn.geogebra.org https://static.example.com;'
+    );
+    expect(srcdoc).toContain('securitypolicyviolation');
+    expect(srcdoc.indexOf('Content-Security-Policy')).toBeLessThan(srcdoc.indexOf('<script'));
+  });
+
+  it('should omit the policy when disabled', () => {
+    // Act
+    const preview = new StandardPreviewFactory(errorHandler).create({
+      containerId: 'preview',
+      enableCsp: false,
+      initialContent: { html: '<p>Hi</p>', css: '', js: '' }
+    }, container);
+
+    // Assert
+    expect(preview.getIframe().srcdoc).not.toContain('Content-Security-Policy');
+    expect(preview.getIframe().srcdoc).not.toContain('securitypolicyviolation');
+  });
+
+  it('should load blob documents and release them', () => {
+    // Arrange
+    const createObjectURL = vi.fn(() => 'blob:preview-1');
+    const revokeObjectURL = vi.fn();
+    Object.assign(URL, { createObjectURL, revokeObjectURL }); // Not implemented by jsdom
+    const preview = new StandardPreviewFactory(errorHandler).create({
+      containerId: 'preview',
+      renderMode: 'blob',
+      initialContent: { html: '<p>Hi</p>', css: '', js: '' }
+    }, container) as StandardPreview;
+
+    // Act
+    preview.destroy();
+
+    // Assert
+    expect(createObjectURL).toHaveBeenCalledWith(expect.any(Blob));
+    expect(preview.getIframe().getAttribute('src')).toBe('blob:preview-1');
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:preview-1');
+    expect(host.querySelector('iframe')).toBeNull();
+    delete (URL as any).createObjectURL;
+    delete (URL as any).revokeObjectURL;
+  });
+
+  it('should load TeX renderer assets from absolute URLs in blob documents', async () => {
+    // Arrange
+    const createObjectURL = vi.fn((_blob: Blob) => 'blob:preview-1');
+    Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() }); // Not implemented by jsdom
+
+    // Act
+    new StandardPreviewFactory(errorHandler).create({
+      containerId: 'preview',
+      renderMode: 'blob',
+      mathRenderer: { renderer: 'katex' },
+      initialContent: { html: '<p>\\(x^2\\)</p>', css: '', js: '' }
+    }, container);
+    const documentHtml = await new Promise<string>(resolve => {
+      const reader = new FileReader(); // jsdom's Blob has no text()
+      reader.onload = () => resolve(reader.result as string);
+      reader.readAsText(createObjectURL.mock.calls[0][0]);
+    });
+
+    // Assert
+    expect(documentHtml).toContain(`<script src="${new URL('/vendor/katex/katex.min.js', window.location.href).href}"></script>`);
+    delete (URL as any).createObjectURL;
+    delete (URL as any).revokeObjectURL;
+  });
+
+  // #region Hot updates
+
+  it('should patch CSS and HTML changes into the loaded document', () => {
+    // Arrange
+    container.register('iframeBridge', new IframeBridge(container.get('eventBus'), errorHandler));
+    const preview = new StandardPreviewFactory(errorHandler).create({
+      containerId: 'preview',
+      updateMode: 'hot',
+      initialContent: { html: '<p>Hi</p>', css: 'p {}', js: 'start();' }
+    }, container);
+    const iframe = preview.getIframe();
+    const srcdoc = iframe.srcdoc;
+    const postMessage = vi.spyOn(iframe.contentWindow as Window, 'postMessage');
+    iframe.dispatchEvent(new Event('load'));
+
+    // Act
+    preview.update({ html: '<p>Hello</p>', css: 'p { color: red; }', js: 'start();' });
+
+    // Assert
+    expect(iframe.srcdoc).toBe(srcdoc);
+    expect(postMessage.mock.calls).toEqual([
+      [{ type: 'bridge:patch-css', payload: { css: 'p { color: red; }' }, source: 'parent', target: 'preview-frame' }, '*'],
+      [{ type: 'bridge:patch-html', payload: { previousHtml: '<p>Hi</p>', html: '<p>Hello</p>' }, source: 'parent', target: 'preview-frame' }, '*']
+    ]);
+  });
+
+  it('should reload hot-updating documents without a bridge', () => {
+    // Arrange
+    const preview = new StandardPreviewFactory(errorHandler).create({
+      containerId: 'preview',
+      updateMode: 'hot',
+      initialContent: { html: '<p>Hi</p>', css: '', js: '' }
+    }, container);
+    const iframe = preview.getIframe();
+    const postMessage = vi.spyOn(iframe.contentWindow as Window, 'postMessage');
+    iframe.dispatchEvent(new Event('load'));
+
+    // Act
+    preview.update({ html: '<p>Hello</p>', css: '', js: '' });
+
+    // Assert
+    expect(iframe.srcdoc).toContain('<p>Hello</p>');
+    expect(postMessage).not.toHaveBeenCalled();
+  });
+
+  it('should reload the document when scripts change', () => {
+    // Arrange
+    container.register('iframeBridge', new IframeBridge(container.get('eventBus'), errorHandler));
+    const preview = new StandardPreviewFactory(errorHandler).create({
+      containerId: 'preview',
+      updateMode: 'hot',
+      initialContent: { html: '<p>Hi</p><script>a();</script>', css: '', js: 'start();' }
+    }, container);
+    const iframe = preview.getIframe();
+    const postMessage = vi.spyOn(iframe.contentWindow as Window, 'postMessage');
+    iframe.dispatchEvent(new Event('load'));
+
+    // Act
+    preview.update({ html: '<p>Hi</p><script>b();</script>', css: '', js: 'start();' });
+    const htmlReload = iframe.srcdoc;
+    iframe.dispatchEvent(new Event('load'));
+    preview.update({ html: '<p>Hi</p><script>b();</script>', css: '', js: 'restart();' });
+
+    // Assert
+    expect(htmlReload).toContain('<script>b();</script>');
+    expect(iframe.srcdoc).toContain('restart();');
+    expect(postMessage).not.toHaveBeenCalled();
+  });
+
+  it('should reload the document until it has loaded', () => {
+    // Arrange
+    container.register('iframeBridge', new IframeBridge(container.get('eventBus'), errorHandler));
+    const preview = new StandardPreviewFactory(errorHandler).create({
+      containerId: 'preview',
+      updateMode: 'hot',
+      initialContent: { html: '<p>Hi</p>', css: '', js: '' }
+    }, container);
+
+    // Act
+    preview.update({ html: '<p>Hello</p>', css: '', js: '' });
+
+    // Assert
+    expect(preview.getIframe().srcdoc).toContain('<p>Hello</p>');
+  });
+
+  it('should debounce updates to the latest content', () => {
+    // Arrange
+    vi.useFakeTimers();
+    const preview = new StandardPreviewFactory(errorHandler).create({
+      containerId: 'preview',
+      updateDebounceMs: 200
+    }, container) as StandardPreview;
+
+    // Act
+    preview.update({ html: '<p>1</p>', css: '', js: '' });
+    vi.advanceTimersByTime(150);
+    preview.update({ html: '<p>2</p>', css: '', js: '' });
+    vi.advanceTimersByTime(150);
+    const pending = preview.getIframe().srcdoc;
+    vi.advanceTimersByTime(50);
+
+    // Assert
+    expect(pending).toBe('');
+    expect(preview.getIframe().srcdoc).toContain('<p>2</p>');
+    expect(preview.getIframe().srcdoc).not.toContain('<p>1</p>');
+    vi.useRealTimers();
+  });
+
+  it('should apply pending updates on flush', () => {
+    // Arrange
+    const preview = new StandardPreviewFactory(errorHandler).create({
+      containerId: 'preview',
+      updateDebounceMs: 1000
+    }, container) as StandardPreview;
+    preview.update({ html: '<p>Now</p>', css: '', js: '' });
+
+    // Act
+    preview.flush();
+
+    // Assert
+    expect(preview.getIframe().srcdoc).toContain('<p>Now</p>');
+  });
+
+  it('should report debounced updates that fail to build', () => {
+    // Arrange
+    vi.useFakeTimers();
+    const preview = new StandardPreviewFactory(errorHandler).create({
+      containerId: 'preview',
+      dependencies: ['no-such-library'],
+      updateDebounceMs: 200
+    }, container) as StandardPreview;
+    preview.update({ html: '<p>Hi</p>', css: '', js: '' });
+
+    // Act
+    const advance = () => vi.advanceTimersByTime(200);
+
+    // Assert
+    expect(advance).not.toThrow();
+    expect(errorHandler.handle).toHaveBeenCalledWith(expect.objectContaining({ type: ErrorType.VALIDATION }));
+    expect(preview.getIframe().srcdoc).toBe('');
+    vi.useRealTimers();
+  });
+
+  // #endregion
+
+  // #region Device profiles
+
+  it('should emulate the configured device profile', () => {
+    // Act
+    const preview = new StandardPreviewFactory(errorHandler).create({
+      containerId: 'preview',
+      deviceProfile: { id: 'bb-app', name: 'Blackboard app', width: 360, height: 740, devicePixelRatio: 3, userAgent: 'BbApp </script>' },
+      orientation: 'landscape',
+      initialContent: { html: '<p>Hi</p>', css: '', js: '' }
+    }, container);
+
+    // Assert
+    const iframe = preview.getIframe();
+    expect([iframe.style.width, iframe.style.height]).toEqual(['740px', '360px']);
+    expect(iframe.srcdoc).toContain('(window, 3, "BbApp \\u003c/script>");</script>');
+    expect(preview.getViewport()).toMatchObject({ orientation: 'landscape', width: 740, height: 360, scale: 1 });
+  });
+
+  it('should map device sizes to the default profiles', () => {
+    // Arrange
+    const preview = new StandardPreviewFactory(errorHandler).create({
+      containerId: 'preview',
+      initialContent: { html: '<p>Hi</p>', css: '', js: '' }
+    }, container);
+
+    // Act
+    preview.setDeviceSize(DeviceSize.TABLET);
+    const tablet = [preview.getIframe().style.width, preview.getIframe().style.height];
+    preview.setDeviceSize(DeviceSize.DESKTOP);
+
+    // Assert
+    expect(tablet).toEqual(['768px', '1024px']);
+    expect(preview.getIframe().style.width).toBe('100%');
+    expect(preview.getViewport().profile).toBeNull();
+  });
+
+  it('should scale devices down to fit the container', () => {
+    // Arrange
+    Object.defineProperty(host, 'clientWidth', { configurable: true, value: 384 });
+    Object.defineProperty(host, 'clientHeight', { configurable: true, value: 2000 });
+    const preview = new StandardPreviewFactory(errorHandler).create({
+      containerId: 'preview',
+      deviceProfile: 'tablet',
+      zoomToFit: true
+    }, container);
+
+    // Act
+    const fitted = preview.getIframe().style.transform;
+    preview.setZoomToFit(false);
+
+    // Assert
+    expect(fitted).toBe('scale(0.5)');
+    expect(preview.getIframe().style.transform).toBe('');
+    expect(preview.getViewport().scale).toBe(1);
+  });
+
+  it('should reject unknown device profiles', () => {
+    // Act & Assert
+    expect(() => new StandardPreviewFactory(errorHandler).create({ containerId: 'preview', deviceProfile: 'watch' }, container))
+      .toThrow('Unknown device profile: watch');
+  });
+
+  // #endregion
+});
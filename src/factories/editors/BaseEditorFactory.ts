@@ -3,6 +3,8 @@ import { IServiceContainer } from '../../core/IServiceContainer';
 import { IErrorHandler, ErrorType, AppError } from '../../errors/IErrorHandler';
 import { IEditorFactory, EditorConfig } from '../IEditorFactory';
 import { BaseComponentFactory } from '../BaseComponentFactory';
+import { IFormattingService } from '../../formatting/IFormattingService';
+import { FormattingService } from '../../formatting/FormattingService';
 
 /**
  * Abstract base class for editor factories
@@ -70,6 +72,17 @@ export abstract class BaseEditorFactory extends BaseComponentFactory<IEditor, Ed
     // This can be extended by derived classes
   }
   
+  /**
+   * Get the formatting service editors format code with
+   * @param container Service container for dependencies
+   * @returns Registered formatting service, or one with the default options
+   */
+  protected getFormattingService(container: IServiceContainer): IFormattingService {
+    return container.has('formattingService') ?
+      container.get<IFormattingService>('formattingService') :
+      new FormattingService();
+  }
+
   /**
    * Initializes editor with content
    * @param editor Editor instance to initialize
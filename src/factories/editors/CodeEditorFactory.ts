@@ -0,0 +1,610 @@
+import CodeMirror from 'codemirror';
+import 'codemirror/mode/htmlmixed/htmlmixed';
+import 'codemirror/mode/css/css';
+import 'codemirror/mode/javascript/javascript';
+import 'codemirror/addon/edit/matchbrackets';
+import 'codemirror/lib/codemirror.css';
+import { IEditor, EditorContent, EditorChangeListener } from '../../components/Editor';
+import { IServiceContainer } from '../../core/IServiceContainer';
+import { IErrorHandler, AppError, ErrorType } from '../../errors/IErrorHandler';
+import { IEventBus } from '../../events/IEventBus';
+import { EditorConfig } from '../IEditorFactory';
+import { BaseEditorFactory } from './BaseEditorFactory';
+import { IFormattingService, FormatResult, CodePane } from '../../formatting/IFormattingService';
+import { getIndentUnit } from '../../formatting/formatterUtils';
+import { DiagnosticDetails } from '../../diagnostics/IDiagnosticsService';
+import { createDiagnosticList, renderDiagnosticList } from './diagnosticList';
+import { EditorHistory } from './EditorHistory';
+
+/**
+ * Options of the code editor, passed as EditorConfig.options
+ */
+export interface CodeEditorOptions {
+  /**
+   * Show line numbers next to the code (default true)
+   */
+  lineNumbers?: boolean;
+
+  /**
+   * Highlight the syntax of the code (default true)
+   */
+  highlighting?: boolean;
+
+  /**
+   * Highlight the bracket matching the one next to the cursor (default true)
+   */
+  bracketMatching?: boolean;
+
+  /**
+   * Indent new lines and insert indentation with Tab (default true)
+   */
+  autoIndent?: boolean;
+}
+
+/**
+ * Gutter showing diagnostic markers
+ */
+const DIAGNOSTICS_GUTTER = 'code-editor-diagnostics';
+
+/**
+ * CodeMirror modes of the panes
+ */
+const PANE_MODES: Record<CodePane, string> = {
+  html: 'htmlmixed',
+  css: 'css',
+  js: 'javascript'
+};
+
+/**
+ * Styles of the editor panes and diagnostic markers, added to the document once
+ */
+const CODE_EDITOR_STYLES = `
+.code-editor .CodeMirror { height: auto; min-height: 80px; border: 1px solid #ccc; border-radius: 4px; font-size: 13px; }
+.code-editor .CodeMirror-matchingbracket { background: #c8e1ff; }
+.code-editor .${DIAGNOSTICS_GUTTER} { width: 14px; }
+.code-editor .code-editor-marker { display: block; text-align: center; cursor: default; }
+.code-editor .code-editor-marker-error { color: #cb2431; }
+.code-editor .code-editor-marker-warning { color: #b08800; }
+`;
+
+/**
+ * One pane of the code editor: a CodeMirror instance with a label and a diagnostic list
+ */
+class CodeEditorPane {
+  public element: HTMLElement;
+  public codeMirror: CodeMirror.Editor;
+  private diagnosticList: HTMLUListElement;
+
+  /**
+   * Creates a new code editor pane
+   * @param parent Element the pane is added to, which must be in the document for CodeMirror to measure it
+   * @param language Language of the pane
+   * @param label Pane label
+   * @param options Editor options
+   * @param readOnly Whether the pane is read-only
+   * @param indentUnit String inserted for one indentation level
+   * @param history Editor whose history the undo and redo keys step through
+   * @param history.undo Undo the last change
+   * @param history.redo Redo the last undone change
+   * @param onInput Called when the user changes the code
+   */
+  constructor(
+    parent: HTMLElement,
+    language: CodePane,
+    label: string,
+    options: Required<CodeEditorOptions>,
+    readOnly: boolean,
+    private indentUnit: string,
+    history: { undo(): boolean; redo(): boolean },
+    onInput: () => void
+  ) {
+    this.element = document.createElement('div');
+    this.element.className = `editor-section editor-section-${language}`;
+    this.element.style.display = 'flex';
+    this.element.style.flexDirection = 'column';
+    this.element.style.flexGrow = '1';
+
+    const labelElement = document.createElement('div');
+    labelElement.className = 'editor-label';
+    labelElement.textContent = label;
+    labelElement.style.fontWeight = 'bold';
+    labelElement.style.marginBottom = '5px';
+
+    const frame = document.createElement('div');
+    frame.className = 'code-editor-frame';
+    frame.style.flexGrow = '1';
+
+    this.diagnosticList = createDiagnosticList();
+    this.element.appendChild(labelElement);
+    this.element.appendChild(frame);
+    this.element.appendChild(this.diagnosticList);
+    parent.appendChild(this.element);
+
+    const tabs = indentUnit === '\t';
+    const undo = () => {
+      history.undo();
+    };
+    const redo = () => {
+      history.redo();
+    };
+
+    this.codeMirror = CodeMirror(frame, {
+      value: '',
+      mode: options.highlighting ? PANE_MODES[language] : 'text/plain',
+      lineNumbers: options.lineNumbers,
+      matchBrackets: options.bracketMatching,
+      smartIndent: options.autoIndent,
+      electricChars: options.autoIndent,
+      readOnly,
+      indentUnit: tabs ? 4 : indentUnit.length,
+      tabSize: tabs ? 4 : indentUnit.length,
+      indentWithTabs: tabs,
+      gutters: [DIAGNOSTICS_GUTTER],
+      // The editor history covers all panes, so CodeMirror's own is not kept
+      undoDepth: 0,
+      extraKeys: {
+        'Ctrl-Z': undo,
+        'Cmd-Z': undo,
+        'Shift-Ctrl-Z': redo,
+        'Shift-Cmd-Z': redo,
+        'Ctrl-Y': redo,
+        'Cmd-Y': redo,
+        // Without auto-indentation, Tab moves the focus as in a textarea
+        Tab: options.autoIndent ? codeMirror => this.indent(codeMirror) : false,
+        'Shift-Tab': options.autoIndent ? 'indentLess' : false,
+        Enter: options.autoIndent ? 'newlineAndIndent' : codeMirror => codeMirror.replaceSelection('\n')
+      },
+      inputStyle: 'textarea',
+      screenReaderLabel: `${label} code`
+    });
+
+    // Values set by the editor are recorded by the editor itself
+    this.codeMirror.on('changes', (_codeMirror, changes) => {
+      if (changes.some(change => change.origin !== 'setValue')) {
+        onInput();
+      }
+    });
+  }
+
+  /**
+   * Get the code of the pane
+   * @returns Code
+   */
+  public getValue(): string {
+    return this.codeMirror.getValue();
+  }
+
+  /**
+   * Replace the code of the pane
+   * Unchanged panes are left alone, so they keep their cursor and scroll position.
+   * @param value Code
+   */
+  public setValue(value: string): void {
+    if (this.codeMirror.getValue() !== value) {
+      this.codeMirror.setValue(value);
+    }
+  }
+
+  /**
+   * Mark problems in the gutter and list them below the pane
+   * @param diagnostics Problems in this pane
+   */
+  public setDiagnostics(diagnostics: DiagnosticDetails[]): void {
+    renderDiagnosticList(this.diagnosticList, diagnostics);
+    this.codeMirror.clearGutter(DIAGNOSTICS_GUTTER);
+
+    const lines = new Set(diagnostics.map(diagnostic => diagnostic.line));
+    lines.forEach(line => {
+      const problems = diagnostics.filter(diagnostic => diagnostic.line === line);
+      const severity = problems.some(problem => problem.severity === 'error') ? 'error' : 'warning';
+      const marker = document.createElement('span');
+      marker.className = `code-editor-marker code-editor-marker-${severity}`;
+      marker.title = problems.map(problem => problem.message).join('\n');
+      marker.textContent = '●';
+      this.codeMirror.setGutterMarker(line - 1, DIAGNOSTICS_GUTTER, marker);
+    });
+  }
+
+  /**
+   * Insert one indentation level at the cursor, or indent the selected lines
+   * @param codeMirror CodeMirror instance of the pane
+   * @private
+   */
+  private indent(codeMirror: CodeMirror.Editor): void {
+    if (codeMirror.somethingSelected()) {
+      codeMirror.execCommand('indentMore');
+    } else {
+      codeMirror.replaceSelection(this.indentUnit);
+    }
+  }
+}
+
+/**
+ * Code editor implementation
+ * Edits HTML, CSS and JavaScript in CodeMirror, with syntax highlighting,
+ * line numbers, bracket matching and auto-indentation
+ */
+class CodeEditor implements IEditor {
+  private container: HTMLElement;
+  private panes: Record<CodePane, CodeEditorPane>;
+  private listeners: EditorChangeListener[] = [];
+  private history: EditorHistory;
+
+  /**
+   * Creates a new code editor
+   * @param containerId Container element ID
+   * @param eventBus Event bus for publishing events
+   * @param readOnly Whether editor should be in read-only mode
+   * @param options Editor options
+   * @param formattingService Service used to format code
+   * @param teamId Team whose formatting options apply
+   */
+  constructor(
+    containerId: string,
+    private eventBus: IEventBus,
+    private readOnly: boolean,
+    options: Required<CodeEditorOptions>,
+    private formattingService: IFormattingService,
+    private teamId?: string
+  ) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container element not found: ${containerId}`);
+    }
+
+    this.container = container;
+    this.addStyles();
+
+    // Panes are created in the document, where CodeMirror can measure them
+    this.container.innerHTML = '';
+    const editorWrapper = document.createElement('div');
+    editorWrapper.className = 'editor-wrapper code-editor';
+    editorWrapper.style.display = 'flex';
+    editorWrapper.style.flexDirection = 'column';
+    editorWrapper.style.height = '100%';
+    editorWrapper.style.gap = '10px';
+    this.container.appendChild(editorWrapper);
+
+    const indentUnit = getIndentUnit(this.formattingService.getOptions(this.teamId));
+    const createPane = (language: CodePane, label: string) =>
+      new CodeEditorPane(editorWrapper, language, label, options, readOnly, indentUnit, this, () => {
+        this.history.record(this.getContent(), language);
+        this.notifyListeners();
+      });
+
+    this.panes = {
+      html: createPane('html', 'HTML'),
+      css: createPane('css', 'CSS'),
+      js: createPane('js', 'JavaScript')
+    };
+    this.history = new EditorHistory(this.getContent());
+  }
+
+  /**
+   * Get current editor content
+   * @returns Editor content object with html, css, and js
+   */
+  getContent(): EditorContent {
+    return {
+      html: this.panes.html.getValue(),
+      css: this.panes.css.getValue(),
+      js: this.panes.js.getValue()
+    };
+  }
+
+  /**
+   * Set editor content
+   * @param data Content to set
+   */
+  setContent(data: EditorContent): void {
+    this.applyContent({ html: data.html || '', css: data.css || '', js: data.js || '' });
+    this.history.record(this.getContent());
+
+    // Notify listeners of content change
+    this.notifyListeners();
+  }
+
+  /**
+   * Format code in the editor
+   * Panes that cannot be parsed are left unchanged and reported in the result.
+   * Read-only editors are not modified.
+   * @returns Formatted content and the errors of panes that were not formatted
+   */
+  formatCode(): FormatResult {
+    const content = this.getContent();
+
+    if (this.readOnly) {
+      return { content, errors: [], changed: false };
+    }
+
+    const result = this.formattingService.format(content, this.teamId);
+
+    if (result.changed) {
+      this.applyContent(result.content);
+      this.history.record(result.content);
+
+      // Notify listeners of content change
+      this.notifyListeners();
+    }
+
+    return result;
+  }
+
+  /**
+   * Undo the last change to the document
+   * Read-only editors are not modified.
+   * @returns True if a change was undone
+   */
+  undo(): boolean {
+    return this.restoreSnapshot(this.readOnly ? null : this.history.undo());
+  }
+
+  /**
+   * Redo the last undone change
+   * Read-only editors are not modified.
+   * @returns True if a change was redone
+   */
+  redo(): boolean {
+    return this.restoreSnapshot(this.readOnly ? null : this.history.redo());
+  }
+
+  /**
+   * Check whether there is a change to undo
+   * @returns True if undo would change the content
+   */
+  canUndo(): boolean {
+    return !this.readOnly && this.history.canUndo();
+  }
+
+  /**
+   * Check whether there is an undone change to redo
+   * @returns True if redo would change the content
+   */
+  canRedo(): boolean {
+    return !this.readOnly && this.history.canRedo();
+  }
+
+  /**
+   * Run changes as a single history entry
+   * @param changes Function making the changes
+   * @returns The function's result
+   */
+  transaction<T>(changes: () => T): T {
+    this.history.begin();
+    try {
+      return changes();
+    } finally {
+      this.history.end();
+    }
+  }
+
+  /**
+   * Store the undo history in component metadata
+   * @param metadata Existing component metadata
+   * @returns Copy of the metadata with the history under EDITOR_HISTORY_METADATA_KEY
+   */
+  saveHistory(metadata?: Record<string, any>): Record<string, any> {
+    return this.history.save(metadata);
+  }
+
+  /**
+   * Start the history at the current content, restoring a saved history if it matches
+   * @param metadata Component metadata
+   */
+  restoreHistory(metadata?: Record<string, any>): void {
+    this.history.restore(this.getContent(), metadata);
+  }
+
+  /**
+   * Mark problems in the gutter of their pane and list them below it
+   * @param diagnostics Problems to show, replacing any shown before
+   */
+  setDiagnostics(diagnostics: DiagnosticDetails[]): void {
+    (Object.keys(this.panes) as CodePane[]).forEach(pane => {
+      this.panes[pane].setDiagnostics(diagnostics.filter(diagnostic => diagnostic.pane === pane));
+    });
+  }
+
+  /**
+   * Add change event listener
+   * @param listener Function to call when content changes
+   * @returns Function to remove the listener
+   */
+  addEventListener(listener: EditorChangeListener): () => void {
+    this.listeners.push(listener);
+
+    // Return unsubscribe function
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index !== -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Add the pane and marker styles to the document if no code editor has added them yet
+   */
+  private addStyles(): void {
+    if (document.getElementById('code-editor-styles')) {
+      return;
+    }
+
+    const style = document.createElement('style');
+    style.id = 'code-editor-styles';
+    style.textContent = CODE_EDITOR_STYLES;
+    document.head.appendChild(style);
+  }
+
+  /**
+   * Set the value of every pane
+   * @param content Content to show
+   */
+  private applyContent(content: EditorContent): void {
+    this.panes.html.setValue(content.html);
+    this.panes.css.setValue(content.css);
+    this.panes.js.setValue(content.js);
+  }
+
+  /**
+   * Show content from the history
+   * @param content Content to show, or null if the history had none
+   * @returns True if content was shown
+   */
+  private restoreSnapshot(content: EditorContent | null): boolean {
+    if (!content) {
+      return false;
+    }
+
+    this.applyContent(content);
+
+    // Notify listeners of content change
+    this.notifyListeners();
+    return true;
+  }
+
+  /**
+   * Notify listeners of content change
+   */
+  private notifyListeners(): void {
+    const content = this.getContent();
+    for (const listener of this.listeners) {
+      try {
+        listener(content);
+      } catch (error) {
+        console.error('Error in editor change listener:', error);
+      }
+    }
+  }
+}
+
+/**
+ * Factory for creating code editor components
+ */
+export class CodeEditorFactory extends BaseEditorFactory {
+  /**
+   * Default editor options
+   * @private
+   */
+  private readonly DEFAULT_OPTIONS: Required<CodeEditorOptions> = {
+    lineNumbers: true,
+    highlighting: true,
+    bracketMatching: true,
+    autoIndent: true
+  };
+
+  /**
+   * Creates a new code editor factory
+   * @param errorHandler Error handler for reporting factory errors
+   */
+  constructor(protected errorHandler: IErrorHandler) {
+    super(errorHandler);
+  }
+
+  /**
+   * Get the factory identifier
+   */
+  getFactoryId(): string {
+    return 'code';
+  }
+
+  /**
+   * Get supported editor features
+   */
+  getSupportedFeatures(): string[] {
+    return [
+      'basic-editing',
+      'html-editing',
+      'css-editing',
+      'js-editing',
+      'code-formatting',
+      'syntax-highlighting',
+      'line-numbers',
+      'bracket-matching',
+      'auto-indent',
+      'diagnostic-markers',
+      'read-only'
+    ];
+  }
+
+  /**
+   * Create a code editor instance
+   * @param config Editor configuration
+   * @param container Service container for dependencies
+   * @returns A new CodeEditor instance
+   */
+  create(config: EditorConfig, container: IServiceContainer): IEditor {
+    try {
+      // Validate configuration
+      this.validateConfig(config);
+
+      // Get dependencies from container
+      const eventBus = container.get<IEventBus>('eventBus');
+
+      // Create editor instance
+      const editor = new CodeEditor(
+        config.containerId,
+        eventBus,
+        config.readOnly || false,
+        this.getEditorOptions(config),
+        this.getFormattingService(container),
+        config.teamId
+      );
+
+      // Initialize with content if provided
+      if (config.initialContent) {
+        this.initializeContent(editor, config.initialContent);
+      }
+
+      // Start the history after the initial content, so it cannot be undone
+      editor.restoreHistory(config.metadata);
+
+      // Publish creation event
+      this.publishCreatedEvent(eventBus, config);
+
+      return editor;
+    } catch (error) {
+      return this.handleCreationError(error, config, container);
+    }
+  }
+
+  /**
+   * Validates editor configuration, including the code editor options
+   * @param config Editor configuration to validate
+   * @throws AppError with VALIDATION type if configuration is invalid
+   */
+  protected validateConfig(config: EditorConfig): void {
+    super.validateConfig(config);
+
+    const options = config.options || {};
+    const invalid = (Object.keys(this.DEFAULT_OPTIONS) as Array<keyof CodeEditorOptions>)
+      .filter(key => options[key] !== undefined && typeof options[key] !== 'boolean');
+
+    if (invalid.length > 0) {
+      throw new AppError(
+        ErrorType.VALIDATION,
+        `Code editor options must be booleans: ${invalid.join(', ')}`,
+        { factoryId: this.getFactoryId(), options }
+      );
+    }
+  }
+
+  /**
+   * Get the editor options with defaults applied
+   * @param config Editor configuration
+   * @returns Complete editor options
+   * @private
+   */
+  private getEditorOptions(config: EditorConfig): Required<CodeEditorOptions> {
+    const options = { ...this.DEFAULT_OPTIONS };
+
+    (Object.keys(options) as Array<keyof CodeEditorOptions>).forEach(key => {
+      const value = config.options?.[key];
+      if (typeof value === 'boolean') {
+        options[key] = value;
+      }
+    });
+
+    return options;
+  }
+}
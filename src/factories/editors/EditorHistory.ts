@@ -0,0 +1,282 @@
+import { EditorContent, EditorHistoryMetadata, EDITOR_HISTORY_METADATA_KEY } from '../../components/Editor';
+import { CodePane } from '../../formatting/IFormattingService';
+
+/**
+ * Check whether two editor contents are the same
+ * @param a First content
+ * @param b Second content
+ * @returns True if every pane is equal
+ */
+function isSameContent(a: EditorContent, b: EditorContent): boolean {
+  return a.html === b.html && a.css === b.css && a.js === b.js;
+}
+
+/**
+ * Check whether a value is editor content
+ * @param value Value to check
+ * @returns True if the value has string html, css and js panes
+ */
+function isEditorContent(value: unknown): value is EditorContent {
+  const content = value as EditorContent | null;
+  return !!content &&
+    typeof content.html === 'string' &&
+    typeof content.css === 'string' &&
+    typeof content.js === 'string';
+}
+
+/**
+ * Undo history of an editor document
+ * Stores snapshots of all three panes, so a change to any pane, a whole
+ * document set by setContent or a formatting pass is undone in one step.
+ * Typing in the same pane in quick succession is grouped into one entry.
+ */
+export class EditorHistory {
+  /**
+   * Milliseconds after which typing starts a new entry
+   * @private
+   */
+  private readonly GROUP_DELAY_MS = 1000;
+
+  /**
+   * Maximum number of entries of each stack saved in component metadata
+   * @private
+   */
+  private readonly PERSISTED_LIMIT = 20;
+
+  /**
+   * Content before each change, oldest first
+   * @private
+   */
+  private undoStack: EditorContent[] = [];
+
+  /**
+   * Content of each undone change, most recently undone last
+   * @private
+   */
+  private redoStack: EditorContent[] = [];
+
+  /**
+   * Pane and time of the last typing entry, while more typing joins it
+   * @private
+   */
+  private typingGroup: { pane: CodePane; time: number } | null = null;
+
+  /**
+   * Content when the outermost open transaction began
+   * @private
+   */
+  private transactionStart: EditorContent | null = null;
+
+  /**
+   * Number of open transactions
+   * @private
+   */
+  private transactionDepth = 0;
+
+  /**
+   * Creates a new editor history
+   * @param content Current content of the document
+   * @param limit Maximum number of changes that can be undone
+   */
+  constructor(private content: EditorContent, private limit = 100) {}
+
+  /**
+   * Record a change to the document
+   * @param content Content after the change
+   * @param pane Pane the user typed in; omitted for changes made through the editor API
+   */
+  public record(content: EditorContent, pane?: CodePane): void {
+    if (isSameContent(content, this.content)) {
+      return;
+    }
+
+    const now = Date.now();
+    const joinsTyping = !!pane &&
+      this.typingGroup?.pane === pane &&
+      now - this.typingGroup.time < this.GROUP_DELAY_MS;
+
+    if (this.transactionDepth === 0 && !joinsTyping) {
+      this.push(this.content);
+    }
+
+    this.content = { ...content };
+    this.redoStack = [];
+    this.typingGroup = pane ? { pane, time: now } : null;
+  }
+
+  /**
+   * Start a transaction; changes until the matching end are one entry
+   */
+  public begin(): void {
+    if (this.transactionDepth === 0) {
+      this.transactionStart = this.content;
+      this.typingGroup = null;
+    }
+    this.transactionDepth++;
+  }
+
+  /**
+   * End a transaction, recording its changes when the outermost one ends
+   */
+  public end(): void {
+    if (this.transactionDepth === 0) {
+      return;
+    }
+
+    this.transactionDepth--;
+
+    if (this.transactionDepth === 0) {
+      const start = this.transactionStart as EditorContent;
+      this.transactionStart = null;
+      this.typingGroup = null;
+
+      if (!isSameContent(start, this.content)) {
+        this.push(start);
+      }
+    }
+  }
+
+  /**
+   * Step back to the content before the last change
+   * @returns Content to show, or null if there is nothing to undo
+   */
+  public undo(): EditorContent | null {
+    if (!this.canUndo()) {
+      return null;
+    }
+
+    this.redoStack.push(this.content);
+    this.content = this.undoStack.pop() as EditorContent;
+    this.typingGroup = null;
+    return { ...this.content };
+  }
+
+  /**
+   * Step forward to the content of the last undone change
+   * @returns Content to show, or null if there is nothing to redo
+   */
+  public redo(): EditorContent | null {
+    if (!this.canRedo()) {
+      return null;
+    }
+
+    this.undoStack.push(this.content);
+    this.content = this.redoStack.pop() as EditorContent;
+    this.typingGroup = null;
+    return { ...this.content };
+  }
+
+  /**
+   * Check whether there is a change to undo
+   * Undo is unavailable while a transaction is open.
+   * @returns True if undo would return content
+   */
+  public canUndo(): boolean {
+    return this.transactionDepth === 0 && this.undoStack.length > 0;
+  }
+
+  /**
+   * Check whether there is an undone change to redo
+   * @returns True if redo would return content
+   */
+  public canRedo(): boolean {
+    return this.transactionDepth === 0 && this.redoStack.length > 0;
+  }
+
+  /**
+   * Store the most recent entries in component metadata
+   * @param metadata Existing component metadata
+   * @returns Copy of the metadata with the history under EDITOR_HISTORY_METADATA_KEY
+   */
+  public save(metadata: Record<string, any> = {}): Record<string, any> {
+    const saved: EditorHistoryMetadata = {
+      undoStack: this.undoStack.slice(-this.PERSISTED_LIMIT),
+      content: { ...this.content },
+      redoStack: this.redoStack.slice(-this.PERSISTED_LIMIT),
+      savedAt: new Date().toISOString()
+    };
+
+    return { ...metadata, [EDITOR_HISTORY_METADATA_KEY]: saved };
+  }
+
+  /**
+   * Replace the history with one saved in component metadata
+   * The saved history is only used if it was saved at the current content;
+   * otherwise the content changed elsewhere and the history starts empty.
+   * @param content Current content of the document
+   * @param metadata Component metadata
+   * @returns True if a saved history was restored
+   */
+  public restore(content: EditorContent, metadata?: Record<string, any>): boolean {
+    const saved = metadata?.[EDITOR_HISTORY_METADATA_KEY] as EditorHistoryMetadata | undefined;
+    const valid = !!saved &&
+      isEditorContent(saved.content) &&
+      Array.isArray(saved.undoStack) && saved.undoStack.every(isEditorContent) &&
+      Array.isArray(saved.redoStack) && saved.redoStack.every(isEditorContent) &&
+      isSameContent(saved.content, content);
+
+    this.content = { ...content };
+    this.undoStack = valid ? (saved as EditorHistoryMetadata).undoStack.slice(-this.limit) : [];
+    this.redoStack = valid ? (saved as EditorHistoryMetadata).redoStack.slice(-this.limit) : [];
+    this.typingGroup = null;
+    return valid;
+  }
+
+  /**
+   * Add an entry to the undo stack, dropping the oldest beyond the limit
+   * @param content Content before the change
+   * @private
+   */
+  private push(content: EditorContent): void {
+    this.undoStack.push(content);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+  }
+}
+
+/**
+ * Route the undo and redo shortcuts of a textarea to the editor history
+ * Replaces the textarea's own undo, which only covers its pane and is lost
+ * when the editor sets its value.
+ * @param textarea Pane textarea
+ * @param history Editor whose history the shortcuts step through
+ * @param history.undo Undo the last change
+ * @param history.redo Redo the last undone change
+ */
+export function bindHistoryShortcuts(
+  textarea: HTMLTextAreaElement,
+  history: { undo(): boolean; redo(): boolean }
+): void {
+  textarea.addEventListener('keydown', event => {
+    if (!(event.ctrlKey || event.metaKey) || event.altKey) {
+      return;
+    }
+
+    const key = event.key.toLowerCase();
+    if (key === 'z') {
+      event.preventDefault();
+      if (event.shiftKey) {
+        history.redo();
+      } else {
+        history.undo();
+      }
+    } else if (key === 'y' && !event.shiftKey) {
+      event.preventDefault();
+      history.redo();
+    }
+  });
+
+  // Undo and redo from the browser's edit menu
+  textarea.addEventListener('beforeinput', event => {
+    const inputType = (event as InputEvent).inputType;
+    if (inputType === 'historyUndo' || inputType === 'historyRedo') {
+      event.preventDefault();
+      if (inputType === 'historyUndo') {
+        history.undo();
+      } else {
+        history.redo();
+      }
+    }
+  });
+}
@@ -3,6 +3,11 @@ import { IServiceContainer } from '../../core/IServiceContainer';
 import { IErrorHandler } from '../../errors/IErrorHandler';
 import { IEventBus } from '../../events/IEventBus';
 import { EditorConfig } from '../IEditorFactory';
+import { IFormattingService, FormatResult, CodePane } from '../../formatting/IFormattingService';
+import { DiagnosticDetails } from '../../diagnostics/IDiagnosticsService';
+import { createDiagnosticList, renderDiagnosticList } from './diagnosticList';
+import { EditorHistory, bindHistoryShortcuts } from './EditorHistory';
+import { FormattingService } from '../../formatting/FormattingService';
 import { BaseEditorFactory } from './BaseEditorFactory';
 
 /**
@@ -15,19 +20,25 @@ class SimpleEditor implements IEditor {
   private htmlEditor!: HTMLTextAreaElement;
   private cssEditor!: HTMLTextAreaElement;
   private jsEditor!: HTMLTextAreaElement;
+  private diagnosticLists: Partial<Record<CodePane, HTMLUListElement>> = {};
   private listeners: EditorChangeListener[] = [];
   private readOnly: boolean;
+  private history: EditorHistory;
   
   /**
    * Creates a new simple editor
    * @param containerId Container element ID
    * @param eventBus Event bus for publishing events
    * @param readOnly Whether editor should be in read-only mode
+   * @param formattingService Service used to format code
+   * @param teamId Team whose formatting options apply
    */
   constructor(
     containerId: string,
     private eventBus: IEventBus,
-    readOnly: boolean = false
+    readOnly: boolean = false,
+    private formattingService: IFormattingService = new FormattingService(),
+    private teamId?: string
   ) {
     const container = document.getElementById(containerId);
     if (!container) {
@@ -39,6 +50,7 @@ class SimpleEditor implements IEditor {
     
     // Create editor UI
     this.createEditorUI();
+    this.history = new EditorHistory(this.getContent());
   }
   
   /**
@@ -58,9 +70,8 @@ class SimpleEditor implements IEditor {
    * @param data Content to set
    */
   setContent(data: EditorContent): void {
-    this.htmlEditor.value = data.html || '';
-    this.cssEditor.value = data.css || '';
-    this.jsEditor.value = data.js || '';
+    this.applyContent({ html: data.html || '', css: data.css || '', js: data.js || '' });
+    this.history.record(this.getContent());
     
     // Notify listeners of content change
     this.notifyListeners();
@@ -68,15 +79,106 @@ class SimpleEditor implements IEditor {
   
   /**
    * Format code in the editor
-   * Simple implementation just trims whitespace
+   * Panes that cannot be parsed are left unchanged and reported in the result.
+   * Read-only editors are not modified.
+   * @returns Formatted content and the errors of panes that were not formatted
    */
-  formatCode(): void {
-    this.htmlEditor.value = this.htmlEditor.value.trim();
-    this.cssEditor.value = this.cssEditor.value.trim();
-    this.jsEditor.value = this.jsEditor.value.trim();
+  formatCode(): FormatResult {
+    const content = this.getContent();
     
-    // Notify listeners of content change
-    this.notifyListeners();
+    if (this.readOnly) {
+      return { content, errors: [], changed: false };
+    }
+    
+    const result = this.formattingService.format(content, this.teamId);
+    
+    if (result.changed) {
+      this.applyContent(result.content);
+      this.history.record(result.content);
+      
+      // Notify listeners of content change
+      this.notifyListeners();
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Undo the last change to the document
+   * Read-only editors are not modified.
+   * @returns True if a change was undone
+   */
+  undo(): boolean {
+    return this.restoreSnapshot(this.readOnly ? null : this.history.undo());
+  }
+  
+  /**
+   * Redo the last undone change
+   * Read-only editors are not modified.
+   * @returns True if a change was redone
+   */
+  redo(): boolean {
+    return this.restoreSnapshot(this.readOnly ? null : this.history.redo());
+  }
+  
+  /**
+   * Check whether there is a change to undo
+   * @returns True if undo would change the content
+   */
+  canUndo(): boolean {
+    return !this.readOnly && this.history.canUndo();
+  }
+  
+  /**
+   * Check whether there is an undone change to redo
+   * @returns True if redo would change the content
+   */
+  canRedo(): boolean {
+    return !this.readOnly && this.history.canRedo();
+  }
+  
+  /**
+   * Run changes as a single history entry
+   * @param changes Function making the changes
+   * @returns The function's result
+   */
+  transaction<T>(changes: () => T): T {
+    this.history.begin();
+    try {
+      return changes();
+    } finally {
+      this.history.end();
+    }
+  }
+  
+  /**
+   * Store the undo history in component metadata
+   * @param metadata Existing component metadata
+   * @returns Copy of the metadata with the history under EDITOR_HISTORY_METADATA_KEY
+   */
+  saveHistory(metadata?: Record<string, any>): Record<string, any> {
+    return this.history.save(metadata);
+  }
+  
+  /**
+   * Start the history at the current content, restoring a saved history if it matches
+   * @param metadata Component metadata
+   */
+  restoreHistory(metadata?: Record<string, any>): void {
+    this.history.restore(this.getContent(), metadata);
+  }
+  
+  /**
+   * Show the diagnostics of each pane in a list below it
+   * @param diagnostics Problems to show, replacing any shown before
+   */
+  setDiagnostics(diagnostics: DiagnosticDetails[]): void {
+    (Object.keys(this.diagnosticLists) as CodePane[]).forEach(pane => {
+      renderDiagnosticList(
+        this.diagnosticLists[pane] as HTMLUListElement,
+        diagnostics.filter(diagnostic => diagnostic.pane === pane)
+      );
+    });
   }
   
   /**
@@ -112,18 +214,21 @@ class SimpleEditor implements IEditor {
     editorWrapper.style.gap = '10px';
     
     // Create HTML editor section
-    const htmlSection = this.createEditorSection('HTML', (textarea) => {
+    const htmlSection = this.createEditorSection('HTML', 'html', (textarea, diagnosticList) => {
       this.htmlEditor = textarea;
+      this.diagnosticLists.html = diagnosticList;
     });
     
     // Create CSS editor section
-    const cssSection = this.createEditorSection('CSS', (textarea) => {
+    const cssSection = this.createEditorSection('CSS', 'css', (textarea, diagnosticList) => {
       this.cssEditor = textarea;
+      this.diagnosticLists.css = diagnosticList;
     });
     
     // Create JS editor section
-    const jsSection = this.createEditorSection('JavaScript', (textarea) => {
+    const jsSection = this.createEditorSection('JavaScript', 'js', (textarea, diagnosticList) => {
       this.jsEditor = textarea;
+      this.diagnosticLists.js = diagnosticList;
     });
     
     // Add sections to wrapper
@@ -138,12 +243,14 @@ class SimpleEditor implements IEditor {
   /**
    * Create an editor section (label + textarea)
    * @param label Section label
-   * @param textareaCallback Callback to capture textarea reference
+   * @param pane Pane edited in the section
+   * @param textareaCallback Callback to capture textarea and diagnostic list references
    * @returns Editor section element
    */
   private createEditorSection(
     label: string, 
-    textareaCallback: (textarea: HTMLTextAreaElement) => void
+    pane: CodePane,
+    textareaCallback: (textarea: HTMLTextAreaElement, diagnosticList: HTMLUListElement) => void
   ): HTMLElement {
     const section = document.createElement('div');
     section.className = `editor-section editor-section-${label.toLowerCase()}`;
@@ -171,19 +278,52 @@ class SimpleEditor implements IEditor {
     
     // Handle changes
     textarea.addEventListener('input', () => {
+      this.history.record(this.getContent(), pane);
       this.notifyListeners();
     });
+    bindHistoryShortcuts(textarea, this);
+    
+    // Create list for diagnostics
+    const diagnosticList = createDiagnosticList();
     
     // Add elements to section
     section.appendChild(labelElement);
     section.appendChild(textarea);
+    section.appendChild(diagnosticList);
     
-    // Capture textarea reference through callback
-    textareaCallback(textarea);
+    // Capture textarea and diagnostic list references through callback
+    textareaCallback(textarea, diagnosticList);
     
     return section;
   }
   
+  /**
+   * Set the value of every pane
+   * @param content Content to show
+   */
+  private applyContent(content: EditorContent): void {
+    this.htmlEditor.value = content.html;
+    this.cssEditor.value = content.css;
+    this.jsEditor.value = content.js;
+  }
+  
+  /**
+   * Show content from the history
+   * @param content Content to show, or null if the history had none
+   * @returns True if content was shown
+   */
+  private restoreSnapshot(content: EditorContent | null): boolean {
+    if (!content) {
+      return false;
+    }
+    
+    this.applyContent(content);
+    
+    // Notify listeners of content change
+    this.notifyListeners();
+    return true;
+  }
+  
   /**
    * Notify listeners of content change
    */
@@ -222,7 +362,7 @@ export class SimpleEditorFactory extends BaseEditorFactory {
    * Get supported editor features
    */
   getSupportedFeatures(): string[] {
-    return ['basic-editing', 'html-editing', 'css-editing', 'js-editing'];
+    return ['basic-editing', 'html-editing', 'css-editing', 'js-editing', 'code-formatting', 'diagnostic-markers'];
   }
   
   /**
@@ -243,7 +383,9 @@ export class SimpleEditorFactory extends BaseEditorFactory {
       const editor = new SimpleEditor(
         config.containerId,
         eventBus,
-        config.readOnly || false
+        config.readOnly || false,
+        this.getFormattingService(container),
+        config.teamId
       );
       
       // Initialize with content if provided
@@ -251,6 +393,9 @@ export class SimpleEditorFactory extends BaseEditorFactory {
         this.initializeContent(editor, config.initialContent);
       }
       
+      // Start the history after the initial content, so it cannot be undone
+      editor.restoreHistory(config.metadata);
+      
       // Publish creation event
       this.publishCreatedEvent(eventBus, config);
       
@@ -0,0 +1,36 @@
+import { DiagnosticDetails } from '../../diagnostics/IDiagnosticsService';
+
+/**
+ * Create the list that shows the diagnostics of an editor pane
+ * @returns Empty, hidden list
+ */
+export function createDiagnosticList(): HTMLUListElement {
+  const list = document.createElement('ul');
+  list.className = 'editor-diagnostics';
+  list.setAttribute('aria-live', 'polite');
+  list.style.margin = '4px 0 0';
+  list.style.padding = '0';
+  list.style.listStyle = 'none';
+  list.style.fontFamily = 'monospace';
+  list.style.fontSize = '12px';
+  list.hidden = true;
+  return list;
+}
+
+/**
+ * Show the diagnostics of an editor pane in its list
+ * @param list List created by createDiagnosticList
+ * @param diagnostics Diagnostics of the pane
+ */
+export function renderDiagnosticList(list: HTMLUListElement, diagnostics: DiagnosticDetails[]): void {
+  list.innerHTML = '';
+  list.hidden = diagnostics.length === 0;
+
+  diagnostics.forEach(diagnostic => {
+    const item = document.createElement('li');
+    item.className = `editor-diagnostic editor-diagnostic-${diagnostic.severity}`;
+    item.textContent = `${diagnostic.line}:${diagnostic.column} ${diagnostic.message} (${diagnostic.ruleId})`;
+    item.style.color = diagnostic.severity === 'error' ? '#cb2431' : '#b08800';
+    list.appendChild(item);
+  });
+}
@@ -26,7 +26,7 @@ export const FACTORY_EVENTS = {
    * Event data: { factoryInfo: string, error: Error | string, timestamp: number }
    */
   FACTORY_REGISTRATION_FAILED: 'factory:registrationFailed'
-};
+} as const;
 
 /**
  * Component created event data interface
@@ -6,10 +6,19 @@ export * from './FactoryRegistry';
 // Editor factory exports
 export * from './editors/BaseEditorFactory';
 export * from './editors/SimpleEditorFactory';
+export * from './editors/CodeEditorFactory';
+export * from './editors/EditorHistory';
 
 // Preview factory exports
 export * from './previews/BasePreviewFactory';
 export * from './previews/StandardPreviewFactory';
+export * from './previews/MathPreviewFactory';
+export * from './previews/MathTypesetting';
+export * from './previews/CspViolationReporter';
+export * from './previews/HotUpdate';
+export * from './previews/DeviceProfileRegistry';
+export * from './previews/DeviceEmulation';
+export * from './previews/MultiDevicePreviewFactory';
 
 // Registration functions
 import { IServiceContainer } from '../core/IServiceContainer';
@@ -17,7 +26,11 @@ import { IErrorHandler } from '../errors/IErrorHandler';
 import { IFactoryRegistry } from '../interfaces/factories/IFactoryRegistry';
 import { FactoryRegistry } from './FactoryRegistry';
 import { SimpleEditorFactory } from './editors/SimpleEditorFactory';
+import { CodeEditorFactory } from './editors/CodeEditorFactory';
 import { StandardPreviewFactory } from './previews/StandardPreviewFactory';
+import { MathPreviewFactory } from './previews/MathPreviewFactory';
+import { MultiDevicePreviewFactory } from './previews/MultiDevicePreviewFactory';
+import { MathApiAdapterFactory } from '../adapters/math/MathApiAdapterFactory';
 
 /**
  * Register the factory registry with the service container
@@ -56,7 +69,15 @@ export function registerDefaultFactories(
   
   // Register editor factories
   registry.registerFactory(new SimpleEditorFactory(errorHandler));
+  registry.registerFactory(new CodeEditorFactory(errorHandler));
   
   // Register preview factories
   registry.registerFactory(new StandardPreviewFactory(errorHandler));
+  registry.registerFactory(new MultiDevicePreviewFactory(errorHandler));
+  
+  // Register one math preview factory per supported math API type
+  const adapterFactory = new MathApiAdapterFactory(errorHandler);
+  adapterFactory.getSupportedTypes().forEach(type => {
+    registry.registerFactory(new MathPreviewFactory(errorHandler, type, adapterFactory));
+  });
 }
\ No newline at end of file
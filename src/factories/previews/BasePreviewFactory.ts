@@ -1,8 +1,33 @@
-import { IPreview } from '../../components/Preview';
+import { IPreview, DeviceProfile } from '../../components/Preview';
 import { IServiceContainer } from '../../core/IServiceContainer';
 import { IErrorHandler, ErrorType, AppError } from '../../errors/IErrorHandler';
+import { IIframeBridge } from '../../events/IIframeBridge';
 import { IPreviewFactory, PreviewConfig } from '../IPreviewFactory';
 import { BaseComponentFactory } from '../BaseComponentFactory';
+import { DeviceProfileRegistry } from './DeviceProfileRegistry';
+
+/**
+ * Sandbox tokens applied to preview iframes unless PreviewConfig.sandbox is set
+ * Scripts run in an opaque origin, so they cannot reach the host page.
+ */
+export const DEFAULT_PREVIEW_SANDBOX: readonly string[] = ['allow-scripts', 'allow-forms'];
+
+/**
+ * Sandbox tokens accepted in PreviewConfig.sandbox
+ */
+export const PREVIEW_SANDBOX_TOKENS: readonly string[] = [
+  'allow-downloads',
+  'allow-forms',
+  'allow-modals',
+  'allow-orientation-lock',
+  'allow-pointer-lock',
+  'allow-popups',
+  'allow-popups-to-escape-sandbox',
+  'allow-presentation',
+  'allow-same-origin',
+  'allow-scripts',
+  'allow-top-navigation-by-user-activation'
+];
 
 /**
  * Abstract base class for preview factories
@@ -74,6 +99,23 @@ export abstract class BasePreviewFactory extends BaseComponentFactory<IPreview,
       );
     }
     
+    const unsupportedTokens = (config.sandbox || []).filter(token => !PREVIEW_SANDBOX_TOKENS.includes(token));
+    if (unsupportedTokens.length > 0) {
+      throw new AppError(
+        ErrorType.VALIDATION,
+        `Unsupported sandbox tokens: ${unsupportedTokens.join(', ')}`,
+        { factoryId: this.getFactoryId(), config }
+      );
+    }
+    
+    if (config.sandbox && config.sandbox.includes('allow-scripts') && config.sandbox.includes('allow-same-origin')) {
+      throw new AppError(
+        ErrorType.VALIDATION,
+        "Sandbox tokens 'allow-scripts' and 'allow-same-origin' cannot be combined, since preview scripts could remove the sandbox",
+        { factoryId: this.getFactoryId(), config }
+      );
+    }
+    
     // Specific validation for math API preview factories
     if (this.isMathApiFactory() && !config.mathApiType) {
       throw new AppError(
@@ -97,9 +139,10 @@ export abstract class BasePreviewFactory extends BaseComponentFactory<IPreview,
   /**
    * Creates an iframe element for the preview
    * @param containerId Container element ID
+   * @param sandbox Sandbox tokens (defaults to DEFAULT_PREVIEW_SANDBOX)
    * @returns The created iframe element or throws if container not found
    */
-  protected createIframe(containerId: string): HTMLIFrameElement {
+  protected createIframe(containerId: string, sandbox: readonly string[] = DEFAULT_PREVIEW_SANDBOX): HTMLIFrameElement {
     const container = document.getElementById(containerId);
     
     if (!container) {
@@ -118,7 +161,7 @@ export abstract class BasePreviewFactory extends BaseComponentFactory<IPreview,
     iframe.style.backgroundColor = 'transparent';
     
     // Set important attributes for security and performance
-    iframe.setAttribute('sandbox', 'allow-scripts allow-same-origin allow-forms');
+    iframe.setAttribute('sandbox', sandbox.join(' '));
     iframe.setAttribute('loading', 'lazy');
     
     // Append iframe to container
@@ -127,6 +170,52 @@ export abstract class BasePreviewFactory extends BaseComponentFactory<IPreview,
     return iframe;
   }
   
+  /**
+   * Gets the container's 'iframeBridge' service, if any
+   * Sandboxed previews can only talk to the parent through the bridge.
+   * @param container Service container for dependencies
+   * @returns The bridge, or null if the container has none
+   */
+  protected getIframeBridge(container: IServiceContainer): IIframeBridge | null {
+    return container.has('iframeBridge') ? container.get<IIframeBridge>('iframeBridge') : null;
+  }
+  
+  /**
+   * Resolves a device profile ID or definition
+   * IDs are looked up in the container's 'deviceProfileRegistry' service, if any,
+   * and otherwise among the default profiles.
+   * @param reference Profile ID or definition
+   * @param container Service container for dependencies
+   * @returns The profile
+   * @throws AppError with VALIDATION type if the profile is unknown or invalid
+   */
+  protected resolveDeviceProfile(reference: string | DeviceProfile, container: IServiceContainer): DeviceProfile {
+    const registry = container.has('deviceProfileRegistry')
+      ? container.get<DeviceProfileRegistry>('deviceProfileRegistry')
+      : new DeviceProfileRegistry();
+    
+    return registry.resolve(reference);
+  }
+  
+  /**
+   * Applies the device profile, orientation and zoom settings of a configuration
+   * Call before rendering initial content so the first document emulates the device.
+   * @param preview The preview to configure
+   * @param config Preview configuration
+   * @param container Service container for dependencies
+   */
+  protected applyDeviceConfig(preview: IPreview, config: PreviewConfig, container: IServiceContainer): void {
+    if (config.deviceProfile) {
+      preview.setDeviceProfile(this.resolveDeviceProfile(config.deviceProfile, container), config.orientation);
+    } else if (config.orientation) {
+      preview.setOrientation(config.orientation);
+    }
+    
+    if (config.zoomToFit) {
+      preview.setZoomToFit(true);
+    }
+  }
+  
   /**
    * Checks if an external API is available
    * @param apiName Name of the API to check
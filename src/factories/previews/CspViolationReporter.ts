@@ -0,0 +1,51 @@
+import { IFRAME_MESSAGE_TYPES } from '../../events/events';
+
+/**
+ * Get the script that reports Content Security Policy violations to the parent bridge
+ * Place it in the preview document head, before any other script.
+ * @returns Script tag to place in the preview document head
+ */
+export function getCspViolationReporterTag(): string {
+  return `<script>(${runCspViolationReporter.toString()})(window, ${JSON.stringify(IFRAME_MESSAGE_TYPES.CSP_VIOLATION)});</script>`;
+}
+
+/**
+ * Install the violation reporter in a window
+ * @param win The preview window
+ * @returns Function that removes the reporter
+ */
+export function installCspViolationReporter(win: Window): () => void {
+  return runCspViolationReporter(win, IFRAME_MESSAGE_TYPES.CSP_VIOLATION);
+}
+
+/**
+ * Violation reporter implementation
+ * Must not reference anything outside its own body, because getCspViolationReporterTag
+ * serializes it with Function.prototype.toString.
+ * @param win The preview window
+ * @param violationType Message type used to report violations to the parent bridge
+ * @returns Function that removes the reporter
+ */
+function runCspViolationReporter(win: Window, violationType: string): () => void {
+  const listener = (event: SecurityPolicyViolationEvent) => {
+    if (!win.parent || win.parent === win) return;
+
+    win.parent.postMessage({
+      type: violationType,
+      payload: {
+        blockedURI: event.blockedURI,
+        violatedDirective: event.violatedDirective,
+        effectiveDirective: event.effectiveDirective,
+        sourceFile: event.sourceFile || undefined,
+        line: event.lineNumber || undefined,
+        column: event.columnNumber || undefined,
+        sample: event.sample || undefined
+      },
+      source: 'iframe'
+    }, '*');
+  };
+
+  win.document.addEventListener('securitypolicyviolation', listener);
+
+  return () => win.document.removeEventListener('securitypolicyviolation', listener);
+}
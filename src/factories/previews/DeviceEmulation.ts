@@ -0,0 +1,47 @@
+import { DeviceProfile } from '../../components/Preview';
+
+/**
+ * Get the script that reports a profile's pixel ratio and user agent to component scripts
+ * @param profile Emulated profile
+ * @returns Script tag to place in the preview document head, or '' if the profile sets neither
+ */
+export function getDeviceEmulationTag(profile: DeviceProfile): string {
+  if (profile.devicePixelRatio === undefined && profile.userAgent === undefined) {
+    return '';
+  }
+
+  // Escape '<' so a user agent cannot close the script element
+  const args = [
+    JSON.stringify(profile.devicePixelRatio ?? null),
+    JSON.stringify(profile.userAgent ?? null)
+  ].join(', ').replace(/</g, '\\u003c');
+
+  return `<script>(${runDeviceEmulation.toString()})(window, ${args});</script>`;
+}
+
+/**
+ * Emulate a profile's pixel ratio and user agent in a window
+ * @param win The preview window
+ * @param profile Emulated profile
+ */
+export function installDeviceEmulation(win: Window, profile: DeviceProfile): void {
+  runDeviceEmulation(win, profile.devicePixelRatio ?? null, profile.userAgent ?? null);
+}
+
+/**
+ * Device emulation implementation
+ * Must not reference anything outside its own body, because getDeviceEmulationTag
+ * serializes it with Function.prototype.toString.
+ * @param win The preview window
+ * @param devicePixelRatio Pixel ratio to report, or null to keep the real one
+ * @param userAgent User agent to report, or null to keep the real one
+ */
+function runDeviceEmulation(win: Window, devicePixelRatio: number | null, userAgent: string | null): void {
+  if (devicePixelRatio !== null) {
+    Object.defineProperty(win, 'devicePixelRatio', { configurable: true, get: () => devicePixelRatio });
+  }
+
+  if (userAgent !== null) {
+    Object.defineProperty(win.navigator, 'userAgent', { configurable: true, get: () => userAgent });
+  }
+}
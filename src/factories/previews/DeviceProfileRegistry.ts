@@ -0,0 +1,167 @@
+import { DeviceProfile, DEFAULT_DEVICE_PROFILES } from '../../components/Preview';
+import { IStorageAdapter } from '../../adapters/IStorageAdapter';
+import { AppError, ErrorType } from '../../errors/IErrorHandler';
+
+/**
+ * Registry of the device profiles previews can emulate
+ * Profiles registered by users are persisted when a storage adapter is given.
+ */
+export class DeviceProfileRegistry {
+  /**
+   * Storage key of user-defined profiles
+   * @private
+   */
+  private readonly STORAGE_KEY = 'devpreview_device_profiles';
+
+  /**
+   * Registered profiles keyed by ID
+   * @private
+   */
+  private profiles: Map<string, DeviceProfile> = new Map();
+
+  /**
+   * IDs of the user-defined profiles, which are persisted
+   * @private
+   */
+  private customIds: Set<string> = new Set();
+
+  /**
+   * Creates a new DeviceProfileRegistry
+   * @param profiles Built-in profiles (defaults to DEFAULT_DEVICE_PROFILES)
+   * @param storageAdapter Storage adapter persisting user-defined profiles
+   */
+  constructor(
+    profiles: DeviceProfile[] = DEFAULT_DEVICE_PROFILES,
+    private storageAdapter?: IStorageAdapter
+  ) {
+    profiles.forEach(profile => this.profiles.set(profile.id, profile));
+
+    this.loadCustomProfiles();
+  }
+
+  /**
+   * Register a user-defined profile, replacing any profile with the same ID
+   * @param profile Profile definition
+   * @throws AppError with VALIDATION type if the profile is invalid
+   */
+  public register(profile: DeviceProfile): void {
+    this.validate(profile);
+    this.profiles.set(profile.id, { ...profile });
+    this.customIds.add(profile.id);
+    this.persist();
+  }
+
+  /**
+   * Remove a profile
+   * Removing a built-in profile lasts until the registry is recreated.
+   * @param id Profile ID
+   * @returns True if a profile was removed
+   */
+  public remove(id: string): boolean {
+    const removed = this.profiles.delete(id);
+
+    if (removed && this.customIds.delete(id)) {
+      this.persist();
+    }
+
+    return removed;
+  }
+
+  /**
+   * Get a registered profile
+   * @param id Profile ID
+   * @returns Profile or undefined if not registered
+   */
+  public get(id: string): DeviceProfile | undefined {
+    return this.profiles.get(id);
+  }
+
+  /**
+   * Get all registered profiles in registration order
+   * @returns Profiles
+   */
+  public getAll(): DeviceProfile[] {
+    return Array.from(this.profiles.values());
+  }
+
+  /**
+   * Resolve a profile reference
+   * @param reference Profile ID or definition
+   * @returns The profile
+   * @throws AppError with VALIDATION type if the ID is unknown or the definition is invalid
+   */
+  public resolve(reference: string | DeviceProfile): DeviceProfile {
+    if (typeof reference !== 'string') {
+      this.validate(reference);
+      return reference;
+    }
+
+    const profile = this.profiles.get(reference);
+
+    if (!profile) {
+      throw new AppError(
+        ErrorType.VALIDATION,
+        `Unknown device profile: ${reference}`,
+        { profileId: reference }
+      );
+    }
+
+    return profile;
+  }
+
+  /**
+   * Check that a profile has an ID and positive dimensions
+   * @param profile Profile to check
+   * @throws AppError with VALIDATION type if the profile is invalid
+   * @private
+   */
+  private validate(profile: DeviceProfile): void {
+    const positive = (value: number | undefined) => typeof value === 'number' && isFinite(value) && value > 0;
+
+    if (!profile.id || !positive(profile.width) || !positive(profile.height) ||
+        (profile.devicePixelRatio !== undefined && !positive(profile.devicePixelRatio))) {
+      throw new AppError(
+        ErrorType.VALIDATION,
+        'Device profiles need an ID, a positive width and height, and a positive device pixel ratio if set',
+        { profile }
+      );
+    }
+  }
+
+  /**
+   * Register the user-defined profiles found in storage
+   * Stored profiles that are no longer valid are skipped.
+   * @private
+   */
+  private loadCustomProfiles(): void {
+    const stored = this.storageAdapter?.getItem<unknown>(this.STORAGE_KEY);
+
+    if (!Array.isArray(stored)) {
+      return;
+    }
+
+    stored.forEach((profile: DeviceProfile) => {
+      try {
+        this.validate(profile);
+      } catch (error) {
+        return;
+      }
+
+      this.profiles.set(profile.id, profile);
+      this.customIds.add(profile.id);
+    });
+  }
+
+  /**
+   * Write the user-defined profiles to storage
+   * @private
+   */
+  private persist(): void {
+    if (!this.storageAdapter) {
+      return;
+    }
+
+    const custom = this.getAll().filter(profile => this.customIds.has(profile.id));
+    this.storageAdapter.setItem(this.STORAGE_KEY, custom);
+  }
+}
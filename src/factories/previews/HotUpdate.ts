@@ -0,0 +1,155 @@
+import { IFRAME_MESSAGE_TYPES } from '../../events/events';
+import { MATH_TYPESETTER_GLOBAL } from './MathTypesetting';
+
+/**
+ * ID of the style element holding the component CSS in preview documents
+ */
+export const HOT_UPDATE_STYLE_ID = 'devpreview-style';
+
+/**
+ * Get the script that applies hot updates posted by the parent preview
+ * @returns Script tag to place in the preview document head
+ */
+export function getHotUpdateTag(): string {
+  const args = [
+    JSON.stringify({ css: IFRAME_MESSAGE_TYPES.PATCH_CSS, html: IFRAME_MESSAGE_TYPES.PATCH_HTML }),
+    JSON.stringify(HOT_UPDATE_STYLE_ID),
+    JSON.stringify(MATH_TYPESETTER_GLOBAL)
+  ].join(', ');
+
+  return `<script>(${runHotUpdate.toString()})(window, ${args});</script>`;
+}
+
+/**
+ * Install the hot update runtime in a window
+ * @param win The preview window
+ * @returns Function that removes the runtime
+ */
+export function installHotUpdate(win: Window): () => void {
+  return runHotUpdate(
+    win,
+    { css: IFRAME_MESSAGE_TYPES.PATCH_CSS, html: IFRAME_MESSAGE_TYPES.PATCH_HTML },
+    HOT_UPDATE_STYLE_ID,
+    MATH_TYPESETTER_GLOBAL
+  );
+}
+
+/**
+ * Hot update runtime implementation
+ * HTML patches carry the previous and the new HTML. Only the nodes that differ
+ * between the two are touched, so elements created or changed by component
+ * scripts elsewhere in the document are kept. Where a changed element's children
+ * no longer match its markup (e.g. after typesetting), they are replaced as a
+ * whole. Script elements are never patched.
+ * Must not reference anything outside its own body, because getHotUpdateTag
+ * serializes it with Function.prototype.toString.
+ * @param win The preview window
+ * @param types Message types of CSS and HTML patches
+ * @param styleId ID of the style element holding the component CSS
+ * @param typesetterGlobal Global variable of the TeX typesetter, re-run after HTML patches
+ * @returns Function that removes the runtime
+ */
+function runHotUpdate(
+  win: Window,
+  types: { css: string; html: string },
+  styleId: string,
+  typesetterGlobal: string
+): () => void {
+  const doc = win.document;
+
+  const children = (node: Node): Node[] =>
+    Array.from(node.childNodes).filter(child => !(child.nodeType === 1 && (child as Element).tagName === 'SCRIPT'));
+
+  const sameKind = (a: Node, b: Node): boolean =>
+    a.nodeType === b.nodeType && (a.nodeType !== 1 || (a as Element).tagName === (b as Element).tagName);
+
+  const parse = (html: string): Node => {
+    const template = doc.createElement('template');
+    template.innerHTML = html;
+    return template.content;
+  };
+
+  const patchNode = (live: Node, previous: Node, next: Node) => {
+    if (next.nodeType !== 1) {
+      live.nodeValue = next.nodeValue;
+      return;
+    }
+
+    const liveElement = live as Element;
+    const previousElement = previous as Element;
+    const nextElement = next as Element;
+
+    Array.from(nextElement.attributes).forEach(attribute => {
+      if (previousElement.getAttribute(attribute.name) !== attribute.value) {
+        liveElement.setAttribute(attribute.name, attribute.value);
+      }
+    });
+    Array.from(previousElement.attributes).forEach(attribute => {
+      if (!nextElement.hasAttribute(attribute.name)) {
+        liveElement.removeAttribute(attribute.name);
+      }
+    });
+
+    patchChildren(live, previous, next);
+  };
+
+  const patchChildren = (live: Node, previous: Node, next: Node) => {
+    const liveNodes = children(live);
+    const previousNodes = children(previous);
+    const nextNodes = children(next);
+    let anchor: Node | null = null;
+
+    const insert = (node: Node) => {
+      live.insertBefore(node, anchor ? anchor.nextSibling : live.firstChild);
+      anchor = node;
+    };
+
+    if (liveNodes.length !== previousNodes.length) {
+      liveNodes.forEach(node => live.removeChild(node));
+      nextNodes.forEach(node => insert(doc.importNode(node, true)));
+      return;
+    }
+
+    for (let index = 0; index < Math.max(previousNodes.length, nextNodes.length); index++) {
+      const liveNode = liveNodes[index];
+      const previousNode = previousNodes[index];
+      const nextNode = nextNodes[index];
+
+      if (!nextNode) {
+        live.removeChild(liveNode);
+      } else if (!previousNode) {
+        insert(doc.importNode(nextNode, true));
+      } else if (previousNode.isEqualNode(nextNode)) {
+        anchor = liveNode;
+      } else if (sameKind(previousNode, nextNode) && sameKind(liveNode, nextNode)) {
+        patchNode(liveNode, previousNode, nextNode);
+        anchor = liveNode;
+      } else {
+        const replacement = doc.importNode(nextNode, true);
+        live.replaceChild(replacement, liveNode);
+        anchor = replacement;
+      }
+    }
+  };
+
+  const listener = (event: MessageEvent) => {
+    const message = event.data;
+
+    if (event.source !== win.parent) return;
+    if (!message || typeof message !== 'object' || message.source !== 'parent' || !message.payload) return;
+
+    if (message.type === types.css) {
+      const style = doc.getElementById(styleId);
+      if (style) style.textContent = String(message.payload.css || '');
+    } else if (message.type === types.html && doc.body) {
+      patchChildren(doc.body, parse(String(message.payload.previousHtml || '')), parse(String(message.payload.html || '')));
+
+      const typesetter = (win as any)[typesetterGlobal];
+      if (typesetter && typeof typesetter.typeset === 'function') typesetter.typeset();
+    }
+  };
+
+  win.addEventListener('message', listener);
+
+  return () => win.removeEventListener('message', listener);
+}
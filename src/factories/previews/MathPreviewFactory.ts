@@ -0,0 +1,280 @@
+import { IPreview, IMathPreview, MathStateMetadata, MATH_STATE_METADATA_KEY } from '../../components/Preview';
+import { IServiceContainer } from '../../core/IServiceContainer';
+import { IErrorHandler, ErrorType, AppError } from '../../errors/IErrorHandler';
+import { IEventBus } from '../../events/IEventBus';
+import { IMathApiAdapter, IMathApiAdapterFactory } from '../../adapters/math/IMathApiAdapter';
+import { MathApiAdapterFactory } from '../../adapters/math/MathApiAdapterFactory';
+import { PreviewConfig } from '../IPreviewFactory';
+import { BasePreviewFactory } from './BasePreviewFactory';
+import { StandardPreview, STANDARD_PREVIEW_FEATURES } from './StandardPreviewFactory';
+
+/**
+ * Math preview implementation
+ * Renders the component document like StandardPreview and hosts a math API
+ * adapter in an element placed before the iframe
+ */
+export class MathPreview extends StandardPreview implements IMathPreview {
+  private ready: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new math preview
+   * @param iframe The iframe element to use for the component document
+   * @param eventBus Event bus for publishing events
+   * @param errorHandler Error handler for reporting failed debounced updates
+   * @param config Preview configuration
+   * @param adapter The math API adapter to host
+   * @param host Element the adapter renders into
+   */
+  constructor(
+    iframe: HTMLIFrameElement,
+    eventBus: IEventBus,
+    errorHandler: IErrorHandler,
+    config: Partial<PreviewConfig>,
+    private adapter: IMathApiAdapter,
+    private host: HTMLElement
+  ) {
+    super(iframe, eventBus, errorHandler, config);
+  }
+
+  /**
+   * Initialize the adapter, then restore saved state
+   * Failures are reported by the adapter and surface through whenReady.
+   * @param options Options passed to the adapter's initialize
+   * @param saved Saved state to restore, if any
+   * @returns Promise that resolves when the math API is ready
+   */
+  start(options?: Record<string, unknown>, saved?: MathStateMetadata): Promise<void> {
+    this.ready = this.adapter.initialize(this.host, options)
+      .then(() => (saved ? this.adapter.setState(saved.state) : undefined));
+
+    // Callers that never await whenReady should not see unhandled rejections
+    this.ready.catch(() => undefined);
+
+    return this.ready;
+  }
+
+  /**
+   * Get the math API adapter hosted by the preview
+   */
+  getAdapter(): IMathApiAdapter {
+    return this.adapter;
+  }
+
+  /**
+   * Wait for the adapter to initialize and restore any saved state
+   */
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  /**
+   * Update the math content once the adapter is ready
+   * @param source Math content in the adapter's format
+   */
+  async updateMath(source: string): Promise<void> {
+    await this.ready;
+    await this.adapter.updateContent(source);
+  }
+
+  /**
+   * Get the current math API state
+   */
+  getState(): unknown {
+    return this.adapter.getState();
+  }
+
+  /**
+   * Set the math API state once the adapter is ready
+   * @param state State as returned by getState
+   */
+  async setState(state: unknown): Promise<void> {
+    await this.ready;
+    await this.adapter.setState(state);
+  }
+
+  /**
+   * Store the current math API state in component metadata
+   * @param metadata Existing component metadata
+   * @returns Copy of the metadata with the state under MATH_STATE_METADATA_KEY
+   */
+  saveState(metadata: Record<string, any> = {}): Record<string, any> {
+    const saved: MathStateMetadata = {
+      apiType: this.adapter.getApiType(),
+      apiVersion: this.adapter.getApiVersion(),
+      state: this.getState(),
+      savedAt: new Date().toISOString()
+    };
+
+    return { ...metadata, [MATH_STATE_METADATA_KEY]: saved };
+  }
+
+  /**
+   * Destroy the adapter and remove the preview's elements
+   */
+  destroy(): void {
+    this.adapter.destroy();
+    this.host.remove();
+    super.destroy();
+  }
+}
+
+/**
+ * Factory for creating previews backed by a math API adapter
+ * One factory is registered per math API type, using the type as its factory ID,
+ * so the registry selects it by PreviewConfig.mathApiType.
+ */
+export class MathPreviewFactory extends BasePreviewFactory {
+  /**
+   * Version reported by the most recently initialized adapter
+   * @private
+   */
+  private apiVersion: string | null = null;
+
+  /**
+   * Creates a new math preview factory
+   * @param errorHandler Error handler for reporting factory errors
+   * @param mathApiType Math API type handled by this factory (e.g., 'desmos')
+   * @param adapterFactory Factory creating the math API adapters
+   */
+  constructor(
+    protected errorHandler: IErrorHandler,
+    private mathApiType: string,
+    private adapterFactory: IMathApiAdapterFactory = new MathApiAdapterFactory(errorHandler)
+  ) {
+    super(errorHandler);
+    this.mathApiType = mathApiType.toLowerCase();
+  }
+
+  /**
+   * Get the factory identifier
+   */
+  getFactoryId(): string {
+    return this.mathApiType;
+  }
+
+  /**
+   * Get supported preview features, including those of the math API adapter
+   */
+  getSupportedFeatures(): string[] {
+    const adapterFeatures = this.adapterFactory.createAdapter(this.mathApiType).getSupportedFeatures();
+    return [...STANDARD_PREVIEW_FEATURES, 'math-api', ...adapterFeatures];
+  }
+
+  /**
+   * Get the version of the underlying math library
+   * Uses the version reported by the last initialized preview, since some
+   * libraries only report it once loaded.
+   */
+  getApiVersion(): string {
+    return this.apiVersion || this.adapterFactory.createAdapter(this.mathApiType).getApiVersion();
+  }
+
+  /**
+   * Create a math preview instance
+   * The adapter is initialized asynchronously with config.apiOptions; state saved
+   * in config.metadata is restored once it is ready.
+   * @param config Preview configuration
+   * @param container Service container for dependencies
+   * @returns A new MathPreview instance
+   */
+  create(config: PreviewConfig, container: IServiceContainer): IPreview {
+    try {
+      // Validate configuration
+      this.validateConfig(config);
+
+      if ((config.mathApiType || '').toLowerCase() !== this.mathApiType) {
+        throw new AppError(
+          ErrorType.VALIDATION,
+          `Math API type '${config.mathApiType}' is not handled by this preview factory`,
+          { factoryId: this.getFactoryId(), config }
+        );
+      }
+
+      // Get dependencies from container
+      const eventBus = container.get<IEventBus>('eventBus');
+
+      // Create the adapter host before the iframe, then the iframe
+      const adapter = this.adapterFactory.createAdapter(this.mathApiType);
+      const host = this.createMathHost(config.containerId);
+      const iframe = this.createIframe(config.containerId, config.sandbox);
+
+      // Create preview instance
+      const preview = new MathPreview(iframe, eventBus, this.errorHandler, config, adapter, host);
+
+      // Route all parent communication through the bridge
+      const bridge = this.getIframeBridge(container);
+      if (bridge) {
+        preview.connectBridge(bridge);
+      }
+
+      // Emulate the configured device
+      this.applyDeviceConfig(preview, config, container);
+
+      // Initialize with content if provided
+      if (config.initialContent) {
+        preview.update(config.initialContent);
+      }
+
+      preview
+        .start(config.apiOptions, this.readSavedState(config.metadata))
+        .then(() => { this.apiVersion = adapter.getApiVersion(); }, () => undefined);
+
+      // Publish creation event
+      this.publishCreatedEvent(eventBus, config, { mathApiType: this.mathApiType });
+
+      return preview;
+    } catch (error) {
+      return this.handleCreationError(error, config, container);
+    }
+  }
+
+  /**
+   * Determines if this is a math API factory
+   */
+  protected isMathApiFactory(): boolean {
+    return true;
+  }
+
+  /**
+   * Create the element the math API renders into
+   * @param containerId Container element ID
+   * @returns The created element
+   * @private
+   */
+  private createMathHost(containerId: string): HTMLElement {
+    const container = document.getElementById(containerId);
+
+    if (!container) {
+      throw new AppError(
+        ErrorType.INITIALIZATION,
+        `Container element not found: ${containerId}`,
+        { factoryId: this.getFactoryId() }
+      );
+    }
+
+    const host = document.createElement('div');
+    host.id = `${containerId}-math`;
+    host.style.width = '100%';
+    host.style.height = '100%';
+    container.appendChild(host);
+
+    return host;
+  }
+
+  /**
+   * Get the saved state for this factory's math API from component metadata
+   * State saved by a different math API is ignored.
+   * @param metadata Component metadata
+   * @returns Saved state or undefined if there is none
+   * @private
+   */
+  private readSavedState(metadata?: Record<string, any>): MathStateMetadata | undefined {
+    const saved = metadata?.[MATH_STATE_METADATA_KEY];
+
+    if (!saved || typeof saved !== 'object' || saved.apiType !== this.mathApiType) {
+      return undefined;
+    }
+
+    return saved as MathStateMetadata;
+  }
+}
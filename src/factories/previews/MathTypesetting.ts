@@ -0,0 +1,284 @@
+import { IFRAME_MESSAGE_TYPES } from '../../events/events';
+import { MathRendererOptions, MathRendererType } from '../IPreviewFactory';
+
+/**
+ * Default base URL of the locally served renderer assets
+ * The build copies the bundled KaTeX and MathJax assets to 'vendor/' next to the library.
+ */
+export const DEFAULT_MATH_ASSET_BASE_URL = '/vendor/';
+
+/**
+ * Global variable the typesetter is assigned to inside previews
+ * Exposes typeset() so content changed by scripts can be typeset again.
+ */
+export const MATH_TYPESETTER_GLOBAL = 'DevPreviewMath';
+
+/**
+ * Renderer assets, relative to the asset base URL
+ */
+export const MATH_RENDERER_ASSETS: Record<MathRendererType, { scripts: string[]; stylesheets: string[] }> = {
+  katex: {
+    scripts: ['katex/katex.min.js'],
+    stylesheets: ['katex/katex.min.css']
+  },
+  mathjax: {
+    scripts: ['mathjax/tex-chtml.js'],
+    stylesheets: []
+  }
+};
+
+/**
+ * Typesetter installed in a preview window
+ */
+export interface IMathTypesetter {
+  /**
+   * Typeset math that has not been rendered yet
+   * @returns Promise that resolves when typesetting is complete
+   */
+  typeset(): Promise<void>;
+}
+
+/**
+ * Get the base URL renderer assets are loaded from
+ * Documents loaded from a blob URL cannot resolve relative URLs, so pass the
+ * parent page's URL for them to get an absolute base.
+ * @param options Renderer options
+ * @param documentBaseUrl URL to resolve a relative asset base URL against
+ * @returns Base URL ending in a slash
+ */
+export function getMathAssetBaseUrl(options: MathRendererOptions, documentBaseUrl?: string): string {
+  const baseUrl = (options.assetBaseUrl ?? DEFAULT_MATH_ASSET_BASE_URL).replace(/\/?$/, '/');
+  return documentBaseUrl ? new URL(baseUrl, documentBaseUrl).href : baseUrl;
+}
+
+/**
+ * Get the head markup that loads a renderer and typesets the document
+ * @param options Renderer options
+ * @param documentBaseUrl URL to resolve a relative asset base URL against
+ * @returns Link and script tags to place in the preview document head
+ */
+export function getMathRendererTags(options: MathRendererOptions, documentBaseUrl?: string): string {
+  const baseUrl = getMathAssetBaseUrl(options, documentBaseUrl);
+  const assets = MATH_RENDERER_ASSETS[options.renderer];
+  const tags: string[] = [];
+
+  assets.stylesheets.forEach(path => {
+    tags.push(`<link rel="stylesheet" href="${escapeAttribute(baseUrl + path)}">`);
+  });
+
+  if (options.renderer === 'mathjax') {
+    // MathJax reads its configuration from window.MathJax before it loads
+    tags.push(`<script>window.MathJax = ${JSON.stringify({
+      tex: { inlineMath: [['\\(', '\\)']], displayMath: [['$$', '$$'], ['\\[', '\\]']] },
+      startup: { typeset: false }
+    })};</script>`);
+  }
+
+  assets.scripts.forEach(path => {
+    tags.push(`<script src="${escapeAttribute(baseUrl + path)}"></script>`);
+  });
+
+  const args = [
+    JSON.stringify(options.renderer),
+    JSON.stringify(MATH_TYPESETTER_GLOBAL),
+    JSON.stringify(IFRAME_MESSAGE_TYPES.TEX_ERROR)
+  ].join(', ');
+  tags.push(`<script>(${runMathTypesetter.toString()})(window, ${args});</script>`);
+
+  return tags.join('\n');
+}
+
+/**
+ * Install the typesetter in a window whose renderer is already loaded
+ * @param win The preview window
+ * @param renderer Renderer loaded in the window
+ * @returns The installed typesetter
+ */
+export function installMathTypesetter(win: Window, renderer: MathRendererType): IMathTypesetter {
+  return runMathTypesetter(win, renderer, MATH_TYPESETTER_GLOBAL, IFRAME_MESSAGE_TYPES.TEX_ERROR);
+}
+
+/**
+ * Escape a value for use in a double-quoted attribute
+ * @param value Attribute value
+ * @returns Escaped value
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/**
+ * Typesetter implementation
+ * Must not reference anything outside its own body, because getMathRendererTags
+ * serializes it with Function.prototype.toString.
+ * @param win The preview window
+ * @param renderer Renderer loaded in the window
+ * @param globalName Global variable the typesetter is assigned to
+ * @param errorType Message type used to report TeX errors to the parent bridge
+ * @returns The installed typesetter
+ */
+function runMathTypesetter(win: Window, renderer: string, globalName: string, errorType: string): IMathTypesetter {
+  const doc = win.document;
+  const delimiters = [
+    { left: '$$', right: '$$', display: true },
+    { left: '\\[', right: '\\]', display: true },
+    { left: '\\(', right: '\\)', display: false }
+  ];
+  const skippedTags = ['SCRIPT', 'STYLE', 'TEXTAREA', 'PRE', 'CODE'];
+  const reported: any[] = [];
+
+  const describeElement = (element: Element | null): string => {
+    if (!element) return '';
+    return element.tagName.toLowerCase() + (element.id ? `#${element.id}` : '');
+  };
+
+  const report = (message: string, expression: string, displayMode: boolean, position?: number, element?: string) => {
+    if (win.parent && win.parent !== win) {
+      win.parent.postMessage({
+        type: errorType,
+        payload: { renderer, message, expression, displayMode, position, element },
+        source: 'iframe'
+      }, '*');
+    }
+  };
+
+  const split = (text: string) => {
+    const parts: Array<{ text: string; tex?: string; display?: boolean }> = [];
+    let index = 0;
+
+    while (index < text.length) {
+      let next: { start: number; left: string; right: string; display: boolean } | null = null;
+      for (const delimiter of delimiters) {
+        const start = text.indexOf(delimiter.left, index);
+        if (start !== -1 && (!next || start < next.start)) next = { start, ...delimiter };
+      }
+      if (!next) break;
+
+      const end = text.indexOf(next.right, next.start + next.left.length);
+      if (end === -1) break;
+
+      parts.push({ text: text.slice(index, next.start) });
+      parts.push({
+        text: text.slice(next.start, end + next.right.length),
+        tex: text.slice(next.start + next.left.length, end),
+        display: next.display
+      });
+      index = end + next.right.length;
+    }
+
+    parts.push({ text: text.slice(index) });
+    return parts;
+  };
+
+  const collectTextNodes = (): Text[] => {
+    const nodes: Text[] = [];
+    const walker = doc.createTreeWalker(doc.body, 4 /* NodeFilter.SHOW_TEXT */);
+
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      let parent = node.parentElement;
+      let skip = false;
+      while (parent && !skip) {
+        skip = skippedTags.indexOf(parent.tagName) !== -1 || parent.classList.contains('devpreview-math');
+        parent = parent.parentElement;
+      }
+      if (!skip && /[$\\]/.test(node.nodeValue || '')) {
+        nodes.push(node as Text);
+      }
+    }
+
+    return nodes;
+  };
+
+  const typesetKatex = () => {
+    const katex = (win as any).katex;
+    if (!katex) {
+      report('katex is not loaded', '', false);
+      return;
+    }
+
+    collectTextNodes().forEach(node => {
+      const parts = split(node.nodeValue || '');
+      if (parts.length === 1) return;
+
+      const fragment = doc.createDocumentFragment();
+      parts.forEach(part => {
+        if (part.tex === undefined) {
+          if (part.text) fragment.appendChild(doc.createTextNode(part.text));
+          return;
+        }
+
+        const target = doc.createElement(part.display ? 'div' : 'span');
+        target.className = 'devpreview-math';
+        target.setAttribute('data-tex', part.tex);
+
+        try {
+          katex.render(part.tex, target, { displayMode: !!part.display, throwOnError: true });
+        } catch (error: any) {
+          target.textContent = part.text;
+          target.className = 'devpreview-math devpreview-math-error';
+          target.title = String(error && error.message ? error.message : error);
+          report(
+            target.title,
+            part.tex,
+            !!part.display,
+            error && typeof error.position === 'number' ? error.position : undefined,
+            describeElement(node.parentElement)
+          );
+        }
+
+        fragment.appendChild(target);
+      });
+
+      if (node.parentNode) node.parentNode.replaceChild(fragment, node);
+    });
+  };
+
+  const typesetMathJax = (): Promise<void> => {
+    const mathJax = (win as any).MathJax;
+    if (!mathJax || !mathJax.startup || !mathJax.startup.promise) {
+      report('mathjax is not loaded', '', false);
+      return Promise.resolve();
+    }
+
+    return mathJax.startup.promise
+      .then(() => mathJax.typesetPromise())
+      .then(() => {
+        const items = mathJax.startup.document && mathJax.startup.document.math;
+        if (!items) return;
+
+        for (const item of items) {
+          const root = item.typesetRoot as Element | null;
+          const errorNode = root && root.querySelector('[data-mjx-error]');
+          if (errorNode && reported.indexOf(item) === -1) {
+            reported.push(item);
+            report(
+              errorNode.getAttribute('data-mjx-error') || 'Invalid TeX',
+              item.math,
+              !!item.display,
+              undefined,
+              describeElement(root && root.parentElement)
+            );
+          }
+        }
+      });
+  };
+
+  const typesetter: IMathTypesetter = {
+    typeset: () => {
+      if (!doc.body) return Promise.resolve();
+      if (renderer === 'mathjax') return typesetMathJax();
+      typesetKatex();
+      return Promise.resolve();
+    }
+  };
+
+  (win as any)[globalName] = typesetter;
+
+  if (doc.readyState === 'loading') {
+    doc.addEventListener('DOMContentLoaded', () => { typesetter.typeset(); });
+  } else {
+    typesetter.typeset();
+  }
+
+  return typesetter;
+}
@@ -0,0 +1,309 @@
+import {
+  IPreview,
+  DeviceSize,
+  DeviceProfile,
+  DeviceOrientation,
+  PreviewViewport
+} from '../../components/Preview';
+import { EditorContent } from '../../components/Editor';
+import { IServiceContainer } from '../../core/IServiceContainer';
+import { IErrorHandler, ErrorType, AppError } from '../../errors/IErrorHandler';
+import { IEventBus } from '../../events/IEventBus';
+import { PreviewConfig } from '../IPreviewFactory';
+import { BasePreviewFactory } from './BasePreviewFactory';
+import { StandardPreview, STANDARD_PREVIEW_FEATURES } from './StandardPreviewFactory';
+
+/**
+ * Multi-device preview implementation
+ * Renders the same content in one StandardPreview per device profile, side by side.
+ * Device, orientation and zoom settings apply to every device.
+ */
+export class MultiDevicePreview implements IPreview {
+  /**
+   * Creates a new multi-device preview
+   * @param previews One preview per device, in display order
+   * @param layout Element holding the device previews
+   */
+  constructor(
+    private previews: StandardPreview[],
+    private layout: HTMLElement
+  ) {}
+
+  /**
+   * Update the content of every device
+   * @param content Content to display
+   */
+  update(content: EditorContent): void {
+    this.previews.forEach(preview => preview.update(content));
+  }
+
+  /**
+   * Apply debounced updates of every device immediately
+   */
+  flush(): void {
+    this.previews.forEach(preview => preview.flush());
+  }
+
+  /**
+   * Set the device size of every device
+   * @param size Device size
+   */
+  setDeviceSize(size: DeviceSize): void {
+    this.previews.forEach(preview => preview.setDeviceSize(size));
+    this.updateLabels();
+  }
+
+  /**
+   * Emulate the same profile on every device
+   * @param profile Profile to emulate, or null to fill each device's column
+   * @param orientation Orientation to render in
+   */
+  setDeviceProfile(profile: DeviceProfile | null, orientation?: DeviceOrientation): void {
+    this.previews.forEach(preview => preview.setDeviceProfile(profile, orientation));
+    this.updateLabels();
+  }
+
+  /**
+   * Rotate every device
+   * @param orientation Orientation to render in
+   */
+  setOrientation(orientation: DeviceOrientation): void {
+    this.previews.forEach(preview => preview.setOrientation(orientation));
+    this.updateLabels();
+  }
+
+  /**
+   * Scale every device down to fit its column
+   * @param enabled Whether to zoom to fit
+   */
+  setZoomToFit(enabled: boolean): void {
+    this.previews.forEach(preview => preview.setZoomToFit(enabled));
+  }
+
+  /**
+   * Get the viewport of the first device
+   */
+  getViewport(): PreviewViewport {
+    return this.previews[0].getViewport();
+  }
+
+  /**
+   * Get the viewports of all devices, in display order
+   * @returns Viewports
+   */
+  getViewports(): PreviewViewport[] {
+    return this.previews.map(preview => preview.getViewport());
+  }
+
+  /**
+   * Get the device previews, in display order
+   * @returns Previews
+   */
+  getPreviews(): StandardPreview[] {
+    return this.previews.slice();
+  }
+
+  /**
+   * Get the iframe of the first device
+   */
+  getIframe(): HTMLIFrameElement {
+    return this.previews[0].getIframe();
+  }
+
+  /**
+   * Destroy every device preview and remove the layout
+   */
+  destroy(): void {
+    this.previews.forEach(preview => preview.destroy());
+    this.layout.remove();
+  }
+
+  /**
+   * Show each device's name and current size in its label
+   */
+  updateLabels(): void {
+    const labels = this.layout.querySelectorAll<HTMLElement>('.devpreview-device-label');
+
+    this.previews.forEach((preview, index) => {
+      const { profile, width, height } = preview.getViewport();
+      if (labels[index]) {
+        labels[index].textContent = profile ? `${profile.name} · ${width}×${height}` : 'Fit to container';
+      }
+    });
+  }
+}
+
+/**
+ * Factory for previews that render content at several device profiles at once
+ * Profiles are taken from PreviewConfig.deviceProfiles.
+ */
+export class MultiDevicePreviewFactory extends BasePreviewFactory {
+  /**
+   * Creates a new multi-device preview factory
+   * @param errorHandler Error handler for reporting factory errors
+   */
+  constructor(protected errorHandler: IErrorHandler) {
+    super(errorHandler);
+  }
+
+  /**
+   * Get the factory identifier
+   */
+  getFactoryId(): string {
+    return 'multi-device';
+  }
+
+  /**
+   * Get supported preview features
+   */
+  getSupportedFeatures(): string[] {
+    return [...STANDARD_PREVIEW_FEATURES, 'multi-device'];
+  }
+
+  /**
+   * Get the API version being used by this preview implementation
+   */
+  getApiVersion(): string {
+    return '1.0';
+  }
+
+  /**
+   * Create a multi-device preview instance
+   * @param config Preview configuration
+   * @param container Service container for dependencies
+   * @returns A new MultiDevicePreview instance
+   */
+  create(config: PreviewConfig, container: IServiceContainer): IPreview {
+    // Built so far, so a failure part-way does not leave devices behind
+    let layout: HTMLElement | null = null;
+    const previews: StandardPreview[] = [];
+
+    try {
+      // Validate configuration
+      this.validateConfig(config);
+
+      if (!config.deviceProfiles || config.deviceProfiles.length === 0) {
+        throw new AppError(
+          ErrorType.VALIDATION,
+          'At least one device profile is required for the multi-device preview',
+          { factoryId: this.getFactoryId(), config }
+        );
+      }
+
+      // Resolve every profile before touching the DOM
+      const profiles = config.deviceProfiles.map(reference => this.resolveDeviceProfile(reference, container));
+
+      // Get dependencies from container
+      const eventBus = container.get<IEventBus>('eventBus');
+
+      // Create one column and preview per device
+      layout = this.createLayout(config.containerId);
+      for (const [index, profile] of profiles.entries()) {
+        const viewportId = this.createDeviceColumn(layout, config.containerId, profile, index);
+        const iframe = this.createIframe(viewportId, config.sandbox);
+        const preview = new StandardPreview(iframe, eventBus, this.errorHandler, config);
+        previews.push(preview);
+
+        preview.setDeviceProfile(profile, config.orientation);
+        if (config.zoomToFit) {
+          preview.setZoomToFit(true);
+        }
+
+        // Route all parent communication through the bridge
+        const bridge = this.getIframeBridge(container);
+        if (bridge) {
+          preview.connectBridge(bridge);
+        }
+      }
+
+      const preview = new MultiDevicePreview(previews, layout);
+      preview.updateLabels();
+
+      // Initialize with content if provided
+      if (config.initialContent) {
+        preview.update(config.initialContent);
+      }
+
+      // Publish creation event
+      this.publishCreatedEvent(eventBus, config, { deviceProfiles: profiles.map(profile => profile.id) });
+
+      return preview;
+    } catch (error) {
+      previews.forEach(preview => preview.destroy());
+      layout?.remove();
+      return this.handleCreationError(error, config, container);
+    }
+  }
+
+  /**
+   * Determines if this is a math API factory
+   */
+  protected isMathApiFactory(): boolean {
+    return false;
+  }
+
+  /**
+   * Create the element laying out the devices side by side
+   * @param containerId Container element ID
+   * @returns The created element
+   * @private
+   */
+  private createLayout(containerId: string): HTMLElement {
+    const container = document.getElementById(containerId);
+
+    if (!container) {
+      throw new AppError(
+        ErrorType.INITIALIZATION,
+        `Container element not found: ${containerId}`,
+        { factoryId: this.getFactoryId() }
+      );
+    }
+
+    const layout = document.createElement('div');
+    layout.id = `${containerId}-devices`;
+    layout.style.display = 'flex';
+    layout.style.alignItems = 'flex-start';
+    layout.style.gap = '16px';
+    layout.style.width = '100%';
+    layout.style.height = '100%';
+    layout.style.overflow = 'auto';
+    container.appendChild(layout);
+
+    return layout;
+  }
+
+  /**
+   * Create a labelled column for one device
+   * @param layout Element holding the device columns
+   * @param containerId Container element ID
+   * @param profile Device profile shown in the column
+   * @param index Position of the device
+   * @returns ID of the element the device iframe is placed in
+   * @private
+   */
+  private createDeviceColumn(layout: HTMLElement, containerId: string, profile: DeviceProfile, index: number): string {
+    const column = document.createElement('div');
+    column.className = 'devpreview-device';
+    column.setAttribute('data-device-profile', profile.id);
+    column.style.display = 'flex';
+    column.style.flexDirection = 'column';
+    column.style.flex = '1 1 0';
+    column.style.minWidth = '0';
+    column.style.height = '100%';
+
+    const label = document.createElement('div');
+    label.className = 'devpreview-device-label';
+
+    const viewport = document.createElement('div');
+    viewport.id = `${containerId}-device-${index}`;
+    viewport.style.flex = '1 1 auto';
+    viewport.style.minHeight = '0';
+    viewport.style.overflow = 'hidden';
+
+    column.appendChild(label);
+    column.appendChild(viewport);
+    layout.appendChild(column);
+
+    return viewport.id;
+  }
+}
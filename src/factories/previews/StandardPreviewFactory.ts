@@ -1,101 +1,504 @@
-import { IPreview, DeviceSize } from '../../components/Preview';
+import {
+  IPreview,
+  DeviceSize,
+  DeviceProfile,
+  DeviceOrientation,
+  PreviewViewport,
+  DEFAULT_DEVICE_PROFILES
+} from '../../components/Preview';
 import { EditorContent } from '../../components/Editor';
 import { IServiceContainer } from '../../core/IServiceContainer';
 import { IErrorHandler, ErrorType, AppError } from '../../errors/IErrorHandler';
 import { IEventBus } from '../../events/IEventBus';
+import { IIframeBridge } from '../../events/IIframeBridge';
+import { getIframeClientScript } from '../../events/IframeClient';
 import { PreviewConfig } from '../IPreviewFactory';
 import { BasePreviewFactory } from './BasePreviewFactory';
+import { getMathRendererTags, DEFAULT_MATH_ASSET_BASE_URL } from './MathTypesetting';
+import { getCspViolationReporterTag } from './CspViolationReporter';
+import { getHotUpdateTag, HOT_UPDATE_STYLE_ID } from './HotUpdate';
+import { getDeviceEmulationTag } from './DeviceEmulation';
+import { IFRAME_MESSAGE_TYPES } from '../../events/events';
+import { IContentSecurityPolicyBuilder } from '../../publishing/IContentSecurityPolicyBuilder';
+import { ContentSecurityPolicyBuilder } from '../../publishing/ContentSecurityPolicyBuilder';
+
+/**
+ * Features of the standard preview
+ * Factories building on StandardPreview extend this list with their own features.
+ */
+export const STANDARD_PREVIEW_FEATURES: readonly string[] = [
+  'basic-preview',
+  'responsive',
+  'iframe-client',
+  'tex-rendering',
+  'content-security-policy',
+  'hot-update'
+];
 
 /**
  * Standard preview implementation
  * Provides a basic iframe preview without specific math API integration
  */
-class StandardPreview implements IPreview {
+export class StandardPreview implements IPreview {
   private iframe: HTMLIFrameElement;
-  private currentDeviceSize: DeviceSize = DeviceSize.DESKTOP;
-  private lastContent: EditorContent | null = null;
+  private documentUrl: string | null = null;
+  
+  /**
+   * Content the current document was built from or patched to
+   * @private
+   */
+  private renderedContent: EditorContent | null = null;
+  
+  /**
+   * Whether the current document has loaded and can receive hot updates
+   * @private
+   */
+  private documentLoaded = false;
+  
+  /**
+   * Timer of the debounced update, if one is pending
+   * @private
+   */
+  private updateTimer: ReturnType<typeof setTimeout> | null = null;
+  
+  /**
+   * Content of the debounced update, if one is pending
+   * @private
+   */
+  private pendingContent: EditorContent | null = null;
+  
+  /**
+   * Emulated device profile, or null when filling the container
+   * @private
+   */
+  private profile: DeviceProfile | null = null;
+  
+  /**
+   * Orientation of the emulated device
+   * @private
+   */
+  private orientation: DeviceOrientation = 'portrait';
+  
+  /**
+   * Whether the emulated device is scaled to fit the container, and the current scale
+   * @private
+   */
+  private zoomToFit = false;
+  private scale = 1;
+  
+  /**
+   * Observer refitting the device when the container resizes
+   * @private
+   */
+  private resizeObserver: ResizeObserver | null = null;
+  
+  /**
+   * Bridge the iframe is registered with, if any
+   * @private
+   */
+  private bridge: IIframeBridge | null = null;
   
   /**
    * Creates a new standard preview
    * @param iframe The iframe element to use for preview
    * @param eventBus Event bus for publishing events
+   * @param errorHandler Error handler for reporting failed debounced updates
+   * @param config Preview configuration (render mode, iframe client and TeX renderer injection, CSP)
+   * @param cspBuilder Builder for the document's Content Security Policy
    */
   constructor(
     iframe: HTMLIFrameElement,
-    private eventBus: IEventBus
+    private eventBus: IEventBus,
+    private errorHandler: IErrorHandler,
+    private config: Partial<PreviewConfig> = {},
+    private cspBuilder: IContentSecurityPolicyBuilder = new ContentSecurityPolicyBuilder()
   ) {
     this.iframe = iframe;
+    this.iframe.addEventListener('load', this.handleLoad);
   }
   
   /**
    * Update preview content
+   * Updates are delayed by config.updateDebounceMs, keeping only the latest content.
+   * In hot update mode, CSS changes are patched into the loaded document and HTML
+   * changes are applied to its body while scripts are unchanged; other changes
+   * reload the document. Hot updates are sent through the connected bridge, so
+   * without one every update reloads the document.
    * @param content Content to display
    */
   update(content: EditorContent): void {
-    this.lastContent = content;
+    if (!this.config.updateDebounceMs || this.config.updateDebounceMs <= 0) {
+      this.render(content);
+      return;
+    }
     
-    // Update iframe content
-    const iframeDoc = this.iframe.contentWindow?.document;
+    this.pendingContent = content;
+    this.cancelPendingUpdate();
+    this.updateTimer = setTimeout(() => this.flush(), this.config.updateDebounceMs);
+  }
+  
+  /**
+   * Apply a debounced update immediately
+   * Failures, such as unresolvable dependencies, are reported to the error
+   * handler since the update usually runs from a timer with no caller to catch them.
+   */
+  flush(): void {
+    const content = this.pendingContent;
+    
+    this.cancelPendingUpdate();
+    this.pendingContent = null;
     
-    if (!iframeDoc) {
-      throw new Error('Cannot access iframe document');
+    if (!content) {
+      return;
     }
     
-    // Create a complete HTML document
-    const htmlContent = `
+    try {
+      this.render(content);
+    } catch (error) {
+      this.errorHandler.handle(
+        error instanceof AppError
+          ? error
+          : new AppError(ErrorType.RUNTIME, `Failed to update preview: ${error instanceof Error ? error.message : String(error)}`, error)
+      );
+    }
+  }
+  
+  /**
+   * Apply content to the document, patching it when possible
+   * @param content Content to display
+   * @private
+   */
+  private render(content: EditorContent): void {
+    const previous = this.renderedContent;
+    
+    if (this.config.updateMode !== 'hot' || !this.bridge || !previous || !this.documentLoaded ||
+      (previous.js || '') !== (content.js || '')) {
+      this.reload(content);
+      return;
+    }
+    
+    const htmlChanged = (previous.html || '') !== (content.html || '');
+    
+    if (htmlChanged && this.getScripts(previous.html || '') !== this.getScripts(content.html || '')) {
+      this.reload(content);
+      return;
+    }
+    
+    if ((previous.css || '') !== (content.css || '')) {
+      this.postPatch(IFRAME_MESSAGE_TYPES.PATCH_CSS, { css: content.css || '' });
+    }
+    
+    if (htmlChanged) {
+      this.postPatch(IFRAME_MESSAGE_TYPES.PATCH_HTML, { previousHtml: previous.html || '', html: content.html || '' });
+    }
+    
+    this.renderedContent = content;
+  }
+  
+  /**
+   * Load a new document built from content
+   * The document is loaded through srcdoc or a blob URL, never written into the
+   * iframe directly, so sandboxed previews stay isolated from the host page.
+   * @param content Content to display
+   * @private
+   */
+  private reload(content: EditorContent): void {
+    const htmlContent = this.buildDocument(content);
+    
+    this.renderedContent = content;
+    this.documentLoaded = false;
+    
+    if (this.config.renderMode === 'blob' && typeof URL.createObjectURL === 'function') {
+      const url = URL.createObjectURL(new Blob([htmlContent], { type: 'text/html' }));
+      this.revokeDocumentUrl();
+      this.documentUrl = url;
+      this.iframe.removeAttribute('srcdoc');
+      this.iframe.src = url;
+    } else {
+      this.iframe.srcdoc = htmlContent;
+    }
+  }
+  
+  /**
+   * Register the iframe with a bridge for parent communication
+   * The iframe is unregistered again when the preview is destroyed.
+   * @param bridge Bridge to register with
+   */
+  connectBridge(bridge: IIframeBridge): void {
+    this.bridge?.unregisterIframe(this.iframe);
+    this.bridge = bridge;
+    bridge.registerIframe(this.iframe);
+  }
+  
+  /**
+   * Remove the preview iframe and release its document
+   */
+  destroy(): void {
+    this.bridge?.unregisterIframe(this.iframe);
+    this.bridge = null;
+    this.cancelPendingUpdate();
+    this.pendingContent = null;
+    this.iframe.removeEventListener('load', this.handleLoad);
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+    this.revokeDocumentUrl();
+    this.iframe.remove();
+  }
+  
+  /**
+   * Create the complete HTML document for the preview
+   * Nothing follows the body's closing tag, since parsers move trailing text into
+   * the body and hot updates match the body's children against the component HTML.
+   * @param content Content to display
+   * @returns HTML document
+   * @throws AppError with VALIDATION type if a dependency cannot be resolved
+   */
+  protected buildDocument(content: EditorContent): string {
+    return `
       <!DOCTYPE html>
       <html>
       <head>
         <meta charset="utf-8">
+        ${this.config.enableCsp === false ? '' : this.getSecurityPolicyTags(content)}
         <meta name="viewport" content="width=device-width, initial-scale=1.0">
         <title>Preview</title>
-        <style>
+        ${this.profile ? getDeviceEmulationTag(this.profile) : ''}
+        ${this.config.enableIframeClient ? `<script>${getIframeClientScript()}</script>` : ''}
+        ${this.config.mathRenderer ? getMathRendererTags(this.config.mathRenderer, this.getDocumentBaseUrl()) : ''}
+        ${this.config.updateMode === 'hot' ? getHotUpdateTag() : ''}
+        <style id="${HOT_UPDATE_STYLE_ID}">
           ${content.css || ''}
         </style>
       </head>
-      <body>
-        ${content.html || ''}
-        <script>
+      <body>${content.html || ''}<script>
           ${content.js || ''}
-        </script>
-      </body>
-      </html>
-    `;
+        </script></body></html>`;
+  }
+  
+  /**
+   * Get the URL relative URLs in the document are resolved against
+   * Blob documents have no usable base URL, so the parent page's URL is used.
+   * @returns The parent page's URL in blob mode, otherwise undefined
+   * @private
+   */
+  private getDocumentBaseUrl(): string | undefined {
+    return this.config.renderMode === 'blob' && typeof window !== 'undefined' ? window.location.href : undefined;
+  }
+  
+  /**
+   * Get the policy meta tag and violation reporter for a document
+   * Renderer assets are allowed in addition to the component's dependencies.
+   * @param content Content to display
+   * @returns Tags to place at the start of the document head
+   * @private
+   */
+  private getSecurityPolicyTags(content: EditorContent): string {
+    const additionalSources = this.config.mathRenderer
+      ? [this.config.mathRenderer.assetBaseUrl ?? DEFAULT_MATH_ASSET_BASE_URL]
+      : [];
+    const policy = this.cspBuilder.build(
+      `${content.html || ''}\n${content.js || ''}`,
+      this.config.dependencies,
+      { additionalSources }
+    );
+
+    return `${this.cspBuilder.getMetaTag(policy)}\n${getCspViolationReporterTag()}`;
+  }
+  
+  /**
+   * Send a hot update to the document through the bridge
+   * @param type Patch message type
+   * @param payload Patch payload
+   * @private
+   */
+  private postPatch(type: string, payload: Record<string, string>): void {
+    this.bridge?.sendEventToIframe(this.iframe, type, payload);
+  }
+  
+  /**
+   * Get the script elements of HTML, serialized for comparison
+   * @param html HTML content
+   * @returns Serialized script elements
+   * @private
+   */
+  private getScripts(html: string): string {
+    const template = document.createElement('template');
+    template.innerHTML = html;
     
-    // Write to the iframe
-    iframeDoc.open();
-    iframeDoc.write(htmlContent);
-    iframeDoc.close();
+    return Array.from(template.content.querySelectorAll('script'))
+      .map(script => script.outerHTML)
+      .join('\n');
+  }
+  
+  /**
+   * Mark the document as ready for hot updates once it has loaded
+   * Arrow function so it can be added and removed as a listener.
+   * @private
+   */
+  private handleLoad = (): void => {
+    this.documentLoaded = true;
+  };
+  
+  /**
+   * Cancel the debounced update timer, if any
+   * @private
+   */
+  private cancelPendingUpdate(): void {
+    if (this.updateTimer !== null) {
+      clearTimeout(this.updateTimer);
+      this.updateTimer = null;
+    }
+  }
+  
+  /**
+   * Release the blob URL of the current document, if any
+   * @private
+   */
+  private revokeDocumentUrl(): void {
+    if (this.documentUrl) {
+      URL.revokeObjectURL(this.documentUrl);
+      this.documentUrl = null;
+    }
   }
   
   /**
    * Set preview device size
+   * Mobile and tablet emulate the default profiles of the same ID; desktop fills the container.
    * @param size Device size
    */
   setDeviceSize(size: DeviceSize): void {
-    this.currentDeviceSize = size;
+    const profile = DEFAULT_DEVICE_PROFILES.find(candidate => candidate.id === size);
+    this.setDeviceProfile(size === DeviceSize.DESKTOP || !profile ? null : profile);
+  }
+  
+  /**
+   * Emulate a device profile
+   * The document is reloaded when the emulated pixel ratio or user agent changes.
+   * @param profile Profile to emulate, or null to fill the container
+   * @param orientation Orientation to render in (defaults to the current orientation)
+   */
+  setDeviceProfile(profile: DeviceProfile | null, orientation: DeviceOrientation = this.orientation): void {
+    const previous = this.profile;
+    const emulationChanged = previous?.devicePixelRatio !== profile?.devicePixelRatio ||
+      previous?.userAgent !== profile?.userAgent;
+    
+    this.profile = profile;
+    this.orientation = orientation;
+    this.applyViewport();
+    
+    const content = this.pendingContent || this.renderedContent;
+    if (emulationChanged && content) {
+      this.cancelPendingUpdate();
+      this.pendingContent = null;
+      this.reload(content);
+    }
+  }
+  
+  /**
+   * Rotate the emulated device
+   * @param orientation Orientation to render in
+   */
+  setOrientation(orientation: DeviceOrientation): void {
+    this.orientation = orientation;
+    this.applyViewport();
+  }
+  
+  /**
+   * Scale the emulated device down to fit the container
+   * The scale follows container resizes where ResizeObserver is available.
+   * @param enabled Whether to zoom to fit
+   */
+  setZoomToFit(enabled: boolean): void {
+    this.zoomToFit = enabled;
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
     
-    // Update iframe dimensions based on device size
-    switch (size) {
-      case DeviceSize.MOBILE:
-        this.iframe.style.width = '320px';
-        this.iframe.style.height = '568px';
-        break;
-      case DeviceSize.TABLET:
-        this.iframe.style.width = '768px';
-        this.iframe.style.height = '1024px';
-        break;
-      case DeviceSize.DESKTOP:
-      default:
-        this.iframe.style.width = '100%';
-        this.iframe.style.height = '100%';
-        break;
+    if (enabled && this.iframe.parentElement && typeof ResizeObserver !== 'undefined') {
+      this.resizeObserver = new ResizeObserver(() => this.applyViewport());
+      this.resizeObserver.observe(this.iframe.parentElement);
     }
     
-    // Refresh content if we have it
-    if (this.lastContent) {
-      this.update(this.lastContent);
+    this.applyViewport();
+  }
+  
+  /**
+   * Get the size and scale the preview currently renders at
+   * @returns Current viewport
+   */
+  getViewport(): PreviewViewport {
+    const size = this.getProfileSize();
+    
+    return {
+      profile: this.profile,
+      orientation: this.orientation,
+      width: size ? size.width : null,
+      height: size ? size.height : null,
+      scale: this.scale
+    };
+  }
+  
+  /**
+   * Size the iframe for the current profile, orientation and zoom
+   * @private
+   */
+  private applyViewport(): void {
+    const size = this.getProfileSize();
+    const style = this.iframe.style;
+    
+    this.scale = size && this.zoomToFit ? this.getFitScale(size.width, size.height) : 1;
+    style.width = size ? `${size.width}px` : '100%';
+    style.height = size ? `${size.height}px` : '100%';
+    
+    if (size && this.scale < 1) {
+      // Transforms do not change layout size, so negative margins release the unused space
+      style.transform = `scale(${this.scale})`;
+      style.transformOrigin = '0 0';
+      style.marginRight = `${-size.width * (1 - this.scale)}px`;
+      style.marginBottom = `${-size.height * (1 - this.scale)}px`;
+    } else {
+      style.transform = '';
+      style.transformOrigin = '';
+      style.marginRight = '';
+      style.marginBottom = '';
+    }
+  }
+  
+  /**
+   * Get the viewport size of the current profile in the current orientation
+   * @returns Size in CSS pixels, or null when filling the container
+   * @private
+   */
+  private getProfileSize(): { width: number; height: number } | null {
+    if (!this.profile) {
+      return null;
+    }
+    
+    const { width, height } = this.profile;
+    return this.orientation === 'landscape'
+      ? { width: Math.max(width, height), height: Math.min(width, height) }
+      : { width: Math.min(width, height), height: Math.max(width, height) };
+  }
+  
+  /**
+   * Get the scale at which a viewport fits the iframe's container
+   * Container dimensions that are not laid out yet are ignored.
+   * @param width Viewport width
+   * @param height Viewport height
+   * @returns Scale no larger than 1
+   * @private
+   */
+  private getFitScale(width: number, height: number): number {
+    const container = this.iframe.parentElement;
+    const scales = [1];
+    
+    if (container && container.clientWidth > 0) {
+      scales.push(container.clientWidth / width);
+    }
+    if (container && container.clientHeight > 0) {
+      scales.push(container.clientHeight / height);
     }
+    
+    return Math.min(...scales);
   }
   
   /**
@@ -130,7 +533,7 @@ export class StandardPreviewFactory extends BasePreviewFactory {
    * Get supported preview features
    */
   getSupportedFeatures(): string[] {
-    return ['basic-preview', 'responsive'];
+    return [...STANDARD_PREVIEW_FEATURES];
   }
   
   /**
@@ -155,10 +558,19 @@ export class StandardPreviewFactory extends BasePreviewFactory {
       const eventBus = container.get<IEventBus>('eventBus');
       
       // Create iframe
-      const iframe = this.createIframe(config.containerId);
+      const iframe = this.createIframe(config.containerId, config.sandbox);
       
       // Create preview instance
-      const preview = new StandardPreview(iframe, eventBus);
+      const preview = new StandardPreview(iframe, eventBus, this.errorHandler, config);
+      
+      // Route all parent communication through the bridge
+      const bridge = this.getIframeBridge(container);
+      if (bridge) {
+        preview.connectBridge(bridge);
+      }
+      
+      // Emulate the configured device
+      this.applyDeviceConfig(preview, config, container);
       
       // Initialize with content if provided
       if (config.initialContent) {
@@ -0,0 +1,319 @@
+import { FormattingOptions, ICodeFormatter } from './IFormattingService';
+import { createSyntaxError, getIndentUnit } from './formatterUtils';
+
+/**
+ * Node of a parsed style sheet
+ */
+type CssNode =
+  | { type: 'rule'; prelude: string; children: CssNode[] }
+  | { type: 'declaration'; text: string }
+  | { type: 'comment'; text: string }
+  | { type: 'blank' };
+
+/**
+ * CSS formatter
+ * Puts every declaration on its own line, normalizes the spacing of selectors
+ * and declarations, and places rule braces according to the brace style.
+ * Comments and single blank lines between rules are kept.
+ */
+export class CssFormatter implements ICodeFormatter {
+  /**
+   * Format CSS
+   * @param code Source code
+   * @param options Formatting options
+   * @returns Formatted code
+   * @throws AppError with VALIDATION type and { line, column } details if the code cannot be parsed
+   */
+  public format(code: string, options: FormattingOptions): string {
+    const nodes = this.parse(code.replace(/\r\n?/g, '\n'));
+    return this.print(nodes, 0, getIndentUnit(options), options).join('\n');
+  }
+
+  /**
+   * Parse a style sheet into rules, declarations and comments
+   * @param code Source code
+   * @returns Top-level nodes
+   * @throws AppError with VALIDATION type if braces, strings or comments are not closed
+   * @private
+   */
+  private parse(code: string): CssNode[] {
+    const root: CssNode[] = [];
+    const blocks: Array<{ children: CssNode[]; offset: number }> = [{ children: root, offset: 0 }];
+    let buffer = '';
+    let bufferStart = 0;
+    let parens = 0;
+    let i = 0;
+
+    const current = () => blocks[blocks.length - 1].children;
+
+    while (i < code.length) {
+      const ch = code[i];
+
+      if (ch === '/' && code[i + 1] === '*') {
+        const end = code.indexOf('*/', i + 2);
+        if (end === -1) {
+          throw createSyntaxError('Unterminated comment', code, i);
+        }
+        const comment = code.slice(i, end + 2);
+        if (buffer.trim() === '') {
+          current().push({ type: 'comment', text: comment });
+        } else {
+          buffer += comment;
+        }
+        i = end + 2;
+        continue;
+      }
+
+      if (ch === '"' || ch === '\'') {
+        const end = this.findStringEnd(code, i);
+        if (end === -1) {
+          throw createSyntaxError('Unterminated string', code, i);
+        }
+        if (buffer.trim() === '') bufferStart = i;
+        buffer += code.slice(i, end + 1);
+        i = end + 1;
+        continue;
+      }
+
+      if (/\s/.test(ch) && buffer.trim() === '') {
+        let end = i;
+        while (end < code.length && /\s/.test(code[end])) end++;
+        const children = current();
+        const newlines = code.slice(i, end).split('\n').length - 1;
+        if (newlines > 1 && children.length > 0 && children[children.length - 1].type !== 'blank') {
+          children.push({ type: 'blank' });
+        }
+        buffer = '';
+        i = end;
+        continue;
+      }
+
+      if (buffer.trim() === '') bufferStart = i;
+
+      if (ch === '(') {
+        parens++;
+      } else if (ch === ')') {
+        parens = Math.max(0, parens - 1);
+      } else if (parens === 0 && ch === '{') {
+        if (buffer.trim() === '') {
+          throw createSyntaxError('Expected a selector before \'{\'', code, i);
+        }
+        const rule: CssNode = { type: 'rule', prelude: buffer.trim(), children: [] };
+        current().push(rule);
+        blocks.push({ children: rule.children, offset: i });
+        buffer = '';
+        i++;
+        continue;
+      } else if (parens === 0 && ch === ';') {
+        if (buffer.trim() !== '') {
+          current().push({ type: 'declaration', text: buffer.trim() });
+        }
+        buffer = '';
+        i++;
+        continue;
+      } else if (parens === 0 && ch === '}') {
+        if (blocks.length === 1) {
+          throw createSyntaxError('Unexpected \'}\'', code, i);
+        }
+        if (buffer.trim() !== '') {
+          current().push({ type: 'declaration', text: buffer.trim() });
+        }
+        const children = current();
+        if (children.length > 0 && children[children.length - 1].type === 'blank') {
+          children.pop();
+        }
+        blocks.pop();
+        buffer = '';
+        i++;
+        continue;
+      }
+
+      buffer += ch;
+      i++;
+    }
+
+    if (blocks.length > 1) {
+      throw createSyntaxError('Unclosed \'{\'', code, blocks[blocks.length - 1].offset);
+    }
+    if (buffer.trim() !== '') {
+      throw createSyntaxError('Expected \';\' or \'{\'', code, bufferStart);
+    }
+    if (root.length > 0 && root[root.length - 1].type === 'blank') {
+      root.pop();
+    }
+
+    return root;
+  }
+
+  /**
+   * Print nodes as formatted lines
+   * @param nodes Nodes to print
+   * @param depth Nesting depth of the nodes
+   * @param unit String for one indentation level
+   * @param options Formatting options
+   * @returns Formatted lines
+   * @private
+   */
+  private print(nodes: CssNode[], depth: number, unit: string, options: FormattingOptions): string[] {
+    const indent = unit.repeat(depth);
+    const lines: string[] = [];
+
+    nodes.forEach(node => {
+      switch (node.type) {
+        case 'blank':
+          lines.push('');
+          break;
+
+        case 'comment':
+          lines.push(...node.text.split('\n').map((line, index) => index === 0 ? indent + line.trim() : line.trimEnd()));
+          break;
+
+        case 'declaration':
+          lines.push(`${indent}${this.formatDeclaration(node.text)};`);
+          break;
+
+        default: {
+          const selector = this.formatPrelude(node.prelude, indent, options.printWidth);
+          const body = this.print(node.children, depth + 1, unit, options);
+
+          if (options.braceStyle === 'expand') {
+            lines.push(indent + selector, `${indent}{`, ...body, `${indent}}`);
+          } else if (body.length === 0) {
+            lines.push(`${indent}${selector} {}`);
+          } else {
+            lines.push(`${indent}${selector} {`, ...body, `${indent}}`);
+          }
+        }
+      }
+    });
+
+    return lines;
+  }
+
+  /**
+   * Format a selector list or at-rule prelude
+   * Selector lists that do not fit the print width are split one per line.
+   * @param prelude Text before the opening brace
+   * @param indent Indentation of the rule
+   * @param printWidth Maximum line length
+   * @returns Formatted prelude
+   * @private
+   */
+  private formatPrelude(prelude: string, indent: string, printWidth: number): string {
+    const normalized = this.normalizeSpace(prelude);
+    if (normalized.startsWith('@')) {
+      return normalized;
+    }
+
+    const selectors = this.splitTopLevel(normalized, ',').map(selector => selector.trim());
+    const singleLine = selectors.join(', ');
+
+    return indent.length + singleLine.length + 2 <= printWidth ? singleLine : selectors.join(`,\n${indent}`);
+  }
+
+  /**
+   * Format a declaration as 'property: value'
+   * @param text Declaration without the trailing semicolon
+   * @returns Formatted declaration
+   * @private
+   */
+  private formatDeclaration(text: string): string {
+    const normalized = this.normalizeSpace(text);
+    if (normalized.startsWith('@')) {
+      return normalized;
+    }
+
+    const colon = normalized.indexOf(':');
+    if (colon === -1) {
+      return normalized;
+    }
+
+    return `${normalized.slice(0, colon).trim()}: ${normalized.slice(colon + 1).trim()}`;
+  }
+
+  /**
+   * Collapse whitespace outside strings and comments to single spaces
+   * @param text Text to normalize
+   * @returns Normalized text
+   * @private
+   */
+  private normalizeSpace(text: string): string {
+    let result = '';
+    let i = 0;
+
+    while (i < text.length) {
+      const ch = text[i];
+      let end = i + 1;
+
+      if (ch === '"' || ch === '\'') {
+        end = this.findStringEnd(text, i) + 1;
+      } else if (ch === '/' && text[i + 1] === '*') {
+        end = text.indexOf('*/', i + 2) + 2;
+      } else if (/\s/.test(ch)) {
+        while (end < text.length && /\s/.test(text[end])) end++;
+        result += ' ';
+        i = end;
+        continue;
+      }
+
+      result += text.slice(i, end);
+      i = end;
+    }
+
+    return result.trim();
+  }
+
+  /**
+   * Split text at a separator that is not inside parentheses, brackets or strings
+   * @param text Text to split
+   * @param separator Separator character
+   * @returns Parts of the text
+   * @private
+   */
+  private splitTopLevel(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (ch === '"' || ch === '\'') {
+        i = this.findStringEnd(text, i);
+      } else if (ch === '(' || ch === '[') {
+        depth++;
+      } else if (ch === ')' || ch === ']') {
+        depth--;
+      } else if (ch === separator && depth === 0) {
+        parts.push(text.slice(start, i));
+        start = i + 1;
+      }
+    }
+
+    parts.push(text.slice(start));
+    return parts;
+  }
+
+  /**
+   * Find the closing quote of a string
+   * @param text Text containing the string
+   * @param start Offset of the opening quote
+   * @returns Offset of the closing quote, or -1 if the string is not closed on its line
+   * @private
+   */
+  private findStringEnd(text: string, start: number): number {
+    const quote = text[start];
+
+    for (let i = start + 1; i < text.length; i++) {
+      if (text[i] === '\\') {
+        i++;
+      } else if (text[i] === quote) {
+        return i;
+      } else if (text[i] === '\n') {
+        return -1;
+      }
+    }
+
+    return -1;
+  }
+}
@@ -0,0 +1,189 @@
+import { EditorContent } from '../components/Editor/IEditor';
+import { IStorageAdapter } from '../adapters/IStorageAdapter';
+import { AppError, ErrorType } from '../errors/IErrorHandler';
+import {
+  IFormattingService,
+  ICodeFormatter,
+  CodePane,
+  FormattingOptions,
+  FormatErrorDetails,
+  FormatResult,
+  DEFAULT_FORMATTING_OPTIONS
+} from './IFormattingService';
+import { HtmlFormatter } from './HtmlFormatter';
+import { CssFormatter } from './CssFormatter';
+import { JsFormatter } from './JsFormatter';
+
+/**
+ * Formatting Service implementation
+ * Formats editor panes with the registered formatters. Team options are
+ * persisted when a storage adapter is given.
+ */
+export class FormattingService implements IFormattingService {
+  /**
+   * Storage key of the team options
+   * @private
+   */
+  private readonly STORAGE_KEY = 'devpreview_formatting_options';
+
+  /**
+   * Panes in the order they are formatted
+   * @private
+   */
+  private readonly PANES: CodePane[] = ['html', 'css', 'js'];
+
+  /**
+   * Formatters keyed by pane
+   * @private
+   */
+  private formatters: Record<CodePane, ICodeFormatter>;
+
+  /**
+   * Options overriding the defaults, keyed by team ID
+   * @private
+   */
+  private teamOptions: Record<string, Partial<FormattingOptions>>;
+
+  /**
+   * Options used when a team has none of its own
+   * @private
+   */
+  private defaultOptions: FormattingOptions;
+
+  /**
+   * Creates a new FormattingService
+   * @param defaultOptions Options overriding DEFAULT_FORMATTING_OPTIONS for all teams
+   * @param storageAdapter Storage adapter persisting team options
+   */
+  constructor(
+    defaultOptions: Partial<FormattingOptions> = {},
+    private storageAdapter?: IStorageAdapter
+  ) {
+    this.validate(defaultOptions);
+    this.defaultOptions = { ...DEFAULT_FORMATTING_OPTIONS, ...defaultOptions };
+
+    const cssFormatter = new CssFormatter();
+    const jsFormatter = new JsFormatter();
+    this.formatters = {
+      html: new HtmlFormatter(cssFormatter, jsFormatter),
+      css: cssFormatter,
+      js: jsFormatter
+    };
+
+    this.teamOptions = this.storageAdapter?.getItem<Record<string, Partial<FormattingOptions>>>(this.STORAGE_KEY) || {};
+  }
+
+  /**
+   * Format editor content
+   * @param content Content to format
+   * @param teamId Team whose options apply
+   * @returns Formatted content and errors
+   */
+  public format(content: EditorContent, teamId?: string): FormatResult {
+    const formatted: EditorContent = { ...content };
+    const errors: FormatErrorDetails[] = [];
+
+    this.PANES.forEach(pane => {
+      try {
+        formatted[pane] = this.formatPane(pane, content[pane] || '', teamId);
+      } catch (error) {
+        const details = error instanceof AppError && error.details ? error.details : {};
+        errors.push({
+          pane,
+          message: error instanceof Error ? error.message : String(error),
+          line: details.line || 1,
+          column: details.column || 1
+        });
+      }
+    });
+
+    return {
+      content: formatted,
+      errors,
+      changed: this.PANES.some(pane => formatted[pane] !== content[pane])
+    };
+  }
+
+  /**
+   * Format the code of one pane
+   * @param pane Pane the code belongs to
+   * @param code Source code
+   * @param teamId Team whose options apply
+   * @returns Formatted code
+   * @throws AppError with VALIDATION type and { pane, line, column } details if the code cannot be parsed
+   */
+  public formatPane(pane: CodePane, code: string, teamId?: string): string {
+    if (code.trim() === '') {
+      return '';
+    }
+
+    try {
+      return this.formatters[pane].format(code, this.getOptions(teamId));
+    } catch (error) {
+      const details = error instanceof AppError && error.details ? error.details : {};
+      throw new AppError(
+        ErrorType.VALIDATION,
+        error instanceof Error ? error.message : String(error),
+        { pane, line: details.line || 1, column: details.column || 1 }
+      );
+    }
+  }
+
+  /**
+   * Replace the formatter of a pane
+   * @param pane Pane to format
+   * @param formatter Formatter to use
+   */
+  public registerFormatter(pane: CodePane, formatter: ICodeFormatter): void {
+    this.formatters[pane] = formatter;
+  }
+
+  /**
+   * Set the options of a team
+   * @param teamId Team identifier
+   * @param options Options overriding the defaults
+   * @throws AppError with VALIDATION type if an option is invalid
+   */
+  public setTeamOptions(teamId: string, options: Partial<FormattingOptions>): void {
+    this.validate(options);
+    this.teamOptions[teamId] = { ...options };
+
+    if (this.storageAdapter) {
+      this.storageAdapter.setItem(this.STORAGE_KEY, this.teamOptions);
+    }
+  }
+
+  /**
+   * Get the options that apply to a team
+   * @param teamId Team identifier
+   * @returns Complete options
+   */
+  public getOptions(teamId?: string): FormattingOptions {
+    const overrides = teamId !== undefined ? this.teamOptions[teamId] : undefined;
+    return { ...this.defaultOptions, ...overrides };
+  }
+
+  /**
+   * Check that options have supported values
+   * @param options Options to check
+   * @throws AppError with VALIDATION type if an option is invalid
+   * @private
+   */
+  private validate(options: Partial<FormattingOptions>): void {
+    const isPositiveInteger = (value: number | undefined) => value === undefined || (Number.isInteger(value) && value > 0);
+    const invalid =
+      (options.indentStyle !== undefined && !['space', 'tab'].includes(options.indentStyle)) ||
+      (options.attributeWrap !== undefined && !['auto', 'force', 'never'].includes(options.attributeWrap)) ||
+      (options.braceStyle !== undefined && !['collapse', 'expand'].includes(options.braceStyle)) ||
+      !isPositiveInteger(options.indentSize) ||
+      !isPositiveInteger(options.printWidth);
+
+    if (invalid) {
+      throw new AppError(
+        ErrorType.VALIDATION,
+        'Invalid formatting options',
+        { options }
+      );
+    }
+  }
+}
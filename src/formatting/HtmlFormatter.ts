@@ -0,0 +1,586 @@
+import { AppError } from '../errors/IErrorHandler';
+import { FormattingOptions, ICodeFormatter } from './IFormattingService';
+import { CssFormatter } from './CssFormatter';
+import { JsFormatter } from './JsFormatter';
+import { createSyntaxError, getIndentUnit, getSourcePosition } from './formatterUtils';
+
+/**
+ * Attribute of a parsed element
+ */
+interface HtmlAttribute {
+  name: string;
+  value: string | null;
+  quote: string;
+}
+
+/**
+ * Node of a parsed document
+ */
+type HtmlNode =
+  | { type: 'text'; text: string }
+  | { type: 'comment'; text: string }
+  | { type: 'doctype'; text: string }
+  | HtmlElementNode;
+
+/**
+ * Element of a parsed document
+ */
+interface HtmlElementNode {
+  type: 'element';
+  tag: string;
+  name: string;
+  attributes: HtmlAttribute[];
+  children: HtmlNode[];
+  selfClosing: boolean;
+  offset: number;
+  raw?: { text: string; offset: number };
+}
+
+/**
+ * Elements that have no content or closing tag
+ */
+const VOID_ELEMENTS = [
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'
+];
+
+/**
+ * Elements whose content is kept as written
+ */
+const RAW_ELEMENTS = ['script', 'style', 'pre', 'textarea', 'title'];
+
+/**
+ * Elements whose closing tag may be omitted
+ */
+const OPTIONAL_END_ELEMENTS = [
+  'html', 'head', 'body', 'p', 'li', 'dt', 'dd', 'tr', 'td', 'th', 'thead', 'tbody', 'tfoot',
+  'colgroup', 'option', 'optgroup'
+];
+
+/**
+ * Elements that close an open paragraph
+ */
+const PARAGRAPH_CLOSING_ELEMENTS = [
+  'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'fieldset', 'figure', 'footer',
+  'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre',
+  'section', 'table', 'ul'
+];
+
+/**
+ * Elements that close an open sibling of the listed types
+ */
+const SIBLING_CLOSING_ELEMENTS: Record<string, string[]> = {
+  li: ['li'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  tr: ['tr', 'td', 'th'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  tbody: ['thead', 'tbody', 'tr', 'td', 'th'],
+  tfoot: ['thead', 'tbody', 'tr', 'td', 'th'],
+  option: ['option'],
+  optgroup: ['option', 'optgroup']
+};
+
+/**
+ * Elements laid out inline with surrounding text
+ */
+const INLINE_ELEMENTS = [
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'br', 'button', 'cite', 'code', 'data', 'dfn', 'em', 'i', 'img',
+  'input', 'kbd', 'label', 'mark', 'q', 's', 'samp', 'select', 'small', 'span', 'strong', 'sub',
+  'sup', 'textarea', 'time', 'u', 'var', 'wbr'
+];
+
+/**
+ * HTML formatter
+ * Puts block elements on their own lines, keeps runs of text and inline
+ * elements together, and wraps attributes according to the options. Inline
+ * scripts and style sheets are formatted with the JavaScript and CSS formatters;
+ * the content of pre, textarea and title elements is kept as written.
+ */
+export class HtmlFormatter implements ICodeFormatter {
+  /**
+   * Create a new HTML formatter
+   * @param cssFormatter Formatter for style elements
+   * @param jsFormatter Formatter for script elements
+   */
+  constructor(
+    private cssFormatter: ICodeFormatter = new CssFormatter(),
+    private jsFormatter: ICodeFormatter = new JsFormatter()
+  ) {}
+
+  /**
+   * Format HTML
+   * @param code Source code
+   * @param options Formatting options
+   * @returns Formatted code
+   * @throws AppError with VALIDATION type and { line, column } details if the markup cannot be parsed
+   */
+  public format(code: string, options: FormattingOptions): string {
+    const source = code.replace(/\r\n?/g, '\n');
+    const nodes = this.parse(source);
+
+    return this.printChildren(nodes, 0, source, options).join('\n');
+  }
+
+  /**
+   * Parse markup into a tree
+   * @param code Source code
+   * @returns Top-level nodes
+   * @throws AppError with VALIDATION type if tags are not closed or closed out of order
+   * @private
+   */
+  private parse(code: string): HtmlNode[] {
+    const root: HtmlNode[] = [];
+    const stack: HtmlElementNode[] = [];
+    let i = 0;
+
+    const children = () => stack.length > 0 ? stack[stack.length - 1].children : root;
+
+    while (i < code.length) {
+      if (code.startsWith('<!--', i)) {
+        const end = code.indexOf('-->', i + 4);
+        if (end === -1) {
+          throw createSyntaxError('Unterminated comment', code, i);
+        }
+        children().push({ type: 'comment', text: code.slice(i, end + 3) });
+        i = end + 3;
+        continue;
+      }
+
+      if (code.startsWith('<!', i)) {
+        const end = code.indexOf('>', i);
+        if (end === -1) {
+          throw createSyntaxError('Unterminated declaration', code, i);
+        }
+        children().push({ type: 'doctype', text: code.slice(i, end + 1) });
+        i = end + 1;
+        continue;
+      }
+
+      const closing = /^<\/([a-zA-Z][\w:-]*)\s*>/.exec(code.slice(i, i + 256));
+      if (closing) {
+        this.closeElement(stack, closing[1].toLowerCase(), code, i);
+        i += closing[0].length;
+        continue;
+      }
+
+      if (code[i] === '<' && /[a-zA-Z]/.test(code[i + 1] || '')) {
+        const element = this.parseStartTag(code, i);
+        const tag = element.node.tag;
+
+        while (stack.length > 0 && this.isClosedBy(stack[stack.length - 1].tag, tag)) {
+          stack.pop();
+        }
+        children().push(element.node);
+        i = element.end;
+
+        if (VOID_ELEMENTS.includes(tag) || element.node.selfClosing) {
+          continue;
+        }
+
+        if (RAW_ELEMENTS.includes(tag)) {
+          const match = new RegExp(`</${tag}\\s*>`, 'i').exec(code.slice(i));
+          if (!match) {
+            throw createSyntaxError(`Unclosed <${element.node.name}>`, code, element.node.offset);
+          }
+          element.node.raw = { text: code.slice(i, i + match.index), offset: i };
+          i += match.index + match[0].length;
+          continue;
+        }
+
+        stack.push(element.node);
+        continue;
+      }
+
+      if (code.startsWith('</', i)) {
+        throw createSyntaxError('Malformed closing tag', code, i);
+      }
+
+      const next = code.indexOf('<', i + 1);
+      const end = next === -1 ? code.length : next;
+      const siblings = children();
+      const previous = siblings[siblings.length - 1];
+      if (previous && previous.type === 'text') {
+        previous.text += code.slice(i, end);
+      } else {
+        siblings.push({ type: 'text', text: code.slice(i, end) });
+      }
+      i = end;
+    }
+
+    const unclosed = stack.filter(element => !OPTIONAL_END_ELEMENTS.includes(element.tag)).pop();
+    if (unclosed) {
+      throw createSyntaxError(`Unclosed <${unclosed.name}>`, code, unclosed.offset);
+    }
+
+    return root;
+  }
+
+  /**
+   * Parse a start tag and its attributes
+   * @param code Source code
+   * @param start Offset of the '<'
+   * @returns Element and the offset after the tag
+   * @throws AppError with VALIDATION type if the tag is not terminated
+   * @private
+   */
+  private parseStartTag(code: string, start: number): { node: HtmlElementNode; end: number } {
+    const name = (/^[a-zA-Z][\w:-]*/.exec(code.slice(start + 1)) || [''])[0];
+    const node: HtmlElementNode = {
+      type: 'element',
+      tag: name.toLowerCase(),
+      name,
+      attributes: [],
+      children: [],
+      selfClosing: false,
+      offset: start
+    };
+    let i = start + 1 + name.length;
+
+    while (i < code.length) {
+      while (i < code.length && /\s/.test(code[i])) i++;
+
+      if (code[i] === '>') {
+        return { node, end: i + 1 };
+      }
+      if (code.startsWith('/>', i)) {
+        node.selfClosing = true;
+        return { node, end: i + 2 };
+      }
+      if (code[i] === '<') {
+        break;
+      }
+
+      let end = i;
+      while (end < code.length && !/[\s=>]/.test(code[end]) && !code.startsWith('/>', end)) end++;
+      const attribute: HtmlAttribute = { name: code.slice(i, Math.max(end, i + 1)), value: null, quote: '"' };
+      i = Math.max(end, i + 1);
+
+      let valueStart = i;
+      while (valueStart < code.length && /\s/.test(code[valueStart])) valueStart++;
+      if (code[valueStart] === '=') {
+        i = valueStart + 1;
+        while (i < code.length && /\s/.test(code[i])) i++;
+
+        if (code[i] === '"' || code[i] === '\'') {
+          const close = code.indexOf(code[i], i + 1);
+          if (close === -1) {
+            throw createSyntaxError(`Unterminated value of attribute '${attribute.name}'`, code, i);
+          }
+          attribute.quote = code[i];
+          attribute.value = code.slice(i + 1, close);
+          i = close + 1;
+        } else {
+          let valueEnd = i;
+          while (valueEnd < code.length && !/[\s>]/.test(code[valueEnd])) valueEnd++;
+          attribute.value = code.slice(i, valueEnd);
+          attribute.quote = attribute.value.includes('"') ? '\'' : '"';
+          i = valueEnd;
+        }
+      }
+
+      node.attributes.push(attribute);
+    }
+
+    throw createSyntaxError(`Unterminated tag <${name}>`, code, start);
+  }
+
+  /**
+   * Close the open element matching a closing tag
+   * Open elements whose closing tag is optional are closed implicitly.
+   * @param stack Open elements
+   * @param tag Lowercase tag name of the closing tag
+   * @param code Source code
+   * @param offset Offset of the closing tag
+   * @throws AppError with VALIDATION type if the element is not open or other elements are still open
+   * @private
+   */
+  private closeElement(stack: HtmlElementNode[], tag: string, code: string, offset: number): void {
+    const index = stack.map(element => element.tag).lastIndexOf(tag);
+    if (index === -1) {
+      throw createSyntaxError(`Unexpected closing tag </${tag}>`, code, offset);
+    }
+
+    const unclosed = stack.slice(index + 1).filter(element => !OPTIONAL_END_ELEMENTS.includes(element.tag)).pop();
+    if (unclosed) {
+      throw createSyntaxError(`Unclosed <${unclosed.name}>`, code, unclosed.offset);
+    }
+
+    stack.length = index;
+  }
+
+  /**
+   * Check whether opening an element implicitly closes an open element
+   * @param open Lowercase tag name of the open element
+   * @param opening Lowercase tag name of the element being opened
+   * @returns Whether the open element is closed
+   * @private
+   */
+  private isClosedBy(open: string, opening: string): boolean {
+    if (open === 'p') {
+      return PARAGRAPH_CLOSING_ELEMENTS.includes(opening);
+    }
+
+    return (SIBLING_CLOSING_ELEMENTS[opening] || []).includes(open);
+  }
+
+  /**
+   * Print the children of an element as lines
+   * Consecutive text and inline elements are printed together on one line.
+   * @param nodes Nodes to print
+   * @param depth Nesting depth of the nodes
+   * @param code Source code
+   * @param options Formatting options
+   * @returns Formatted lines
+   * @private
+   */
+  private printChildren(nodes: HtmlNode[], depth: number, code: string, options: FormattingOptions): string[] {
+    const indent = getIndentUnit(options).repeat(depth);
+    const lines: string[] = [];
+    let run = '';
+
+    const flush = () => {
+      const text = run.trim();
+      if (text) {
+        lines.push(indent + text);
+      }
+      run = '';
+    };
+
+    nodes.forEach((node, index) => {
+      if (node.type === 'text' && node.text.trim() === '') {
+        const isBetweenBlocks = run.trim() === '' && lines.length > 0 && index < nodes.length - 1;
+        if (isBetweenBlocks && node.text.split('\n').length > 2 && lines[lines.length - 1] !== '') {
+          lines.push('');
+        }
+        run += ' ';
+        return;
+      }
+
+      if (this.isInline(node)) {
+        run += this.printInline(node);
+        return;
+      }
+
+      flush();
+      lines.push(...this.printBlock(node, depth, code, options));
+    });
+
+    flush();
+
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+
+    return lines;
+  }
+
+  /**
+   * Print a node that starts on its own line
+   * @param node Node to print
+   * @param depth Nesting depth of the node
+   * @param code Source code
+   * @param options Formatting options
+   * @returns Formatted lines
+   * @private
+   */
+  private printBlock(node: HtmlNode, depth: number, code: string, options: FormattingOptions): string[] {
+    const unit = getIndentUnit(options);
+    const indent = unit.repeat(depth);
+
+    if (node.type !== 'element') {
+      return node.text.trim().split('\n').map((line, index) => index === 0 ? indent + line : line.trimEnd());
+    }
+
+    const closeTag = `</${node.name}>`;
+    const openTag = this.printStartTag(node, indent, unit, options);
+
+    if (VOID_ELEMENTS.includes(node.tag) || node.selfClosing) {
+      return openTag;
+    }
+
+    if (node.raw) {
+      return this.printRaw(node, openTag, closeTag, depth, code, options);
+    }
+
+    if (node.children.every(child => this.isInline(child))) {
+      const content = node.children.map(child => this.printInline(child)).join('').trim();
+      const line = `${openTag[openTag.length - 1]}${content}${closeTag}`;
+
+      if (content === '' || (openTag.length === 1 && line.length <= options.printWidth)) {
+        return [...openTag.slice(0, -1), line];
+      }
+    }
+
+    return [...openTag, ...this.printChildren(node.children, depth + 1, code, options), indent + closeTag];
+  }
+
+  /**
+   * Print an element whose content is kept as written or formatted as a script or style sheet
+   * @param node Element to print
+   * @param openTag Lines of the start tag
+   * @param closeTag Closing tag
+   * @param depth Nesting depth of the element
+   * @param code Source code
+   * @param options Formatting options
+   * @returns Formatted lines
+   * @throws AppError with VALIDATION type and the position in the markup if the script or style sheet cannot be parsed
+   * @private
+   */
+  private printRaw(
+    node: HtmlElementNode,
+    openTag: string[],
+    closeTag: string,
+    depth: number,
+    code: string,
+    options: FormattingOptions
+  ): string[] {
+    const raw = node.raw as { text: string; offset: number };
+    const formatter = this.getEmbeddedFormatter(node);
+    const indent = getIndentUnit(options).repeat(depth);
+
+    if (!formatter) {
+      const last = openTag.length - 1;
+      return [...openTag.slice(0, last), `${openTag[last]}${raw.text}${closeTag}`];
+    }
+
+    if (raw.text.trim() === '') {
+      const last = openTag.length - 1;
+      return [...openTag.slice(0, last), `${openTag[last]}${closeTag}`];
+    }
+
+    let formatted: string;
+    try {
+      formatted = formatter.format(raw.text, options);
+    } catch (error) {
+      throw this.mapEmbeddedError(error, code, raw.offset);
+    }
+
+    // Indenting would change multi-line template literals, so scripts using them keep their columns
+    const childIndent = raw.text.includes('`') ? '' : getIndentUnit(options).repeat(depth + 1);
+    const body = formatted.split('\n').map(line => line.trim() === '' ? '' : childIndent + line);
+
+    return [...openTag, ...body, indent + closeTag];
+  }
+
+  /**
+   * Get the formatter for the content of a script or style element
+   * @param node Element with raw content
+   * @returns Formatter, or undefined if the content is kept as written
+   * @private
+   */
+  private getEmbeddedFormatter(node: HtmlElementNode): ICodeFormatter | undefined {
+    if (node.tag === 'style') {
+      return this.cssFormatter;
+    }
+
+    if (node.tag === 'script') {
+      const type = node.attributes.find(attribute => attribute.name.toLowerCase() === 'type');
+      const isJavaScript = !type || !type.value || /^(module|(text|application)\/(java|ecma)script)$/i.test(type.value.trim());
+      return isJavaScript ? this.jsFormatter : undefined;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Translate the position of an error in embedded code to the markup
+   * @param error Error thrown by the embedded formatter
+   * @param code Markup source code
+   * @param offset Offset of the embedded code in the markup
+   * @returns Error with the position in the markup
+   * @private
+   */
+  private mapEmbeddedError(error: unknown, code: string, offset: number): Error {
+    if (!(error instanceof AppError) || !error.details) {
+      return error instanceof Error ? error : new Error(String(error));
+    }
+
+    const start = getSourcePosition(code, offset);
+    const { line = 1, column = 1 } = error.details as { line?: number; column?: number };
+
+    return new AppError(error.type, error.message, {
+      line: start.line + line - 1,
+      column: line === 1 ? start.column + column - 1 : column
+    });
+  }
+
+  /**
+   * Print a start tag, wrapping attributes according to the options
+   * @param node Element to print
+   * @param indent Indentation of the element
+   * @param unit String for one indentation level
+   * @param options Formatting options
+   * @returns Lines of the start tag
+   * @private
+   */
+  private printStartTag(node: HtmlElementNode, indent: string, unit: string, options: FormattingOptions): string[] {
+    const end = node.selfClosing ? ' />' : '>';
+    const attributes = node.attributes.map(attribute => this.printAttribute(attribute));
+    const singleLine = `<${[node.name, ...attributes].join(' ')}${end}`;
+
+    const wrap = attributes.length > 1 && (
+      options.attributeWrap === 'force' ||
+      (options.attributeWrap === 'auto' && indent.length + singleLine.length > options.printWidth)
+    );
+
+    if (!wrap) {
+      return [indent + singleLine];
+    }
+
+    return [
+      `${indent}<${node.name}`,
+      ...attributes.map((attribute, index) => `${indent}${unit}${attribute}${index === attributes.length - 1 ? end : ''}`)
+    ];
+  }
+
+  /**
+   * Print an attribute
+   * @param attribute Attribute to print
+   * @returns Attribute markup
+   * @private
+   */
+  private printAttribute(attribute: HtmlAttribute): string {
+    return attribute.value === null ? attribute.name : `${attribute.name}=${attribute.quote}${attribute.value}${attribute.quote}`;
+  }
+
+  /**
+   * Print a node inside a run of inline content
+   * @param node Node to print
+   * @returns Markup on a single line, with whitespace collapsed
+   * @private
+   */
+  private printInline(node: HtmlNode): string {
+    if (node.type === 'text') {
+      return node.text.replace(/\s+/g, ' ');
+    }
+    if (node.type !== 'element') {
+      return node.text;
+    }
+
+    const openTag = `<${[node.name, ...node.attributes.map(attribute => this.printAttribute(attribute))].join(' ')}${node.selfClosing ? ' />' : '>'}`;
+    if (VOID_ELEMENTS.includes(node.tag) || node.selfClosing) {
+      return openTag;
+    }
+
+    const content = node.raw ? node.raw.text : node.children.map(child => this.printInline(child)).join('');
+    return `${openTag}${content}</${node.name}>`;
+  }
+
+  /**
+   * Check whether a node is laid out inline
+   * @param node Node to check
+   * @returns Whether the node is text or an inline element with inline content
+   * @private
+   */
+  private isInline(node: HtmlNode): boolean {
+    if (node.type === 'text') {
+      return true;
+    }
+    if (node.type !== 'element' || !INLINE_ELEMENTS.includes(node.tag)) {
+      return false;
+    }
+
+    return node.children.every(child => this.isInline(child));
+  }
+}
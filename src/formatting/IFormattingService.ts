@@ -0,0 +1,166 @@
+import { EditorContent } from '../components/Editor/IEditor';
+
+/**
+ * Editor pane holding one language
+ */
+export type CodePane = 'html' | 'css' | 'js';
+
+/**
+ * Placement of opening braces in CSS rules and JavaScript blocks
+ * 'collapse' keeps the brace on the line of its statement; 'expand' puts it on its own line.
+ */
+export type BraceStyle = 'collapse' | 'expand';
+
+/**
+ * How HTML attributes are wrapped
+ * 'auto' wraps tags longer than printWidth, 'force' puts each attribute of a
+ * multi-attribute tag on its own line, and 'never' keeps tags on one line.
+ */
+export type AttributeWrap = 'auto' | 'force' | 'never';
+
+/**
+ * Formatting options, shared by the members of a team
+ */
+export interface FormattingOptions {
+  /**
+   * Indent with spaces or tabs
+   */
+  indentStyle: 'space' | 'tab';
+
+  /**
+   * Spaces per indentation level when indenting with spaces
+   */
+  indentSize: number;
+
+  /**
+   * Line length HTML attributes and inline content are wrapped at
+   */
+  printWidth: number;
+
+  /**
+   * How HTML attributes are wrapped
+   */
+  attributeWrap: AttributeWrap;
+
+  /**
+   * Placement of opening braces
+   */
+  braceStyle: BraceStyle;
+}
+
+/**
+ * Options used when no team options are set
+ */
+export const DEFAULT_FORMATTING_OPTIONS: FormattingOptions = {
+  indentStyle: 'space',
+  indentSize: 2,
+  printWidth: 80,
+  attributeWrap: 'auto',
+  braceStyle: 'collapse'
+};
+
+/**
+ * A pane that could not be formatted
+ */
+export interface FormatErrorDetails {
+  /**
+   * Pane containing the error
+   */
+  pane: CodePane;
+
+  /**
+   * Description of the problem
+   */
+  message: string;
+
+  /**
+   * 1-based line of the problem
+   */
+  line: number;
+
+  /**
+   * 1-based column of the problem
+   */
+  column: number;
+}
+
+/**
+ * Result of formatting editor content
+ */
+export interface FormatResult {
+  /**
+   * Formatted content; panes with errors are returned unchanged
+   */
+  content: EditorContent;
+
+  /**
+   * Problems that prevented panes from being formatted
+   */
+  errors: FormatErrorDetails[];
+
+  /**
+   * Whether any pane changed
+   */
+  changed: boolean;
+}
+
+/**
+ * Formatter for one language
+ */
+export interface ICodeFormatter {
+  /**
+   * Format code
+   * @param code Source code
+   * @param options Formatting options
+   * @returns Formatted code
+   * @throws AppError with VALIDATION type and { line, column } details if the code cannot be parsed
+   */
+  format(code: string, options: FormattingOptions): string;
+}
+
+/**
+ * Formatting Service Interface
+ * Formats the panes of editor content with pluggable per-language formatters,
+ * using options configured per team
+ */
+export interface IFormattingService {
+  /**
+   * Format editor content
+   * Panes that cannot be parsed are left unchanged and reported in the result.
+   * @param content Content to format
+   * @param teamId Team whose options apply (defaults to the default options)
+   * @returns Formatted content and errors
+   */
+  format(content: EditorContent, teamId?: string): FormatResult;
+
+  /**
+   * Format the code of one pane
+   * @param pane Pane the code belongs to
+   * @param code Source code
+   * @param teamId Team whose options apply
+   * @returns Formatted code
+   * @throws AppError with VALIDATION type and { pane, line, column } details if the code cannot be parsed
+   */
+  formatPane(pane: CodePane, code: string, teamId?: string): string;
+
+  /**
+   * Replace the formatter of a pane
+   * @param pane Pane to format
+   * @param formatter Formatter to use
+   */
+  registerFormatter(pane: CodePane, formatter: ICodeFormatter): void;
+
+  /**
+   * Set the options of a team
+   * @param teamId Team identifier
+   * @param options Options overriding the defaults
+   */
+  setTeamOptions(teamId: string, options: Partial<FormattingOptions>): void;
+
+  /**
+   * Get the options that apply to a team
+   * @param teamId Team identifier (omit for the default options)
+   * @returns Complete options
+   */
+  getOptions(teamId?: string): FormattingOptions;
+}
@@ -0,0 +1,467 @@
+import { FormattingOptions, ICodeFormatter } from './IFormattingService';
+import { createSyntaxError, getIndentUnit } from './formatterUtils';
+
+/**
+ * Scanner state at a position in the source
+ */
+type ScanMode = 'code' | 'lineComment' | 'blockComment' | 'single' | 'double' | 'template' | 'regex';
+
+/**
+ * Bracket that has been opened but not closed
+ */
+interface OpenBracket {
+  char: string;
+  line: number;
+  offset: number;
+  isSwitch: boolean;
+  /** Parenthesis of an if, for, while, switch, catch or with header, or of function parameters */
+  isHead: boolean;
+  /** Brace that opens a block rather than an object literal */
+  isBlock: boolean;
+  isClassBody: boolean;
+}
+
+/**
+ * A source line with the scanner state around it
+ */
+interface ScannedLine {
+  text: string;
+  startMode: ScanMode;
+  endMode: ScanMode;
+  stack: OpenBracket[];
+  endsInCode: boolean;
+  endsWithOpenBrace: boolean;
+  /** Line ends with a brace that opens a block */
+  endsWithBlockBrace: boolean;
+  /** Line ends where a block statement can follow, e.g. after 'if (a)', 'else' or '=>' */
+  endsWithBlockHead: boolean;
+}
+
+/**
+ * Words after which a slash starts a regular expression rather than a division
+ */
+const REGEX_PRECEDING_WORDS = [
+  'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void',
+  'throw', 'case', 'do', 'else', 'yield', 'await'
+];
+
+/**
+ * Keywords whose parenthesis is followed by a block
+ */
+const HEAD_KEYWORDS = ['if', 'for', 'while', 'switch', 'catch', 'with', 'function'];
+
+/**
+ * Keywords that are directly followed by a block
+ */
+const BLOCK_KEYWORDS = ['else', 'try', 'catch', 'finally', 'do'];
+
+const CLOSING_BRACKETS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+/**
+ * JavaScript formatter
+ * Re-indents code by bracket nesting and applies the brace style without
+ * rewriting statements. Lines inside multi-line strings and template literals are
+ * kept as they are. Unbalanced brackets and unterminated strings, comments and
+ * regular expressions are reported instead of being formatted.
+ */
+export class JsFormatter implements ICodeFormatter {
+  /**
+   * Format JavaScript
+   * @param code Source code
+   * @param options Formatting options
+   * @returns Formatted code
+   * @throws AppError with VALIDATION type and { line, column } details if the code cannot be scanned
+   */
+  public format(code: string, options: FormattingOptions): string {
+    const source = code.replace(/\r\n?/g, '\n');
+    const lines = this.scan(source);
+    const styled = options.braceStyle === 'expand' ? this.expandBraces(lines) : this.collapseBraces(lines);
+
+    return this.indent(this.scan(styled.join('\n')), getIndentUnit(options));
+  }
+
+  /**
+   * Split source into lines, tracking strings, comments and brackets
+   * @param code Source code
+   * @returns Scanned lines
+   * @throws AppError with VALIDATION type if the code is not balanced
+   * @private
+   */
+  private scan(code: string): ScannedLine[] {
+    const lines: ScannedLine[] = [];
+    const stack: OpenBracket[] = [];
+    let mode: ScanMode = 'code';
+    let line = 0;
+    let lineStart = 0;
+    let startMode: ScanMode = 'code';
+    let startStack: OpenBracket[] = [];
+    let last: { char: string; mode: ScanMode } | null = null;
+    let previousToken: string | null = null;
+    let pendingSwitch = false;
+    let pendingHead = false;
+    let pendingClass = false;
+    let blockHead = false;
+    let inClass = false;
+    let tokenStart = 0;
+
+    const endLine = (end: number) => {
+      lines.push({
+        text: code.slice(lineStart, end),
+        startMode,
+        endMode: mode,
+        stack: startStack,
+        endsInCode: last !== null && last.mode === 'code',
+        endsWithOpenBrace: last !== null && last.mode === 'code' && last.char === '{',
+        endsWithBlockBrace: last !== null && last.mode === 'code' && last.char === '{' && stack[stack.length - 1].isBlock,
+        endsWithBlockHead: last !== null && last.mode === 'code' && blockHead
+      });
+    };
+
+    for (let i = 0; i < code.length; i++) {
+      const ch = code[i];
+      const next = code[i + 1];
+
+      if (ch === '\n') {
+        if (mode === 'single' || mode === 'double') {
+          throw createSyntaxError('Unterminated string', code, tokenStart);
+        }
+        if (mode === 'regex') {
+          throw createSyntaxError('Unterminated regular expression', code, tokenStart);
+        }
+        if (mode === 'lineComment') {
+          mode = 'code';
+        }
+
+        endLine(i);
+        line++;
+        lineStart = i + 1;
+        startMode = mode;
+        startStack = stack.slice();
+        last = null;
+        continue;
+      }
+
+      if (/\s/.test(ch)) {
+        continue;
+      }
+
+      const charMode = mode;
+
+      switch (mode) {
+        case 'lineComment':
+          break;
+
+        case 'blockComment':
+          if (ch === '*' && next === '/') {
+            mode = 'code';
+            i++;
+          }
+          break;
+
+        case 'single':
+        case 'double':
+          if (ch === '\\') {
+            i++;
+          } else if (ch === (mode === 'single' ? '\'' : '"')) {
+            mode = 'code';
+          }
+          break;
+
+        case 'regex':
+          if (ch === '\\') {
+            i++;
+          } else if (ch === '[') {
+            inClass = true;
+          } else if (ch === ']') {
+            inClass = false;
+          } else if (ch === '/' && !inClass) {
+            mode = 'code';
+            previousToken = 'regex';
+          }
+          break;
+
+        case 'template':
+          if (ch === '\\') {
+            i++;
+          } else if (ch === '`') {
+            mode = 'code';
+            previousToken = 'string';
+          } else if (ch === '$' && next === '{') {
+            stack.push({ char: '${', line, offset: i, isSwitch: false, isHead: false, isBlock: false, isClassBody: false });
+            mode = 'code';
+            previousToken = '(';
+            i++;
+          }
+          break;
+
+        default: {
+          tokenStart = i;
+
+          if (ch === '/' && next === '/') {
+            mode = 'lineComment';
+            i++;
+            continue;
+          }
+          if (ch === '/' && next === '*') {
+            mode = 'blockComment';
+            i++;
+            continue;
+          }
+
+          const followsHead = blockHead;
+          blockHead = false;
+
+          if (ch === '\'' || ch === '"') {
+            mode = ch === '\'' ? 'single' : 'double';
+            previousToken = 'string';
+          } else if (ch === '`') {
+            mode = 'template';
+          } else if (ch === '/') {
+            const allowsRegex = previousToken === null ||
+              (!/^[\w$]/.test(previousToken) && ![')', ']', '}', 'string', 'regex'].includes(previousToken)) ||
+              REGEX_PRECEDING_WORDS.includes(previousToken);
+            if (allowsRegex) {
+              mode = 'regex';
+              inClass = false;
+            } else {
+              previousToken = '/';
+            }
+          } else if (/[\w$]/.test(ch)) {
+            let end = i;
+            while (end + 1 < code.length && /[\w$]/.test(code[end + 1])) end++;
+            const word = code.slice(i, end + 1);
+            if (word === 'switch') pendingSwitch = true;
+            if (previousToken !== '.') {
+              if (HEAD_KEYWORDS.includes(word)) pendingHead = true;
+              if (word === 'class') pendingClass = true;
+              blockHead = pendingClass || BLOCK_KEYWORDS.includes(word);
+            }
+            previousToken = word;
+            last = { char: code[end], mode };
+            i = end;
+            continue;
+          } else if (ch === '(' || ch === '[' || ch === '{') {
+            const enclosing = stack[stack.length - 1];
+            const isMethod = enclosing !== undefined && enclosing.isClassBody && previousToken !== null && /^[\w$]/.test(previousToken);
+            stack.push({
+              char: ch,
+              line,
+              offset: i,
+              isSwitch: ch === '{' && pendingSwitch,
+              isHead: ch === '(' && (pendingHead || isMethod),
+              isBlock: ch === '{' && followsHead,
+              isClassBody: ch === '{' && pendingClass
+            });
+            if (ch === '{') {
+              pendingSwitch = false;
+              pendingClass = false;
+            }
+            if (ch !== '[') pendingHead = false;
+            previousToken = ch;
+          } else if (CLOSING_BRACKETS[ch]) {
+            const open = stack.pop();
+            if (!open) {
+              throw createSyntaxError(`Unexpected '${ch}'`, code, i);
+            }
+            if (open.char === '${' && ch === '}') {
+              mode = 'template';
+              previousToken = null;
+              last = { char: ch, mode: 'template' };
+              continue;
+            }
+            if (open.char !== CLOSING_BRACKETS[ch]) {
+              throw createSyntaxError(`Expected the '${open.char}' opened on line ${open.line + 1} to be closed before '${ch}'`, code, i);
+            }
+            blockHead = open.isHead;
+            previousToken = ch;
+          } else {
+            blockHead = ch === '>' && previousToken === '=';
+            previousToken = ch;
+          }
+        }
+      }
+
+      last = { char: ch, mode: charMode === 'lineComment' || charMode === 'blockComment' ? charMode : mode };
+    }
+
+    if (mode === 'blockComment') {
+      throw createSyntaxError('Unterminated comment', code, tokenStart);
+    }
+    if (mode === 'template') {
+      throw createSyntaxError('Unterminated template literal', code, tokenStart);
+    }
+    if (mode === 'single' || mode === 'double') {
+      throw createSyntaxError('Unterminated string', code, tokenStart);
+    }
+    if (mode === 'regex') {
+      throw createSyntaxError('Unterminated regular expression', code, tokenStart);
+    }
+    if (stack.length > 0) {
+      const open = stack[stack.length - 1];
+      throw createSyntaxError(`Unclosed '${open.char}'`, code, open.offset);
+    }
+
+    endLine(code.length);
+    return lines;
+  }
+
+  /**
+   * Move opening braces that stand alone onto the line of their statement,
+   * and join 'else', 'catch' and 'finally' to the preceding closing brace.
+   * A brace is only moved after a statement head that takes a block, since
+   * after anything else it starts a new statement, e.g. after 'return'.
+   * @param lines Scanned lines
+   * @returns Restyled source lines
+   * @private
+   */
+  private collapseBraces(lines: ScannedLine[]): string[] {
+    const output: Array<{ text: string; endsInCode: boolean; endsWithBlockHead: boolean }> = [];
+
+    lines.forEach(current => {
+      const trimmed = current.text.trim();
+      const previous = output[output.length - 1];
+
+      if (current.startMode === 'code' && previous && previous.endsInCode) {
+        if (trimmed === '{' && previous.endsWithBlockHead) {
+          previous.text = `${previous.text.trimEnd()} {`;
+          previous.endsWithBlockHead = false;
+          return;
+        }
+        if (/^(else|catch|finally)\b/.test(trimmed) && previous.text.trim() === '}') {
+          previous.text = `${previous.text.trimEnd()} ${trimmed}`;
+          previous.endsInCode = current.endsInCode;
+          previous.endsWithBlockHead = current.endsWithBlockHead;
+          return;
+        }
+      }
+
+      output.push({ text: current.text, endsInCode: current.endsInCode, endsWithBlockHead: current.endsWithBlockHead });
+    });
+
+    return output.map(entry => entry.text);
+  }
+
+  /**
+   * Put the opening braces of blocks on their own line, and split 'else',
+   * 'catch' and 'finally' from the preceding closing brace
+   * Object literals and arrow function bodies keep their braces in place.
+   * @param lines Scanned lines
+   * @returns Restyled source lines
+   * @private
+   */
+  private expandBraces(lines: ScannedLine[]): string[] {
+    const output: string[] = [];
+
+    lines.forEach(current => {
+      if (current.startMode !== 'code') {
+        output.push(current.text);
+        return;
+      }
+
+      let rest = current.endMode === 'template' ? current.text.trimStart() : current.text.trim();
+
+      if (/^}\s*(else|catch|finally)\b/.test(rest)) {
+        output.push('}');
+        rest = rest.slice(1).trim();
+      }
+
+      if (current.endsWithOpenBrace) {
+        const before = rest.slice(0, -1).trimEnd();
+        const isBlock = current.endsWithBlockBrace && !/=>$/.test(before);
+
+        if (before && isBlock) {
+          output.push(before, '{');
+          return;
+        }
+      }
+
+      output.push(rest);
+    });
+
+    return output;
+  }
+
+  /**
+   * Indent lines by bracket nesting
+   * Lines inside brackets are indented one level below the line that opened
+   * them, case bodies below their labels, and continuation lines get one extra level.
+   * @param lines Scanned lines
+   * @param unit String for one indentation level
+   * @returns Formatted code
+   * @private
+   */
+  private indent(lines: ScannedLine[], unit: string): string {
+    const output: string[] = [];
+    const levels: number[] = [];
+    let previousCode: ScannedLine | null = null;
+
+    lines.forEach((current, index) => {
+      const keepTrailing = current.endMode === 'template';
+      const trimmed = keepTrailing ? current.text.trimStart() : current.text.trim();
+      const closers = (/^[)\]}]+/.exec(trimmed.replace(/\s+(?=[)\]}])/g, '')) || [''])[0].length;
+      const isCaseLabel = /^(case\b|default\s*:)/.test(trimmed);
+      let level = this.getLevel(current.stack, Math.min(closers, current.stack.length), isCaseLabel, levels);
+
+      if (current.startMode === 'template' || current.startMode === 'single' || current.startMode === 'double') {
+        levels[index] = level;
+        output.push(current.text);
+        return;
+      }
+
+      if (current.startMode === 'blockComment') {
+        levels[index] = level;
+        output.push(trimmed.startsWith('*') ? `${unit.repeat(level)} ${trimmed}` : current.text.trimEnd());
+        return;
+      }
+
+      if (trimmed === '') {
+        levels[index] = level;
+        if (output.length > 0 && output[output.length - 1] !== '') {
+          output.push('');
+        }
+        return;
+      }
+
+      const continues = /^(\?\.|\.(?!\.\.)|&&|\|\||\?\?|\?|:)/.test(trimmed) ||
+        (previousCode !== null && previousCode.endsInCode && closers === 0 && !trimmed.startsWith('{') &&
+          /(?:[^=!<>]=|&&|\|\||\?\?|=>)$/.test(previousCode.text.trim()));
+      if (continues && closers === 0) {
+        level++;
+      }
+
+      levels[index] = level;
+      output.push(unit.repeat(level) + trimmed);
+      previousCode = current;
+    });
+
+    while (output.length > 0 && output[output.length - 1] === '') {
+      output.pop();
+    }
+
+    return output.join('\n');
+  }
+
+  /**
+   * Get the indentation level of a line
+   * A line starting with closing brackets is aligned with the line that opened
+   * the first of them; other lines are indented below the innermost open bracket.
+   * @param stack Brackets open at the start of the line
+   * @param closers Number of brackets the line closes before its content
+   * @param isCaseLabel Whether the line is a case or default label
+   * @param levels Levels of the preceding lines
+   * @returns Indentation level
+   * @private
+   */
+  private getLevel(stack: OpenBracket[], closers: number, isCaseLabel: boolean, levels: number[]): number {
+    if (closers > 0) {
+      return levels[stack[stack.length - closers].line] || 0;
+    }
+
+    const innermost = stack[stack.length - 1];
+    if (!innermost) {
+      return 0;
+    }
+
+    return (levels[innermost.line] || 0) + 1 + (innermost.isSwitch && !isCaseLabel ? 1 : 0);
+  }
+}
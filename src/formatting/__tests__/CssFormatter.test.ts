@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { CssFormatter } from '../CssFormatter';
+import { DEFAULT_FORMATTING_OPTIONS } from '../IFormattingService';
+import { ErrorType } from '../../errors/IErrorHandler';
+
+describe('CssFormatter', () => {
+  const formatter = new CssFormatter();
+
+  it('should put each declaration on its own line', () => {
+    // Arrange
+    const code = '/* Cards */\n.card,.card--wide{padding:8px  16px;color : #333}\n\n\n\n@media (max-width: 600px){.card{padding:0}}';
+
+    // Act
+    const formatted = formatter.format(code, DEFAULT_FORMATTING_OPTIONS);
+
+    // Assert
+    expect(formatted).toBe([
+      '/* Cards */',
+      '.card, .card--wide {',
+      '  padding: 8px 16px;',
+      '  color: #333;',
+      '}',
+      '',
+      '@media (max-width: 600px) {',
+      '  .card {',
+      '    padding: 0;',
+      '  }',
+      '}'
+    ].join('\n'));
+  });
+
+  it('should apply the brace style and split long selector lists', () => {
+    // Arrange
+    const code = '.question-title, .question-body, .question-footer { margin: 0 }';
+
+    // Act
+    const formatted = formatter.format(code, { ...DEFAULT_FORMATTING_OPTIONS, braceStyle: 'expand', printWidth: 40, indentSize: 4 });
+
+    // Assert
+    expect(formatted).toBe('.question-title,\n.question-body,\n.question-footer\n{\n    margin: 0;\n}');
+  });
+
+  it('should not split strings and url() values', () => {
+    // Arrange
+    const code = '.icon{background:url(data:image/svg+xml;utf8,x);content:"a; b {}"}';
+
+    // Act
+    const formatted = formatter.format(code, DEFAULT_FORMATTING_OPTIONS);
+
+    // Assert
+    expect(formatted).toBe('.icon {\n  background: url(data:image/svg+xml;utf8,x);\n  content: "a; b {}";\n}');
+  });
+
+  it('should report the position of unbalanced braces', () => {
+    // Act & Assert
+    expect(() => formatter.format('.a {\n  color: red;\n', DEFAULT_FORMATTING_OPTIONS))
+      .toThrow(expect.objectContaining({ type: ErrorType.VALIDATION, message: "Unclosed '{'", details: { line: 1, column: 4 } }));
+    expect(() => formatter.format('.a {}\n}', DEFAULT_FORMATTING_OPTIONS))
+      .toThrow(expect.objectContaining({ message: "Unexpected '}'", details: { line: 2, column: 1 } }));
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { FormattingService } from '../FormattingService';
+import { ICodeFormatter } from '../IFormattingService';
+import { IStorageAdapter } from '../../adapters/IStorageAdapter';
+import { ErrorType } from '../../errors/IErrorHandler';
+
+/**
+ * In-memory storage adapter that serializes like localStorage
+ */
+class MemoryStorageAdapter implements IStorageAdapter {
+  public items = new Map<string, string>();
+
+  getItem<T>(key: string): T | null {
+    const item = this.items.get(key);
+    return item !== undefined ? JSON.parse(item) : null;
+  }
+
+  setItem<T>(key: string, value: T): boolean {
+    this.items.set(key, JSON.stringify(value));
+    return true;
+  }
+
+  removeItem(key: string): boolean {
+    this.items.delete(key);
+    return true;
+  }
+
+  clear(): boolean {
+    this.items.clear();
+    return true;
+  }
+
+  hasItem(key: string): boolean {
+    return this.items.has(key);
+  }
+}
+
+describe('FormattingService', () => {
+  it('should format every pane', () => {
+    // Arrange
+    const service = new FormattingService();
+
+    // Act
+    const result = service.format({ html: '<div><p>Hi</p></div>', css: 'p{margin:0}', js: 'if (a) {\nb();\n}' });
+
+    // Assert
+    expect(result).toEqual({
+      content: {
+        html: '<div>\n  <p>Hi</p>\n</div>',
+        css: 'p {\n  margin: 0;\n}',
+        js: 'if (a) {\n  b();\n}'
+      },
+      errors: [],
+      changed: true
+    });
+  });
+
+  it('should leave panes that cannot be parsed unchanged and report them', () => {
+    // Arrange
+    const service = new FormattingService();
+    const content = { html: '<div>\n<span></div>', css: 'p{margin:0}', js: 'b();' };
+
+    // Act
+    const result = service.format(content);
+
+    // Assert
+    expect(result.content).toEqual({ html: content.html, css: 'p {\n  margin: 0;\n}', js: 'b();' });
+    expect(result.errors).toEqual([{ pane: 'html', message: 'Unclosed <span>', line: 2, column: 1 }]);
+    expect(result.changed).toBe(true);
+  });
+
+  it('should apply and persist team options', () => {
+    // Arrange
+    const storage = new MemoryStorageAdapter();
+    const service = new FormattingService({ indentSize: 4 }, storage);
+
+    // Act
+    service.setTeamOptions('math-dept', { indentStyle: 'tab', braceStyle: 'expand' });
+    const reloaded = new FormattingService({ indentSize: 4 }, storage);
+
+    // Assert
+    expect(reloaded.formatPane('js', 'if (a) {\nb();\n}', 'math-dept')).toBe('if (a)\n{\n\tb();\n}');
+    expect(reloaded.formatPane('js', 'if (a) {\nb();\n}')).toBe('if (a) {\n    b();\n}');
+    expect(reloaded.getOptions('unknown-team')).toEqual(reloaded.getOptions());
+  });
+
+  it('should reject invalid options', () => {
+    // Arrange
+    const service = new FormattingService();
+
+    // Act & Assert
+    expect(() => service.setTeamOptions('team', { indentSize: 0 }))
+      .toThrow(expect.objectContaining({ type: ErrorType.VALIDATION }));
+    expect(() => service.setTeamOptions('team', { braceStyle: 'end-of-line' as 'expand' }))
+      .toThrow(expect.objectContaining({ type: ErrorType.VALIDATION }));
+  });
+
+  it('should use registered formatters and report their errors with the pane', () => {
+    // Arrange
+    const service = new FormattingService();
+    const formatter: ICodeFormatter = {
+      format: () => {
+        throw new Error('Not supported');
+      }
+    };
+
+    // Act
+    service.registerFormatter('css', formatter);
+
+    // Assert
+    expect(() => service.formatPane('css', 'p {}'))
+      .toThrow(expect.objectContaining({ type: ErrorType.VALIDATION, details: { pane: 'css', line: 1, column: 1 } }));
+  });
+});
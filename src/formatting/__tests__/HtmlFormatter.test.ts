@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { HtmlFormatter } from '../HtmlFormatter';
+import { DEFAULT_FORMATTING_OPTIONS } from '../IFormattingService';
+import { ErrorType } from '../../errors/IErrorHandler';
+
+describe('HtmlFormatter', () => {
+  const formatter = new HtmlFormatter();
+
+  it('should put block elements on their own lines and keep inline content together', () => {
+    // Arrange
+    const code = '<div class="card"><h2>Quiz</h2><p>Read the <strong>whole</strong>\n   question.</p><ul><li>One<li>Two</ul></div>';
+
+    // Act
+    const formatted = formatter.format(code, DEFAULT_FORMATTING_OPTIONS);
+
+    // Assert
+    expect(formatted).toBe([
+      '<div class="card">',
+      '  <h2>Quiz</h2>',
+      '  <p>Read the <strong>whole</strong> question.</p>',
+      '  <ul>',
+      '    <li>One</li>',
+      '    <li>Two</li>',
+      '  </ul>',
+      '</div>'
+    ].join('\n'));
+  });
+
+  it('should wrap attributes according to the options', () => {
+    // Arrange
+    const code = '<section id="intro" class="panel"><hr class="divider" hidden></section>';
+
+    // Act
+    const forced = formatter.format(code, { ...DEFAULT_FORMATTING_OPTIONS, attributeWrap: 'force' });
+    const auto = formatter.format(code, { ...DEFAULT_FORMATTING_OPTIONS, printWidth: 30 });
+    const never = formatter.format(code, { ...DEFAULT_FORMATTING_OPTIONS, attributeWrap: 'never', printWidth: 30 });
+
+    // Assert
+    expect(forced).toBe('<section\n  id="intro"\n  class="panel">\n  <hr\n    class="divider"\n    hidden>\n</section>');
+    expect(auto).toBe('<section\n  id="intro"\n  class="panel">\n  <hr class="divider" hidden>\n</section>');
+    expect(never).toBe('<section id="intro" class="panel">\n  <hr class="divider" hidden>\n</section>');
+  });
+
+  it('should format inline scripts and style sheets and keep preformatted text', () => {
+    // Arrange
+    const code = '<style>.a{color:red}</style>\n<pre>  x\n    y</pre>\n<script>\nif (a) {\nb();\n}\n</script>';
+
+    // Act
+    const formatted = formatter.format(code, DEFAULT_FORMATTING_OPTIONS);
+
+    // Assert
+    expect(formatted).toBe([
+      '<style>',
+      '  .a {',
+      '    color: red;',
+      '  }',
+      '</style>',
+      '<pre>  x',
+      '    y</pre>',
+      '<script>',
+      '  if (a) {',
+      '    b();',
+      '  }',
+      '</script>'
+    ].join('\n'));
+  });
+
+  it('should produce the same output when formatted twice', () => {
+    // Arrange
+    const code = '<!DOCTYPE html>\n<main>\n<h1>Title</h1>\n\n\n<p>Text <a href="#">link</a></p>\n</main>';
+
+    // Act
+    const once = formatter.format(code, DEFAULT_FORMATTING_OPTIONS);
+
+    // Assert
+    expect(once).toBe('<!DOCTYPE html>\n<main>\n  <h1>Title</h1>\n\n  <p>Text <a href="#">link</a></p>\n</main>');
+    expect(formatter.format(once, DEFAULT_FORMATTING_OPTIONS)).toBe(once);
+  });
+
+  it('should report unclosed and unexpected tags', () => {
+    // Act & Assert
+    expect(() => formatter.format('<div>\n  <span>text\n</div>', DEFAULT_FORMATTING_OPTIONS))
+      .toThrow(expect.objectContaining({ type: ErrorType.VALIDATION, message: 'Unclosed <span>', details: { line: 2, column: 3 } }));
+    expect(() => formatter.format('<p>text</p>\n</div>', DEFAULT_FORMATTING_OPTIONS))
+      .toThrow(expect.objectContaining({ message: 'Unexpected closing tag </div>', details: { line: 2, column: 1 } }));
+  });
+
+  it('should report script errors at their position in the markup', () => {
+    // Arrange
+    const code = '<div>\n  <script>\n    run(\n  </script>\n</div>';
+
+    // Act & Assert
+    expect(() => formatter.format(code, DEFAULT_FORMATTING_OPTIONS))
+      .toThrow(expect.objectContaining({ message: "Unclosed '('", details: { line: 3, column: 8 } }));
+  });
+});
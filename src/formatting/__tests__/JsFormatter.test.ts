@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { JsFormatter } from '../JsFormatter';
+import { DEFAULT_FORMATTING_OPTIONS } from '../IFormattingService';
+import { ErrorType } from '../../errors/IErrorHandler';
+
+describe('JsFormatter', () => {
+  const formatter = new JsFormatter();
+
+  it('should indent blocks, case bodies and continuation lines', () => {
+    // Arrange
+    const code = [
+      'function grade(score)',
+      '{',
+      'switch (score) {',
+      'case 10:',
+      'return "A";',
+      'default:',
+      'return score > 5',
+      '? "B"',
+      ': "C";',
+      '}',
+      '}',
+      'fetch(url)',
+      '.then(response => {',
+      'return response.json();',
+      '});'
+    ].join('\n');
+
+    // Act
+    const formatted = formatter.format(code, DEFAULT_FORMATTING_OPTIONS);
+
+    // Assert
+    expect(formatted).toBe([
+      'function grade(score) {',
+      '  switch (score) {',
+      '    case 10:',
+      '      return "A";',
+      '    default:',
+      '      return score > 5',
+      '        ? "B"',
+      '        : "C";',
+      '  }',
+      '}',
+      'fetch(url)',
+      '  .then(response => {',
+      '    return response.json();',
+      '  });'
+    ].join('\n'));
+  });
+
+  it('should put block braces on their own line with the expand style', () => {
+    // Arrange
+    const code = 'if (done) {\n  finish();\n} else {\n  const state = { step: 1 };\n}';
+
+    // Act
+    const formatted = formatter.format(code, { ...DEFAULT_FORMATTING_OPTIONS, braceStyle: 'expand', indentStyle: 'tab' });
+
+    // Assert
+    expect(formatted).toBe('if (done)\n{\n\tfinish();\n}\nelse\n{\n\tconst state = { step: 1 };\n}');
+  });
+
+  it('should only move braces that open the block of a statement head', () => {
+    // Arrange
+    const code = 'class Quiz\n{\nscore(a)\n{\nreturn\n{\nnext();\n}\n}\n}\nconst done = () => { finish(); };';
+
+    // Act
+    const collapsed = formatter.format(code, DEFAULT_FORMATTING_OPTIONS);
+    const expanded = formatter.format(collapsed, { ...DEFAULT_FORMATTING_OPTIONS, braceStyle: 'expand' });
+
+    // Assert
+    expect(collapsed).toBe('class Quiz {\n  score(a) {\n    return\n    {\n      next();\n    }\n  }\n}\nconst done = () => { finish(); };');
+    expect(expanded).toBe('class Quiz\n{\n  score(a)\n  {\n    return\n    {\n      next();\n    }\n  }\n}\nconst done = () => { finish(); };');
+  });
+
+  it('should keep the content of strings, template literals and regular expressions', () => {
+    // Arrange
+    const code = 'const html = `<ul>\n    <li>${items.map(i => `{${i}}`).join("")}</li>\n</ul>`;\nconst pattern = /[{(]/g;\nif (a) {\nb("}");\n}';
+
+    // Act
+    const formatted = formatter.format(code, DEFAULT_FORMATTING_OPTIONS);
+
+    // Assert
+    expect(formatted).toBe('const html = `<ul>\n    <li>${items.map(i => `{${i}}`).join("")}</li>\n</ul>`;\nconst pattern = /[{(]/g;\nif (a) {\n  b("}");\n}');
+  });
+
+  it('should produce the same output when formatted twice', () => {
+    // Arrange
+    const code = 'const quiz = {\nquestions: [\n{ id: 1 },\n{ id: 2 }\n],\n\n\nscore: 0\n};';
+
+    // Act
+    const once = formatter.format(code, DEFAULT_FORMATTING_OPTIONS);
+    const twice = formatter.format(once, DEFAULT_FORMATTING_OPTIONS);
+
+    // Assert
+    expect(once).toBe('const quiz = {\n  questions: [\n    { id: 1 },\n    { id: 2 }\n  ],\n\n  score: 0\n};');
+    expect(twice).toBe(once);
+  });
+
+  it('should report the position of unbalanced and unterminated code', () => {
+    // Act & Assert
+    expect(() => formatter.format('if (a) {\n  b();\n', DEFAULT_FORMATTING_OPTIONS))
+      .toThrow(expect.objectContaining({ type: ErrorType.VALIDATION, message: "Unclosed '{'", details: { line: 1, column: 8 } }));
+    expect(() => formatter.format('call(a;\n}', DEFAULT_FORMATTING_OPTIONS))
+      .toThrow(expect.objectContaining({ details: { line: 2, column: 1 } }));
+    expect(() => formatter.format('const s = "open;\nnext();', DEFAULT_FORMATTING_OPTIONS))
+      .toThrow(expect.objectContaining({ message: 'Unterminated string', details: { line: 1, column: 11 } }));
+    expect(() => formatter.format('/* note', DEFAULT_FORMATTING_OPTIONS))
+      .toThrow('Unterminated comment');
+  });
+});
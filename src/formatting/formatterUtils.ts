@@ -0,0 +1,33 @@
+import { AppError, ErrorType } from '../errors/IErrorHandler';
+import { FormattingOptions } from './IFormattingService';
+
+/**
+ * Get the string for one indentation level
+ * @param options Formatting options
+ * @returns Tab or spaces
+ */
+export function getIndentUnit(options: FormattingOptions): string {
+  return options.indentStyle === 'tab' ? '\t' : ' '.repeat(options.indentSize);
+}
+
+/**
+ * Get the 1-based line and column of an offset in source code
+ * @param code Source code
+ * @param offset 0-based offset
+ * @returns Line and column
+ */
+export function getSourcePosition(code: string, offset: number): { line: number; column: number } {
+  const before = code.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+/**
+ * Create the error formatters throw for code they cannot parse
+ * @param message Description of the problem
+ * @param code Source code
+ * @param offset Offset of the problem
+ * @returns AppError with VALIDATION type and { line, column } details
+ */
+export function createSyntaxError(message: string, code: string, offset: number): AppError {
+  return new AppError(ErrorType.VALIDATION, message, getSourcePosition(code, offset));
+}
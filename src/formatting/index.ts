@@ -0,0 +1,9 @@
+/**
+ * Formatting module exports
+ */
+
+export * from './IFormattingService';
+export * from './FormattingService';
+export * from './HtmlFormatter';
+export * from './CssFormatter';
+export * from './JsFormatter';
@@ -3,6 +3,10 @@
 // Core framework exports
 export * from './core/ServiceContainer';
 export * from './events/EventBus';
+export * from './events/TypedEventBus';
+export * from './events/IframeBridge';
+export * from './events/IframeClient';
+export * from './events/events';
 export * from './errors'; // Use barrel file for error handling exports
 // export * from './core/Bootstrap'; // Not implemented yet
 
@@ -25,7 +29,16 @@ export {
 // Interface exports (co-located with implementations)
 export * from './components';
 export * from './adapters/IStorageAdapter';
+export * from './adapters/IAsyncStorageAdapter';
+export * from './adapters/IBufferedStorageAdapter';
+export * from './adapters/IndexedDBStorageAdapter';
+export * from './adapters/AsyncStorageAdapterBridge';
+export * from './adapters/IRemoteStorageAdapter';
+export * from './adapters/math';
 export * from './events/IEventBus';
+export * from './events/ITypedEventBus';
+export * from './events/IIframeBridge';
+export * from './events/EventMap';
 export * from './core/IServiceContainer';
 // export * from './factories/IComponentFactory'; // Not implemented yet
 
@@ -34,5 +47,14 @@ export * from './services/IStorageService';
 export * from './services/StorageService';
 // export * from './services/IApiService'; // Not implemented yet
 
+// Publishing exports
+export * from './publishing';
+
+// Formatting exports
+export * from './formatting';
+
+// Diagnostics exports
+export * from './diagnostics';
+
 // Note: Explicit exports with domain-specific names help IDEs provide better suggestions
 // and avoid type naming collisions across different parts of the application.
\ No newline at end of file
@@ -0,0 +1,96 @@
+/**
+ * Asset paths of a single archived component
+ * Paths are keys into the archive's assets map
+ */
+export interface ComponentArchiveAssets {
+  /**
+   * Path of the HTML pane
+   */
+  htmlPath: string;
+
+  /**
+   * Path of the CSS pane
+   */
+  cssPath: string;
+
+  /**
+   * Path of the JavaScript pane
+   */
+  jsPath: string;
+
+  /**
+   * Path of the JSON-encoded content metadata, if the component has any
+   */
+  metadataPath?: string;
+}
+
+/**
+ * Manifest entry describing an archived component
+ */
+export interface ComponentArchiveEntry {
+  /**
+   * Component ID at the time of export
+   */
+  id: string;
+
+  /**
+   * Display name
+   */
+  name: string;
+
+  /**
+   * Optional categorization tags
+   */
+  tags?: string[];
+
+  /**
+   * ISO timestamp of the last edit before export
+   */
+  lastEdited?: string;
+
+  /**
+   * Where the component's content is stored in the archive
+   */
+  assets: ComponentArchiveAssets;
+}
+
+/**
+ * Component archive manifest model
+ */
+export interface ComponentArchiveManifest {
+  /**
+   * Archive format identifier
+   */
+  format: string;
+
+  /**
+   * Archive format version the archive was written with
+   */
+  formatVersion: number;
+
+  /**
+   * ISO timestamp of the export
+   */
+  exportedAt: string;
+
+  /**
+   * Archived components
+   */
+  components: ComponentArchiveEntry[];
+}
+
+/**
+ * Component archive model
+ * A manifest together with the text assets it references, written as a single JSON file
+ */
+export interface ComponentArchive {
+  /**
+   * Archive manifest
+   */
+  manifest: ComponentArchiveManifest;
+
+  /**
+   * Asset contents keyed by path
+   */
+  assets: Record<string, string>;
+}
@@ -0,0 +1,43 @@
+import { StorageComponentContent } from './ComponentContent';
+
+/**
+ * Component revision metadata model
+ * Describes a single saved revision in a component's history
+ */
+export interface ComponentRevisionMetadata {
+  /**
+   * ID of the component this revision belongs to
+   */
+  componentId: string;
+
+  /**
+   * Revision number, increasing with every recorded save
+   */
+  revisionNumber: number;
+
+  /**
+   * When the revision was recorded
+   */
+  createdAt: Date;
+
+  /**
+   * Revision number this revision was restored from, if it was created by a restore
+   */
+  restoredFrom?: number;
+}
+
+/**
+ * Component revision content model
+ * A revision's metadata together with the content that was saved
+ */
+export interface ComponentRevisionContent {
+  /**
+   * Revision metadata
+   */
+  revision: ComponentRevisionMetadata;
+
+  /**
+   * Component content as it was saved in this revision
+   */
+  content: StorageComponentContent;
+}
@@ -0,0 +1,45 @@
+import { StorageComponentContent } from './ComponentContent';
+
+/**
+ * Change vector model
+ * Counts the edits each replica has made to a component, keyed by replica ID
+ */
+export type ChangeVector = Record<string, number>;
+
+/**
+ * Component sync metadata model
+ * Describes the last state a component was synchronized at
+ */
+export interface ComponentSyncMetadata {
+  /**
+   * ID of the synchronized component
+   */
+  componentId: string;
+
+  /**
+   * Change vector of the last synchronized state
+   */
+  vector: ChangeVector;
+
+  /**
+   * When the component was last synchronized
+   */
+  lastSyncedAt: Date;
+}
+
+/**
+ * Component sync content model
+ * Sync metadata together with the content both copies agreed on,
+ * used as the common ancestor for three-way merges
+ */
+export interface ComponentSyncContent {
+  /**
+   * Sync metadata
+   */
+  sync: ComponentSyncMetadata;
+
+  /**
+   * Component content at the last synchronization
+   */
+  base: StorageComponentContent;
+}
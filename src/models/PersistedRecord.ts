@@ -0,0 +1,57 @@
+/**
+ * Persisted record envelope model
+ * Wraps every record written by the storage services with the schema
+ * version it was written at, so older records can be migrated on load
+ */
+export interface PersistedRecordEnvelope<T = unknown> {
+  /**
+   * Schema version the data was written at
+   */
+  schemaVersion: number;
+
+  /**
+   * Kind of record (e.g. 'component-list', 'component-content')
+   */
+  recordType: string;
+
+  /**
+   * ISO timestamp of when the record was written
+   */
+  savedAt: string;
+
+  /**
+   * The record data
+   */
+  data: T;
+}
+
+/**
+ * Quarantined record model
+ * A persisted record that could not be migrated, kept aside for inspection or repair
+ */
+export interface QuarantinedRecord {
+  /**
+   * Storage key the record was read from
+   */
+  key: string;
+
+  /**
+   * Kind of record that failed to migrate
+   */
+  recordType: string;
+
+  /**
+   * The raw record exactly as it was stored
+   */
+  record: unknown;
+
+  /**
+   * Migration error message
+   */
+  error: string;
+
+  /**
+   * ISO timestamp of when the record was quarantined
+   */
+  quarantinedAt: string;
+}
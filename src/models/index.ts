@@ -19,4 +19,31 @@ export {
   // Legacy aliases for backward compatibility
   ComponentContentData,
   ComponentData 
-} from './ComponentContent';
\ No newline at end of file
+} from './ComponentContent';
+
+// Component revision exports
+export {
+  ComponentRevisionMetadata,
+  ComponentRevisionContent
+} from './ComponentRevision';
+
+// Component sync exports
+export {
+  ChangeVector,
+  ComponentSyncMetadata,
+  ComponentSyncContent
+} from './ComponentSync';
+
+// Component archive exports
+export {
+  ComponentArchive,
+  ComponentArchiveAssets,
+  ComponentArchiveEntry,
+  ComponentArchiveManifest
+} from './ComponentArchive';
+
+// Persisted record exports
+export {
+  PersistedRecordEnvelope,
+  QuarantinedRecord
+} from './PersistedRecord';
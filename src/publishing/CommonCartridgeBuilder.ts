@@ -0,0 +1,213 @@
+import {
+  ICommonCartridgeBuilder,
+  CartridgeResourceMetadata,
+  CommonCartridgeOptions,
+  CommonCartridgeResult
+} from './ICommonCartridgeBuilder';
+import { AppError, ErrorType } from '../errors/IErrorHandler';
+import { createZip } from '../utils/zip';
+
+/**
+ * IMS Common Cartridge 1.3 namespaces and schema locations
+ */
+export const COMMON_CARTRIDGE_SCHEMA = {
+  /**
+   * Schema name written to the manifest metadata
+   */
+  NAME: 'IMS Common Cartridge',
+
+  /**
+   * Schema version written to the manifest metadata
+   */
+  VERSION: '1.3.0',
+
+  /**
+   * Content packaging namespace
+   */
+  IMSCP: 'http://www.imsglobal.org/xsd/imsccv1p3/imscp_v1p1',
+
+  /**
+   * LOM namespace for manifest metadata
+   */
+  LOM_MANIFEST: 'http://ltsc.ieee.org/xsd/imsccv1p3/LOM/manifest',
+
+  /**
+   * LOM namespace for resource metadata
+   */
+  LOM_RESOURCE: 'http://ltsc.ieee.org/xsd/imsccv1p3/LOM/resource',
+
+  /**
+   * xsi:schemaLocation pairs for the namespaces above
+   */
+  SCHEMA_LOCATION: [
+    'http://www.imsglobal.org/xsd/imsccv1p3/imscp_v1p1',
+    'http://www.imsglobal.org/profile/cc/ccv1p3/ccv1p3_imscp_v1p2_v1p0.xsd',
+    'http://ltsc.ieee.org/xsd/imsccv1p3/LOM/manifest',
+    'http://www.imsglobal.org/profile/cc/ccv1p3/LOM/ccv1p3_lommanifest_v1p0.xsd',
+    'http://ltsc.ieee.org/xsd/imsccv1p3/LOM/resource',
+    'http://www.imsglobal.org/profile/cc/ccv1p3/LOM/ccv1p3_lomresource_v1p0.xsd'
+  ].join(' ')
+};
+
+/**
+ * Common Cartridge Builder implementation
+ * Writes each component to its own folder as a webcontent resource, lists them
+ * in a single rooted organization and zips everything with imsmanifest.xml
+ */
+export class CommonCartridgeBuilder implements ICommonCartridgeBuilder {
+  /**
+   * Build a cartridge containing one web content resource per component
+   * @param resources Bundled components, in the order they appear in the course
+   * @param options Cartridge options
+   * @returns The generated cartridge
+   * @throws AppError with VALIDATION type if no resources are given
+   */
+  public build(resources: CartridgeResourceMetadata[], options: CommonCartridgeOptions = {}): CommonCartridgeResult {
+    if (resources.length === 0) {
+      throw new AppError(
+        ErrorType.VALIDATION,
+        'A cartridge must contain at least one component'
+      );
+    }
+
+    const title = options.title
+      || (resources.length === 1 ? resources[0].component.name : 'Components');
+    const usedIds = new Set<string>();
+    const entries = resources.map(resource => {
+      const key = this.uniqueIdentifier(resource.component.id, usedIds);
+      return { key, resource, href: `${key}/index.html` };
+    });
+
+    const keywords = Array.from(new Set(resources.flatMap(r => r.component.tags || [])));
+    const lines: string[] = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<manifest identifier="${this.escapeXml(this.toIdentifier(options.identifier || `cartridge_${Date.now()}`))}"` +
+        ` xmlns="${COMMON_CARTRIDGE_SCHEMA.IMSCP}"` +
+        ` xmlns:lomimscc="${COMMON_CARTRIDGE_SCHEMA.LOM_MANIFEST}"` +
+        ` xmlns:lom="${COMMON_CARTRIDGE_SCHEMA.LOM_RESOURCE}"` +
+        ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"' +
+        ` xsi:schemaLocation="${COMMON_CARTRIDGE_SCHEMA.SCHEMA_LOCATION}">`,
+      '  <metadata>',
+      `    <schema>${COMMON_CARTRIDGE_SCHEMA.NAME}</schema>`,
+      `    <schemaversion>${COMMON_CARTRIDGE_SCHEMA.VERSION}</schemaversion>`,
+      ...this.buildLom('lomimscc', title, keywords, '    '),
+      '  </metadata>',
+      '  <organizations>',
+      '    <organization identifier="ORG_1" structure="rooted-hierarchy">',
+      '      <item identifier="ROOT">',
+      ...entries.flatMap(({ key, resource }) => [
+        `        <item identifier="ITEM_${key}" identifierref="RES_${key}">`,
+        `          <title>${this.escapeXml(resource.component.name)}</title>`,
+        '        </item>'
+      ]),
+      '      </item>',
+      '    </organization>',
+      '  </organizations>',
+      '  <resources>',
+      ...entries.flatMap(({ key, resource, href }) => [
+        `    <resource identifier="RES_${key}" type="webcontent" href="${this.escapeXml(href)}">`,
+        '      <metadata>',
+        ...this.buildLom('lom', resource.component.name, resource.component.tags || [], '        '),
+        '      </metadata>',
+        `      <file href="${this.escapeXml(href)}"/>`,
+        '    </resource>'
+      ]),
+      '  </resources>',
+      '</manifest>',
+      ''
+    ];
+
+    const manifestXml = lines.join('\n');
+
+    return {
+      fileName: `${this.toFileName(title)}.imscc`,
+      data: createZip([
+        { path: 'imsmanifest.xml', data: manifestXml },
+        ...entries.map(({ resource, href }) => ({ path: href, data: resource.bundle.html }))
+      ]),
+      manifestXml
+    };
+  }
+
+  /**
+   * Build a LOM general element with a title and keywords
+   * @param prefix Namespace prefix (lomimscc for the manifest, lom for resources)
+   * @param title Title text
+   * @param keywords Keyword strings
+   * @param indent Indentation of the lom element
+   * @returns XML lines
+   * @private
+   */
+  private buildLom(prefix: string, title: string, keywords: string[], indent: string): string[] {
+    return [
+      `${indent}<${prefix}:lom>`,
+      `${indent}  <${prefix}:general>`,
+      `${indent}    <${prefix}:title>`,
+      `${indent}      <${prefix}:string language="en">${this.escapeXml(title)}</${prefix}:string>`,
+      `${indent}    </${prefix}:title>`,
+      ...keywords.flatMap(keyword => [
+        `${indent}    <${prefix}:keyword>`,
+        `${indent}      <${prefix}:string language="en">${this.escapeXml(keyword)}</${prefix}:string>`,
+        `${indent}    </${prefix}:keyword>`
+      ]),
+      `${indent}  </${prefix}:general>`,
+      `${indent}</${prefix}:lom>`
+    ];
+  }
+
+  /**
+   * Derive an identifier from a component ID that is unique within the cartridge
+   * @param id Component ID
+   * @param usedIds Identifiers already in use
+   * @returns Identifier usable in XML IDs and folder names
+   * @private
+   */
+  private uniqueIdentifier(id: string, usedIds: Set<string>): string {
+    const base = this.toIdentifier(id);
+    let candidate = base;
+    let suffix = 2;
+
+    while (usedIds.has(candidate)) {
+      candidate = `${base}_${suffix++}`;
+    }
+
+    usedIds.add(candidate);
+    return candidate;
+  }
+
+  /**
+   * Convert text to a valid XML ID (an NCName)
+   * @param text Source text
+   * @returns Identifier
+   * @private
+   */
+  private toIdentifier(text: string): string {
+    const identifier = text.replace(/[^A-Za-z0-9_.-]/g, '_');
+    return /^[A-Za-z_]/.test(identifier) ? identifier : `_${identifier}`;
+  }
+
+  /**
+   * Convert a title to a file name
+   * @param title Cartridge title
+   * @returns File name without extension
+   * @private
+   */
+  private toFileName(title: string): string {
+    return title.trim().replace(/[^A-Za-z0-9_.-]+/g, '-').replace(/^-+|-+$/g, '') || 'cartridge';
+  }
+
+  /**
+   * Escape text for use in XML content and attributes
+   * @param text Text to escape
+   * @returns Escaped text
+   * @private
+   */
+  private escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
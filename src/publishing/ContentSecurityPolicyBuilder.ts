@@ -0,0 +1,71 @@
+import { IContentSecurityPolicyBuilder, ContentSecurityPolicyOptions } from './IContentSecurityPolicyBuilder';
+import { ExternalLibraryRegistry } from './ExternalLibraryRegistry';
+
+/**
+ * Content Security Policy Builder implementation
+ * Uses the external library registry to map dependencies to allowed origins
+ */
+export class ContentSecurityPolicyBuilder implements IContentSecurityPolicyBuilder {
+  /**
+   * Creates a new ContentSecurityPolicyBuilder
+   * @param libraryRegistry Registry used to resolve declared and detected libraries
+   */
+  constructor(private libraryRegistry: ExternalLibraryRegistry = new ExternalLibraryRegistry()) {}
+
+  /**
+   * Build a policy for component code
+   * @param code Component HTML and JavaScript
+   * @param dependencies Declared dependencies (library IDs or absolute URLs)
+   * @param options Policy options
+   * @returns Serialized policy
+   * @throws AppError with VALIDATION type if a dependency cannot be resolved
+   */
+  public build(code: string, dependencies: string[] = [], options: ContentSecurityPolicyOptions = {}): string {
+    const additional = (options.additionalSources || []).map(source => this.toOrigin(source));
+    const origins = Array.from(new Set([
+      ...this.libraryRegistry.getOrigins(code, dependencies),
+      ...additional.filter((origin): origin is string => origin !== null)
+    ]));
+
+    const directives: Array<[string, string[]]> = [
+      ['default-src', []],
+      ['script-src', ["'unsafe-inline'", ...origins]],
+      ['style-src', ["'unsafe-inline'", ...origins]],
+      ['img-src', ['data:', 'blob:', ...origins]],
+      ['font-src', ['data:', ...origins]],
+      ['connect-src', origins],
+      ['base-uri', []],
+      ['form-action', []]
+    ];
+
+    return directives
+      .map(([name, sources]) => `${name} ${sources.length > 0 ? sources.join(' ') : "'none'"}`)
+      .join('; ');
+  }
+
+  /**
+   * Get a meta tag that applies a policy to an HTML document
+   * @param policy Serialized policy
+   * @returns Meta tag markup
+   */
+  public getMetaTag(policy: string): string {
+    const content = policy.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+    return `<meta http-equiv="Content-Security-Policy" content="${content}">`;
+  }
+
+  /**
+   * Convert a URL or origin to an origin, resolving relative URLs against the page
+   * @param source URL or origin
+   * @returns Origin, or null if the source is not an http(s) URL
+   * @private
+   */
+  private toOrigin(source: string): string | null {
+    try {
+      const base = typeof window !== 'undefined' ? window.location.href : undefined;
+      const url = new URL(source, base);
+      return /^https?:$/.test(url.protocol) ? url.origin : null;
+    } catch {
+      return null;
+    }
+  }
+}
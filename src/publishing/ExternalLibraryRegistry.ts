@@ -0,0 +1,251 @@
+import { AppError, ErrorType } from '../errors/IErrorHandler';
+
+/**
+ * An external library a published component can load from a CDN
+ */
+export interface ExternalLibrary {
+  /**
+   * Library identifier used in content.metadata.libraries
+   */
+  id: string;
+
+  /**
+   * Display name
+   */
+  name: string;
+
+  /**
+   * Script URLs, loaded in order
+   * May contain {apiKey}, replaced with the key passed for this library
+   */
+  scripts?: string[];
+
+  /**
+   * Stylesheet URLs
+   */
+  stylesheets?: string[];
+
+  /**
+   * Additional URLs or origins the library loads resources from at runtime
+   * Allowed by the Content Security Policy alongside the script and stylesheet origins.
+   */
+  sources?: string[];
+
+  /**
+   * Pattern matching component code that uses the library without declaring it
+   */
+  detect?: RegExp;
+}
+
+/**
+ * Libraries known to the publisher by default
+ */
+export const DEFAULT_EXTERNAL_LIBRARIES: ExternalLibrary[] = [
+  {
+    id: 'desmos',
+    name: 'Desmos API',
+    scripts: ['https://www.desmos.com/api/v1.9/calculator.js?apiKey={apiKey}'],
+    detect: /\bDesmos\./
+  },
+  {
+    id: 'geogebra',
+    name: 'GeoGebra Apps API',
+    scripts: ['https://www.geogebra.org/apps/deployggb.js'],
+    sources: ['https://cdn.geogebra.org'],
+    detect: /\bGGBApplet\b/
+  },
+  {
+    id: 'mathjax',
+    name: 'MathJax',
+    scripts: ['https://cdn.jsdelivr.net/npm/mathjax@3/es5/tex-mml-chtml.js'],
+    detect: /\bMathJax\./
+  },
+  {
+    id: 'katex',
+    name: 'KaTeX',
+    scripts: ['https://cdn.jsdelivr.net/npm/katex@0.16/dist/katex.min.js'],
+    stylesheets: ['https://cdn.jsdelivr.net/npm/katex@0.16/dist/katex.min.css'],
+    detect: /\bkatex\.render/
+  }
+];
+
+/**
+ * A library resolved for a specific component
+ */
+export interface ResolvedLibrary {
+  /**
+   * Library identifier (the URL itself for ad-hoc script URLs)
+   */
+  id: string;
+
+  /**
+   * Script URLs with placeholders filled in
+   */
+  scripts: string[];
+
+  /**
+   * Stylesheet URLs
+   */
+  stylesheets: string[];
+}
+
+/**
+ * Registry of external libraries available to published components
+ */
+export class ExternalLibraryRegistry {
+  /**
+   * Registered libraries keyed by ID
+   */
+  private libraries: Map<string, ExternalLibrary> = new Map();
+
+  /**
+   * Creates a new ExternalLibraryRegistry
+   * @param libraries Initial libraries (defaults to DEFAULT_EXTERNAL_LIBRARIES)
+   */
+  constructor(libraries: ExternalLibrary[] = DEFAULT_EXTERNAL_LIBRARIES) {
+    libraries.forEach(library => this.register(library));
+  }
+
+  /**
+   * Register a library, replacing any library with the same ID
+   * @param library Library definition
+   */
+  public register(library: ExternalLibrary): void {
+    this.libraries.set(library.id, library);
+  }
+
+  /**
+   * Get a registered library
+   * @param id Library ID
+   * @returns Library definition or undefined if not registered
+   */
+  public get(id: string): ExternalLibrary | undefined {
+    return this.libraries.get(id);
+  }
+
+  /**
+   * Resolve the libraries a component needs
+   * Declared references may be library IDs or absolute script URLs; registered
+   * libraries whose detect pattern matches the code are added automatically.
+   * @param code Component HTML and JavaScript to scan
+   * @param declared Declared library references
+   * @param apiKeys API keys by library ID, for URLs with an {apiKey} placeholder
+   * @returns Resolved libraries in declaration order, then detection order
+   * @throws AppError with VALIDATION type for unknown libraries or missing API keys
+   */
+  public resolve(code: string, declared: string[] = [], apiKeys: Record<string, string> = {}): ResolvedLibrary[] {
+    return this.collectIds(code, declared).map(id => {
+      if (this.isUrl(id)) {
+        return { id, scripts: [id], stylesheets: [] };
+      }
+
+      const library = this.getOrThrow(id);
+
+      return {
+        id,
+        scripts: (library.scripts || []).map(url => this.fillApiKey(url, library.id, apiKeys)),
+        stylesheets: [...(library.stylesheets || [])]
+      };
+    });
+  }
+
+  /**
+   * Get the origins the libraries a component needs load resources from
+   * Libraries are collected as in resolve; API keys are not required.
+   * @param code Component HTML and JavaScript to scan
+   * @param declared Declared library references
+   * @returns Origins without duplicates, in resolution order
+   * @throws AppError with VALIDATION type for unknown libraries
+   */
+  public getOrigins(code: string, declared: string[] = []): string[] {
+    const urls = this.collectIds(code, declared).flatMap(id => {
+      if (this.isUrl(id)) {
+        return [id];
+      }
+
+      const library = this.getOrThrow(id);
+      return [...(library.scripts || []), ...(library.stylesheets || []), ...(library.sources || [])];
+    });
+
+    const origins = urls
+      .filter(url => this.isUrl(url))
+      .map(url => new URL(url.replace('{apiKey}', '')).origin);
+
+    return Array.from(new Set(origins));
+  }
+
+  /**
+   * Collect declared references and the IDs of detected libraries
+   * @param code Component HTML and JavaScript to scan
+   * @param declared Declared library references
+   * @returns Library IDs and URLs in declaration order, then detection order
+   * @private
+   */
+  private collectIds(code: string, declared: string[]): string[] {
+    const ids = [...declared];
+
+    for (const library of this.libraries.values()) {
+      if (library.detect && library.detect.test(code) && !ids.includes(library.id)) {
+        ids.push(library.id);
+      }
+    }
+
+    return ids;
+  }
+
+  /**
+   * Get a registered library
+   * @param id Library ID
+   * @returns Library definition
+   * @throws AppError with VALIDATION type if the library is not registered
+   * @private
+   */
+  private getOrThrow(id: string): ExternalLibrary {
+    const library = this.libraries.get(id);
+
+    if (!library) {
+      throw new AppError(
+        ErrorType.VALIDATION,
+        `Unknown external library: ${id}`,
+        { libraryId: id }
+      );
+    }
+
+    return library;
+  }
+
+  /**
+   * Check whether a library reference is an absolute http(s) URL
+   * @param reference Library ID or URL
+   * @returns True for URLs
+   * @private
+   */
+  private isUrl(reference: string): boolean {
+    return /^https?:\/\//i.test(reference);
+  }
+
+  /**
+   * Replace the {apiKey} placeholder in a library URL
+   * @param url Library URL
+   * @param id Library ID
+   * @param apiKeys API keys by library ID
+   * @returns URL with the key filled in
+   * @throws AppError with VALIDATION type if the URL needs a key that was not given
+   * @private
+   */
+  private fillApiKey(url: string, id: string, apiKeys: Record<string, string>): string {
+    if (!url.includes('{apiKey}')) {
+      return url;
+    }
+
+    if (!apiKeys[id]) {
+      throw new AppError(
+        ErrorType.VALIDATION,
+        `An API key is required for external library: ${id}`,
+        { libraryId: id }
+      );
+    }
+
+    return url.replace('{apiKey}', encodeURIComponent(apiKeys[id]));
+  }
+}
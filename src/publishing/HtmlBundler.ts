@@ -0,0 +1,212 @@
+import { IHtmlBundler, HtmlBundleContent, HtmlBundleOptions } from './IHtmlBundler';
+import { ExternalLibraryRegistry, ResolvedLibrary } from './ExternalLibraryRegistry';
+import { IContentSecurityPolicyBuilder } from './IContentSecurityPolicyBuilder';
+import { ContentSecurityPolicyBuilder } from './ContentSecurityPolicyBuilder';
+import { AppError, ErrorType } from '../errors/IErrorHandler';
+import { StorageComponentContent } from '../models/index';
+import { sha256Hex } from '../utils/contentHash';
+
+/**
+ * HTML Bundler implementation
+ * Produces a single HTML document with inlined CSS and JavaScript, preceded by
+ * a header comment carrying the SHA-256 hash of the rest of the document
+ */
+export class HtmlBundler implements IHtmlBundler {
+  /**
+   * Creates a new HtmlBundler
+   * @param libraryRegistry Registry used to resolve external library references
+   * @param cspBuilder Builder for the document's Content Security Policy
+   */
+  constructor(
+    private libraryRegistry: ExternalLibraryRegistry = new ExternalLibraryRegistry(),
+    private cspBuilder: IContentSecurityPolicyBuilder = new ContentSecurityPolicyBuilder(libraryRegistry)
+  ) {}
+
+  /**
+   * Bundle component content into a single HTML document
+   * @param content Component content
+   * @param options Bundle options
+   * @returns Promise resolving to the bundled document
+   * @throws AppError with VALIDATION type if a library cannot be resolved or the JavaScript cannot be minified
+   * @throws AppError with INITIALIZATION type if minifying and terser is not installed
+   */
+  public async bundle(content: StorageComponentContent, options: HtmlBundleOptions = {}): Promise<HtmlBundleContent> {
+    const html = content.html || '';
+    const libraries = content.metadata?.libraries;
+    const declared: string[] = Array.isArray(libraries) ? libraries : [];
+    const code = `${html}\n${content.js || ''}`;
+    const resolved = this.libraryRegistry.resolve(code, declared, options.apiKeys);
+    const policy = options.contentSecurityPolicy === false ? null : this.cspBuilder.build(code, declared);
+
+    const css = options.minify ? this.minifyCss(content.css || '') : content.css || '';
+    const js = options.minify ? await this.minifyJs(content.js || '') : content.js || '';
+
+    const body = this.buildDocument(options.title || 'Component', html, css, js, resolved, policy);
+    const contentHash = await sha256Hex(body);
+
+    const header = [
+      'Published with DevPreview',
+      options.sourceLabel ? `source: ${options.sourceLabel}` : null,
+      `sha256: ${contentHash}`
+    ].filter(Boolean).join(' | ');
+
+    return {
+      html: `<!-- ${this.escapeComment(header)} -->\n${body}`,
+      contentHash,
+      libraries: resolved.map(library => library.id)
+    };
+  }
+
+  /**
+   * Assemble the HTML document
+   * @param title Document title
+   * @param html Body HTML
+   * @param css Stylesheet
+   * @param js Script
+   * @param libraries External libraries to reference
+   * @param policy Content Security Policy, or null for none
+   * @returns HTML document
+   * @private
+   */
+  private buildDocument(
+    title: string,
+    html: string,
+    css: string,
+    js: string,
+    libraries: ResolvedLibrary[],
+    policy: string | null
+  ): string {
+    const head: string[] = [
+      '<meta charset="utf-8">',
+      ...(policy ? [this.cspBuilder.getMetaTag(policy)] : []),
+      '<meta name="viewport" content="width=device-width, initial-scale=1.0">',
+      `<title>${this.escapeHtml(title)}</title>`
+    ];
+
+    for (const library of libraries) {
+      for (const url of library.stylesheets) {
+        if (!html.includes(url)) {
+          head.push(`<link rel="stylesheet" href="${this.escapeHtml(url)}">`);
+        }
+      }
+      for (const url of library.scripts) {
+        if (!html.includes(url)) {
+          head.push(`<script src="${this.escapeHtml(url)}"></script>`);
+        }
+      }
+    }
+
+    if (css.trim()) {
+      head.push(`<style>\n${css.replace(/<\/style/gi, '<\\/style')}\n</style>`);
+    }
+
+    const body: string[] = [html];
+
+    if (js.trim()) {
+      body.push(`<script>\n${js.replace(/<\/script/gi, '<\\/script')}\n</script>`);
+    }
+
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      ...head,
+      '</head>',
+      '<body>',
+      ...body,
+      '</body>',
+      '</html>',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * Minify JavaScript with terser
+   * terser is an optional peer dependency, loaded on demand so it is only needed when minifying
+   * @param js JavaScript source
+   * @returns Promise resolving to minified JavaScript
+   * @throws AppError with INITIALIZATION type if terser cannot be loaded
+   * @throws AppError with VALIDATION type if the source cannot be parsed
+   * @private
+   */
+  private async minifyJs(js: string): Promise<string> {
+    if (!js.trim()) {
+      return '';
+    }
+
+    let minify: typeof import('terser').minify;
+    try {
+      ({ minify } = await import('terser'));
+    } catch (error) {
+      throw new AppError(
+        ErrorType.INITIALIZATION,
+        `JavaScript minification requires the 'terser' package: ${error instanceof Error ? error.message : String(error)}`,
+        { originalError: error }
+      );
+    }
+
+    try {
+      const result = await minify(js, { compress: true, mangle: true });
+      return result.code ?? '';
+    } catch (error) {
+      // terser reports the position of parse errors as line and col
+      const position: { line?: number; col?: number } = typeof error === 'object' && error !== null ? error : {};
+      throw new AppError(
+        ErrorType.VALIDATION,
+        `Failed to minify JavaScript: ${error instanceof Error ? error.message : String(error)}`,
+        { line: position.line, column: position.col, originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Minify CSS by removing comments and collapsing whitespace
+   * Quoted strings and url() values are kept as written.
+   * @param css CSS source
+   * @returns Minified CSS
+   * @private
+   */
+  private minifyCss(css: string): string {
+    const preserved: string[] = [];
+    const token = /\/\*[\s\S]*?\*\/|"(?:[^"\\]|\\[\s\S])*"|'(?:[^'\\]|\\[\s\S])*'|url\([^)"']*\)/gi;
+
+    // Preserved text is swapped for NUL-delimited indexes while minifying
+    return css
+      .replace(token, match => {
+        if (match.startsWith('/*')) return '';
+        preserved.push(match);
+        return `\0${preserved.length - 1}\0`;
+      })
+      .replace(/\s+/g, ' ')
+      .replace(/\s*([{};,>])\s*/g, '$1')
+      .replace(/;}/g, '}')
+      .trim()
+      .split('\0')
+      .map((part, index) => (index % 2 === 1 ? preserved[Number(part)] : part))
+      .join('');
+  }
+
+  /**
+   * Escape text for use in HTML content and attributes
+   * @param text Text to escape
+   * @returns Escaped text
+   * @private
+   */
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Make text safe to place inside an HTML comment
+   * @param text Comment text
+   * @returns Text without comment delimiters
+   * @private
+   */
+  private escapeComment(text: string): string {
+    return text.replace(/--+/g, '-').replace(/>/g, '&gt;');
+  }
+}
@@ -0,0 +1,77 @@
+import { ComponentMetadata } from '../models/ComponentMetadata';
+import { HtmlBundleContent } from './IHtmlBundler';
+
+/**
+ * Options for exporting components as an IMS Common Cartridge
+ */
+export interface CommonCartridgeOptions {
+  /**
+   * Cartridge title (defaults to the component name for a single component)
+   */
+  title?: string;
+
+  /**
+   * Manifest identifier (defaults to a generated identifier)
+   */
+  identifier?: string;
+
+  /**
+   * Minify each component's JavaScript and CSS
+   */
+  minify?: boolean;
+
+  /**
+   * API keys by library ID, for libraries whose URLs require one
+   */
+  apiKeys?: Record<string, string>;
+}
+
+/**
+ * A component packaged as a cartridge web content resource
+ */
+export interface CartridgeResourceMetadata {
+  /**
+   * Component metadata; the name becomes the title and the tags become keywords
+   */
+  component: ComponentMetadata;
+
+  /**
+   * The component bundled as a single HTML file
+   */
+  bundle: HtmlBundleContent;
+}
+
+/**
+ * A generated cartridge
+ */
+export interface CommonCartridgeResult {
+  /**
+   * Suggested file name, ending in .imscc
+   */
+  fileName: string;
+
+  /**
+   * Bytes of the .imscc zip package
+   */
+  data: Uint8Array;
+
+  /**
+   * The imsmanifest.xml written into the package
+   */
+  manifestXml: string;
+}
+
+/**
+ * Common Cartridge Builder Interface
+ * Packages bundled components as an IMS Common Cartridge 1.3
+ */
+export interface ICommonCartridgeBuilder {
+  /**
+   * Build a cartridge containing one web content resource per component
+   * @param resources Bundled components, in the order they appear in the course
+   * @param options Cartridge options
+   * @returns The generated cartridge
+   * @throws AppError with type ErrorType.VALIDATION if no resources are given
+   */
+  build(resources: CartridgeResourceMetadata[], options?: CommonCartridgeOptions): CommonCartridgeResult;
+}
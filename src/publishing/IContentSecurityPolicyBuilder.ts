@@ -0,0 +1,35 @@
+/**
+ * Options for deriving a Content Security Policy
+ */
+export interface ContentSecurityPolicyOptions {
+  /**
+   * Additional URLs or origins to allow, e.g. where locally served assets come from
+   */
+  additionalSources?: string[];
+}
+
+/**
+ * Content Security Policy Builder Interface
+ * Derives a policy that lets a component load only its declared external dependencies
+ */
+export interface IContentSecurityPolicyBuilder {
+  /**
+   * Build a policy for component code
+   * Scripts, styles, images, fonts and connections are allowed from the origins of the
+   * declared and detected libraries; inline code is allowed, everything else is blocked.
+   * @param code Component HTML and JavaScript, scanned for library usage
+   * @param dependencies Declared dependencies (library IDs or absolute URLs)
+   * @param options Policy options
+   * @returns Serialized policy
+   * @throws AppError with type ErrorType.VALIDATION if a dependency cannot be resolved
+   */
+  build(code: string, dependencies?: string[], options?: ContentSecurityPolicyOptions): string;
+
+  /**
+   * Get a meta tag that applies a policy to an HTML document
+   * Must precede any element the policy should govern.
+   * @param policy Serialized policy
+   * @returns Meta tag markup
+   */
+  getMetaTag(policy: string): string;
+}
@@ -0,0 +1,70 @@
+import { StorageComponentContent } from '../models/index';
+
+/**
+ * Options for bundling a component into a single HTML file
+ */
+export interface HtmlBundleOptions {
+  /**
+   * Document title (defaults to 'Component')
+   */
+  title?: string;
+
+  /**
+   * Minify JavaScript with terser and strip CSS comments and whitespace
+   * Requires the optional 'terser' peer dependency.
+   */
+  minify?: boolean;
+
+  /**
+   * API keys by library ID, for libraries whose URLs require one
+   */
+  apiKeys?: Record<string, string>;
+
+  /**
+   * Text identifying the source in the header comment (e.g. the component ID)
+   */
+  sourceLabel?: string;
+
+  /**
+   * Add a Content Security Policy meta tag allowing only the referenced libraries (defaults to true)
+   */
+  contentSecurityPolicy?: boolean;
+}
+
+/**
+ * A bundled single-file HTML document
+ */
+export interface HtmlBundleContent {
+  /**
+   * Complete HTML document, starting with the header comment
+   */
+  html: string;
+
+  /**
+   * SHA-256 hex digest of the document after the header comment
+   */
+  contentHash: string;
+
+  /**
+   * IDs of the external libraries referenced by the document
+   */
+  libraries: string[];
+}
+
+/**
+ * HTML Bundler Interface
+ * Turns component content into a self-contained HTML document
+ */
+export interface IHtmlBundler {
+  /**
+   * Bundle component content into a single HTML document
+   * CSS and JavaScript are inlined; external libraries are referenced from their CDN URLs.
+   * Libraries are taken from content.metadata.libraries and detected from the code, and
+   * unless disabled, a Content Security Policy restricts the document to those libraries.
+   * @param content Component content
+   * @param options Bundle options
+   * @returns Promise resolving to the bundled document
+   * @throws AppError with type ErrorType.VALIDATION if a library cannot be resolved or the JavaScript cannot be minified
+   */
+  bundle(content: StorageComponentContent, options?: HtmlBundleOptions): Promise<HtmlBundleContent>;
+}
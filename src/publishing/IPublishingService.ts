@@ -0,0 +1,28 @@
+import { HtmlBundleContent, HtmlBundleOptions } from './IHtmlBundler';
+import { CommonCartridgeOptions, CommonCartridgeResult } from './ICommonCartridgeBuilder';
+
+/**
+ * Publishing Service Interface
+ * Produces the artifacts uploaded to or pasted into Blackboard from stored components
+ */
+export interface IPublishingService {
+  /**
+   * Bundle a stored component into a self-contained HTML file
+   * The title defaults to the component name and the header comment names the component ID.
+   * @param id Component ID
+   * @param options Bundle options
+   * @returns Promise resolving to the bundled document
+   * @throws AppError with type ErrorType.STORAGE if the component is not found or ErrorType.VALIDATION if it cannot be bundled
+   */
+  publishHtml(id: string, options?: HtmlBundleOptions): Promise<HtmlBundleContent>;
+
+  /**
+   * Package stored components as an IMS Common Cartridge (.imscc)
+   * Each component becomes a web content resource titled with its name and tagged with its tags.
+   * @param ids IDs of the components to include, in course order
+   * @param options Cartridge options
+   * @returns Promise resolving to the generated cartridge
+   * @throws AppError with type ErrorType.STORAGE if a component is not found or ErrorType.VALIDATION if it cannot be bundled
+   */
+  exportCartridge(ids: string[], options?: CommonCartridgeOptions): Promise<CommonCartridgeResult>;
+}
@@ -0,0 +1,120 @@
+import { IPublishingService } from './IPublishingService';
+import { IHtmlBundler, HtmlBundleContent, HtmlBundleOptions } from './IHtmlBundler';
+import { HtmlBundler } from './HtmlBundler';
+import {
+  ICommonCartridgeBuilder,
+  CartridgeResourceMetadata,
+  CommonCartridgeOptions,
+  CommonCartridgeResult
+} from './ICommonCartridgeBuilder';
+import { CommonCartridgeBuilder } from './CommonCartridgeBuilder';
+import { IStorageService } from '../services/IStorageService';
+import { IErrorHandler, AppError, ErrorType } from '../errors/IErrorHandler';
+import { ComponentMetadata } from '../models/ComponentMetadata';
+
+/**
+ * Publishing Service implementation
+ * Loads components from storage and turns them into publishable artifacts
+ */
+export class PublishingService implements IPublishingService {
+  /**
+   * Creates a new PublishingService
+   * @param storageService Storage service to load components from
+   * @param errorHandler The error handler for error management
+   * @param htmlBundler Bundler for single-file HTML output
+   * @param cartridgeBuilder Builder for Common Cartridge packages
+   */
+  constructor(
+    private storageService: IStorageService,
+    private errorHandler: IErrorHandler,
+    private htmlBundler: IHtmlBundler = new HtmlBundler(),
+    private cartridgeBuilder: ICommonCartridgeBuilder = new CommonCartridgeBuilder()
+  ) {}
+
+  /**
+   * Bundle a stored component into a self-contained HTML file
+   * @param id Component ID
+   * @param options Bundle options
+   * @returns Promise resolving to the bundled document
+   * @throws AppError with STORAGE type if the component is not found or VALIDATION type if it cannot be bundled
+   */
+  public async publishHtml(id: string, options: HtmlBundleOptions = {}): Promise<HtmlBundleContent> {
+    try {
+      return await this.bundleComponent(this.findComponent(id), options);
+    } catch (error) {
+      const appError = error instanceof AppError ? error :
+        new AppError(
+          ErrorType.RUNTIME,
+          `Failed to publish component: ${id}`,
+          error
+        );
+      this.errorHandler.handle(appError);
+      throw appError;
+    }
+  }
+
+  /**
+   * Package stored components as an IMS Common Cartridge (.imscc)
+   * @param ids IDs of the components to include, in course order
+   * @param options Cartridge options
+   * @returns Promise resolving to the generated cartridge
+   * @throws AppError with STORAGE type if a component is not found or VALIDATION type if it cannot be bundled
+   */
+  public async exportCartridge(ids: string[], options: CommonCartridgeOptions = {}): Promise<CommonCartridgeResult> {
+    try {
+      const resources: CartridgeResourceMetadata[] = [];
+
+      for (const id of ids) {
+        const component = this.findComponent(id);
+        resources.push({
+          component,
+          bundle: await this.bundleComponent(component, { minify: options.minify, apiKeys: options.apiKeys })
+        });
+      }
+
+      return this.cartridgeBuilder.build(resources, options);
+    } catch (error) {
+      const appError = error instanceof AppError ? error :
+        new AppError(
+          ErrorType.RUNTIME,
+          'Failed to export cartridge',
+          error
+        );
+      this.errorHandler.handle(appError);
+      throw appError;
+    }
+  }
+
+  /**
+   * Find a stored component's metadata
+   * @param id Component ID
+   * @returns Component metadata
+   * @throws AppError with STORAGE type if the component is not found
+   * @private
+   */
+  private findComponent(id: string): ComponentMetadata {
+    const metadata = this.storageService.getAllLocalComponents().find(c => c.id === id);
+    if (!metadata) {
+      throw new AppError(
+        ErrorType.STORAGE,
+        `Component not found: ${id}`
+      );
+    }
+    return metadata;
+  }
+
+  /**
+   * Bundle a stored component, titled with its name and labelled with its ID
+   * @param metadata Component metadata
+   * @param options Bundle options, overriding the defaults
+   * @returns Promise resolving to the bundled document
+   * @private
+   */
+  private async bundleComponent(metadata: ComponentMetadata, options: HtmlBundleOptions): Promise<HtmlBundleContent> {
+    return this.htmlBundler.bundle(this.storageService.readComponent(metadata.id), {
+      title: metadata.name,
+      sourceLabel: metadata.id,
+      ...options
+    });
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { CommonCartridgeBuilder, COMMON_CARTRIDGE_SCHEMA } from '../CommonCartridgeBuilder';
+import { CartridgeResourceMetadata } from '../ICommonCartridgeBuilder';
+import { ErrorType } from '../../errors/IErrorHandler';
+
+/**
+ * List the file names in a zip archive from its central directory
+ */
+function listZip(bytes: Uint8Array): string[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - 22;
+  let position = view.getUint32(end + 16, true);
+  const names: string[] = [];
+
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    const nameLength = view.getUint16(position + 28, true);
+    names.push(new TextDecoder().decode(bytes.subarray(position + 46, position + 46 + nameLength)));
+    position += 46 + nameLength;
+  }
+
+  return names;
+}
+
+describe('CommonCartridgeBuilder', () => {
+  const bundle = (html: string) => ({ html, contentHash: 'hash', libraries: [] });
+
+  const graph: CartridgeResourceMetadata = {
+    component: { id: 'graph', name: 'Graph & Table', locationType: 'local', tags: ['algebra', 'functions'] },
+    bundle: bundle('<p>graph</p>')
+  };
+
+  const quiz: CartridgeResourceMetadata = {
+    component: { id: '1 quiz', name: 'Quiz', locationType: 'local', tags: ['algebra'] },
+    bundle: bundle('<p>quiz</p>')
+  };
+
+  it('should write a CC 1.3 manifest titled after a single component', () => {
+    // Act
+    const result = new CommonCartridgeBuilder().build([graph], { identifier: 'course-101' });
+    const manifest = new DOMParser().parseFromString(result.manifestXml, 'application/xml');
+
+    // Assert
+    expect(manifest.getElementsByTagName('parsererror')).toHaveLength(0);
+    expect(manifest.documentElement.getAttribute('identifier')).toBe('course-101');
+    expect(manifest.documentElement.namespaceURI).toBe(COMMON_CARTRIDGE_SCHEMA.IMSCP);
+    expect(manifest.getElementsByTagName('schemaversion')[0].textContent).toBe('1.3.0');
+    expect(result.fileName).toBe('Graph-Table.imscc');
+
+    const title = manifest.getElementsByTagNameNS(COMMON_CARTRIDGE_SCHEMA.LOM_MANIFEST, 'title')[0];
+    expect(title.textContent?.trim()).toBe('Graph & Table');
+  });
+
+  it('should add a webcontent resource and organization item per component', () => {
+    // Act
+    const result = new CommonCartridgeBuilder().build([graph, quiz], { title: 'Unit 1' });
+    const manifest = new DOMParser().parseFromString(result.manifestXml, 'application/xml');
+
+    // Assert
+    const resources = Array.from(manifest.getElementsByTagName('resource'));
+    expect(resources.map(r => [r.getAttribute('identifier'), r.getAttribute('type'), r.getAttribute('href')])).toEqual([
+      ['RES_graph', 'webcontent', 'graph/index.html'],
+      ['RES__1_quiz', 'webcontent', '_1_quiz/index.html']
+    ]);
+
+    const items = Array.from(manifest.querySelectorAll('item[identifierref]'));
+    expect(items.map(i => [i.getAttribute('identifierref'), i.querySelector('title')?.textContent])).toEqual([
+      ['RES_graph', 'Graph & Table'],
+      ['RES__1_quiz', 'Quiz']
+    ]);
+
+    expect(listZip(result.data)).toEqual(['imsmanifest.xml', 'graph/index.html', '_1_quiz/index.html']);
+  });
+
+  it('should write tags as keywords on resources and the cartridge', () => {
+    // Act
+    const result = new CommonCartridgeBuilder().build([graph, quiz]);
+    const manifest = new DOMParser().parseFromString(result.manifestXml, 'application/xml');
+    const keywords = (namespace: string, root: Element | Document) =>
+      Array.from(root.getElementsByTagNameNS(namespace, 'keyword')).map(k => k.textContent?.trim());
+
+    // Assert
+    expect(keywords(COMMON_CARTRIDGE_SCHEMA.LOM_MANIFEST, manifest)).toEqual(['algebra', 'functions']);
+    const resource = manifest.getElementsByTagName('resource')[1];
+    expect(keywords(COMMON_CARTRIDGE_SCHEMA.LOM_RESOURCE, resource)).toEqual(['algebra']);
+  });
+
+  it('should keep identifiers unique when component IDs sanitize to the same value', () => {
+    // Act
+    const result = new CommonCartridgeBuilder().build([
+      { ...graph, component: { ...graph.component, id: 'a b' } },
+      { ...quiz, component: { ...quiz.component, id: 'a/b' } }
+    ]);
+
+    // Assert
+    expect(listZip(result.data)).toEqual(['imsmanifest.xml', 'a_b/index.html', 'a_b_2/index.html']);
+  });
+
+  it('should reject empty cartridges', () => {
+    expect(() => new CommonCartridgeBuilder().build([])).toThrow(
+      expect.objectContaining({ type: ErrorType.VALIDATION })
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { ContentSecurityPolicyBuilder } from '../ContentSecurityPolicyBuilder';
+import { ErrorType } from '../../errors/IErrorHandler';
+
+describe('ContentSecurityPolicyBuilder', () => {
+  it('should deny everything but inline code when there are no dependencies', () => {
+    // Arrange
+    const builder = new ContentSecurityPolicyBuilder();
+
+    // Act
+    const policy = builder.build('<div id="app"></div>');
+
+    // Assert
+    expect(policy).toBe(
+      "default-src 'none'; script-src 'unsafe-inline'; style-src 'unsafe-inline'; img-src data: blob:; " +
+      "font-src data:; connect-src 'none'; base-uri 'none'; form-action 'none'"
+    );
+  });
+
+  it('should allow the origins of declared and detected libraries', () => {
+    // Arrange
+    const builder = new ContentSecurityPolicyBuilder();
+
+    // Act
+    const policy = builder.build(
+      'new GGBApplet({}).inject("ggb");',
+      ['desmos', 'https://example.com/lib.js']
+    );
+
+    // Assert
+    const origins = 'https://www.desmos.com https://example.com https://www.geogebra.org https://cdn.geogebra.org';
+    expect(policy).toContain(`script-src 'unsafe-inline' ${origins};`);
+    expect(policy).toContain(`connect-src ${origins};`);
+    expect(policy).not.toContain('{apiKey}');
+  });
+
+  it('should resolve additional sources to origins', () => {
+    // Arrange
+    const builder = new ContentSecurityPolicyBuilder();
+
+    // Act
+    const policy = builder.build('', [], { additionalSources: ['/vendor/', 'javascript:void(0)'] });
+
+    // Assert
+    expect(policy).toContain(`script-src 'unsafe-inline' ${window.location.origin};`);
+    expect(policy).not.toContain('javascript:');
+  });
+
+  it('should reject unknown dependencies', () => {
+    // Arrange
+    const builder = new ContentSecurityPolicyBuilder();
+
+    // Act & Assert
+    expect(() => builder.build('', ['plotly'])).toThrow(expect.objectContaining({ type: ErrorType.VALIDATION }));
+  });
+
+  it('should escape the policy in the meta tag', () => {
+    // Arrange
+    const builder = new ContentSecurityPolicyBuilder();
+
+    // Act
+    const tag = builder.getMetaTag("script-src 'self' \"x\"");
+
+    // Assert
+    expect(tag).toBe('<meta http-equiv="Content-Security-Policy" content="script-src \'self\' &quot;x&quot;">');
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, vi } from 'vitest';
+import { HtmlBundler } from '../HtmlBundler';
+import { ExternalLibraryRegistry } from '../ExternalLibraryRegistry';
+import { ErrorType } from '../../errors/IErrorHandler';
+import { StorageComponentContent } from '../../models/index';
+import { sha256Hex } from '../../utils/contentHash';
+
+describe('HtmlBundler', () => {
+  const content: StorageComponentContent = {
+    html: '<div id="app"></div>',
+    css: '/* layout */\n#app {\n  height: 400px;\n}\n',
+    js: 'const message = "</script>";\ndocument.getElementById("app").textContent = message;'
+  };
+
+  it('should inline CSS and JavaScript into a single document', async () => {
+    // Arrange
+    const bundler = new HtmlBundler();
+
+    // Act
+    const result = await bundler.bundle(content, { title: 'Graph <1>' });
+
+    // Assert
+    expect(result.html).toMatch(/^<!-- Published with DevPreview \| sha256: [0-9a-f]{64} -->\n<!DOCTYPE html>/);
+    expect(result.html).toContain('<title>Graph &lt;1&gt;</title>');
+    expect(result.html).toContain('<style>\n/* layout */');
+    expect(result.html).toContain('<body>\n<div id="app"></div>\n<script>');
+    expect(result.html).toContain('const message = "<\\/script>";');
+    expect(result.libraries).toEqual([]);
+  });
+
+  it('should hash the document after the header comment', async () => {
+    // Arrange
+    const bundler = new HtmlBundler();
+
+    // Act
+    const result = await bundler.bundle(content, { sourceLabel: 'graph' });
+
+    // Assert
+    const [header, ...rest] = result.html.split('\n');
+    expect(header).toBe(`<!-- Published with DevPreview | source: graph | sha256: ${result.contentHash} -->`);
+    expect(result.contentHash).toBe(await sha256Hex(rest.join('\n')));
+  });
+
+  // #region External libraries
+
+  it('should reference declared and detected libraries', async () => {
+    // Arrange
+    const bundler = new HtmlBundler();
+
+    // Act
+    const result = await bundler.bundle({
+      html: '<div id="ggb"></div>',
+      css: '',
+      js: 'katex.render("x^2", el); new GGBApplet({}).inject("ggb");',
+      metadata: { libraries: ['https://example.com/lib.js', 'mathjax'] }
+    });
+
+    // Assert
+    expect(result.libraries).toEqual(['https://example.com/lib.js', 'mathjax', 'geogebra', 'katex']);
+    expect(result.html).toContain('<script src="https://example.com/lib.js"></script>');
+    expect(result.html).toContain('<script src="https://www.geogebra.org/apps/deployggb.js"></script>');
+    expect(result.html).toContain('<link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/katex@0.16/dist/katex.min.css">');
+  });
+
+  it('should not repeat libraries the HTML already loads', async () => {
+    // Arrange
+    const bundler = new HtmlBundler();
+    const tag = '<script src="https://www.geogebra.org/apps/deployggb.js"></script>';
+
+    // Act
+    const result = await bundler.bundle({ html: tag, css: '', js: 'new GGBApplet({});' });
+
+    // Assert
+    expect(result.html.split(tag)).toHaveLength(2);
+  });
+
+  it('should fill in API keys and require them when missing', async () => {
+    // Arrange
+    const bundler = new HtmlBundler();
+    const desmos: StorageComponentContent = { html: '', css: '', js: 'Desmos.GraphingCalculator(el);' };
+
+    // Act
+    const result = await bundler.bundle(desmos, { apiKeys: { desmos: 'key 1' } });
+
+    // Assert
+    expect(result.html).toContain('calculator.js?apiKey=key%201');
+    await expect(bundler.bundle(desmos)).rejects.toMatchObject({
+      type: ErrorType.VALIDATION,
+      message: 'An API key is required for external library: desmos'
+    });
+  });
+
+  it('should reject unknown library IDs', async () => {
+    // Arrange
+    const bundler = new HtmlBundler(new ExternalLibraryRegistry([]));
+
+    // Act & Assert
+    await expect(bundler.bundle({ html: '', css: '', js: '', metadata: { libraries: ['jquery'] } }))
+      .rejects.toMatchObject({ type: ErrorType.VALIDATION, details: { libraryId: 'jquery' } });
+  });
+
+  // #endregion
+
+  // #region Content Security Policy
+
+  it('should restrict the document to its libraries', async () => {
+    // Arrange
+    const bundler = new HtmlBundler();
+
+    // Act
+    const result = await bundler.bundle({ html: '', css: '', js: 'katex.render("x", el);' });
+
+    // Assert
+    expect(result.html).toContain(
+      '<meta charset="utf-8">\n<meta http-equiv="Content-Security-Policy" content="default-src \'none\'; ' +
+      'script-src \'unsafe-inline\' https://cdn.jsdelivr.net;'
+    );
+  });
+
+  it('should omit the policy when disabled', async () => {
+    // Arrange
+    const bundler = new HtmlBundler();
+
+    // Act
+    const result = await bundler.bundle(content, { contentSecurityPolicy: false });
+
+    // Assert
+    expect(result.html).not.toContain('Content-Security-Policy');
+  });
+
+  // #endregion
+
+  // #region Minification
+
+  it('should minify CSS and JavaScript', async () => {
+    // Arrange
+    const bundler = new HtmlBundler();
+
+    // Act
+    const result = await bundler.bundle({
+      html: '',
+      css: '/* layout */\n#app > p {\n  color: red;\n  margin: 0;\n}\n',
+      js: 'function greet(name) {\n  return "Hello, " + name;\n}\nconsole.log(greet("world"));'
+    }, { minify: true });
+
+    // Assert
+    expect(result.html).toContain('<style>\n#app>p{color: red;margin: 0}\n</style>');
+    expect(result.html).not.toContain('function greet(name)');
+    expect(result.html).toContain('console.log');
+  });
+
+  it('should keep quoted strings and url() values when minifying CSS', async () => {
+    // Arrange
+    const bundler = new HtmlBundler();
+    const css = [
+      'a::after {',
+      '  content: "not a comment */  ;  }";',
+      "  font-family: 'Open   Sans', serif;",
+      '  background: url(https://cdn.example.com/*/icon.png) , url("a  b.png");',
+      '}'
+    ].join('\n');
+
+    // Act
+    const result = await bundler.bundle({ html: '', css, js: '' }, { minify: true });
+
+    // Assert
+    expect(result.html).toContain(
+      'a::after{content: "not a comment */  ;  }";' +
+      "font-family: 'Open   Sans',serif;" +
+      'background: url(https://cdn.example.com/*/icon.png),url("a  b.png")}'
+    );
+  });
+
+  it('should report JavaScript syntax errors when minifying', async () => {
+    // Arrange
+    const bundler = new HtmlBundler();
+
+    // Act & Assert
+    await expect(bundler.bundle({ html: '', css: '', js: 'let x = ;' }, { minify: true }))
+      .rejects.toMatchObject({
+        type: ErrorType.VALIDATION,
+        details: { line: 1, column: expect.any(Number) }
+      });
+  });
+
+  it('should report a missing terser separately from syntax errors', async () => {
+    // Arrange
+    vi.doMock('terser', () => {
+      throw new Error("Cannot find package 'terser'");
+    });
+    const bundler = new HtmlBundler();
+
+    // Act & Assert
+    try {
+      await expect(bundler.bundle({ html: '', css: '', js: 'let x = 1;' }, { minify: true }))
+        .rejects.toMatchObject({
+          type: ErrorType.INITIALIZATION,
+          message: expect.stringContaining("requires the 'terser' package")
+        });
+    } finally {
+      vi.doUnmock('terser');
+    }
+  });
+
+  // #endregion
+});
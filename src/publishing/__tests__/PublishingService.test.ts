@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PublishingService } from '../PublishingService';
+import { StorageService } from '../../services/StorageService';
+import { IStorageAdapter } from '../../adapters/IStorageAdapter';
+import { IErrorHandler, ErrorType } from '../../errors/IErrorHandler';
+
+/**
+ * In-memory storage adapter that serializes like localStorage
+ */
+class MemoryStorageAdapter implements IStorageAdapter {
+  public items = new Map<string, string>();
+
+  getItem<T>(key: string): T | null {
+    const item = this.items.get(key);
+    return item !== undefined ? JSON.parse(item) : null;
+  }
+
+  setItem<T>(key: string, value: T): boolean {
+    this.items.set(key, JSON.stringify(value));
+    return true;
+  }
+
+  removeItem(key: string): boolean {
+    this.items.delete(key);
+    return true;
+  }
+
+  clear(): boolean {
+    this.items.clear();
+    return true;
+  }
+
+  hasItem(key: string): boolean {
+    return this.items.has(key);
+  }
+}
+
+describe('PublishingService', () => {
+  let errorHandler: IErrorHandler;
+  let storageService: StorageService;
+  let service: PublishingService;
+
+  beforeEach(() => {
+    errorHandler = {
+      handle: vi.fn(),
+      createAndHandle: vi.fn(),
+      handleIframeError: vi.fn(),
+      handleMathApiError: vi.fn(),
+      attemptRecovery: vi.fn()
+    };
+
+    storageService = new StorageService(new MemoryStorageAdapter(), errorHandler);
+    storageService.saveComponent(
+      { id: 'graph', name: 'Graph', locationType: 'local' },
+      { html: '<div id="calc"></div>', css: '', js: 'new GGBApplet({});' }
+    );
+    service = new PublishingService(storageService, errorHandler);
+  });
+
+  it('should bundle a stored component', async () => {
+    // Act
+    const result = await service.publishHtml('graph');
+
+    // Assert
+    expect(result.html).toContain('<title>Graph</title>');
+    expect(result.html).toContain('| source: graph |');
+    expect(result.libraries).toEqual(['geogebra']);
+  });
+
+  it('should leave the last edited component unchanged', async () => {
+    // Arrange
+    storageService.saveComponent({ id: 'quiz', name: 'Quiz', locationType: 'local' }, { html: '<p>Q1</p>', css: '', js: '' });
+
+    // Act
+    await service.publishHtml('graph');
+
+    // Assert
+    expect(storageService.getLastEditedComponent()?.id).toBe('quiz');
+  });
+
+  it('should let options override the defaults', async () => {
+    // Act
+    const result = await service.publishHtml('graph', { title: 'Week 3', sourceLabel: 'course-101' });
+
+    // Assert
+    expect(result.html).toContain('<title>Week 3</title>');
+    expect(result.html).toContain('| source: course-101 |');
+  });
+
+  it('should report unknown components', async () => {
+    // Act & Assert
+    await expect(service.publishHtml('missing')).rejects.toThrow('Component not found: missing');
+    expect(errorHandler.handle).toHaveBeenCalledWith(
+      expect.objectContaining({ type: ErrorType.STORAGE })
+    );
+  });
+
+  it('should report bundling failures', async () => {
+    // Arrange
+    storageService.saveComponent(
+      { id: 'calc', name: 'Calc', locationType: 'local' },
+      { html: '', css: '', js: 'Desmos.GraphingCalculator(el);' }
+    );
+
+    // Act & Assert
+    await expect(service.publishHtml('calc')).rejects.toMatchObject({ type: ErrorType.VALIDATION });
+    expect(errorHandler.handle).toHaveBeenCalledTimes(1);
+  });
+
+  it('should package stored components as a cartridge', async () => {
+    // Arrange
+    storageService.saveComponent(
+      { id: 'quiz', name: 'Quiz', locationType: 'local', tags: ['review'] },
+      { html: '<form></form>', css: '', js: '' }
+    );
+
+    // Act
+    const result = await service.exportCartridge(['quiz', 'graph'], { title: 'Week 3' });
+
+    // Assert
+    expect(result.fileName).toBe('Week-3.imscc');
+    expect(result.manifestXml.indexOf('RES_quiz')).toBeLessThan(result.manifestXml.indexOf('RES_graph'));
+    expect(result.manifestXml).toContain('<lom:string language="en">review</lom:string>');
+    expect(new TextDecoder().decode(result.data)).toContain('<title>Graph</title>');
+  });
+
+  it('should report components missing from a cartridge export', async () => {
+    // Act & Assert
+    await expect(service.exportCartridge(['graph', 'missing'])).rejects.toThrow('Component not found: missing');
+    expect(errorHandler.handle).toHaveBeenCalledTimes(1);
+  });
+});
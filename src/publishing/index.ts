@@ -0,0 +1,13 @@
+/**
+ * Publishing module exports
+ */
+
+export * from './ExternalLibraryRegistry';
+export * from './IHtmlBundler';
+export * from './HtmlBundler';
+export * from './IContentSecurityPolicyBuilder';
+export * from './ContentSecurityPolicyBuilder';
+export * from './ICommonCartridgeBuilder';
+export * from './CommonCartridgeBuilder';
+export * from './IPublishingService';
+export * from './PublishingService';
@@ -0,0 +1,449 @@
+import { IStorageService } from './IStorageService';
+import { IAutosaveController, AutosaveDraft, AutosaveOptions } from './IAutosaveController';
+import {
+  AUTOSAVE_EVENTS,
+  AutosaveDirtyChangedEvent,
+  AutosaveEvent,
+  AutosaveFailedEvent,
+  AutosaveDraftRecoveredEvent,
+  AutosaveDraftConflictEvent
+} from './events';
+import { IStorageAdapter } from '../adapters/IStorageAdapter';
+import { EditorContent, IEditor } from '../components/Editor/IEditor';
+import { IErrorHandler, AppError, ErrorType } from '../errors/IErrorHandler';
+import { IEventBus } from '../events/IEventBus';
+import { ComponentMetadata } from '../models/ComponentMetadata';
+import { StorageComponentContent } from '../models/index';
+
+/**
+ * Editor being autosaved
+ */
+interface AutosaveSession {
+  editor: IEditor;
+  metadata: ComponentMetadata;
+  contentMetadata?: Record<string, any>;
+  savedContent: EditorContent;
+  dirty: boolean;
+  unsubscribe: () => void;
+}
+
+/**
+ * Autosave Controller implementation
+ * Saves the attached editor through the storage service once changes settle,
+ * and at least every maxIntervalMs while editing continues or after a failed
+ * save. Every change is also written to a draft in the storage adapter, so it
+ * can be recovered if the page closes before the change is saved.
+ */
+export class AutosaveController implements IAutosaveController {
+  /**
+   * Prefix for draft keys
+   * @private
+   */
+  private readonly DRAFT_PREFIX = 'devpreview_autosave_draft_';
+
+  /**
+   * Default delay between the last change and saving
+   * @private
+   */
+  private readonly DEFAULT_DEBOUNCE_MS = 2000;
+
+  /**
+   * Default longest time changes stay unsaved while editing continues
+   * @private
+   */
+  private readonly DEFAULT_MAX_INTERVAL_MS = 30000;
+
+  /**
+   * Window guarded against unloading
+   * @private
+   */
+  private window: Window;
+
+  /**
+   * Attached editor, if any
+   * @private
+   */
+  private session: AutosaveSession | null = null;
+
+  /**
+   * Timer saving once changes settle
+   * @private
+   */
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Timer saving when changes have been pending for maxIntervalMs
+   * @private
+   */
+  private maxIntervalTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Creates a new AutosaveController
+   * @param storageService Storage service components are saved with
+   * @param storageAdapter The storage adapter holding drafts
+   * @param errorHandler The error handler for error management
+   * @param eventBus Event bus for publishing save status
+   * @param options Autosave options
+   */
+  constructor(
+    private storageService: IStorageService,
+    private storageAdapter: IStorageAdapter,
+    private errorHandler: IErrorHandler,
+    private eventBus: IEventBus,
+    private options: AutosaveOptions = {}
+  ) {
+    this.window = options.window || window;
+  }
+
+  /**
+   * Start autosaving an editor
+   * @param editor Editor to save
+   * @param metadata Metadata of the edited component
+   * @param contentMetadata Content metadata saved with the component
+   * @returns Function that detaches the editor
+   */
+  public attach(editor: IEditor, metadata: ComponentMetadata, contentMetadata?: Record<string, any>): () => void {
+    this.detach();
+
+    const session: AutosaveSession = {
+      editor,
+      metadata,
+      contentMetadata,
+      savedContent: editor.getContent(),
+      dirty: false,
+      unsubscribe: () => undefined
+    };
+    this.session = session;
+    session.unsubscribe = editor.addEventListener(content => this.handleChange(content));
+
+    if (this.options.guardUnload !== false) {
+      this.window.addEventListener('beforeunload', this.handleBeforeUnload);
+    }
+
+    this.recoverDraft(session);
+
+    return () => {
+      if (this.session === session) {
+        this.detach();
+      }
+    };
+  }
+
+  /**
+   * Save the attached editor's changes now
+   * @returns True if the content is saved or had no changes, false if saving failed
+   */
+  public save(): boolean {
+    this.clearTimers();
+
+    const session = this.session;
+    if (!session || !session.dirty) {
+      return true;
+    }
+
+    const componentId = session.metadata.id;
+    const savingEvent: AutosaveEvent = { componentId, timestamp: Date.now() };
+    this.eventBus.emit(AUTOSAVE_EVENTS.SAVING, savingEvent);
+
+    const content = session.editor.getContent();
+    let error: string | null = null;
+
+    try {
+      if (!this.storageService.saveComponent(session.metadata, this.createStorageContent(session, content))) {
+        error = `Failed to save component: ${componentId}`;
+      }
+    } catch (saveError) {
+      error = saveError instanceof Error ? saveError.message : String(saveError);
+      this.errorHandler.handle(
+        new AppError(
+          ErrorType.STORAGE,
+          `Failed to autosave component: ${componentId}`,
+          saveError
+        )
+      );
+    }
+
+    if (error !== null) {
+      const failedEvent: AutosaveFailedEvent = { componentId, error, timestamp: Date.now() };
+      this.eventBus.emit(AUTOSAVE_EVENTS.FAILED, failedEvent);
+
+      // Retry even if editing stops; the change stays in the draft meanwhile
+      this.maxIntervalTimer = setTimeout(() => this.save(), this.getMaxIntervalMs());
+      return false;
+    }
+
+    const previousContent = session.savedContent;
+    session.savedContent = content;
+    this.discardDraft(componentId);
+    this.setDirty(session, false);
+
+    const savedEvent: AutosaveEvent = { componentId, timestamp: Date.now() };
+    this.eventBus.emit(AUTOSAVE_EVENTS.SAVED, savedEvent);
+
+    this.storageService.flush().then(persisted => {
+      if (!persisted) {
+        this.handlePersistFailure(session, content, previousContent);
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Check whether the attached editor has unsaved changes
+   * @returns True if the content differs from the saved content
+   */
+  public isDirty(): boolean {
+    return !!this.session?.dirty;
+  }
+
+  /**
+   * Get the unsaved draft of a component
+   * @param id Component ID
+   * @returns Draft, or null if the component has none
+   */
+  public getDraft(id: string): AutosaveDraft | null {
+    return this.storageAdapter.getItem<AutosaveDraft>(this.DRAFT_PREFIX + id);
+  }
+
+  /**
+   * Delete the unsaved draft of a component
+   * @param id Component ID
+   * @returns True if the draft was deleted or did not exist
+   */
+  public discardDraft(id: string): boolean {
+    const key = this.DRAFT_PREFIX + id;
+    return !this.storageAdapter.hasItem(key) || this.storageAdapter.removeItem(key);
+  }
+
+  /**
+   * Save pending changes and stop autosaving the attached editor
+   * Changes that could not be saved stay in the draft.
+   */
+  public detach(): void {
+    if (!this.session) {
+      return;
+    }
+
+    this.save();
+    this.clearTimers();
+    this.session.unsubscribe();
+    this.session = null;
+    this.window.removeEventListener('beforeunload', this.handleBeforeUnload);
+  }
+
+  /**
+   * Track a change of the attached editor and schedule saving it
+   * @param content Content after the change
+   * @private
+   */
+  private handleChange(content: EditorContent): void {
+    const session = this.session;
+    if (!session) {
+      return;
+    }
+
+    const dirty = !this.isSameContent(content, session.savedContent);
+    this.setDirty(session, dirty);
+
+    if (!dirty) {
+      // The change returned to the saved content, e.g. by undoing
+      this.clearTimers();
+      this.discardDraft(session.metadata.id);
+      return;
+    }
+
+    this.writeDraft(session, content);
+
+    if (this.debounceTimer !== null) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => this.save(), this.options.debounceMs ?? this.DEFAULT_DEBOUNCE_MS);
+
+    if (this.maxIntervalTimer === null) {
+      this.maxIntervalTimer = setTimeout(() => this.save(), this.getMaxIntervalMs());
+    }
+  }
+
+  /**
+   * Handle a save that was accepted but failed to reach the underlying storage
+   * The changes become unsaved again and are kept in a draft until a retry succeeds.
+   * @param session Editor that was saved
+   * @param content Content that failed to persist
+   * @param previousContent Content saved before
+   * @private
+   */
+  private handlePersistFailure(session: AutosaveSession, content: EditorContent, previousContent: EditorContent): void {
+    const componentId = session.metadata.id;
+    const failedEvent: AutosaveFailedEvent = {
+      componentId,
+      error: `Failed to persist component: ${componentId}`,
+      timestamp: Date.now()
+    };
+    this.eventBus.emit(AUTOSAVE_EVENTS.FAILED, failedEvent);
+
+    // Nothing to restore if the editor was detached or saved again meanwhile
+    if (this.session !== session || session.savedContent !== content) {
+      return;
+    }
+
+    session.savedContent = previousContent;
+    const current = session.editor.getContent();
+    if (this.isSameContent(current, previousContent)) {
+      return;
+    }
+
+    this.writeDraft(session, current);
+    this.setDirty(session, true);
+
+    if (this.maxIntervalTimer === null) {
+      this.maxIntervalTimer = setTimeout(() => this.save(), this.getMaxIntervalMs());
+    }
+  }
+
+  /**
+   * Write the unsaved content of an editor to its draft
+   * @param session Attached editor
+   * @param content Unsaved content
+   * @private
+   */
+  private writeDraft(session: AutosaveSession, content: EditorContent): void {
+    const draft: AutosaveDraft = {
+      componentId: session.metadata.id,
+      content,
+      savedAt: new Date().toISOString()
+    };
+    this.storageAdapter.setItem(this.DRAFT_PREFIX + draft.componentId, draft);
+  }
+
+  /**
+   * Save before the page unloads, and ask the user to stay if that fails
+   * Arrow function so it can be added and removed as a listener.
+   * @param event Unload event
+   * @private
+   */
+  private handleBeforeUnload = (event: BeforeUnloadEvent): void => {
+    if (this.isDirty() && !this.save()) {
+      event.preventDefault();
+      // Older browsers only prompt when returnValue is set
+      event.returnValue = '';
+    }
+  };
+
+  /**
+   * Restore the draft of an attached component into its editor
+   * A draft matching the saved content is left over from a completed save and is deleted.
+   * A draft older than the component's last save, for example one left in another
+   * browser before the component was saved elsewhere, is kept and reported instead.
+   * @param session Attached editor
+   * @private
+   */
+  private recoverDraft(session: AutosaveSession): void {
+    const componentId = session.metadata.id;
+    const draft = this.getDraft(componentId);
+
+    if (!draft || this.options.recoverDrafts === false) {
+      return;
+    }
+
+    if (this.isSameContent(draft.content, session.savedContent)) {
+      this.discardDraft(componentId);
+      return;
+    }
+
+    const lastEdited = session.metadata.lastEdited ? new Date(session.metadata.lastEdited) : null;
+    if (lastEdited && new Date(draft.savedAt).getTime() < lastEdited.getTime()) {
+      const conflictEvent: AutosaveDraftConflictEvent = {
+        componentId,
+        draftSavedAt: draft.savedAt,
+        lastEdited: lastEdited.toISOString(),
+        timestamp: Date.now()
+      };
+      this.eventBus.emit(AUTOSAVE_EVENTS.DRAFT_CONFLICT, conflictEvent);
+      return;
+    }
+
+    // Restored through setContent, so the recovery can be undone and is saved like any change
+    session.editor.setContent(draft.content);
+
+    const recoveredEvent: AutosaveDraftRecoveredEvent = {
+      componentId,
+      draftSavedAt: draft.savedAt,
+      timestamp: Date.now()
+    };
+    this.eventBus.emit(AUTOSAVE_EVENTS.DRAFT_RECOVERED, recoveredEvent);
+  }
+
+  /**
+   * Create the content to save, with the content metadata and optionally the undo history
+   * @param session Attached editor
+   * @param content Editor content
+   * @returns Content for the storage service
+   * @private
+   */
+  private createStorageContent(session: AutosaveSession, content: EditorContent): StorageComponentContent {
+    const metadata = this.options.saveHistory ?
+      session.editor.saveHistory(session.contentMetadata) :
+      session.contentMetadata;
+
+    if (this.options.saveHistory) {
+      session.contentMetadata = metadata;
+    }
+
+    return metadata ? { ...content, metadata } : { ...content };
+  }
+
+  /**
+   * Update the dirty state, publishing changes
+   * @param session Attached editor
+   * @param dirty Whether the editor has unsaved changes
+   * @private
+   */
+  private setDirty(session: AutosaveSession, dirty: boolean): void {
+    if (session.dirty === dirty) {
+      return;
+    }
+
+    session.dirty = dirty;
+    const dirtyEvent: AutosaveDirtyChangedEvent = {
+      componentId: session.metadata.id,
+      dirty,
+      timestamp: Date.now()
+    };
+    this.eventBus.emit(AUTOSAVE_EVENTS.DIRTY_CHANGED, dirtyEvent);
+  }
+
+  /**
+   * Get the longest time changes stay unsaved
+   * @returns Milliseconds
+   * @private
+   */
+  private getMaxIntervalMs(): number {
+    return this.options.maxIntervalMs ?? this.DEFAULT_MAX_INTERVAL_MS;
+  }
+
+  /**
+   * Cancel scheduled saves
+   * @private
+   */
+  private clearTimers(): void {
+    if (this.debounceTimer !== null) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    if (this.maxIntervalTimer !== null) {
+      clearTimeout(this.maxIntervalTimer);
+      this.maxIntervalTimer = null;
+    }
+  }
+
+  /**
+   * Check whether two editor contents are the same
+   * @param a First content
+   * @param b Second content
+   * @returns True if every pane is equal
+   * @private
+   */
+  private isSameContent(a: EditorContent, b: EditorContent): boolean {
+    return a.html === b.html && a.css === b.css && a.js === b.js;
+  }
+}
@@ -0,0 +1,413 @@
+import { IStorageService } from './IStorageService';
+import {
+  IComponentArchiveService,
+  ArchiveImportOptions,
+  ArchiveImportPreview,
+  ArchiveImportResult,
+  ArchiveValidationIssue
+} from './IComponentArchiveService';
+import { IErrorHandler, AppError, ErrorType } from '../errors/IErrorHandler';
+import { ComponentArchive, ComponentArchiveEntry } from '../models/ComponentArchive';
+import { ComponentMetadata } from '../models/ComponentMetadata';
+import { StorageComponentContent } from '../models/index';
+
+/**
+ * Component archive format constants
+ */
+export const COMPONENT_ARCHIVE_FORMAT = {
+  /**
+   * Format identifier written to every manifest
+   */
+  NAME: 'devpreview-component-archive',
+
+  /**
+   * Format version written by this version of the service
+   */
+  VERSION: 1
+};
+
+/**
+ * Component Archive Service implementation
+ * Writes components to a single JSON archive file made of a manifest and
+ * the text assets it references, and imports such archives into storage
+ */
+export class ComponentArchiveService implements IComponentArchiveService {
+  /**
+   * Creates a new ComponentArchiveService
+   * @param storageService Storage service to export from and import into
+   * @param errorHandler The error handler for error management
+   */
+  constructor(
+    private storageService: IStorageService,
+    private errorHandler: IErrorHandler
+  ) {}
+
+  /**
+   * Bundle stored components into an archive
+   * @param ids IDs of the components to export (defaults to all local components)
+   * @returns The archive
+   * @throws AppError with STORAGE type if a component cannot be loaded
+   */
+  public exportComponents(ids?: string[]): ComponentArchive {
+    try {
+      const stored = this.storageService.getAllLocalComponents();
+      const selected = ids
+        ? ids.map(id => {
+          const metadata = stored.find(c => c.id === id);
+          if (!metadata) {
+            throw new AppError(
+              ErrorType.STORAGE,
+              `Component not found: ${id}`
+            );
+          }
+          return metadata;
+        })
+        : stored;
+
+      const archive: ComponentArchive = {
+        manifest: {
+          format: COMPONENT_ARCHIVE_FORMAT.NAME,
+          formatVersion: COMPONENT_ARCHIVE_FORMAT.VERSION,
+          exportedAt: new Date().toISOString(),
+          components: []
+        },
+        assets: {}
+      };
+
+      for (const metadata of selected) {
+        this.addToArchive(archive, metadata, this.storageService.readComponent(metadata.id));
+      }
+
+      return archive;
+    } catch (error) {
+      const appError = error instanceof AppError ? error :
+        new AppError(
+          ErrorType.STORAGE,
+          'Failed to export components',
+          error
+        );
+      this.errorHandler.handle(appError);
+      throw appError;
+    }
+  }
+
+  /**
+   * Bundle stored components into an archive file
+   * @param ids IDs of the components to export (defaults to all local components)
+   * @returns JSON text of the archive
+   * @throws AppError with STORAGE type if a component cannot be loaded
+   */
+  public exportArchive(ids?: string[]): string {
+    return JSON.stringify(this.exportComponents(ids), null, 2);
+  }
+
+  /**
+   * Parse and validate an archive file
+   * @param text JSON text of the archive
+   * @returns The validated archive
+   * @throws AppError with VALIDATION type listing every issue found
+   */
+  public parseArchive(text: string): ComponentArchive {
+    let parsed: unknown = null;
+    let issues: ArchiveValidationIssue[];
+
+    try {
+      parsed = JSON.parse(text);
+      issues = this.validateArchive(parsed);
+    } catch (error) {
+      issues = [{
+        path: '',
+        message: `is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+      }];
+    }
+
+    if (issues.length > 0) {
+      const appError = new AppError(
+        ErrorType.VALIDATION,
+        `Invalid component archive: ${issues[0].path || 'archive'} ${issues[0].message}` +
+          (issues.length > 1 ? ` (and ${issues.length - 1} more issues)` : ''),
+        { issues }
+      );
+      this.errorHandler.handle(appError);
+      throw appError;
+    }
+
+    return parsed as ComponentArchive;
+  }
+
+  /**
+   * List an archive's components and the IDs that collide with stored components
+   * @param archive Validated archive
+   * @returns Import preview
+   */
+  public previewImport(archive: ComponentArchive): ArchiveImportPreview {
+    const storedIds = this.getStoredIds();
+
+    return {
+      formatVersion: archive.manifest.formatVersion,
+      components: archive.manifest.components.map(entry => ({ id: entry.id, name: entry.name })),
+      collisions: archive.manifest.components
+        .map(entry => entry.id)
+        .filter(id => storedIds.has(id))
+    };
+  }
+
+  /**
+   * Import an archive's components into storage
+   * Collisions are resolved per component; unresolved collisions use the default resolution.
+   * Components keep their archived last edited time and do not become the last edited component.
+   * @param archive Validated archive
+   * @param options Collision handling options
+   * @returns Result per archived component, in manifest order
+   */
+  public importArchive(archive: ComponentArchive, options: ArchiveImportOptions = {}): ArchiveImportResult[] {
+    const storedIds = this.getStoredIds();
+    const archivedIds = archive.manifest.components.map(entry => entry.id);
+    const results: ArchiveImportResult[] = [];
+
+    for (const entry of archive.manifest.components) {
+      const collides = storedIds.has(entry.id);
+      const resolution = collides
+        ? options.resolutions?.[entry.id] ?? options.defaultResolution ?? 'skip'
+        : null;
+
+      if (resolution === 'skip') {
+        results.push({ sourceId: entry.id, outcome: 'skipped' });
+        continue;
+      }
+
+      const metadata: ComponentMetadata = {
+        id: entry.id,
+        name: entry.name,
+        locationType: 'local'
+      };
+
+      if (entry.tags) {
+        metadata.tags = [...entry.tags];
+      }
+
+      if (entry.lastEdited) {
+        metadata.lastEdited = new Date(entry.lastEdited);
+      }
+
+      if (resolution === 'rename') {
+        // Avoid IDs of later archived components as well as stored ones
+        const suffix = this.findFreeSuffix(entry.id, new Set([...storedIds, ...archivedIds]));
+        metadata.id = `${entry.id}-${suffix}`;
+        metadata.name = `${entry.name} (${suffix})`;
+      }
+
+      // Importing is not an edit, so the last edited component is left alone.
+      // The storage service reports its own failures.
+      if (!this.storageService.writeComponent(metadata, this.readContent(archive, entry))) {
+        results.push({ sourceId: entry.id, outcome: 'failed' });
+        continue;
+      }
+
+      storedIds.add(metadata.id);
+      results.push({
+        sourceId: entry.id,
+        componentId: metadata.id,
+        outcome: resolution === 'overwrite' ? 'overwritten'
+          : resolution === 'rename' ? 'renamed'
+          : 'created'
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Add a component's manifest entry and assets to an archive
+   * @param archive Archive being built
+   * @param metadata Component metadata
+   * @param content Component content
+   * @private
+   */
+  private addToArchive(
+    archive: ComponentArchive,
+    metadata: ComponentMetadata,
+    content: StorageComponentContent
+  ): void {
+    const folder = `components/${encodeURIComponent(metadata.id)}`;
+    const entry: ComponentArchiveEntry = {
+      id: metadata.id,
+      name: metadata.name,
+      assets: {
+        htmlPath: `${folder}/index.html`,
+        cssPath: `${folder}/style.css`,
+        jsPath: `${folder}/script.js`
+      }
+    };
+
+    if (metadata.tags) {
+      entry.tags = [...metadata.tags];
+    }
+
+    if (metadata.lastEdited) {
+      entry.lastEdited = new Date(metadata.lastEdited).toISOString();
+    }
+
+    archive.assets[entry.assets.htmlPath] = content.html || '';
+    archive.assets[entry.assets.cssPath] = content.css || '';
+    archive.assets[entry.assets.jsPath] = content.js || '';
+
+    if (content.metadata) {
+      entry.assets.metadataPath = `${folder}/metadata.json`;
+      archive.assets[entry.assets.metadataPath] = JSON.stringify(content.metadata);
+    }
+
+    archive.manifest.components.push(entry);
+  }
+
+  /**
+   * Read an archived component's content from the archive's assets
+   * @param archive Validated archive
+   * @param entry Manifest entry
+   * @returns Component content
+   * @private
+   */
+  private readContent(archive: ComponentArchive, entry: ComponentArchiveEntry): StorageComponentContent {
+    const content: StorageComponentContent = {
+      html: archive.assets[entry.assets.htmlPath],
+      css: archive.assets[entry.assets.cssPath],
+      js: archive.assets[entry.assets.jsPath]
+    };
+
+    if (entry.assets.metadataPath) {
+      content.metadata = JSON.parse(archive.assets[entry.assets.metadataPath]);
+    }
+
+    return content;
+  }
+
+  /**
+   * Validate the structure of a parsed archive
+   * @param archive Parsed archive
+   * @returns Issues found, empty if the archive is valid
+   * @private
+   */
+  private validateArchive(archive: unknown): ArchiveValidationIssue[] {
+    const issues: ArchiveValidationIssue[] = [];
+    const isObject = (value: unknown): value is Record<string, unknown> =>
+      typeof value === 'object' && value !== null && !Array.isArray(value);
+
+    if (!isObject(archive) || !isObject(archive.manifest) || !isObject(archive.assets)) {
+      return [{ path: '', message: 'must contain a manifest and an assets object' }];
+    }
+
+    const { manifest, assets } = archive;
+
+    if (manifest.format !== COMPONENT_ARCHIVE_FORMAT.NAME) {
+      issues.push({ path: 'manifest.format', message: `must be '${COMPONENT_ARCHIVE_FORMAT.NAME}'` });
+    }
+
+    if (typeof manifest.formatVersion !== 'number' || !Number.isInteger(manifest.formatVersion) ||
+        manifest.formatVersion < 1) {
+      issues.push({ path: 'manifest.formatVersion', message: 'must be a positive integer' });
+    } else if (manifest.formatVersion > COMPONENT_ARCHIVE_FORMAT.VERSION) {
+      issues.push({
+        path: 'manifest.formatVersion',
+        message: `version ${manifest.formatVersion} is newer than the supported version ${COMPONENT_ARCHIVE_FORMAT.VERSION}`
+      });
+    }
+
+    if (!Array.isArray(manifest.components)) {
+      issues.push({ path: 'manifest.components', message: 'must be an array' });
+      return issues;
+    }
+
+    const seenIds = new Set<string>();
+
+    manifest.components.forEach((entry: unknown, index: number) => {
+      const path = `manifest.components[${index}]`;
+
+      if (!isObject(entry)) {
+        issues.push({ path, message: 'must be an object' });
+        return;
+      }
+
+      if (typeof entry.id !== 'string' || entry.id === '') {
+        issues.push({ path: `${path}.id`, message: 'must be a non-empty string' });
+      } else if (seenIds.has(entry.id)) {
+        issues.push({ path: `${path}.id`, message: `duplicate component ID '${entry.id}'` });
+      } else {
+        seenIds.add(entry.id);
+      }
+
+      if (typeof entry.name !== 'string') {
+        issues.push({ path: `${path}.name`, message: 'must be a string' });
+      }
+
+      if (entry.tags !== undefined &&
+          (!Array.isArray(entry.tags) || !entry.tags.every((tag: unknown) => typeof tag === 'string'))) {
+        issues.push({ path: `${path}.tags`, message: 'must be an array of strings' });
+      }
+
+      if (entry.lastEdited !== undefined &&
+          (typeof entry.lastEdited !== 'string' || isNaN(Date.parse(entry.lastEdited)))) {
+        issues.push({ path: `${path}.lastEdited`, message: 'must be an ISO timestamp' });
+      }
+
+      if (!isObject(entry.assets)) {
+        issues.push({ path: `${path}.assets`, message: 'must be an object' });
+        return;
+      }
+
+      for (const key of ['htmlPath', 'cssPath', 'jsPath', 'metadataPath']) {
+        const assetPath = entry.assets[key];
+
+        if (assetPath === undefined && key === 'metadataPath') continue;
+
+        const asset = typeof assetPath === 'string' ? assets[assetPath] : undefined;
+
+        if (typeof asset !== 'string') {
+          issues.push({ path: `${path}.assets.${key}`, message: 'must reference a text asset in the archive' });
+        } else if (key === 'metadataPath' && !this.isJsonObject(asset)) {
+          issues.push({ path: `${path}.assets.${key}`, message: 'must reference a JSON object' });
+        }
+      }
+    });
+
+    return issues;
+  }
+
+  /**
+   * Check whether text is a JSON-encoded object
+   * @param text Text to check
+   * @returns True if the text parses to a plain object
+   * @private
+   */
+  private isJsonObject(text: string): boolean {
+    try {
+      const value = JSON.parse(text);
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Gets the IDs of all stored components
+   * @returns Set of component IDs
+   * @private
+   */
+  private getStoredIds(): Set<string> {
+    return new Set(this.storageService.getAllLocalComponents().map(c => c.id));
+  }
+
+  /**
+   * Find the lowest numeric suffix that makes an ID unique
+   * @param id Original component ID
+   * @param takenIds IDs already in use
+   * @returns Suffix number, starting at 2
+   * @private
+   */
+  private findFreeSuffix(id: string, takenIds: Set<string>): number {
+    let suffix = 2;
+    while (takenIds.has(`${id}-${suffix}`)) {
+      suffix++;
+    }
+    return suffix;
+  }
+}
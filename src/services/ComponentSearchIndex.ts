@@ -0,0 +1,330 @@
+import {
+  ComponentSearchField,
+  ComponentSearchHit,
+  ComponentSearchOptions,
+  ComponentSearchResult,
+  TagFacet
+} from './ISearchableStorageService';
+import { ComponentMetadata } from '../models/ComponentMetadata';
+import { StorageComponentContent } from '../models/index';
+
+/**
+ * Indexed form of a single component
+ */
+interface IndexedComponent {
+  metadata: ComponentMetadata;
+  tokens: Map<ComponentSearchField, Set<string>>;
+  tags: Set<string>;
+}
+
+/**
+ * Split text into lowercase word tokens
+ * @param text Text to tokenize
+ * @returns Unique tokens
+ */
+export function tokenize(text: string): string[] {
+  return Array.from(new Set(
+    text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(token => token.length > 0)
+  ));
+}
+
+/**
+ * In-memory inverted index over component metadata and content
+ * Updated incrementally as components are added and removed
+ */
+export class ComponentSearchIndex {
+  /**
+   * Search fields in the order they are reported in matchedFields
+   * @private
+   */
+  private readonly SEARCH_FIELDS: ComponentSearchField[] = ['name', 'tags', 'html', 'css', 'js'];
+
+  /**
+   * Score added per matched term in each field
+   * @private
+   */
+  private readonly FIELD_WEIGHTS: Record<ComponentSearchField, number> = {
+    name: 5,
+    tags: 4,
+    html: 1,
+    css: 1,
+    js: 1
+  };
+
+  /**
+   * Score multiplier for terms that only match as a prefix
+   * @private
+   */
+  private readonly PREFIX_MATCH_WEIGHT = 0.5;
+
+  /**
+   * Default number of results per page
+   * @private
+   */
+  private readonly DEFAULT_PAGE_SIZE = 20;
+
+  /**
+   * Indexed components keyed by ID
+   */
+  private components: Map<string, IndexedComponent> = new Map();
+
+  /**
+   * IDs of the components containing each token
+   */
+  private postings: Map<string, Set<string>> = new Map();
+
+  /**
+   * Number of indexed components
+   */
+  public get size(): number {
+    return this.components.size;
+  }
+
+  /**
+   * Add or replace a component in the index
+   * @param metadata Component metadata
+   * @param content Component content
+   */
+  public add(metadata: ComponentMetadata, content: StorageComponentContent): void {
+    this.remove(metadata.id);
+
+    const tags = metadata.tags || [];
+    const tokens = new Map<ComponentSearchField, Set<string>>([
+      ['name', new Set(tokenize(metadata.name || ''))],
+      ['tags', new Set(tokenize(tags.join(' ')))],
+      ['html', new Set(tokenize(content.html || ''))],
+      ['css', new Set(tokenize(content.css || ''))],
+      ['js', new Set(tokenize(content.js || ''))]
+    ]);
+
+    this.components.set(metadata.id, {
+      metadata: { ...metadata, tags: [...tags] },
+      tokens,
+      tags: new Set(tags.map(tag => tag.toLowerCase()))
+    });
+
+    for (const fieldTokens of tokens.values()) {
+      for (const token of fieldTokens) {
+        let ids = this.postings.get(token);
+        if (!ids) {
+          ids = new Set();
+          this.postings.set(token, ids);
+        }
+        ids.add(metadata.id);
+      }
+    }
+  }
+
+  /**
+   * Remove a component from the index
+   * @param id Component ID
+   */
+  public remove(id: string): void {
+    const entry = this.components.get(id);
+    if (!entry) return;
+
+    for (const fieldTokens of entry.tokens.values()) {
+      for (const token of fieldTokens) {
+        const ids = this.postings.get(token);
+        if (!ids) continue;
+
+        ids.delete(id);
+        if (ids.size === 0) {
+          this.postings.delete(token);
+        }
+      }
+    }
+
+    this.components.delete(id);
+  }
+
+  /**
+   * Remove every component from the index
+   */
+  public clear(): void {
+    this.components.clear();
+    this.postings.clear();
+  }
+
+  /**
+   * Search the index
+   * @param options Search options
+   * @returns Page of matching components with tag facets
+   */
+  public search(options: ComponentSearchOptions = {}): ComponentSearchResult {
+    const terms = tokenize(options.text || '');
+    const fields = options.fields && options.fields.length > 0 ? options.fields : this.SEARCH_FIELDS;
+    const requiredTags = (options.tags || []).map(tag => tag.toLowerCase());
+
+    const hits: ComponentSearchHit[] = [];
+
+    for (const id of this.findCandidates(terms)) {
+      const entry = this.components.get(id)!;
+
+      if (!requiredTags.every(tag => entry.tags.has(tag))) {
+        continue;
+      }
+
+      const hit = this.scoreComponent(entry, terms, fields);
+      if (hit) {
+        hits.push(hit);
+      }
+    }
+
+    this.sortHits(hits, options, terms.length > 0);
+
+    const pageSize = Math.max(1, Math.floor(options.pageSize ?? this.DEFAULT_PAGE_SIZE));
+    const page = Math.max(1, Math.floor(options.page ?? 1));
+    const start = (page - 1) * pageSize;
+
+    return {
+      hits: hits.slice(start, start + pageSize),
+      total: hits.length,
+      page,
+      pageSize,
+      facets: this.countTags(hits.map(hit => hit.metadata))
+    };
+  }
+
+  /**
+   * Gets tag counts across all indexed components
+   * @returns Tag facets, most common first
+   */
+  public getTagFacets(): TagFacet[] {
+    return this.countTags(Array.from(this.components.values()).map(entry => entry.metadata));
+  }
+
+  /**
+   * Find the components containing every term
+   * The last term also matches as a prefix
+   * @param terms Query terms
+   * @returns Candidate component IDs
+   * @private
+   */
+  private findCandidates(terms: string[]): Set<string> {
+    let candidates = new Set(this.components.keys());
+
+    for (let i = 0; i < terms.length; i++) {
+      const term = terms[i];
+      const isLast = i === terms.length - 1;
+      const matching = new Set<string>();
+
+      for (const [token, ids] of this.postings) {
+        if (token === term || (isLast && token.startsWith(term))) {
+          ids.forEach(id => matching.add(id));
+        }
+      }
+
+      candidates = new Set(Array.from(candidates).filter(id => matching.has(id)));
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Score a component against the query terms
+   * @param entry Indexed component
+   * @param terms Query terms
+   * @param fields Fields to match
+   * @returns Search hit, or null if a term does not match any of the fields
+   * @private
+   */
+  private scoreComponent(
+    entry: IndexedComponent,
+    terms: string[],
+    fields: ComponentSearchField[]
+  ): ComponentSearchHit | null {
+    const matchedFields = new Set<ComponentSearchField>();
+    let score = 0;
+
+    for (let i = 0; i < terms.length; i++) {
+      const term = terms[i];
+      const isLast = i === terms.length - 1;
+      let termScore = 0;
+
+      for (const field of fields) {
+        const fieldTokens = entry.tokens.get(field)!;
+
+        if (fieldTokens.has(term)) {
+          termScore += this.FIELD_WEIGHTS[field];
+          matchedFields.add(field);
+        } else if (isLast && Array.from(fieldTokens).some(token => token.startsWith(term))) {
+          termScore += this.FIELD_WEIGHTS[field] * this.PREFIX_MATCH_WEIGHT;
+          matchedFields.add(field);
+        }
+      }
+
+      if (termScore === 0) {
+        return null;
+      }
+
+      score += termScore;
+    }
+
+    return {
+      metadata: { ...entry.metadata },
+      score,
+      matchedFields: this.SEARCH_FIELDS.filter(field => matchedFields.has(field))
+    };
+  }
+
+  /**
+   * Sort hits in place
+   * @param hits Search hits
+   * @param options Search options
+   * @param hasText Whether the query had text
+   * @private
+   */
+  private sortHits(hits: ComponentSearchHit[], options: ComponentSearchOptions, hasText: boolean): void {
+    const sortBy = options.sortBy || (hasText ? 'relevance' : 'lastEdited');
+    const sortOrder = options.sortOrder || (sortBy === 'name' ? 'asc' : 'desc');
+    const direction = sortOrder === 'asc' ? 1 : -1;
+
+    const editedAt = (hit: ComponentSearchHit) =>
+      hit.metadata.lastEdited ? new Date(hit.metadata.lastEdited).getTime() : 0;
+
+    hits.sort((a, b) => {
+      let order: number;
+
+      switch (sortBy) {
+        case 'relevance':
+          order = a.score - b.score || editedAt(a) - editedAt(b);
+          break;
+        case 'name':
+          order = a.metadata.name.localeCompare(b.metadata.name);
+          break;
+        default:
+          order = editedAt(a) - editedAt(b);
+      }
+
+      return order * direction || a.metadata.id.localeCompare(b.metadata.id);
+    });
+  }
+
+  /**
+   * Count tags across components
+   * @param components Component metadata
+   * @returns Tag facets, most common first, then alphabetical
+   * @private
+   */
+  private countTags(components: ComponentMetadata[]): TagFacet[] {
+    const facets = new Map<string, TagFacet>();
+
+    for (const component of components) {
+      for (const tag of new Set(component.tags || [])) {
+        const key = tag.toLowerCase();
+        const facet = facets.get(key);
+
+        if (facet) {
+          facet.count++;
+        } else {
+          facets.set(key, { tag, count: 1 });
+        }
+      }
+    }
+
+    return Array.from(facets.values()).sort(
+      (a, b) => b.count - a.count || a.tag.localeCompare(b.tag)
+    );
+  }
+}
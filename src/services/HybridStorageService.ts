@@ -0,0 +1,143 @@
+import { IHybridStorageService } from './IHybridStorageService';
+import { IStorageService } from './IStorageService';
+import { IRemoteStorageAdapter } from '../adapters/IRemoteStorageAdapter';
+import { IErrorHandler, AppError, ErrorType } from '../errors/IErrorHandler';
+import { ComponentLocationType, ComponentMetadata } from '../models/ComponentMetadata';
+import { StorageComponentContent } from '../models/index';
+
+/**
+ * Hybrid Storage Service implementation
+ * Sends components with locationType 'local' to the local storage service
+ * and components with locationType 'remote' to the remote storage adapter
+ */
+export class HybridStorageService implements IHybridStorageService {
+  /**
+   * Creates a new HybridStorageService
+   * @param localService Storage service for local components
+   * @param remoteAdapter Adapter for the remote component store
+   * @param errorHandler The error handler for error management
+   */
+  constructor(
+    private localService: IStorageService,
+    private remoteAdapter: IRemoteStorageAdapter,
+    private errorHandler: IErrorHandler
+  ) {}
+
+  /**
+   * Saves a component to the storage matching its locationType
+   * @param metadata Component metadata
+   * @param content Component content data
+   * @returns Promise resolving to true if save was successful
+   */
+  public async saveComponent(metadata: ComponentMetadata, content: StorageComponentContent): Promise<boolean> {
+    if (metadata.locationType !== 'remote') {
+      return this.localService.saveComponent(metadata, content);
+    }
+
+    try {
+      metadata.lastEdited = new Date();
+      await this.remoteAdapter.saveComponent(metadata, content);
+      return true;
+    } catch (error) {
+      this.errorHandler.handle(
+        this.toAppError(error, `Failed to save remote component: ${metadata.id}`)
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Loads a component from the given storage location
+   * @param id Component ID
+   * @param locationType Where the component is stored
+   * @returns Promise resolving to the component content
+   * @throws AppError with STORAGE type if not found or NETWORK type if the remote request fails
+   */
+  public async loadComponent(
+    id: string,
+    locationType: ComponentLocationType = 'local'
+  ): Promise<StorageComponentContent> {
+    if (locationType !== 'remote') {
+      return this.localService.loadComponent(id);
+    }
+
+    let appError: AppError;
+    try {
+      const content = await this.remoteAdapter.loadComponent(id);
+      if (content) {
+        return content;
+      }
+
+      appError = new AppError(
+        ErrorType.STORAGE,
+        `Component not found: ${id}`,
+        { locationType }
+      );
+    } catch (error) {
+      appError = this.toAppError(error, `Failed to load remote component: ${id}`);
+    }
+
+    this.errorHandler.handle(appError);
+    throw appError;
+  }
+
+  /**
+   * Gets metadata for all local and remote components
+   * If the remote store cannot be reached, only local components are returned
+   * @returns Promise resolving to component metadata
+   */
+  public async getAllComponents(): Promise<ComponentMetadata[]> {
+    const localComponents = this.localService.getAllLocalComponents();
+
+    try {
+      const remoteComponents = await this.remoteAdapter.listComponents();
+      return [
+        ...localComponents,
+        ...remoteComponents.map(c => ({ ...c, locationType: 'remote' as const }))
+      ];
+    } catch (error) {
+      this.errorHandler.handle(
+        this.toAppError(error, 'Failed to list remote components')
+      );
+      return localComponents;
+    }
+  }
+
+  /**
+   * Deletes a component from the given storage location
+   * @param id Component ID
+   * @param locationType Where the component is stored
+   * @returns Promise resolving to true if deletion was successful
+   */
+  public async deleteComponent(
+    id: string,
+    locationType: ComponentLocationType = 'local'
+  ): Promise<boolean> {
+    if (locationType !== 'remote') {
+      return this.localService.deleteComponent(id);
+    }
+
+    try {
+      return await this.remoteAdapter.deleteComponent(id);
+    } catch (error) {
+      this.errorHandler.handle(
+        this.toAppError(error, `Failed to delete remote component: ${id}`)
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Converts an unknown error into an AppError
+   * Errors that are not already AppErrors are treated as network failures
+   * @param error The caught error
+   * @param message Message for wrapped errors
+   * @returns AppError instance
+   * @private
+   */
+  private toAppError(error: unknown, message: string): AppError {
+    return error instanceof AppError
+      ? error
+      : new AppError(ErrorType.NETWORK, message, error);
+  }
+}
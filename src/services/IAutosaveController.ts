@@ -0,0 +1,108 @@
+import { EditorContent, IEditor } from '../components/Editor/IEditor';
+import { ComponentMetadata } from '../models/ComponentMetadata';
+
+/**
+ * Configuration options for autosaving
+ */
+export interface AutosaveOptions {
+  /**
+   * Milliseconds to wait after the last change before saving (defaults to 2000)
+   */
+  debounceMs?: number;
+
+  /**
+   * Longest time changes stay unsaved while editing continues, in milliseconds (defaults to 30000)
+   */
+  maxIntervalMs?: number;
+
+  /**
+   * Ask for confirmation before leaving the page with changes that could not be saved (defaults to true)
+   */
+  guardUnload?: boolean;
+
+  /**
+   * Restore an unsaved draft into the editor when it is attached (defaults to true)
+   */
+  recoverDrafts?: boolean;
+
+  /**
+   * Save the editor's undo history with the component (defaults to false)
+   */
+  saveHistory?: boolean;
+
+  /**
+   * Window to guard against unloading (defaults to the global window)
+   */
+  window?: Window;
+}
+
+/**
+ * Unsaved editor content kept in case the page closes before it is saved
+ */
+export interface AutosaveDraft {
+  /**
+   * ID of the component the draft belongs to
+   */
+  componentId: string;
+
+  /**
+   * Unsaved content
+   */
+  content: EditorContent;
+
+  /**
+   * ISO timestamp of when the draft was written
+   */
+  savedAt: string;
+}
+
+/**
+ * Autosave Controller Interface
+ * Saves an editor's content through the storage service as it changes
+ */
+export interface IAutosaveController {
+  /**
+   * Start autosaving an editor
+   * The editor's current content is taken as saved. A draft left by an earlier
+   * session is restored into the editor unless recoverDrafts is false or the
+   * draft is older than metadata.lastEdited, which emits a draft conflict event.
+   * Attaching another editor detaches the current one.
+   * @param editor Editor to save
+   * @param metadata Metadata of the edited component
+   * @param contentMetadata Content metadata saved with the component
+   * @returns Function that detaches the editor
+   */
+  attach(editor: IEditor, metadata: ComponentMetadata, contentMetadata?: Record<string, any>): () => void;
+
+  /**
+   * Save the attached editor's changes now
+   * @returns True if the content is saved or had no changes, false if saving failed
+   */
+  save(): boolean;
+
+  /**
+   * Check whether the attached editor has unsaved changes
+   * @returns True if the content differs from the saved content
+   */
+  isDirty(): boolean;
+
+  /**
+   * Get the unsaved draft of a component
+   * @param id Component ID
+   * @returns Draft, or null if the component has none
+   */
+  getDraft(id: string): AutosaveDraft | null;
+
+  /**
+   * Delete the unsaved draft of a component
+   * @param id Component ID
+   * @returns True if the draft was deleted or did not exist
+   */
+  discardDraft(id: string): boolean;
+
+  /**
+   * Save pending changes and stop autosaving the attached editor
+   * Changes that could not be saved stay in the draft.
+   */
+  detach(): void;
+}
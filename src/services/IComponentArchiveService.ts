@@ -0,0 +1,134 @@
+import { ComponentArchive } from '../models/ComponentArchive';
+
+/**
+ * How to handle an archived component whose ID already exists locally
+ * - 'rename': import under a new ID and name
+ * - 'overwrite': replace the existing component
+ * - 'skip': keep the existing component and ignore the archived one
+ */
+export type ArchiveCollisionResolution = 'rename' | 'overwrite' | 'skip';
+
+/**
+ * A problem found while validating an archive
+ */
+export interface ArchiveValidationIssue {
+  /**
+   * Location of the problem (e.g. 'manifest.components[2].name')
+   */
+  path: string;
+
+  /**
+   * Description of the problem
+   */
+  message: string;
+}
+
+/**
+ * Summary of an archive's components before importing it
+ */
+export interface ArchiveImportPreview {
+  /**
+   * Archive format version
+   */
+  formatVersion: number;
+
+  /**
+   * IDs and names of the archived components
+   */
+  components: Array<{ id: string; name: string }>;
+
+  /**
+   * IDs of archived components that already exist locally
+   */
+  collisions: string[];
+}
+
+/**
+ * Options for importing an archive
+ */
+export interface ArchiveImportOptions {
+  /**
+   * Resolution per colliding component ID
+   */
+  resolutions?: Record<string, ArchiveCollisionResolution>;
+
+  /**
+   * Resolution for collisions without an explicit entry (defaults to 'skip')
+   */
+  defaultResolution?: ArchiveCollisionResolution;
+}
+
+/**
+ * Outcome of importing a single archived component
+ * - 'created': imported under its original ID
+ * - 'overwritten': replaced an existing component
+ * - 'renamed': imported under a new ID
+ * - 'skipped': not imported because of a collision
+ * - 'failed': could not be saved
+ */
+export type ArchiveImportOutcome = 'created' | 'overwritten' | 'renamed' | 'skipped' | 'failed';
+
+/**
+ * Result of importing a single archived component
+ */
+export interface ArchiveImportResult {
+  /**
+   * Component ID in the archive
+   */
+  sourceId: string;
+
+  /**
+   * ID the component was saved under (absent if skipped or failed)
+   */
+  componentId?: string;
+
+  /**
+   * What happened to the component
+   */
+  outcome: ArchiveImportOutcome;
+}
+
+/**
+ * Component Archive Service Interface
+ * Exports stored components to a portable archive and imports them back
+ */
+export interface IComponentArchiveService {
+  /**
+   * Bundle stored components into an archive
+   * @param ids IDs of the components to export (defaults to all local components)
+   * @returns The archive
+   * @throws AppError with type ErrorType.STORAGE if a component cannot be loaded
+   */
+  exportComponents(ids?: string[]): ComponentArchive;
+
+  /**
+   * Bundle stored components into an archive file
+   * @param ids IDs of the components to export (defaults to all local components)
+   * @returns JSON text of the archive
+   * @throws AppError with type ErrorType.STORAGE if a component cannot be loaded
+   */
+  exportArchive(ids?: string[]): string;
+
+  /**
+   * Parse and validate an archive file
+   * @param text JSON text of the archive
+   * @returns The validated archive
+   * @throws AppError with type ErrorType.VALIDATION listing every issue found
+   */
+  parseArchive(text: string): ComponentArchive;
+
+  /**
+   * List an archive's components and the IDs that collide with stored components
+   * @param archive Validated archive
+   * @returns Import preview
+   */
+  previewImport(archive: ComponentArchive): ArchiveImportPreview;
+
+  /**
+   * Import an archive's components into storage
+   * @param archive Validated archive
+   * @param options Collision handling options
+   * @returns Result per archived component, in manifest order
+   */
+  importArchive(archive: ComponentArchive, options?: ArchiveImportOptions): ArchiveImportResult[];
+}
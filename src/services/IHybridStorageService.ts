@@ -0,0 +1,40 @@
+import { ComponentLocationType, ComponentMetadata } from '../models/ComponentMetadata';
+import { StorageComponentContent } from '../models/index';
+
+/**
+ * Hybrid Storage Service Interface
+ * Routes component storage operations to local or remote storage by locationType
+ */
+export interface IHybridStorageService {
+  /**
+   * Saves a component to the storage matching its locationType
+   * @param metadata Component metadata
+   * @param content Component content data
+   * @returns Promise resolving to true if save was successful
+   */
+  saveComponent(metadata: ComponentMetadata, content: StorageComponentContent): Promise<boolean>;
+
+  /**
+   * Loads a component from the given storage location
+   * @param id Component ID
+   * @param locationType Where the component is stored
+   * @returns Promise resolving to the component content
+   * @throws AppError with type ErrorType.STORAGE if not found or ErrorType.NETWORK if the remote request fails
+   */
+  loadComponent(id: string, locationType?: ComponentLocationType): Promise<StorageComponentContent>;
+
+  /**
+   * Gets metadata for all local and remote components
+   * If the remote store cannot be reached, only local components are returned
+   * @returns Promise resolving to component metadata
+   */
+  getAllComponents(): Promise<ComponentMetadata[]>;
+
+  /**
+   * Deletes a component from the given storage location
+   * @param id Component ID
+   * @param locationType Where the component is stored
+   * @returns Promise resolving to true if deletion was successful
+   */
+  deleteComponent(id: string, locationType?: ComponentLocationType): Promise<boolean>;
+}
@@ -0,0 +1,70 @@
+import { IStorageService } from './IStorageService';
+import { IMathPreview } from '../components/Preview/IMathPreview';
+
+/**
+ * Configuration options for math state persistence
+ */
+export interface MathStateStorageOptions {
+  /**
+   * Capture a PNG thumbnail of the visualization whenever a component is saved
+   */
+  captureThumbnails?: boolean;
+
+  /**
+   * Thumbnail width in pixels (defaults to 320)
+   */
+  thumbnailWidth?: number;
+
+  /**
+   * Thumbnail height in pixels (defaults to 240)
+   */
+  thumbnailHeight?: number;
+
+  /**
+   * Most thumbnails kept in storage (defaults to 10)
+   * Thumbnails are stored under their own keys; the least recently captured ones
+   * are removed first, so they cannot fill up the storage quota.
+   */
+  maxThumbnails?: number;
+}
+
+/**
+ * Math State Storage Service Interface
+ * Extends the storage service with persistence of math API state for components
+ * edited in a math preview. State is saved under the MATH_STATE_METADATA_KEY
+ * field of the component content metadata.
+ */
+export interface IMathStateStorageService extends IStorageService {
+  /**
+   * Attach the math preview editing a component
+   * While attached, saving the component captures the preview's state and
+   * loading the component restores the saved state into the preview.
+   * @param id Component ID
+   * @param preview Math preview showing the component
+   * @returns Function that detaches the preview
+   */
+  attachPreview(id: string, preview: IMathPreview): () => void;
+
+  /**
+   * Restore the saved math state of a component into its attached preview
+   * @param id Component ID
+   * @returns Promise resolving to true if state was restored, false if there was nothing to restore
+   * @throws AppError with type ErrorType.STORAGE if the component is not found
+   * @throws AppError with type ErrorType.MATH_API if the preview rejects the state
+   */
+  restoreState(id: string): Promise<boolean>;
+
+  /**
+   * Capture and store a thumbnail of a component's attached preview
+   * @param id Component ID
+   * @returns Promise resolving to the PNG data URL, or null if no preview is attached or capture failed
+   */
+  captureThumbnail(id: string): Promise<string | null>;
+
+  /**
+   * Get the stored thumbnail of a component, for display in component lists
+   * @param id Component ID
+   * @returns PNG data URL or null if none has been captured
+   */
+  getThumbnail(id: string): string | null;
+}
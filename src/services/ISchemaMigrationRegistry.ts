@@ -0,0 +1,85 @@
+import { PersistedRecordEnvelope } from '../models/PersistedRecord';
+
+/**
+ * A single schema migration step
+ * Upgrades a record of the given type from fromVersion to fromVersion + 1
+ */
+export interface SchemaMigration {
+  /**
+   * Kind of record this migration applies to
+   */
+  recordType: string;
+
+  /**
+   * Version the migration upgrades from
+   */
+  fromVersion: number;
+
+  /**
+   * Optional human-readable description of the change
+   */
+  description?: string;
+
+  /**
+   * Transforms record data from fromVersion to fromVersion + 1
+   * Should throw if the data cannot be migrated
+   */
+  migrate: (data: unknown) => unknown;
+}
+
+/**
+ * Result of upgrading a persisted record to the current schema
+ */
+export interface SchemaMigrationResult<T> {
+  /**
+   * Record data at the current schema version
+   */
+  data: T;
+
+  /**
+   * Version the record was stored at (0 for records without an envelope)
+   */
+  fromVersion: number;
+
+  /**
+   * Version the record was upgraded to
+   */
+  toVersion: number;
+}
+
+/**
+ * Registry of ordered schema migrations for persisted records
+ */
+export interface ISchemaMigrationRegistry {
+  /**
+   * Register a migration step
+   * @param migration The migration to register
+   * @throws AppError with type ErrorType.VALIDATION if a step for the same version exists
+   */
+  register(migration: SchemaMigration): void;
+
+  /**
+   * Get the current schema version for a record type
+   * @param recordType Kind of record
+   * @returns Current schema version (0 if no migrations are registered)
+   */
+  getCurrentVersion(recordType: string): number;
+
+  /**
+   * Wrap record data in an envelope at the current schema version
+   * @param recordType Kind of record
+   * @param data Record data
+   * @returns Versioned envelope
+   */
+  wrap<T>(recordType: string, data: T): PersistedRecordEnvelope<T>;
+
+  /**
+   * Upgrade a stored record to the current schema version
+   * Records without an envelope are treated as version 0
+   * @param recordType Kind of record
+   * @param record Raw stored record
+   * @returns Migration result with the upgraded data
+   * @throws AppError with type ErrorType.STORAGE if the record cannot be migrated
+   */
+  migrate<T>(recordType: string, record: unknown): SchemaMigrationResult<T>;
+}
@@ -0,0 +1,143 @@
+import { IStorageService } from './IStorageService';
+import { ComponentMetadata } from '../models/ComponentMetadata';
+
+/**
+ * Component fields covered by full-text search
+ */
+export type ComponentSearchField = 'name' | 'tags' | 'html' | 'css' | 'js';
+
+/**
+ * Fields search results can be sorted by
+ * 'relevance' orders by match score and is only meaningful with a text query
+ */
+export type ComponentSearchSortField = 'relevance' | 'lastEdited' | 'name';
+
+/**
+ * Component search options
+ */
+export interface ComponentSearchOptions {
+  /**
+   * Free text to match; every word must match one of the searched fields
+   * The last word also matches as a prefix, to support search-as-you-type
+   */
+  text?: string;
+
+  /**
+   * Tags a component must all have (case-insensitive)
+   */
+  tags?: string[];
+
+  /**
+   * Fields to match the text against (defaults to all fields)
+   */
+  fields?: ComponentSearchField[];
+
+  /**
+   * Sort field (defaults to 'relevance' with a text query, otherwise 'lastEdited')
+   */
+  sortBy?: ComponentSearchSortField;
+
+  /**
+   * Sort direction (defaults to 'desc', except 'asc' for name)
+   */
+  sortOrder?: 'asc' | 'desc';
+
+  /**
+   * 1-based page number (defaults to 1)
+   */
+  page?: number;
+
+  /**
+   * Number of results per page (defaults to 20)
+   */
+  pageSize?: number;
+}
+
+/**
+ * A single component matching a search
+ */
+export interface ComponentSearchHit {
+  /**
+   * Metadata of the matching component
+   */
+  metadata: ComponentMetadata;
+
+  /**
+   * Match score; higher is more relevant (0 without a text query)
+   */
+  score: number;
+
+  /**
+   * Fields the text query matched
+   */
+  matchedFields: ComponentSearchField[];
+}
+
+/**
+ * Number of components carrying a tag
+ */
+export interface TagFacet {
+  /**
+   * Tag as it was first seen
+   */
+  tag: string;
+
+  /**
+   * Number of components with the tag
+   */
+  count: number;
+}
+
+/**
+ * A page of search results
+ */
+export interface ComponentSearchResult {
+  /**
+   * Matching components on the requested page
+   */
+  hits: ComponentSearchHit[];
+
+  /**
+   * Total number of matching components across all pages
+   */
+  total: number;
+
+  /**
+   * 1-based page number
+   */
+  page: number;
+
+  /**
+   * Number of results per page
+   */
+  pageSize: number;
+
+  /**
+   * Tag counts across all matching components, most common first
+   */
+  facets: TagFacet[];
+}
+
+/**
+ * Searchable Storage Service Interface
+ * Extends the storage service with full-text search and tag filtering
+ */
+export interface ISearchableStorageService extends IStorageService {
+  /**
+   * Search stored components
+   * @param options Search options
+   * @returns Page of matching components with tag facets
+   */
+  search(options?: ComponentSearchOptions): ComponentSearchResult;
+
+  /**
+   * Gets tag counts across all stored components
+   * @returns Tag facets, most common first
+   */
+  getTagFacets(): TagFacet[];
+
+  /**
+   * Rebuild the search index from storage
+   */
+  rebuildIndex(): void;
+}
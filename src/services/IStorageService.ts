@@ -14,6 +14,15 @@ export interface IStorageService {
    */
   saveComponent(metadata: ComponentMetadata, content: StorageComponentContent): boolean;
   
+  /**
+   * Writes component data to storage without marking it as last edited
+   * metadata.lastEdited is stored as given. Use for background writes such as syncing.
+   * @param metadata Component metadata
+   * @param content Component content data
+   * @returns True if the write was successful
+   */
+  writeComponent(metadata: ComponentMetadata, content: StorageComponentContent): boolean;
+  
   /**
    * Loads component data from storage
    * @param id Component ID
@@ -22,6 +31,15 @@ export interface IStorageService {
    */
   loadComponent(id: string): StorageComponentContent;
   
+  /**
+   * Reads component data from storage without marking it as last edited
+   * Use for background reads such as indexing, syncing and exporting.
+   * @param id Component ID
+   * @returns Component content or throws if not found
+   * @throws AppError with type ErrorType.STORAGE if component not found
+   */
+  readComponent(id: string): StorageComponentContent;
+  
   /**
    * Gets the last edited component
    * @returns Component metadata or null if no components exist
@@ -40,4 +58,12 @@ export interface IStorageService {
    * @returns True if deletion was successful
    */
   deleteComponent(id: string): boolean;
+  
+  /**
+   * Waits for accepted writes to reach the underlying storage
+   * Adapters that persist in the background (e.g. AsyncStorageAdapterBridge) can
+   * fail after saveComponent has returned true; this reports those failures.
+   * @returns Promise resolving to false if any write since the last flush failed
+   */
+  flush(): Promise<boolean>;
 }
\ No newline at end of file
@@ -0,0 +1,126 @@
+import { ChangeVector, ComponentSyncMetadata } from '../models/ComponentSync';
+import { StorageComponentContent } from '../models/index';
+import { MergedComponentContent } from '../utils/threeWayMerge';
+
+/**
+ * What a sync did with a component
+ * - 'none': both copies were already in sync
+ * - 'pushed': the local copy was written to the remote store
+ * - 'pulled': the remote copy was written to local storage
+ * - 'merged': concurrent edits were merged automatically
+ * - 'resolved': a conflict was settled by the resolution callback
+ * - 'conflict': a conflict was left unresolved and nothing was written
+ * - 'failed': the component could not be synchronized
+ */
+export type SyncAction = 'none' | 'pushed' | 'pulled' | 'merged' | 'resolved' | 'conflict' | 'failed';
+
+/**
+ * Outcome of synchronizing a single component
+ */
+export interface ComponentSyncResult {
+  /**
+   * ID of the synchronized component
+   */
+  componentId: string;
+
+  /**
+   * What the sync did
+   */
+  action: SyncAction;
+
+  /**
+   * Change vector of both copies after the sync, if they agree
+   */
+  vector?: ChangeVector;
+}
+
+/**
+ * Conflicting edits of a component passed to the resolution callback
+ */
+export interface SyncConflict {
+  /**
+   * ID of the conflicting component
+   */
+  componentId: string;
+
+  /**
+   * Content at the last synchronization (empty panes if never synchronized)
+   */
+  base: StorageComponentContent;
+
+  /**
+   * Current local content
+   */
+  local: StorageComponentContent;
+
+  /**
+   * Current remote content
+   */
+  remote: StorageComponentContent;
+
+  /**
+   * Three-way merge of the panes, with conflict markers where they could not be merged
+   */
+  merge: MergedComponentContent;
+}
+
+/**
+ * How to settle a conflict
+ * - 'local': keep the local content on both sides
+ * - 'remote': keep the remote content on both sides
+ * - 'merged': write the given content to both sides
+ */
+export type SyncConflictResolution =
+  | { strategy: 'local' }
+  | { strategy: 'remote' }
+  | { strategy: 'merged'; content: StorageComponentContent };
+
+/**
+ * Callback that settles a conflict
+ * Returning null leaves the conflict unresolved until the next sync.
+ */
+export type SyncConflictResolver = (
+  conflict: SyncConflict
+) => SyncConflictResolution | null | Promise<SyncConflictResolution | null>;
+
+/**
+ * Configuration options for the sync service
+ */
+export interface SyncOptions {
+  /**
+   * ID of this replica in change vectors (defaults to 'local')
+   */
+  replicaId?: string;
+
+  /**
+   * Callback used to settle conflicts that cannot be merged automatically
+   */
+  resolveConflict?: SyncConflictResolver;
+}
+
+/**
+ * Sync Service Interface
+ * Keeps the local and remote copies of components in step
+ */
+export interface ISyncService {
+  /**
+   * Synchronize a single component
+   * Pushes or pulls whichever copy is newer, and merges concurrent edits
+   * @param id Component ID
+   * @returns Promise resolving to the outcome for the component
+   */
+  sync(id: string): Promise<ComponentSyncResult>;
+
+  /**
+   * Synchronize every component that exists both locally and remotely
+   * @returns Promise resolving to the outcome for each component
+   */
+  syncAll(): Promise<ComponentSyncResult[]>;
+
+  /**
+   * Gets the state a component was last synchronized at
+   * @param id Component ID
+   * @returns Sync metadata, or null if the component was never synchronized
+   */
+  getSyncMetadata(id: string): ComponentSyncMetadata | null;
+}
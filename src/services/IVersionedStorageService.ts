@@ -0,0 +1,84 @@
+import { IStorageService } from './IStorageService';
+import { ComponentRevisionMetadata } from '../models/ComponentRevision';
+import { StorageComponentContent } from '../models/index';
+import { LineDiffEntry } from '../utils/textDiff';
+
+/**
+ * Line diffs between two revisions for each code pane
+ */
+export interface ComponentRevisionDiff {
+  /**
+   * Revision number diffed from
+   */
+  fromRevision: number;
+
+  /**
+   * Revision number diffed to
+   */
+  toRevision: number;
+
+  /**
+   * Line diff of the HTML pane
+   */
+  htmlDiff: LineDiffEntry[];
+
+  /**
+   * Line diff of the CSS pane
+   */
+  cssDiff: LineDiffEntry[];
+
+  /**
+   * Line diff of the JavaScript pane
+   */
+  jsDiff: LineDiffEntry[];
+}
+
+/**
+ * Configuration options for revision history
+ */
+export interface VersionedStorageOptions {
+  /**
+   * Maximum number of revisions kept per component (oldest are dropped first)
+   */
+  maxRevisions?: number;
+}
+
+/**
+ * Versioned Storage Service Interface
+ * Extends the storage service with per-component revision history
+ */
+export interface IVersionedStorageService extends IStorageService {
+  /**
+   * Gets the recorded revisions of a component
+   * @param id Component ID
+   * @returns Revision metadata, newest first
+   */
+  getRevisions(id: string): ComponentRevisionMetadata[];
+
+  /**
+   * Loads the content saved in a specific revision
+   * @param id Component ID
+   * @param revisionNumber Revision number
+   * @returns Revision content
+   * @throws AppError with type ErrorType.STORAGE if revision not found
+   */
+  getRevisionContent(id: string, revisionNumber: number): StorageComponentContent;
+
+  /**
+   * Diffs the html, css and js of two revisions
+   * @param id Component ID
+   * @param fromRevision Revision number to diff from
+   * @param toRevision Revision number to diff to
+   * @returns Per-pane line diffs
+   * @throws AppError with type ErrorType.STORAGE if either revision not found
+   */
+  diffRevisions(id: string, fromRevision: number, toRevision: number): ComponentRevisionDiff;
+
+  /**
+   * Restores a revision as the current component content
+   * @param id Component ID
+   * @param revisionNumber Revision number to restore
+   * @returns True if restore was successful
+   */
+  restoreRevision(id: string, revisionNumber: number): boolean;
+}
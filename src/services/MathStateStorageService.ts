@@ -0,0 +1,346 @@
+import { IStorageService } from './IStorageService';
+import { IMathStateStorageService, MathStateStorageOptions } from './IMathStateStorageService';
+import { STORAGE_EVENTS, ThumbnailCapturedEvent } from './events';
+import { IStorageAdapter } from '../adapters/IStorageAdapter';
+import { IMathPreview, MathStateMetadata, MATH_STATE_METADATA_KEY } from '../components/Preview/IMathPreview';
+import { IErrorHandler, AppError, ErrorType } from '../errors/IErrorHandler';
+import { IEventBus } from '../events/IEventBus';
+import { ComponentMetadata } from '../models/ComponentMetadata';
+import { StorageComponentContent } from '../models/index';
+
+/**
+ * Math State Storage Service implementation
+ * Decorates an IStorageService so components edited in a math preview keep
+ * their math API state (and optionally a thumbnail) across reloads
+ */
+export class MathStateStorageService implements IMathStateStorageService {
+  /**
+   * Prefix for component thumbnail keys
+   * @private
+   */
+  private readonly THUMBNAIL_PREFIX = 'devpreview_thumbnail_';
+
+  /**
+   * Storage key for the IDs of components with a thumbnail, least recently captured first
+   * @private
+   */
+  private readonly THUMBNAIL_INDEX_KEY = 'devpreview_thumbnails';
+
+  /**
+   * Default number of thumbnails kept
+   * @private
+   */
+  private readonly DEFAULT_MAX_THUMBNAILS = 10;
+
+  /**
+   * Default thumbnail size in pixels
+   * @private
+   */
+  private readonly DEFAULT_THUMBNAIL_WIDTH = 320;
+  private readonly DEFAULT_THUMBNAIL_HEIGHT = 240;
+
+  /**
+   * Math previews by component ID
+   * @private
+   */
+  private previews: Map<string, IMathPreview> = new Map();
+
+  /**
+   * Creates a new MathStateStorageService
+   * @param baseService The storage service to delegate to
+   * @param storageAdapter The storage adapter holding thumbnails
+   * @param errorHandler The error handler for error management
+   * @param eventBus Event bus for publishing thumbnail events
+   * @param options Math state persistence options
+   */
+  constructor(
+    private baseService: IStorageService,
+    private storageAdapter: IStorageAdapter,
+    private errorHandler: IErrorHandler,
+    private eventBus: IEventBus,
+    private options: MathStateStorageOptions = {}
+  ) {}
+
+  /**
+   * Attach the math preview editing a component
+   * @param id Component ID
+   * @param preview Math preview showing the component
+   * @returns Function that detaches the preview
+   */
+  public attachPreview(id: string, preview: IMathPreview): () => void {
+    this.previews.set(id, preview);
+
+    return () => {
+      if (this.previews.get(id) === preview) {
+        this.previews.delete(id);
+      }
+    };
+  }
+
+  /**
+   * Saves component data, including the math state of its attached preview
+   * The state is added to a copy of content.metadata before delegating to the base service.
+   * @param metadata Component metadata
+   * @param content Component content data
+   * @returns True if save was successful
+   */
+  public saveComponent(metadata: ComponentMetadata, content: StorageComponentContent): boolean {
+    const preview = this.previews.get(metadata.id);
+    let saving = content;
+
+    if (preview) {
+      try {
+        saving = { ...content, metadata: preview.saveState(content.metadata) };
+      } catch (error) {
+        // Still save the code panes, keeping the previously saved state
+        this.errorHandler.handle(
+          new AppError(
+            ErrorType.STORAGE,
+            `Failed to capture math state for component: ${metadata.id}`,
+            error
+          )
+        );
+        saving = this.withStoredState(metadata.id, content);
+      }
+    }
+
+    const saved = this.baseService.saveComponent(metadata, saving);
+
+    if (saved && preview && this.options.captureThumbnails) {
+      void this.captureThumbnail(metadata.id);
+    }
+
+    return saved;
+  }
+
+  /**
+   * Writes component data without marking it as last edited
+   * The content is written as given; an attached preview's state is not captured.
+   * Delegates to the base service
+   */
+  public writeComponent(metadata: ComponentMetadata, content: StorageComponentContent): boolean {
+    return this.baseService.writeComponent(metadata, content);
+  }
+
+  /**
+   * Loads component data and restores its math state into the attached preview
+   * Restoring completes asynchronously; use restoreState to wait for it.
+   * @param id Component ID
+   * @returns Component content
+   * @throws AppError with STORAGE type if component not found
+   */
+  public loadComponent(id: string): StorageComponentContent {
+    const content = this.baseService.loadComponent(id);
+    const preview = this.previews.get(id);
+
+    if (preview) {
+      // Math API failures are reported by the adapter
+      this.restoreInto(preview, content).catch(() => undefined);
+    }
+
+    return content;
+  }
+
+  /**
+   * Reads component data without marking it as last edited or restoring its math state
+   * Delegates to the base service
+   */
+  public readComponent(id: string): StorageComponentContent {
+    return this.baseService.readComponent(id);
+  }
+
+  /**
+   * Gets the last edited component
+   * Delegates to the base service
+   */
+  public getLastEditedComponent(): ComponentMetadata | null {
+    return this.baseService.getLastEditedComponent();
+  }
+
+  /**
+   * Gets all locally stored components
+   * Delegates to the base service
+   */
+  public getAllLocalComponents(): ComponentMetadata[] {
+    return this.baseService.getAllLocalComponents();
+  }
+
+  /**
+   * Deletes a component and its thumbnail
+   * @param id Component ID
+   * @returns True if deletion was successful
+   */
+  public deleteComponent(id: string): boolean {
+    const deleted = this.baseService.deleteComponent(id);
+
+    if (deleted) {
+      this.removeThumbnail(id);
+      this.previews.delete(id);
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Waits for accepted writes to reach the underlying storage
+   * @returns Promise resolving to false if any write since the last flush failed
+   */
+  public flush(): Promise<boolean> {
+    return this.baseService.flush();
+  }
+
+  /**
+   * Restore the saved math state of a component into its attached preview
+   * @param id Component ID
+   * @returns Promise resolving to true if state was restored
+   * @throws AppError with STORAGE type if the component is not found
+   * @throws AppError with MATH_API type if the preview rejects the state
+   */
+  public async restoreState(id: string): Promise<boolean> {
+    const preview = this.previews.get(id);
+
+    if (!preview) {
+      return false;
+    }
+
+    return this.restoreInto(preview, this.baseService.readComponent(id));
+  }
+
+  /**
+   * Capture and store a thumbnail of a component's attached preview
+   * @param id Component ID
+   * @returns Promise resolving to the PNG data URL, or null if no preview is attached or capture failed
+   */
+  public async captureThumbnail(id: string): Promise<string | null> {
+    const preview = this.previews.get(id);
+
+    if (!preview) {
+      return null;
+    }
+
+    try {
+      await preview.whenReady();
+
+      const adapter = preview.getAdapter();
+      const thumbnail = await adapter.captureImage({
+        width: this.options.thumbnailWidth || this.DEFAULT_THUMBNAIL_WIDTH,
+        height: this.options.thumbnailHeight || this.DEFAULT_THUMBNAIL_HEIGHT
+      });
+
+      this.storeThumbnail(id, thumbnail);
+
+      const eventData: ThumbnailCapturedEvent = {
+        componentId: id,
+        apiType: adapter.getApiType(),
+        thumbnail,
+        timestamp: Date.now()
+      };
+
+      this.eventBus.emit(STORAGE_EVENTS.THUMBNAIL_CAPTURED, eventData);
+
+      return thumbnail;
+    } catch (error) {
+      this.errorHandler.handle(
+        new AppError(
+          ErrorType.STORAGE,
+          `Failed to capture thumbnail for component: ${id}`,
+          error
+        )
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Get the stored thumbnail of a component
+   * @param id Component ID
+   * @returns PNG data URL or null if none has been captured
+   */
+  public getThumbnail(id: string): string | null {
+    return this.storageAdapter.getItem<string>(this.THUMBNAIL_PREFIX + id);
+  }
+
+  /**
+   * Store a thumbnail, removing the least recently captured ones beyond maxThumbnails
+   * @param id Component ID
+   * @param thumbnail PNG data URL
+   * @throws Error if the thumbnail could not be written
+   * @private
+   */
+  private storeThumbnail(id: string, thumbnail: string): void {
+    const index = this.getThumbnailIndex().filter(entry => entry !== id);
+    const limit = this.options.maxThumbnails ?? this.DEFAULT_MAX_THUMBNAILS;
+
+    // Make room first, since the quota may be what stops the write
+    while (index.length >= limit && index.length > 0) {
+      this.storageAdapter.removeItem(this.THUMBNAIL_PREFIX + index.shift());
+    }
+
+    if (limit < 1 || !this.storageAdapter.setItem(this.THUMBNAIL_PREFIX + id, thumbnail)) {
+      this.storageAdapter.setItem(this.THUMBNAIL_INDEX_KEY, index);
+      throw new Error(`Failed to write thumbnail for component: ${id}`);
+    }
+
+    index.push(id);
+    this.storageAdapter.setItem(this.THUMBNAIL_INDEX_KEY, index);
+  }
+
+  /**
+   * Remove a component's thumbnail
+   * @param id Component ID
+   * @private
+   */
+  private removeThumbnail(id: string): void {
+    this.storageAdapter.removeItem(this.THUMBNAIL_PREFIX + id);
+    this.storageAdapter.setItem(this.THUMBNAIL_INDEX_KEY, this.getThumbnailIndex().filter(entry => entry !== id));
+  }
+
+  /**
+   * Get the IDs of components with a stored thumbnail
+   * @returns Component IDs, least recently captured first
+   * @private
+   */
+  private getThumbnailIndex(): string[] {
+    return this.storageAdapter.getItem<string[]>(this.THUMBNAIL_INDEX_KEY) || [];
+  }
+
+  /**
+   * Copy content, carrying over the math state of the stored component
+   * @param id Component ID
+   * @param content Content being saved
+   * @returns Content with the stored math state, if there is one
+   * @private
+   */
+  private withStoredState(id: string, content: StorageComponentContent): StorageComponentContent {
+    if (!this.baseService.getAllLocalComponents().some(c => c.id === id)) {
+      return content;
+    }
+
+    try {
+      const stored = this.baseService.readComponent(id).metadata?.[MATH_STATE_METADATA_KEY];
+      return stored ? { ...content, metadata: { ...content.metadata, [MATH_STATE_METADATA_KEY]: stored } } : content;
+    } catch {
+      // Reported by the base service; save without state rather than not at all
+      return content;
+    }
+  }
+
+  /**
+   * Restores state saved in component content into a preview
+   * State saved by a different math API is ignored.
+   * @param preview Math preview to restore into
+   * @param content Loaded component content
+   * @returns Promise resolving to true if state was restored
+   * @private
+   */
+  private async restoreInto(preview: IMathPreview, content: StorageComponentContent): Promise<boolean> {
+    const saved: MathStateMetadata | undefined = content.metadata?.[MATH_STATE_METADATA_KEY];
+
+    if (!saved || saved.apiType !== preview.getAdapter().getApiType()) {
+      return false;
+    }
+
+    await preview.setState(saved.state);
+    return true;
+  }
+}
@@ -0,0 +1,104 @@
+import { ISchemaMigrationRegistry } from './ISchemaMigrationRegistry';
+import { IStorageAdapter } from '../adapters/IStorageAdapter';
+import { AppError, ErrorType } from '../errors/IErrorHandler';
+import { QuarantinedRecord } from '../models/PersistedRecord';
+
+/**
+ * Reads and writes versioned records through a storage adapter
+ *
+ * Records are written inside a PersistedRecordEnvelope and upgraded through the
+ * migration registry when read. Records that fail to migrate are moved to the
+ * quarantine list instead of being discarded.
+ */
+export class PersistedRecordStore {
+  /**
+   * Storage key for quarantined records
+   * @private
+   */
+  private readonly QUARANTINE_KEY = 'devpreview_quarantine';
+
+  /**
+   * Creates a new PersistedRecordStore
+   * @param storageAdapter The storage adapter to read and write through
+   * @param migrationRegistry Registry of schema migrations
+   */
+  constructor(
+    private storageAdapter: IStorageAdapter,
+    private migrationRegistry: ISchemaMigrationRegistry
+  ) {}
+
+  /**
+   * Read a record, migrating it to the current schema version if needed
+   * Upgraded records are written back so they are only migrated once
+   * @param key Storage key
+   * @param recordType Kind of record
+   * @returns Record data or null if not found
+   * @throws AppError with STORAGE type if the record could not be migrated
+   */
+  public read<T>(key: string, recordType: string): T | null {
+    const record = this.storageAdapter.getItem<unknown>(key);
+    if (record === null || record === undefined) return null;
+
+    let result;
+    try {
+      result = this.migrationRegistry.migrate<T>(recordType, record);
+    } catch (error) {
+      this.quarantine(key, recordType, record, error);
+      throw new AppError(
+        ErrorType.STORAGE,
+        `Failed to migrate record '${key}'; it has been quarantined`,
+        { key, recordType, originalError: error }
+      );
+    }
+
+    if (result.fromVersion !== result.toVersion) {
+      this.write(key, recordType, result.data);
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Write a record wrapped in a versioned envelope
+   * @param key Storage key
+   * @param recordType Kind of record
+   * @param data Record data
+   * @returns True if successful
+   */
+  public write<T>(key: string, recordType: string, data: T): boolean {
+    return this.storageAdapter.setItem(key, this.migrationRegistry.wrap(recordType, data));
+  }
+
+  /**
+   * Get all quarantined records
+   * @returns Array of quarantined records, oldest first
+   */
+  public getQuarantinedRecords(): QuarantinedRecord[] {
+    return this.storageAdapter.getItem<QuarantinedRecord[]>(this.QUARANTINE_KEY) || [];
+  }
+
+  /**
+   * Move a record that failed to migrate into the quarantine list
+   * @param key Storage key the record was read from
+   * @param recordType Kind of record
+   * @param record Raw stored record
+   * @param error Migration error
+   * @private
+   */
+  private quarantine(key: string, recordType: string, record: unknown, error: unknown): void {
+    const quarantined = this.getQuarantinedRecords();
+
+    quarantined.push({
+      key,
+      recordType,
+      record,
+      error: error instanceof Error ? error.message : String(error),
+      quarantinedAt: new Date().toISOString()
+    });
+
+    // Only remove the original once the copy is safely stored
+    if (this.storageAdapter.setItem(this.QUARANTINE_KEY, quarantined)) {
+      this.storageAdapter.removeItem(key);
+    }
+  }
+}
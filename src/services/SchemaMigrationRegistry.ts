@@ -0,0 +1,217 @@
+import {
+  ISchemaMigrationRegistry,
+  SchemaMigration,
+  SchemaMigrationResult
+} from './ISchemaMigrationRegistry';
+import { AppError, ErrorType } from '../errors/IErrorHandler';
+import { PersistedRecordEnvelope } from '../models/PersistedRecord';
+
+/**
+ * Record types written by the storage services
+ */
+export const PERSISTED_RECORD_TYPES = {
+  /**
+   * Array of ComponentMetadata stored under devpreview_components
+   */
+  COMPONENT_LIST: 'component-list',
+
+  /**
+   * StorageComponentContent stored under devpreview_component_<id>
+   */
+  COMPONENT_CONTENT: 'component-content',
+
+  /**
+   * Revision history stored under devpreview_revisions_<id>
+   */
+  COMPONENT_REVISIONS: 'component-revisions',
+
+  /**
+   * ComponentSyncContent stored under devpreview_sync_<id>
+   */
+  COMPONENT_SYNC: 'component-sync'
+};
+
+/**
+ * Registry of ordered schema migrations for persisted records
+ * Migrations for a record type must form a contiguous chain starting at version 0
+ */
+export class SchemaMigrationRegistry implements ISchemaMigrationRegistry {
+  /**
+   * Migrations keyed by record type, then by the version they upgrade from
+   */
+  private migrations: Map<string, Map<number, SchemaMigration>> = new Map();
+
+  /**
+   * Register a migration step
+   * @param migration The migration to register
+   * @throws AppError with VALIDATION type if a step for the same version exists
+   */
+  public register(migration: SchemaMigration): void {
+    if (!this.migrations.has(migration.recordType)) {
+      this.migrations.set(migration.recordType, new Map());
+    }
+
+    const steps = this.migrations.get(migration.recordType)!;
+
+    if (steps.has(migration.fromVersion)) {
+      throw new AppError(
+        ErrorType.VALIDATION,
+        `Migration from version ${migration.fromVersion} is already registered for record type '${migration.recordType}'`,
+        { recordType: migration.recordType, fromVersion: migration.fromVersion }
+      );
+    }
+
+    steps.set(migration.fromVersion, migration);
+  }
+
+  /**
+   * Get the current schema version for a record type
+   * @param recordType Kind of record
+   * @returns Current schema version (0 if no migrations are registered)
+   */
+  public getCurrentVersion(recordType: string): number {
+    const steps = this.migrations.get(recordType);
+    if (!steps || steps.size === 0) return 0;
+
+    return Math.max(...steps.keys()) + 1;
+  }
+
+  /**
+   * Wrap record data in an envelope at the current schema version
+   * @param recordType Kind of record
+   * @param data Record data
+   * @returns Versioned envelope
+   */
+  public wrap<T>(recordType: string, data: T): PersistedRecordEnvelope<T> {
+    return {
+      schemaVersion: this.getCurrentVersion(recordType),
+      recordType,
+      savedAt: new Date().toISOString(),
+      data
+    };
+  }
+
+  /**
+   * Upgrade a stored record to the current schema version
+   * @param recordType Kind of record
+   * @param record Raw stored record
+   * @returns Migration result with the upgraded data
+   * @throws AppError with STORAGE type if the record cannot be migrated
+   */
+  public migrate<T>(recordType: string, record: unknown): SchemaMigrationResult<T> {
+    const currentVersion = this.getCurrentVersion(recordType);
+    const isEnvelope = this.isEnvelope(recordType, record);
+    const fromVersion = isEnvelope ? record.schemaVersion : 0;
+    let data: unknown = isEnvelope ? record.data : record;
+
+    if (fromVersion > currentVersion) {
+      throw new AppError(
+        ErrorType.STORAGE,
+        `Record of type '${recordType}' has schema version ${fromVersion}, newer than supported version ${currentVersion}`,
+        { recordType, fromVersion, currentVersion }
+      );
+    }
+
+    for (let version = fromVersion; version < currentVersion; version++) {
+      const step = this.migrations.get(recordType)?.get(version);
+
+      if (!step) {
+        throw new AppError(
+          ErrorType.STORAGE,
+          `No migration registered from version ${version} for record type '${recordType}'`,
+          { recordType, fromVersion: version }
+        );
+      }
+
+      try {
+        data = step.migrate(data);
+      } catch (error) {
+        throw new AppError(
+          ErrorType.STORAGE,
+          `Migration of '${recordType}' from version ${version} failed: ${error instanceof Error ? error.message : String(error)}`,
+          { recordType, fromVersion: version, originalError: error }
+        );
+      }
+    }
+
+    return { data: data as T, fromVersion, toVersion: currentVersion };
+  }
+
+  /**
+   * Checks whether a stored record is a versioned envelope of the given type
+   * @param recordType Kind of record
+   * @param record Raw stored record
+   * @returns True if the record is an envelope
+   * @private
+   */
+  private isEnvelope(recordType: string, record: unknown): record is PersistedRecordEnvelope {
+    return typeof record === 'object' &&
+           record !== null &&
+           !Array.isArray(record) &&
+           typeof (record as PersistedRecordEnvelope).schemaVersion === 'number' &&
+           (record as PersistedRecordEnvelope).recordType === recordType &&
+           'data' in record;
+  }
+}
+
+/**
+ * Register the built-in migrations for records written by the storage services
+ * Version 1 introduces the envelope; upgrading from version 0 validates legacy records.
+ * @param registry The migration registry to register with
+ */
+export function registerDefaultMigrations(registry: ISchemaMigrationRegistry): void {
+  registry.register({
+    recordType: PERSISTED_RECORD_TYPES.COMPONENT_LIST,
+    fromVersion: 0,
+    description: 'Wrap legacy component list in a versioned envelope',
+    migrate: (data) => {
+      if (!Array.isArray(data)) {
+        throw new Error('Component list is not an array');
+      }
+      return data;
+    }
+  });
+
+  registry.register({
+    recordType: PERSISTED_RECORD_TYPES.COMPONENT_CONTENT,
+    fromVersion: 0,
+    description: 'Wrap legacy component content in a versioned envelope',
+    migrate: (data) => {
+      if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        throw new Error('Component content is not an object');
+      }
+      const content = data as Record<string, unknown>;
+      return {
+        ...content,
+        html: content.html ?? '',
+        css: content.css ?? '',
+        js: content.js ?? ''
+      };
+    }
+  });
+
+  registry.register({
+    recordType: PERSISTED_RECORD_TYPES.COMPONENT_REVISIONS,
+    fromVersion: 0,
+    description: 'Wrap legacy revision history in a versioned envelope',
+    migrate: (data) => {
+      if (!Array.isArray(data)) {
+        throw new Error('Revision history is not an array');
+      }
+      return data;
+    }
+  });
+
+  registry.register({
+    recordType: PERSISTED_RECORD_TYPES.COMPONENT_SYNC,
+    fromVersion: 0,
+    description: 'Wrap legacy sync state in a versioned envelope',
+    migrate: (data) => {
+      if (typeof data !== 'object' || data === null || !('sync' in data) || !data.sync ||
+          !('base' in data) || !data.base) {
+        throw new Error('Sync state is missing its metadata or base content');
+      }
+      return data;
+    }
+  });
+}
@@ -0,0 +1,191 @@
+import { IStorageService } from './IStorageService';
+import {
+  ISearchableStorageService,
+  ComponentSearchOptions,
+  ComponentSearchResult,
+  TagFacet
+} from './ISearchableStorageService';
+import { ComponentSearchIndex } from './ComponentSearchIndex';
+import { IErrorHandler, AppError, ErrorType } from '../errors/IErrorHandler';
+import { ComponentMetadata } from '../models/ComponentMetadata';
+import { StorageComponentContent } from '../models/index';
+
+/**
+ * Searchable Storage Service implementation
+ * Decorates an IStorageService with a search index over component names,
+ * tags and content. The index is built from storage on first use and kept
+ * up to date as components are saved and deleted through this service.
+ */
+export class SearchableStorageService implements ISearchableStorageService {
+  /**
+   * Search index over stored components
+   * @private
+   */
+  private readonly index = new ComponentSearchIndex();
+
+  /**
+   * Whether the index has been built from storage
+   * @private
+   */
+  private indexBuilt = false;
+
+  /**
+   * Creates a new SearchableStorageService
+   * @param baseService The storage service to delegate to
+   * @param errorHandler The error handler for error management
+   */
+  constructor(
+    private baseService: IStorageService,
+    private errorHandler: IErrorHandler
+  ) {}
+
+  /**
+   * Saves component data and updates the search index
+   * @param metadata Component metadata
+   * @param content Component content data
+   * @returns True if save was successful
+   */
+  public saveComponent(metadata: ComponentMetadata, content: StorageComponentContent): boolean {
+    const saved = this.baseService.saveComponent(metadata, content);
+
+    if (saved && this.indexBuilt) {
+      this.index.add(metadata, content);
+    }
+
+    return saved;
+  }
+
+  /**
+   * Writes component data without marking it as last edited and updates the index
+   * @param metadata Component metadata
+   * @param content Component content data
+   * @returns True if the write was successful
+   */
+  public writeComponent(metadata: ComponentMetadata, content: StorageComponentContent): boolean {
+    const written = this.baseService.writeComponent(metadata, content);
+
+    if (written && this.indexBuilt) {
+      this.index.add(metadata, content);
+    }
+
+    return written;
+  }
+
+  /**
+   * Loads component data from storage
+   * Delegates to the base service
+   */
+  public loadComponent(id: string): StorageComponentContent {
+    return this.baseService.loadComponent(id);
+  }
+
+  /**
+   * Reads component data without marking it as last edited
+   * Delegates to the base service
+   */
+  public readComponent(id: string): StorageComponentContent {
+    return this.baseService.readComponent(id);
+  }
+
+  /**
+   * Gets the last edited component
+   * Delegates to the base service
+   */
+  public getLastEditedComponent(): ComponentMetadata | null {
+    return this.baseService.getLastEditedComponent();
+  }
+
+  /**
+   * Gets all locally stored components
+   * Delegates to the base service
+   */
+  public getAllLocalComponents(): ComponentMetadata[] {
+    return this.baseService.getAllLocalComponents();
+  }
+
+  /**
+   * Deletes a component and removes it from the search index
+   * @param id Component ID
+   * @returns True if deletion was successful
+   */
+  public deleteComponent(id: string): boolean {
+    const deleted = this.baseService.deleteComponent(id);
+
+    if (deleted) {
+      this.index.remove(id);
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Waits for accepted writes to reach the underlying storage
+   * @returns Promise resolving to false if any write since the last flush failed
+   */
+  public flush(): Promise<boolean> {
+    return this.baseService.flush();
+  }
+
+  /**
+   * Search stored components
+   * @param options Search options
+   * @returns Page of matching components with tag facets
+   */
+  public search(options: ComponentSearchOptions = {}): ComponentSearchResult {
+    this.ensureIndex();
+    return this.index.search(options);
+  }
+
+  /**
+   * Gets tag counts across all stored components
+   * @returns Tag facets, most common first
+   */
+  public getTagFacets(): TagFacet[] {
+    this.ensureIndex();
+    return this.index.getTagFacets();
+  }
+
+  /**
+   * Rebuild the search index from storage
+   * Content is read without changing the last edited component. Components
+   * whose content cannot be loaded are indexed by name and tags only
+   */
+  public rebuildIndex(): void {
+    this.index.clear();
+
+    try {
+      for (const metadata of this.baseService.getAllLocalComponents()) {
+        let content: StorageComponentContent;
+
+        try {
+          content = this.baseService.readComponent(metadata.id);
+        } catch {
+          // The base service has already reported the failure
+          content = { html: '', css: '', js: '' };
+        }
+
+        this.index.add(metadata, content);
+      }
+    } catch (error) {
+      this.errorHandler.handle(error instanceof AppError ? error :
+        new AppError(
+          ErrorType.STORAGE,
+          'Failed to build the component search index',
+          error
+        )
+      );
+    }
+
+    this.indexBuilt = true;
+  }
+
+  /**
+   * Builds the index on first use
+   * @private
+   */
+  private ensureIndex(): void {
+    if (!this.indexBuilt) {
+      this.rebuildIndex();
+    }
+  }
+}
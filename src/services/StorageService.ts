@@ -1,9 +1,16 @@
 import { IStorageService } from './IStorageService';
 import { IStorageAdapter } from '../adapters/IStorageAdapter';
+import { IAsyncStorageAdapter } from '../adapters/IAsyncStorageAdapter';
+import { IBufferedStorageAdapter } from '../adapters/IBufferedStorageAdapter';
+import { ISchemaMigrationRegistry } from './ISchemaMigrationRegistry';
+import { SchemaMigrationRegistry, registerDefaultMigrations, PERSISTED_RECORD_TYPES } from './SchemaMigrationRegistry';
+import { PersistedRecordStore } from './PersistedRecordStore';
 import { IErrorHandler } from '../errors/IErrorHandler';
 import { ComponentMetadata } from '../models/ComponentMetadata';
 import { StorageComponentContent } from '../models/index';
+import { QuarantinedRecord } from '../models/PersistedRecord';
 import { AppError, ErrorType } from '../errors/IErrorHandler';
+import { reviveMetadataDates } from '../utils/metadata';
 
 /**
  * Storage Service implementation
@@ -28,15 +35,30 @@ export class StorageService implements IStorageService {
    */
   private readonly LAST_EDITED_KEY = 'devpreview_last_edited';
   
+  /**
+   * Versioned record access for the component list and component content
+   * @private
+   */
+  private readonly recordStore: PersistedRecordStore;
+  
   /**
    * Creates a new StorageService
    * @param storageAdapter The storage adapter to use
    * @param errorHandler The error handler for error management
+   * @param migrationRegistry Optional schema migration registry (defaults to the built-in migrations)
    */
   constructor(
     private storageAdapter: IStorageAdapter,
-    private errorHandler: IErrorHandler
-  ) {}
+    private errorHandler: IErrorHandler,
+    migrationRegistry?: ISchemaMigrationRegistry
+  ) {
+    if (!migrationRegistry) {
+      migrationRegistry = new SchemaMigrationRegistry();
+      registerDefaultMigrations(migrationRegistry);
+    }
+    
+    this.recordStore = new PersistedRecordStore(storageAdapter, migrationRegistry);
+  }
   
   /**
    * Saves component data to storage
@@ -45,13 +67,32 @@ export class StorageService implements IStorageService {
    * @returns True if save was successful
    */
   public saveComponent(metadata: ComponentMetadata, content: StorageComponentContent): boolean {
+    // Update last edited time
+    metadata.lastEdited = new Date();
+    
+    if (!this.writeComponent(metadata, content)) {
+      return false;
+    }
+    
+    // Update last edited component
+    this.storageAdapter.setItem(this.LAST_EDITED_KEY, metadata.id);
+    
+    return true;
+  }
+  
+  /**
+   * Writes component data to storage without marking it as last edited
+   * @param metadata Component metadata, stored as given
+   * @param content Component content data
+   * @returns True if the write was successful
+   */
+  public writeComponent(metadata: ComponentMetadata, content: StorageComponentContent): boolean {
     try {
-      // Update last edited time
-      metadata.lastEdited = new Date();
-      
       // Save component content
       const contentKey = this.COMPONENT_DATA_PREFIX + metadata.id;
-      this.storageAdapter.setItem(contentKey, content);
+      if (!this.recordStore.write(contentKey, PERSISTED_RECORD_TYPES.COMPONENT_CONTENT, content)) {
+        throw new Error(`Failed to write component content: ${metadata.id}`);
+      }
       
       // Update component in list or add if new
       const componentList = this.getAllLocalComponents();
@@ -63,10 +104,9 @@ export class StorageService implements IStorageService {
         componentList.push(metadata);
       }
       
-      this.storageAdapter.setItem(this.COMPONENT_LIST_KEY, componentList);
-      
-      // Update last edited component
-      this.storageAdapter.setItem(this.LAST_EDITED_KEY, metadata.id);
+      if (!this.recordStore.write(this.COMPONENT_LIST_KEY, PERSISTED_RECORD_TYPES.COMPONENT_LIST, componentList)) {
+        throw new Error('Failed to write component list');
+      }
       
       return true;
     } catch (error) {
@@ -81,6 +121,16 @@ export class StorageService implements IStorageService {
     }
   }
   
+  /**
+   * Saves component data and waits for it to reach the underlying storage
+   * @param metadata Component metadata
+   * @param content Component content data
+   * @returns Promise resolving to true if the component was persisted
+   */
+  public async saveComponentAsync(metadata: ComponentMetadata, content: StorageComponentContent): Promise<boolean> {
+    return this.saveComponent(metadata, content) && await this.flush();
+  }
+  
   /**
    * Loads component data from storage
    * @param id Component ID
@@ -88,9 +138,27 @@ export class StorageService implements IStorageService {
    * @throws AppError with STORAGE type if component not found
    */
   public loadComponent(id: string): StorageComponentContent {
+    const content = this.readComponent(id);
+    
+    // Update last edited component
+    this.storageAdapter.setItem(this.LAST_EDITED_KEY, id);
+    
+    return content;
+  }
+  
+  /**
+   * Reads component data from storage without marking it as last edited
+   * @param id Component ID
+   * @returns Component content
+   * @throws AppError with STORAGE type if component not found
+   */
+  public readComponent(id: string): StorageComponentContent {
     try {
       const contentKey = this.COMPONENT_DATA_PREFIX + id;
-      const content = this.storageAdapter.getItem<StorageComponentContent>(contentKey);
+      const content = this.recordStore.read<StorageComponentContent>(
+        contentKey,
+        PERSISTED_RECORD_TYPES.COMPONENT_CONTENT
+      );
       
       if (!content) {
         throw new AppError(
@@ -99,9 +167,6 @@ export class StorageService implements IStorageService {
         );
       }
       
-      // Update last edited component
-      this.storageAdapter.setItem(this.LAST_EDITED_KEY, id);
-      
       return content;
     } catch (error) {
       this.errorHandler.handle(error instanceof AppError ? error : 
@@ -115,6 +180,30 @@ export class StorageService implements IStorageService {
     }
   }
   
+  /**
+   * Loads component data, reading it from the underlying storage if it is not in memory
+   * Use with adapters that load component content lazily.
+   * @param id Component ID
+   * @returns Promise resolving to the component content
+   * @throws AppError with STORAGE type if component not found
+   */
+  public async loadComponentAsync(id: string): Promise<StorageComponentContent> {
+    await this.preloadComponent(id);
+    return this.loadComponent(id);
+  }
+  
+  /**
+   * Reads component data without marking it as last edited, reading it from the
+   * underlying storage if it is not in memory
+   * @param id Component ID
+   * @returns Promise resolving to the component content
+   * @throws AppError with STORAGE type if component not found
+   */
+  public async readComponentAsync(id: string): Promise<StorageComponentContent> {
+    await this.preloadComponent(id);
+    return this.readComponent(id);
+  }
+  
   /**
    * Gets the last edited component
    * @returns Component metadata or null if no components exist
@@ -144,10 +233,13 @@ export class StorageService implements IStorageService {
    */
   public getAllLocalComponents(): ComponentMetadata[] {
     try {
-      const componentList = this.storageAdapter.getItem<ComponentMetadata[]>(this.COMPONENT_LIST_KEY);
-      return componentList || [];
+      const componentList = this.recordStore.read<ComponentMetadata[]>(
+        this.COMPONENT_LIST_KEY,
+        PERSISTED_RECORD_TYPES.COMPONENT_LIST
+      );
+      return (componentList || []).map(reviveMetadataDates);
     } catch (error) {
-      this.errorHandler.handle(
+      this.errorHandler.handle(error instanceof AppError ? error :
         new AppError(
           ErrorType.STORAGE,
           'Failed to get all components',
@@ -172,7 +264,7 @@ export class StorageService implements IStorageService {
       // Remove from component list
       const componentList = this.getAllLocalComponents();
       const filteredComponents = componentList.filter(c => c.id !== id);
-      this.storageAdapter.setItem(this.COMPONENT_LIST_KEY, filteredComponents);
+      this.recordStore.write(this.COMPONENT_LIST_KEY, PERSISTED_RECORD_TYPES.COMPONENT_LIST, filteredComponents);
       
       // Update last edited if needed
       const lastEditedId = this.storageAdapter.getItem<string>(this.LAST_EDITED_KEY);
@@ -194,4 +286,124 @@ export class StorageService implements IStorageService {
       return false;
     }
   }
-}
\ No newline at end of file
+  
+  /**
+   * Waits for accepted writes to reach the underlying storage
+   * @returns Promise resolving to false if any write since the last flush failed
+   */
+  public flush(): Promise<boolean> {
+    const adapter = this.getBufferedAdapter();
+    return adapter ? adapter.flush() : Promise.resolve(true);
+  }
+  
+  /**
+   * Copies all stored components into an async storage adapter
+   * Uses the same key schema so the target can back a new StorageService directly.
+   * Keys that already exist in the target are left untouched.
+   * @param target The async storage adapter to migrate into (e.g. IndexedDB)
+   * @returns Promise resolving to true if migration was successful
+   */
+  public async migrateTo(target: IAsyncStorageAdapter): Promise<boolean> {
+    try {
+      const componentList = this.getAllLocalComponents();
+      
+      for (const component of componentList) {
+        const contentKey = this.COMPONENT_DATA_PREFIX + component.id;
+        const content = this.storageAdapter.getItem<unknown>(contentKey);
+        
+        if (content && !(await target.hasItem(contentKey))) {
+          await this.writeOrThrow(target, contentKey, content);
+        }
+      }
+      
+      // Copy the raw list record so its schema envelope is preserved
+      const listRecord = this.storageAdapter.getItem<unknown>(this.COMPONENT_LIST_KEY);
+      if (listRecord && !(await target.hasItem(this.COMPONENT_LIST_KEY))) {
+        await this.writeOrThrow(target, this.COMPONENT_LIST_KEY, listRecord);
+      }
+      
+      const lastEditedId = this.storageAdapter.getItem<string>(this.LAST_EDITED_KEY);
+      if (lastEditedId && !(await target.hasItem(this.LAST_EDITED_KEY))) {
+        await this.writeOrThrow(target, this.LAST_EDITED_KEY, lastEditedId);
+      }
+      
+      return true;
+    } catch (error) {
+      this.errorHandler.handle(
+        new AppError(
+          ErrorType.STORAGE,
+          'Failed to migrate components to async storage',
+          error
+        )
+      );
+      return false;
+    }
+  }
+  
+  /**
+   * Gets records that failed schema migration and were set aside
+   * @returns Array of quarantined records, oldest first
+   */
+  public getQuarantinedRecords(): QuarantinedRecord[] {
+    try {
+      return this.recordStore.getQuarantinedRecords();
+    } catch (error) {
+      this.errorHandler.handle(
+        new AppError(
+          ErrorType.STORAGE,
+          'Failed to get quarantined records',
+          error
+        )
+      );
+      return [];
+    }
+  }
+  
+  /**
+   * Brings a component's content into memory if the adapter loads it lazily
+   * @param id Component ID
+   * @private
+   */
+  private async preloadComponent(id: string): Promise<void> {
+    const adapter = this.getBufferedAdapter();
+    if (!adapter) return;
+    
+    try {
+      await adapter.getItemAsync(this.COMPONENT_DATA_PREFIX + id);
+    } catch (error) {
+      this.errorHandler.handle(
+        new AppError(
+          ErrorType.STORAGE,
+          `Failed to load component: ${id}`,
+          error
+        )
+      );
+      throw error;
+    }
+  }
+  
+  /**
+   * Gets the storage adapter if it persists writes in the background
+   * @returns The adapter, or null if it writes synchronously
+   * @private
+   */
+  private getBufferedAdapter(): IBufferedStorageAdapter | null {
+    const adapter = this.storageAdapter as Partial<IBufferedStorageAdapter>;
+    return typeof adapter.flush === 'function' && typeof adapter.getItemAsync === 'function'
+      ? this.storageAdapter as IBufferedStorageAdapter
+      : null;
+  }
+  
+  /**
+   * Writes an item to an async adapter, throwing if the write is rejected
+   * @param target Async storage adapter
+   * @param key Storage key
+   * @param value Value to store
+   * @private
+   */
+  private async writeOrThrow<T>(target: IAsyncStorageAdapter, key: string, value: T): Promise<void> {
+    if (!(await target.setItem(key, value))) {
+      throw new Error(`Failed to write '${key}' to async storage`);
+    }
+  }
+}
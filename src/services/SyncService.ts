@@ -0,0 +1,497 @@
+import { IStorageService } from './IStorageService';
+import {
+  ISyncService,
+  ComponentSyncResult,
+  SyncConflictResolution,
+  SyncOptions
+} from './ISyncService';
+import {
+  SYNC_EVENTS,
+  SyncStartedEvent,
+  SyncProgressEvent,
+  SyncConflictEvent,
+  SyncConflictResolvedEvent,
+  SyncCompletedEvent
+} from './events';
+import { ISchemaMigrationRegistry } from './ISchemaMigrationRegistry';
+import { SchemaMigrationRegistry, registerDefaultMigrations, PERSISTED_RECORD_TYPES } from './SchemaMigrationRegistry';
+import { PersistedRecordStore } from './PersistedRecordStore';
+import { IStorageAdapter } from '../adapters/IStorageAdapter';
+import { IRemoteStorageAdapter } from '../adapters/IRemoteStorageAdapter';
+import { IErrorHandler, AppError, ErrorType } from '../errors/IErrorHandler';
+import { IEnhancedEventBus } from '../events/EnhancedIEventBus';
+import { ComponentMetadata } from '../models/ComponentMetadata';
+import { ChangeVector, ComponentSyncContent, ComponentSyncMetadata } from '../models/ComponentSync';
+import { StorageComponentContent } from '../models/index';
+import { compareVectors, incrementVector, mergeVectors } from '../utils/changeVector';
+import { mergeComponentContent } from '../utils/threeWayMerge';
+
+/**
+ * Sync Service implementation
+ * Synchronizes the local and remote copies of components using change vectors.
+ *
+ * The vector of the last synchronized state is kept locally together with the
+ * content both copies agreed on. The remote copy carries its vector in
+ * content.metadata.sync. A copy whose content differs from the agreed content
+ * counts as edited; remote edits made without updating the vector are
+ * attributed to the 'remote' replica.
+ */
+export class SyncService implements ISyncService {
+  /**
+   * Prefix for component sync state keys
+   * @private
+   */
+  private readonly SYNC_PREFIX = 'devpreview_sync_';
+
+  /**
+   * Content metadata key holding the remote copy's change vector
+   * @private
+   */
+  private readonly SYNC_METADATA_KEY = 'sync';
+
+  /**
+   * Replica ID for remote edits made without a change vector
+   * @private
+   */
+  private readonly REMOTE_REPLICA_ID = 'remote';
+
+  /**
+   * ID of this replica in change vectors
+   * @private
+   */
+  private readonly replicaId: string;
+
+  /**
+   * Versioned record access for sync state
+   * @private
+   */
+  private readonly recordStore: PersistedRecordStore;
+
+  /**
+   * Creates a new SyncService
+   * @param localService Storage service for local components
+   * @param remoteAdapter Adapter for the remote component store
+   * @param storageAdapter The storage adapter holding sync state
+   * @param errorHandler The error handler for error management
+   * @param eventBus Event bus for publishing sync progress and conflicts
+   * @param options Sync options
+   * @param migrationRegistry Optional schema migration registry (defaults to the built-in migrations)
+   */
+  constructor(
+    private localService: IStorageService,
+    private remoteAdapter: IRemoteStorageAdapter,
+    storageAdapter: IStorageAdapter,
+    private errorHandler: IErrorHandler,
+    private eventBus: IEnhancedEventBus,
+    private options: SyncOptions = {},
+    migrationRegistry?: ISchemaMigrationRegistry
+  ) {
+    this.replicaId = options.replicaId || 'local';
+
+    if (!migrationRegistry) {
+      migrationRegistry = new SchemaMigrationRegistry();
+      registerDefaultMigrations(migrationRegistry);
+    }
+
+    this.recordStore = new PersistedRecordStore(storageAdapter, migrationRegistry);
+  }
+
+  /**
+   * Synchronize a single component
+   * Pushes or pulls whichever copy is newer, and merges concurrent edits
+   * @param id Component ID
+   * @returns Promise resolving to the outcome for the component
+   */
+  public async sync(id: string): Promise<ComponentSyncResult> {
+    const [result] = await this.run([id]);
+    return result;
+  }
+
+  /**
+   * Synchronize every component that exists both locally and remotely
+   * @returns Promise resolving to the outcome for each component
+   */
+  public async syncAll(): Promise<ComponentSyncResult[]> {
+    let ids: string[];
+
+    try {
+      const remoteIds = new Set(
+        (await this.remoteAdapter.listComponents()).map(c => c.id)
+      );
+      ids = this.localService.getAllLocalComponents()
+        .map(c => c.id)
+        .filter(id => remoteIds.has(id));
+    } catch (error) {
+      this.errorHandler.handle(
+        this.toAppError(error, 'Failed to list components for sync')
+      );
+      return [];
+    }
+
+    return this.run(ids);
+  }
+
+  /**
+   * Gets the state a component was last synchronized at
+   * @param id Component ID
+   * @returns Sync metadata, or null if the component was never synchronized
+   */
+  public getSyncMetadata(id: string): ComponentSyncMetadata | null {
+    try {
+      const record = this.readSyncRecord(id);
+      return record ? record.sync : null;
+    } catch (error) {
+      this.errorHandler.handle(
+        this.toAppError(error, `Failed to get sync state for component: ${id}`)
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Synchronize components one after another, announcing progress
+   * @param ids Component IDs
+   * @returns Outcome for each component
+   * @private
+   */
+  private async run(ids: string[]): Promise<ComponentSyncResult[]> {
+    const startedEvent: SyncStartedEvent = {
+      componentIds: ids,
+      timestamp: Date.now()
+    };
+    this.eventBus.emit(SYNC_EVENTS.STARTED, startedEvent);
+
+    const results: ComponentSyncResult[] = [];
+
+    for (const id of ids) {
+      const result = await this.syncComponent(id);
+      results.push(result);
+
+      const progressEvent: SyncProgressEvent = {
+        componentId: id,
+        action: result.action,
+        completed: results.length,
+        total: ids.length,
+        timestamp: Date.now()
+      };
+      this.eventBus.emit(SYNC_EVENTS.PROGRESS, progressEvent);
+    }
+
+    const completedEvent: SyncCompletedEvent = {
+      results,
+      timestamp: Date.now()
+    };
+    this.eventBus.emit(SYNC_EVENTS.COMPLETED, completedEvent);
+
+    return results;
+  }
+
+  /**
+   * Synchronize a single component
+   * @param id Component ID
+   * @returns Outcome for the component
+   * @private
+   */
+  private async syncComponent(id: string): Promise<ComponentSyncResult> {
+    try {
+      const record = this.readSyncRecord(id);
+      const localMetadata = this.localService.getAllLocalComponents().find(c => c.id === id) || null;
+      const local = localMetadata ? this.stripSyncMetadata(this.localService.readComponent(id)) : null;
+      const remoteStored = await this.remoteAdapter.loadComponent(id);
+      const remote = remoteStored ? this.stripSyncMetadata(remoteStored) : null;
+
+      const baseVector = record ? record.sync.vector : {};
+
+      let localVector = baseVector;
+      if (local && (!record || !this.isSameContent(local, record.base))) {
+        localVector = incrementVector(baseVector, this.replicaId);
+      }
+
+      // A remote copy without a vector is assumed to descend from the last synced state
+      let remoteVector = remoteStored ? this.readRemoteVector(remoteStored) || baseVector : {};
+      if (
+        remote &&
+        compareVectors(remoteVector, baseVector) === 'equal' &&
+        (!record || !this.isSameContent(remote, record.base))
+      ) {
+        remoteVector = incrementVector(remoteVector, this.REMOTE_REPLICA_ID);
+      }
+
+      if (!local && !remote) {
+        throw new AppError(
+          ErrorType.STORAGE,
+          `Component not found: ${id}`
+        );
+      }
+
+      if (local && localMetadata && !remote) {
+        return this.commit(id, localMetadata, local, localVector, 'pushed', { local: false });
+      }
+
+      if (!local && remote) {
+        const remoteMetadata = await this.loadRemoteMetadata(id);
+        return this.commit(id, remoteMetadata, remote, remoteVector, 'pulled', { remote: false });
+      }
+
+      const comparison = compareVectors(localVector, remoteVector);
+
+      if (comparison === 'after') {
+        return this.commit(id, localMetadata!, local!, localVector, 'pushed', { local: false });
+      }
+
+      if (comparison === 'before') {
+        const remoteMetadata = await this.loadRemoteMetadata(id);
+        const metadata = { ...localMetadata!, lastEdited: remoteMetadata.lastEdited };
+        return this.commit(id, metadata, remote!, remoteVector, 'pulled', { remote: false });
+      }
+
+      if (comparison === 'equal' && this.isSameContent(local!, remote!)) {
+        return { componentId: id, action: 'none', vector: localVector };
+      }
+
+      return this.merge(id, localMetadata!, record ? record.base : null, local!, remote!, localVector, remoteVector);
+    } catch (error) {
+      this.errorHandler.handle(
+        this.toAppError(error, `Failed to sync component: ${id}`)
+      );
+      return { componentId: id, action: 'failed' };
+    }
+  }
+
+  /**
+   * Merge concurrent edits, asking the resolution callback about conflicts
+   * @param id Component ID
+   * @param metadata Local component metadata
+   * @param base Content at the last synchronization, if any
+   * @param local Local content
+   * @param remote Remote content
+   * @param localVector Change vector of the local copy
+   * @param remoteVector Change vector of the remote copy
+   * @returns Outcome for the component
+   * @private
+   */
+  private async merge(
+    id: string,
+    metadata: ComponentMetadata,
+    base: StorageComponentContent | null,
+    local: StorageComponentContent,
+    remote: StorageComponentContent,
+    localVector: ChangeVector,
+    remoteVector: ChangeVector
+  ): Promise<ComponentSyncResult> {
+    const vector = incrementVector(mergeVectors(localVector, remoteVector), this.replicaId);
+
+    if (this.isSameContent(local, remote)) {
+      return this.commit(id, metadata, local, vector, 'merged');
+    }
+
+    const mergeBase = base || { html: '', css: '', js: '' };
+    const merge = mergeComponentContent(mergeBase, local, remote);
+
+    if (merge.conflicts.length === 0) {
+      return this.commit(id, metadata, merge.content, vector, 'merged');
+    }
+
+    const conflictEvent: SyncConflictEvent = {
+      componentId: id,
+      conflicts: merge.conflicts,
+      timestamp: Date.now()
+    };
+    this.eventBus.emit(SYNC_EVENTS.CONFLICT, conflictEvent);
+
+    const resolution: SyncConflictResolution | null = this.options.resolveConflict
+      ? await this.options.resolveConflict({ componentId: id, base: mergeBase, local, remote, merge })
+      : null;
+
+    if (!resolution) {
+      return { componentId: id, action: 'conflict' };
+    }
+
+    const content = resolution.strategy === 'local' ? local
+      : resolution.strategy === 'remote' ? remote
+      : this.stripSyncMetadata(resolution.content);
+
+    const result = await this.commit(id, metadata, content, vector, 'resolved');
+
+    if (result.action === 'resolved') {
+      const resolvedEvent: SyncConflictResolvedEvent = {
+        componentId: id,
+        strategy: resolution.strategy,
+        timestamp: Date.now()
+      };
+      this.eventBus.emit(SYNC_EVENTS.CONFLICT_RESOLVED, resolvedEvent);
+    }
+
+    return result;
+  }
+
+  /**
+   * Write synchronized content to both copies and record the new sync state
+   * @param id Component ID
+   * @param metadata Component metadata
+   * @param content Synchronized content
+   * @param vector Change vector of the synchronized content
+   * @param action Action reported if the writes succeed
+   * @param targets Copies to write (both by default)
+   * @returns Outcome for the component
+   * @private
+   */
+  private async commit(
+    id: string,
+    metadata: ComponentMetadata,
+    content: StorageComponentContent,
+    vector: ChangeVector,
+    action: ComponentSyncResult['action'],
+    targets: { local?: boolean; remote?: boolean } = {}
+  ): Promise<ComponentSyncResult> {
+    if (targets.remote !== false) {
+      await this.remoteAdapter.saveComponent(
+        { ...metadata, locationType: 'remote' },
+        this.withSyncMetadata(content, vector)
+      );
+    }
+
+    if (targets.local !== false) {
+      // The local service reports its own failures; syncing is not an edit,
+      // so the last edited component and time are left alone
+      const saved = this.localService.writeComponent(
+        { ...metadata, locationType: 'local' },
+        JSON.parse(JSON.stringify(content))
+      );
+
+      if (!saved) {
+        return { componentId: id, action: 'failed' };
+      }
+    }
+
+    const record: ComponentSyncContent = {
+      sync: {
+        componentId: id,
+        vector,
+        lastSyncedAt: new Date()
+      },
+      base: content
+    };
+    this.recordStore.write(this.SYNC_PREFIX + id, PERSISTED_RECORD_TYPES.COMPONENT_SYNC, record);
+
+    return { componentId: id, action, vector };
+  }
+
+  /**
+   * Load the remote copy's metadata
+   * @param id Component ID
+   * @returns Remote metadata
+   * @throws AppError with STORAGE type if the remote copy has no metadata
+   * @private
+   */
+  private async loadRemoteMetadata(id: string): Promise<ComponentMetadata> {
+    const remoteMetadata = (await this.remoteAdapter.listComponents()).find(c => c.id === id);
+    if (!remoteMetadata) {
+      throw new AppError(
+        ErrorType.STORAGE,
+        `Remote metadata not found for component: ${id}`
+      );
+    }
+    return remoteMetadata;
+  }
+
+  /**
+   * Reads a component's sync state
+   * Revives the sync timestamp, which is stored as a string
+   * @param id Component ID
+   * @returns Sync state or null if never synchronized
+   * @private
+   */
+  private readSyncRecord(id: string): ComponentSyncContent | null {
+    const record = this.recordStore.read<ComponentSyncContent>(
+      this.SYNC_PREFIX + id,
+      PERSISTED_RECORD_TYPES.COMPONENT_SYNC
+    );
+
+    if (!record) return null;
+
+    return {
+      ...record,
+      sync: {
+        ...record.sync,
+        lastSyncedAt: new Date(record.sync.lastSyncedAt)
+      }
+    };
+  }
+
+  /**
+   * Reads the change vector stored with a remote copy
+   * @param content Remote content
+   * @returns Change vector, or null if none was stored
+   * @private
+   */
+  private readRemoteVector(content: StorageComponentContent): ChangeVector | null {
+    const vector = content.metadata?.[this.SYNC_METADATA_KEY]?.vector;
+    return typeof vector === 'object' && vector !== null ? vector : null;
+  }
+
+  /**
+   * Adds a change vector to content for the remote copy
+   * @param content Component content
+   * @param vector Change vector
+   * @returns Content with the vector in its metadata
+   * @private
+   */
+  private withSyncMetadata(content: StorageComponentContent, vector: ChangeVector): StorageComponentContent {
+    return {
+      ...content,
+      metadata: {
+        ...content.metadata,
+        [this.SYNC_METADATA_KEY]: { vector }
+      }
+    };
+  }
+
+  /**
+   * Removes the change vector from content
+   * @param content Component content
+   * @returns Content without sync metadata
+   * @private
+   */
+  private stripSyncMetadata(content: StorageComponentContent): StorageComponentContent {
+    if (!content.metadata || !(this.SYNC_METADATA_KEY in content.metadata)) {
+      return content;
+    }
+
+    const metadata = { ...content.metadata };
+    delete metadata[this.SYNC_METADATA_KEY];
+
+    const stripped: StorageComponentContent = { ...content, metadata };
+    if (Object.keys(metadata).length === 0) {
+      delete stripped.metadata;
+    }
+
+    return stripped;
+  }
+
+  /**
+   * Checks whether two contents are identical, including their metadata
+   * @param a First content
+   * @param b Second content
+   * @returns True if the panes and metadata serialize to the same value
+   * @private
+   */
+  private isSameContent(a: StorageComponentContent, b: StorageComponentContent): boolean {
+    const normalize = (c: StorageComponentContent) =>
+      JSON.stringify([c.html || '', c.css || '', c.js || '', c.metadata || null]);
+    return normalize(a) === normalize(b);
+  }
+
+  /**
+   * Converts an unknown error into an AppError
+   * @param error The caught error
+   * @param message Message for wrapped errors
+   * @returns AppError instance
+   * @private
+   */
+  private toAppError(error: unknown, message: string): AppError {
+    return error instanceof AppError
+      ? error
+      : new AppError(ErrorType.STORAGE, message, error);
+  }
+}
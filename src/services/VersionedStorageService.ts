@@ -0,0 +1,398 @@
+import { IStorageService } from './IStorageService';
+import {
+  IVersionedStorageService,
+  ComponentRevisionDiff,
+  VersionedStorageOptions
+} from './IVersionedStorageService';
+import { STORAGE_EVENTS, RevisionCreatedEvent, RevisionRestoredEvent } from './events';
+import { ISchemaMigrationRegistry } from './ISchemaMigrationRegistry';
+import { SchemaMigrationRegistry, registerDefaultMigrations, PERSISTED_RECORD_TYPES } from './SchemaMigrationRegistry';
+import { PersistedRecordStore } from './PersistedRecordStore';
+import { IStorageAdapter } from '../adapters/IStorageAdapter';
+import { IErrorHandler, AppError, ErrorType } from '../errors/IErrorHandler';
+import { IEventBus } from '../events/IEventBus';
+import { ComponentMetadata } from '../models/ComponentMetadata';
+import { ComponentRevisionMetadata, ComponentRevisionContent } from '../models/ComponentRevision';
+import { StorageComponentContent } from '../models/index';
+import { diffLines } from '../utils/textDiff';
+
+/**
+ * Versioned Storage Service implementation
+ * Decorates an IStorageService with per-component revision history
+ */
+export class VersionedStorageService implements IVersionedStorageService {
+  /**
+   * Prefix for component revision history keys
+   * @private
+   */
+  private readonly REVISIONS_PREFIX = 'devpreview_revisions_';
+
+  /**
+   * Default number of revisions kept per component
+   * @private
+   */
+  private readonly DEFAULT_MAX_REVISIONS = 20;
+
+  /**
+   * Maximum number of revisions kept per component
+   * @private
+   */
+  private readonly maxRevisions: number;
+
+  /**
+   * Versioned record access for revision history
+   * @private
+   */
+  private readonly recordStore: PersistedRecordStore;
+
+  /**
+   * Creates a new VersionedStorageService
+   * @param baseService The storage service to delegate to
+   * @param storageAdapter The storage adapter holding revision history
+   * @param errorHandler The error handler for error management
+   * @param eventBus Event bus for publishing revision events
+   * @param options Revision history options
+   * @param migrationRegistry Optional schema migration registry (defaults to the built-in migrations)
+   */
+  constructor(
+    private baseService: IStorageService,
+    private storageAdapter: IStorageAdapter,
+    private errorHandler: IErrorHandler,
+    private eventBus: IEventBus,
+    options: VersionedStorageOptions = {},
+    migrationRegistry?: ISchemaMigrationRegistry
+  ) {
+    this.maxRevisions = Math.max(1, options.maxRevisions ?? this.DEFAULT_MAX_REVISIONS);
+
+    if (!migrationRegistry) {
+      migrationRegistry = new SchemaMigrationRegistry();
+      registerDefaultMigrations(migrationRegistry);
+    }
+
+    this.recordStore = new PersistedRecordStore(storageAdapter, migrationRegistry);
+  }
+
+  /**
+   * Saves component data and records a revision
+   * @param metadata Component metadata
+   * @param content Component content data
+   * @returns True if save was successful
+   */
+  public saveComponent(metadata: ComponentMetadata, content: StorageComponentContent): boolean {
+    const saved = this.baseService.saveComponent(metadata, content);
+
+    if (saved) {
+      this.recordRevision(metadata.id, content);
+    }
+
+    return saved;
+  }
+
+  /**
+   * Writes component data without marking it as last edited and records a revision
+   * @param metadata Component metadata
+   * @param content Component content data
+   * @returns True if the write was successful
+   */
+  public writeComponent(metadata: ComponentMetadata, content: StorageComponentContent): boolean {
+    const written = this.baseService.writeComponent(metadata, content);
+
+    if (written) {
+      this.recordRevision(metadata.id, content);
+    }
+
+    return written;
+  }
+
+  /**
+   * Loads component data from storage
+   * Delegates to the base service
+   */
+  public loadComponent(id: string): StorageComponentContent {
+    return this.baseService.loadComponent(id);
+  }
+
+  /**
+   * Reads component data without marking it as last edited
+   * Delegates to the base service
+   */
+  public readComponent(id: string): StorageComponentContent {
+    return this.baseService.readComponent(id);
+  }
+
+  /**
+   * Gets the last edited component
+   * Delegates to the base service
+   */
+  public getLastEditedComponent(): ComponentMetadata | null {
+    return this.baseService.getLastEditedComponent();
+  }
+
+  /**
+   * Gets all locally stored components
+   * Delegates to the base service
+   */
+  public getAllLocalComponents(): ComponentMetadata[] {
+    return this.baseService.getAllLocalComponents();
+  }
+
+  /**
+   * Deletes a component and its revision history
+   * @param id Component ID
+   * @returns True if deletion was successful
+   */
+  public deleteComponent(id: string): boolean {
+    const deleted = this.baseService.deleteComponent(id);
+
+    if (deleted) {
+      this.storageAdapter.removeItem(this.REVISIONS_PREFIX + id);
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Waits for accepted writes to reach the underlying storage
+   * @returns Promise resolving to false if any write since the last flush failed
+   */
+  public flush(): Promise<boolean> {
+    return this.baseService.flush();
+  }
+
+  /**
+   * Gets the recorded revisions of a component
+   * @param id Component ID
+   * @returns Revision metadata, newest first
+   */
+  public getRevisions(id: string): ComponentRevisionMetadata[] {
+    try {
+      return this.readHistory(id)
+        .map(entry => entry.revision)
+        .reverse();
+    } catch (error) {
+      this.errorHandler.handle(
+        new AppError(
+          ErrorType.STORAGE,
+          `Failed to get revisions for component: ${id}`,
+          error
+        )
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Loads the content saved in a specific revision
+   * @param id Component ID
+   * @param revisionNumber Revision number
+   * @returns Revision content
+   * @throws AppError with STORAGE type if revision not found
+   */
+  public getRevisionContent(id: string, revisionNumber: number): StorageComponentContent {
+    try {
+      return this.findRevision(id, revisionNumber).content;
+    } catch (error) {
+      this.errorHandler.handle(error instanceof AppError ? error :
+        new AppError(
+          ErrorType.STORAGE,
+          `Failed to load revision ${revisionNumber} of component: ${id}`,
+          error
+        )
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Diffs the html, css and js of two revisions
+   * @param id Component ID
+   * @param fromRevision Revision number to diff from
+   * @param toRevision Revision number to diff to
+   * @returns Per-pane line diffs
+   * @throws AppError with STORAGE type if either revision not found
+   */
+  public diffRevisions(id: string, fromRevision: number, toRevision: number): ComponentRevisionDiff {
+    const from = this.getRevisionContent(id, fromRevision);
+    const to = this.getRevisionContent(id, toRevision);
+
+    return {
+      fromRevision,
+      toRevision,
+      htmlDiff: diffLines(from.html || '', to.html || ''),
+      cssDiff: diffLines(from.css || '', to.css || ''),
+      jsDiff: diffLines(from.js || '', to.js || '')
+    };
+  }
+
+  /**
+   * Restores a revision as the current component content
+   * The restore itself is recorded as a new revision
+   * @param id Component ID
+   * @param revisionNumber Revision number to restore
+   * @returns True if restore was successful
+   */
+  public restoreRevision(id: string, revisionNumber: number): boolean {
+    try {
+      const entry = this.findRevision(id, revisionNumber);
+      const metadata = this.baseService.getAllLocalComponents().find(c => c.id === id);
+
+      if (!metadata) {
+        throw new AppError(
+          ErrorType.STORAGE,
+          `Component not found: ${id}`
+        );
+      }
+
+      const content: StorageComponentContent = JSON.parse(JSON.stringify(entry.content));
+
+      if (!this.baseService.saveComponent(metadata, content)) {
+        return false;
+      }
+
+      const newRevision = this.recordRevision(id, content, revisionNumber);
+
+      // The history failure has already been reported
+      if (!newRevision) {
+        return false;
+      }
+
+      const eventData: RevisionRestoredEvent = {
+        componentId: id,
+        revisionNumber,
+        newRevisionNumber: newRevision.revisionNumber,
+        timestamp: Date.now()
+      };
+
+      this.eventBus.emit(STORAGE_EVENTS.REVISION_RESTORED, eventData);
+
+      return true;
+    } catch (error) {
+      this.errorHandler.handle(error instanceof AppError ? error :
+        new AppError(
+          ErrorType.STORAGE,
+          `Failed to restore revision ${revisionNumber} of component: ${id}`,
+          error
+        )
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Records a revision unless the content matches the latest revision
+   * @param id Component ID
+   * @param content Saved content
+   * @param restoredFrom Revision number the content was restored from
+   * @returns The recorded revision metadata, the latest revision if unchanged, or null if it could not be stored
+   * @private
+   */
+  private recordRevision(
+    id: string,
+    content: StorageComponentContent,
+    restoredFrom?: number
+  ): ComponentRevisionMetadata | null {
+    try {
+      const history = this.readHistory(id);
+      const latest = history[history.length - 1];
+
+      if (latest && this.isSameContent(latest.content, content)) {
+        return latest.revision;
+      }
+
+      const revision: ComponentRevisionMetadata = {
+        componentId: id,
+        revisionNumber: latest ? latest.revision.revisionNumber + 1 : 1,
+        createdAt: new Date()
+      };
+
+      if (restoredFrom !== undefined) {
+        revision.restoredFrom = restoredFrom;
+      }
+
+      history.push({ revision, content });
+
+      // Apply retention limit, dropping the oldest revisions
+      const retained = history.slice(-this.maxRevisions);
+      if (!this.recordStore.write(this.REVISIONS_PREFIX + id, PERSISTED_RECORD_TYPES.COMPONENT_REVISIONS, retained)) {
+        throw new Error(`Failed to write revision history: ${id}`);
+      }
+
+      const eventData: RevisionCreatedEvent = {
+        componentId: id,
+        revisionNumber: revision.revisionNumber,
+        restoredFrom,
+        timestamp: Date.now()
+      };
+
+      this.eventBus.emit(STORAGE_EVENTS.REVISION_CREATED, eventData);
+
+      return revision;
+    } catch (error) {
+      // The save itself succeeded, so only report the history failure
+      this.errorHandler.handle(
+        new AppError(
+          ErrorType.STORAGE,
+          `Failed to record revision for component: ${id}`,
+          error
+        )
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Finds a revision in a component's history
+   * @param id Component ID
+   * @param revisionNumber Revision number
+   * @returns The revision entry
+   * @throws AppError with STORAGE type if revision not found
+   * @private
+   */
+  private findRevision(id: string, revisionNumber: number): ComponentRevisionContent {
+    const entry = this.readHistory(id).find(
+      e => e.revision.revisionNumber === revisionNumber
+    );
+
+    if (!entry) {
+      throw new AppError(
+        ErrorType.STORAGE,
+        `Revision ${revisionNumber} not found for component: ${id}`
+      );
+    }
+
+    return entry;
+  }
+
+  /**
+   * Reads a component's revision history, oldest first
+   * Revives revision timestamps, which are stored as strings
+   * @param id Component ID
+   * @returns Revision entries
+   * @private
+   */
+  private readHistory(id: string): ComponentRevisionContent[] {
+    const history = this.recordStore.read<ComponentRevisionContent[]>(
+      this.REVISIONS_PREFIX + id,
+      PERSISTED_RECORD_TYPES.COMPONENT_REVISIONS
+    ) || [];
+
+    return history.map(entry => ({
+      ...entry,
+      revision: {
+        ...entry.revision,
+        createdAt: new Date(entry.revision.createdAt)
+      }
+    }));
+  }
+
+  /**
+   * Checks whether two contents are identical, including their metadata
+   * @param a First content
+   * @param b Second content
+   * @returns True if both serialize to the same value
+   * @private
+   */
+  private isSameContent(a: StorageComponentContent, b: StorageComponentContent): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+}
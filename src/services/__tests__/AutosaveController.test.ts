@@ -0,0 +1,304 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AutosaveController } from '../AutosaveController';
+import { StorageService } from '../StorageService';
+import { AUTOSAVE_EVENTS } from '../events';
+import { IStorageAdapter } from '../../adapters/IStorageAdapter';
+import { IEditor, EDITOR_HISTORY_METADATA_KEY } from '../../components/Editor';
+import { SimpleEditorFactory } from '../../factories/editors/SimpleEditorFactory';
+import { ServiceContainer } from '../../core/ServiceContainer';
+import { EnhancedEventBus } from '../../events/EnhancedEventBus';
+import { IErrorHandler, ErrorType } from '../../errors/IErrorHandler';
+import { IEventBus } from '../../events/IEventBus';
+import { ComponentMetadata } from '../../models/ComponentMetadata';
+
+/**
+ * In-memory storage adapter that serializes like localStorage
+ */
+class MemoryStorageAdapter implements IStorageAdapter {
+  public items = new Map<string, string>();
+
+  getItem<T>(key: string): T | null {
+    const item = this.items.get(key);
+    return item !== undefined ? JSON.parse(item) : null;
+  }
+
+  setItem<T>(key: string, value: T): boolean {
+    this.items.set(key, JSON.stringify(value));
+    return true;
+  }
+
+  removeItem(key: string): boolean {
+    this.items.delete(key);
+    return true;
+  }
+
+  clear(): boolean {
+    this.items.clear();
+    return true;
+  }
+
+  hasItem(key: string): boolean {
+    return this.items.has(key);
+  }
+}
+
+describe('AutosaveController', () => {
+  const metadata: ComponentMetadata = {
+    id: 'quiz-1',
+    name: 'Fractions quiz',
+    locationType: 'local'
+  };
+
+  let adapter: MemoryStorageAdapter;
+  let errorHandler: IErrorHandler;
+  let eventBus: IEventBus;
+  let storageService: StorageService;
+  let host: HTMLDivElement;
+
+  /**
+   * Create a simple editor showing the given JavaScript
+   * @param js JavaScript code
+   * @returns Editor
+   */
+  function createEditor(js = ''): IEditor {
+    const container = new ServiceContainer();
+    container.register('eventBus', new EnhancedEventBus());
+    return new SimpleEditorFactory(errorHandler).create({
+      containerId: 'editor',
+      initialContent: { html: '', css: '', js }
+    }, container);
+  }
+
+  /**
+   * Get the names of the autosave events emitted so far
+   * @returns Event names in order
+   */
+  function emittedEvents(): string[] {
+    return (eventBus.emit as ReturnType<typeof vi.fn>).mock.calls
+      .map(call => call[0] as string)
+      .filter(event => event.startsWith('autosave:'));
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    adapter = new MemoryStorageAdapter();
+    errorHandler = {
+      handle: vi.fn(),
+      createAndHandle: vi.fn(),
+      handleIframeError: vi.fn(),
+      handleMathApiError: vi.fn(),
+      attemptRecovery: vi.fn()
+    };
+    eventBus = {
+      on: vi.fn(),
+      off: vi.fn(),
+      emit: vi.fn(),
+      once: vi.fn()
+    };
+    storageService = new StorageService(adapter, errorHandler);
+
+    host = document.createElement('div');
+    host.id = 'editor';
+    document.body.appendChild(host);
+  });
+
+  afterEach(() => {
+    host.remove();
+    vi.useRealTimers();
+  });
+
+  it('should save once changes settle and publish the save status', () => {
+    // Arrange
+    const editor = createEditor();
+    const controller = new AutosaveController(storageService, adapter, errorHandler, eventBus, { debounceMs: 500 });
+    controller.attach(editor, { ...metadata });
+
+    // Act
+    editor.setContent({ html: '', css: '', js: 'let a;' });
+    vi.advanceTimersByTime(300);
+    editor.setContent({ html: '', css: '', js: 'let a = 1;' });
+    vi.advanceTimersByTime(300);
+    const savedEarly = adapter.hasItem('devpreview_component_quiz-1');
+    vi.advanceTimersByTime(200);
+
+    // Assert
+    expect(savedEarly).toBe(false);
+    expect(storageService.loadComponent('quiz-1').js).toBe('let a = 1;');
+    expect(controller.isDirty()).toBe(false);
+    expect(controller.getDraft('quiz-1')).toBeNull();
+    expect(emittedEvents()).toEqual([
+      AUTOSAVE_EVENTS.DIRTY_CHANGED,
+      AUTOSAVE_EVENTS.SAVING,
+      AUTOSAVE_EVENTS.DIRTY_CHANGED,
+      AUTOSAVE_EVENTS.SAVED
+    ]);
+  });
+
+  it('should save at the max interval while editing continues', () => {
+    // Arrange
+    const editor = createEditor();
+    const controller = new AutosaveController(storageService, adapter, errorHandler, eventBus, {
+      debounceMs: 500,
+      maxIntervalMs: 1000
+    });
+    controller.attach(editor, { ...metadata });
+
+    // Act
+    for (let change = 1; change <= 5; change++) {
+      editor.setContent({ html: '', css: '', js: `// ${change}` });
+      vi.advanceTimersByTime(300);
+    }
+
+    // Assert
+    expect(storageService.loadComponent('quiz-1').js).toBe('// 4');
+    expect(controller.isDirty()).toBe(true);
+  });
+
+  it('should not save when changes return to the saved content', () => {
+    // Arrange
+    const editor = createEditor('let a;');
+    const controller = new AutosaveController(storageService, adapter, errorHandler, eventBus);
+    controller.attach(editor, { ...metadata });
+
+    // Act
+    editor.setContent({ html: '', css: '', js: 'let b;' });
+    editor.undo();
+    vi.runAllTimers();
+
+    // Assert
+    expect(controller.isDirty()).toBe(false);
+    expect(controller.getDraft('quiz-1')).toBeNull();
+    expect(adapter.hasItem('devpreview_component_quiz-1')).toBe(false);
+  });
+
+  it('should report failed saves, keep the draft and retry', () => {
+    // Arrange
+    const editor = createEditor();
+    const saveComponent = vi.spyOn(storageService, 'saveComponent').mockImplementationOnce(() => {
+      throw new Error('Quota exceeded');
+    });
+    const controller = new AutosaveController(storageService, adapter, errorHandler, eventBus, {
+      debounceMs: 500,
+      maxIntervalMs: 5000
+    });
+    controller.attach(editor, { ...metadata });
+
+    // Act
+    editor.setContent({ html: '', css: '', js: 'let a;' });
+    vi.advanceTimersByTime(500);
+    const draftAfterFailure = controller.getDraft('quiz-1');
+    vi.advanceTimersByTime(5000);
+
+    // Assert
+    expect(draftAfterFailure?.content.js).toBe('let a;');
+    expect(eventBus.emit).toHaveBeenCalledWith(AUTOSAVE_EVENTS.FAILED, expect.objectContaining({
+      componentId: 'quiz-1',
+      error: 'Quota exceeded'
+    }));
+    expect(errorHandler.handle).toHaveBeenCalledWith(expect.objectContaining({ type: ErrorType.STORAGE }));
+    expect(saveComponent).toHaveBeenCalledTimes(2);
+    expect(controller.isDirty()).toBe(false);
+  });
+
+  it('should report saves that fail to persist after being accepted', async () => {
+    // Arrange
+    const editor = createEditor();
+    vi.spyOn(storageService, 'flush').mockResolvedValueOnce(false);
+    const controller = new AutosaveController(storageService, adapter, errorHandler, eventBus, {
+      debounceMs: 500,
+      maxIntervalMs: 5000
+    });
+    controller.attach(editor, { ...metadata });
+
+    // Act
+    editor.setContent({ html: '', css: '', js: 'let a;' });
+    await vi.advanceTimersByTimeAsync(500);
+    const dirtyAfterFailure = controller.isDirty();
+    const draftAfterFailure = controller.getDraft('quiz-1');
+    await vi.advanceTimersByTimeAsync(5000);
+
+    // Assert
+    expect(dirtyAfterFailure).toBe(true);
+    expect(draftAfterFailure?.content.js).toBe('let a;');
+    expect(emittedEvents()).toContain(AUTOSAVE_EVENTS.FAILED);
+    expect(emittedEvents().filter(event => event === AUTOSAVE_EVENTS.SAVED)).toHaveLength(2);
+    expect(controller.isDirty()).toBe(false);
+  });
+
+  it('should save before unload and ask to stay if saving fails', () => {
+    // Arrange
+    const editor = createEditor();
+    vi.spyOn(storageService, 'saveComponent').mockReturnValueOnce(true).mockReturnValue(false);
+    const controller = new AutosaveController(storageService, adapter, errorHandler, eventBus);
+    const detach = controller.attach(editor, { ...metadata });
+
+    // Act
+    editor.setContent({ html: '', css: '', js: 'let a;' });
+    const savedUnload = new Event('beforeunload', { cancelable: true });
+    window.dispatchEvent(savedUnload);
+    editor.setContent({ html: '', css: '', js: 'let b;' });
+    const failedUnload = new Event('beforeunload', { cancelable: true });
+    window.dispatchEvent(failedUnload);
+    detach();
+    const afterDetach = new Event('beforeunload', { cancelable: true });
+    window.dispatchEvent(afterDetach);
+
+    // Assert
+    expect(savedUnload.defaultPrevented).toBe(false);
+    expect(failedUnload.defaultPrevented).toBe(true);
+    expect(afterDetach.defaultPrevented).toBe(false);
+    expect(controller.getDraft('quiz-1')?.content.js).toBe('let b;');
+  });
+
+  it('should recover an unsaved draft into the editor', () => {
+    // Arrange
+    adapter.setItem('devpreview_autosave_draft_quiz-1', {
+      componentId: 'quiz-1',
+      content: { html: '', css: '', js: 'let a = 2;' },
+      savedAt: '2026-10-19T08:00:00.000Z'
+    });
+    const editor = createEditor('let a;');
+    const controller = new AutosaveController(storageService, adapter, errorHandler, eventBus, { saveHistory: true });
+
+    // Act
+    controller.attach(editor, { ...metadata });
+    vi.runAllTimers();
+
+    // Assert
+    expect(editor.getContent().js).toBe('let a = 2;');
+    expect(eventBus.emit).toHaveBeenCalledWith(AUTOSAVE_EVENTS.DRAFT_RECOVERED, expect.objectContaining({
+      componentId: 'quiz-1',
+      draftSavedAt: '2026-10-19T08:00:00.000Z'
+    }));
+    const stored = storageService.loadComponent('quiz-1');
+    expect(stored.js).toBe('let a = 2;');
+    expect(stored.metadata?.[EDITOR_HISTORY_METADATA_KEY].undoStack).toEqual([{ html: '', css: '', js: 'let a;' }]);
+    expect(editor.undo()).toBe(true);
+    expect(editor.getContent().js).toBe('let a;');
+  });
+
+  it('should keep a draft older than the last save instead of recovering it', () => {
+    // Arrange
+    adapter.setItem('devpreview_autosave_draft_quiz-1', {
+      componentId: 'quiz-1',
+      content: { html: '', css: '', js: 'let a = 2;' },
+      savedAt: '2026-10-19T08:00:00.000Z'
+    });
+    const editor = createEditor('let a = 3;');
+    const controller = new AutosaveController(storageService, adapter, errorHandler, eventBus);
+
+    // Act
+    controller.attach(editor, { ...metadata, lastEdited: new Date('2026-10-19T09:00:00.000Z') });
+    vi.runAllTimers();
+
+    // Assert
+    expect(editor.getContent().js).toBe('let a = 3;');
+    expect(emittedEvents()).toEqual([AUTOSAVE_EVENTS.DRAFT_CONFLICT]);
+    expect(eventBus.emit).toHaveBeenCalledWith(AUTOSAVE_EVENTS.DRAFT_CONFLICT, expect.objectContaining({
+      componentId: 'quiz-1',
+      draftSavedAt: '2026-10-19T08:00:00.000Z',
+      lastEdited: '2026-10-19T09:00:00.000Z'
+    }));
+    expect(controller.getDraft('quiz-1')?.content.js).toBe('let a = 2;');
+  });
+});
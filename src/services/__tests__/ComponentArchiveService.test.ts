@@ -0,0 +1,273 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ComponentArchiveService, COMPONENT_ARCHIVE_FORMAT } from '../ComponentArchiveService';
+import { StorageService } from '../StorageService';
+import { IStorageAdapter } from '../../adapters/IStorageAdapter';
+import { IErrorHandler, ErrorType } from '../../errors/IErrorHandler';
+import { ComponentMetadata } from '../../models/ComponentMetadata';
+import { StorageComponentContent } from '../../models/index';
+
+/**
+ * In-memory storage adapter that serializes like localStorage
+ */
+class MemoryStorageAdapter implements IStorageAdapter {
+  public items = new Map<string, string>();
+
+  getItem<T>(key: string): T | null {
+    const item = this.items.get(key);
+    return item !== undefined ? JSON.parse(item) : null;
+  }
+
+  setItem<T>(key: string, value: T): boolean {
+    this.items.set(key, JSON.stringify(value));
+    return true;
+  }
+
+  removeItem(key: string): boolean {
+    this.items.delete(key);
+    return true;
+  }
+
+  clear(): boolean {
+    this.items.clear();
+    return true;
+  }
+
+  hasItem(key: string): boolean {
+    return this.items.has(key);
+  }
+}
+
+describe('ComponentArchiveService', () => {
+  const graph: ComponentMetadata = {
+    id: 'graph',
+    name: 'Graph',
+    locationType: 'local',
+    tags: ['algebra']
+  };
+
+  const graphContent: StorageComponentContent = {
+    html: '<div id="calc"></div>',
+    css: '#calc { height: 400px; }',
+    js: 'init();',
+    metadata: { desmos: { expressions: ['y=x^2'] } }
+  };
+
+  const quiz: ComponentMetadata = { id: 'quiz', name: 'Quiz', locationType: 'local' };
+  const quizContent: StorageComponentContent = { html: '<form></form>', css: '', js: '' };
+
+  let errorHandler: IErrorHandler;
+  let source: StorageService;
+  let target: StorageService;
+
+  beforeEach(() => {
+    errorHandler = {
+      handle: vi.fn(),
+      createAndHandle: vi.fn(),
+      handleIframeError: vi.fn(),
+      handleMathApiError: vi.fn(),
+      attemptRecovery: vi.fn()
+    };
+
+    source = new StorageService(new MemoryStorageAdapter(), errorHandler);
+    target = new StorageService(new MemoryStorageAdapter(), errorHandler);
+    source.saveComponent({ ...graph }, graphContent);
+    source.saveComponent({ ...quiz }, quizContent);
+  });
+
+  // #region Export
+
+  it('should bundle components into a manifest and assets', () => {
+    // Arrange
+    const service = new ComponentArchiveService(source, errorHandler);
+
+    // Act
+    const archive = service.exportComponents(['graph']);
+
+    // Assert
+    expect(archive.manifest).toEqual({
+      format: COMPONENT_ARCHIVE_FORMAT.NAME,
+      formatVersion: COMPONENT_ARCHIVE_FORMAT.VERSION,
+      exportedAt: expect.any(String),
+      components: [{
+        id: 'graph',
+        name: 'Graph',
+        tags: ['algebra'],
+        lastEdited: expect.any(String),
+        assets: {
+          htmlPath: 'components/graph/index.html',
+          cssPath: 'components/graph/style.css',
+          jsPath: 'components/graph/script.js',
+          metadataPath: 'components/graph/metadata.json'
+        }
+      }]
+    });
+    expect(archive.assets['components/graph/index.html']).toBe(graphContent.html);
+    expect(JSON.parse(archive.assets['components/graph/metadata.json'])).toEqual(graphContent.metadata);
+    expect(source.getLastEditedComponent()?.id).toBe('quiz');
+  });
+
+  it('should export all components by default', () => {
+    // Arrange
+    const service = new ComponentArchiveService(source, errorHandler);
+
+    // Act
+    const archive = service.exportComponents();
+
+    // Assert
+    expect(archive.manifest.components.map(entry => entry.id)).toEqual(['graph', 'quiz']);
+  });
+
+  it('should report unknown components on export', () => {
+    // Arrange
+    const service = new ComponentArchiveService(source, errorHandler);
+
+    // Act & Assert
+    expect(() => service.exportComponents(['missing'])).toThrow('Component not found: missing');
+    expect(errorHandler.handle).toHaveBeenCalledWith(
+      expect.objectContaining({ type: ErrorType.STORAGE })
+    );
+  });
+
+  // #endregion
+
+  // #region Parsing and validation
+
+  it('should round-trip an archive file between storages', () => {
+    // Arrange
+    const text = new ComponentArchiveService(source, errorHandler).exportArchive();
+    const service = new ComponentArchiveService(target, errorHandler);
+
+    // Act
+    const results = service.importArchive(service.parseArchive(text));
+
+    // Assert
+    expect(results).toEqual([
+      { sourceId: 'graph', componentId: 'graph', outcome: 'created' },
+      { sourceId: 'quiz', componentId: 'quiz', outcome: 'created' }
+    ]);
+    expect(target.loadComponent('graph')).toEqual(graphContent);
+    expect(target.getAllLocalComponents().find(c => c.id === 'graph')?.tags).toEqual(['algebra']);
+  });
+
+  it('should reject text that is not JSON', () => {
+    // Arrange
+    const service = new ComponentArchiveService(target, errorHandler);
+
+    // Act & Assert
+    expect(() => service.parseArchive('not json')).toThrow(/Invalid component archive: archive is not valid JSON/);
+    expect(errorHandler.handle).toHaveBeenCalledWith(
+      expect.objectContaining({ type: ErrorType.VALIDATION })
+    );
+  });
+
+  it('should list every structural issue in the error details', () => {
+    // Arrange
+    const service = new ComponentArchiveService(target, errorHandler);
+    const archive = new ComponentArchiveService(source, errorHandler).exportComponents();
+    archive.manifest.formatVersion = COMPONENT_ARCHIVE_FORMAT.VERSION + 1;
+    archive.manifest.components[1].id = 'graph';
+    delete archive.assets['components/graph/style.css'];
+    archive.manifest.components[1].lastEdited = 'yesterday';
+
+    // Act
+    let issues: unknown;
+    try {
+      service.parseArchive(JSON.stringify(archive));
+    } catch (error: any) {
+      issues = error.details.issues;
+    }
+
+    // Assert
+    expect(issues).toEqual([
+      { path: 'manifest.formatVersion', message: expect.stringContaining('newer than the supported version') },
+      { path: 'manifest.components[0].assets.cssPath', message: 'must reference a text asset in the archive' },
+      { path: 'manifest.components[1].id', message: "duplicate component ID 'graph'" },
+      { path: 'manifest.components[1].lastEdited', message: 'must be an ISO timestamp' }
+    ]);
+  });
+
+  // #endregion
+
+  // #region Import
+
+  it('should keep the last edited component and archived edit times on import', () => {
+    // Arrange
+    const archive = new ComponentArchiveService(source, errorHandler).exportComponents();
+    archive.manifest.components[0].lastEdited = '2025-01-01T00:00:00.000Z';
+    target.saveComponent({ id: 'notes', name: 'Notes', locationType: 'local' }, quizContent);
+    const service = new ComponentArchiveService(target, errorHandler);
+
+    // Act
+    service.importArchive(service.parseArchive(JSON.stringify(archive)));
+
+    // Assert
+    expect(target.getLastEditedComponent()?.id).toBe('notes');
+    expect(target.getAllLocalComponents().find(c => c.id === 'graph')?.lastEdited)
+      .toEqual(new Date('2025-01-01T00:00:00.000Z'));
+  });
+
+  describe('with colliding components', () => {
+    let service: ComponentArchiveService;
+    let text: string;
+
+    beforeEach(() => {
+      text = new ComponentArchiveService(source, errorHandler).exportArchive();
+      target.saveComponent({ ...graph, name: 'Local Graph' }, quizContent);
+      target.saveComponent({ ...quiz }, quizContent);
+      service = new ComponentArchiveService(target, errorHandler);
+    });
+
+    it('should report collisions before importing', () => {
+      // Act
+      const preview = service.previewImport(service.parseArchive(text));
+
+      // Assert
+      expect(preview).toEqual({
+        formatVersion: COMPONENT_ARCHIVE_FORMAT.VERSION,
+        components: [{ id: 'graph', name: 'Graph' }, { id: 'quiz', name: 'Quiz' }],
+        collisions: ['graph', 'quiz']
+      });
+    });
+
+    it('should skip collisions by default', () => {
+      // Act
+      const results = service.importArchive(service.parseArchive(text));
+
+      // Assert
+      expect(results.map(r => r.outcome)).toEqual(['skipped', 'skipped']);
+      expect(target.loadComponent('graph')).toEqual(quizContent);
+    });
+
+    it('should apply the resolution chosen for each component', () => {
+      // Act
+      const results = service.importArchive(service.parseArchive(text), {
+        resolutions: { graph: 'overwrite', quiz: 'rename' }
+      });
+
+      // Assert
+      expect(results).toEqual([
+        { sourceId: 'graph', componentId: 'graph', outcome: 'overwritten' },
+        { sourceId: 'quiz', componentId: 'quiz-2', outcome: 'renamed' }
+      ]);
+      expect(target.loadComponent('graph')).toEqual(graphContent);
+      expect(target.getAllLocalComponents().map(c => `${c.id}:${c.name}`)).toEqual([
+        'graph:Graph',
+        'quiz:Quiz',
+        'quiz-2:Quiz (2)'
+      ]);
+    });
+
+    it('should use the default resolution for components without an explicit choice', () => {
+      // Act
+      const results = service.importArchive(service.parseArchive(text), {
+        resolutions: { graph: 'skip' },
+        defaultResolution: 'rename'
+      });
+
+      // Assert
+      expect(results.map(r => r.componentId)).toEqual([undefined, 'quiz-2']);
+    });
+  });
+
+  // #endregion
+});
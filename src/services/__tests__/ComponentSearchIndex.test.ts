@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ComponentSearchIndex, tokenize } from '../ComponentSearchIndex';
+import { ComponentMetadata } from '../../models/ComponentMetadata';
+import { StorageComponentContent } from '../../models/index';
+
+describe('ComponentSearchIndex', () => {
+  const emptyContent: StorageComponentContent = { html: '', css: '', js: '' };
+
+  const graph: ComponentMetadata = {
+    id: 'graph',
+    name: 'Quadratic Graph',
+    locationType: 'local',
+    lastEdited: new Date('2025-01-03'),
+    tags: ['Algebra', 'desmos']
+  };
+
+  const quiz: ComponentMetadata = {
+    id: 'quiz',
+    name: 'Unit Quiz',
+    locationType: 'local',
+    lastEdited: new Date('2025-01-02'),
+    tags: ['algebra', 'assessment']
+  };
+
+  const banner: ComponentMetadata = {
+    id: 'banner',
+    name: 'Course Banner',
+    locationType: 'local',
+    lastEdited: new Date('2025-01-01')
+  };
+
+  let index: ComponentSearchIndex;
+
+  beforeEach(() => {
+    index = new ComponentSearchIndex();
+    index.add(graph, { html: '<div id="calculator"></div>', css: '', js: 'Desmos.GraphingCalculator(el);' });
+    index.add(quiz, { html: '<form class="quadratic-quiz"></form>', css: 'form { margin: 0; }', js: '' });
+    index.add(banner, emptyContent);
+  });
+
+  it('should tokenize text into unique lowercase words', () => {
+    expect(tokenize('Quadratic-quiz <FORM> quadratic')).toEqual(['quadratic', 'quiz', 'form']);
+  });
+
+  it('should match words across name, tags and content, ranking name matches first', () => {
+    // Act
+    const result = index.search({ text: 'quadratic' });
+
+    // Assert
+    expect(result.hits.map(hit => hit.metadata.id)).toEqual(['graph', 'quiz']);
+    expect(result.hits[0].matchedFields).toEqual(['name']);
+    expect(result.hits[1].matchedFields).toEqual(['html']);
+    expect(result.hits[0].score).toBeGreaterThan(result.hits[1].score);
+  });
+
+  it('should require every word and match the last word as a prefix', () => {
+    // Act
+    const result = index.search({ text: 'algebra calc' });
+
+    // Assert
+    expect(result.hits.map(hit => hit.metadata.id)).toEqual(['graph']);
+    expect(result.hits[0].matchedFields).toEqual(['tags', 'html']);
+  });
+
+  it('should restrict matching to the requested fields', () => {
+    expect(index.search({ text: 'quadratic', fields: ['html'] }).total).toBe(1);
+  });
+
+  it('should filter by tags case-insensitively', () => {
+    // Act
+    const result = index.search({ tags: ['ALGEBRA', 'assessment'] });
+
+    // Assert
+    expect(result.hits.map(hit => hit.metadata.id)).toEqual(['quiz']);
+  });
+
+  it('should sort by lastEdited, newest first, without a text query', () => {
+    // Act
+    const result = index.search();
+
+    // Assert
+    expect(result.hits.map(hit => hit.metadata.id)).toEqual(['graph', 'quiz', 'banner']);
+    expect(index.search({ sortOrder: 'asc' }).hits[0].metadata.id).toBe('banner');
+    expect(index.search({ sortBy: 'name' }).hits[0].metadata.id).toBe('banner');
+  });
+
+  it('should paginate results and report the total', () => {
+    // Act
+    const result = index.search({ page: 2, pageSize: 2 });
+
+    // Assert
+    expect(result).toMatchObject({ total: 3, page: 2, pageSize: 2 });
+    expect(result.hits.map(hit => hit.metadata.id)).toEqual(['banner']);
+  });
+
+  it('should count tag facets over the matching components', () => {
+    // Act & Assert
+    expect(index.getTagFacets()).toEqual([
+      { tag: 'Algebra', count: 2 },
+      { tag: 'assessment', count: 1 },
+      { tag: 'desmos', count: 1 }
+    ]);
+    expect(index.search({ text: 'graph' }).facets).toEqual([
+      { tag: 'Algebra', count: 1 },
+      { tag: 'desmos', count: 1 }
+    ]);
+  });
+
+  it('should replace and remove components incrementally', () => {
+    // Act
+    index.add({ ...banner, name: 'Welcome Banner' }, emptyContent);
+    index.remove('graph');
+
+    // Assert
+    expect(index.size).toBe(2);
+    expect(index.search({ text: 'course' }).total).toBe(0);
+    expect(index.search({ text: 'welcome' }).total).toBe(1);
+    expect(index.search({ text: 'desmos' }).total).toBe(0);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { HybridStorageService } from '../HybridStorageService';
+import { IStorageService } from '../IStorageService';
+import { HttpRemoteStorageAdapter } from '../../adapters/HttpRemoteStorageAdapter';
+import { RemoteStorageStubServer } from '../../test/RemoteStorageStubServer';
+import { IErrorHandler, ErrorType } from '../../errors/IErrorHandler';
+import { ComponentMetadata } from '../../models/ComponentMetadata';
+import { StorageComponentContent } from '../../models/index';
+
+describe('HybridStorageService', () => {
+  const localMetadata: ComponentMetadata = { id: 'local-1', name: 'Local', locationType: 'local' };
+  const remoteMetadata: ComponentMetadata = { id: 'remote-1', name: 'Remote', locationType: 'remote' };
+  const content: StorageComponentContent = { html: '<p>hi</p>', css: '', js: '' };
+
+  let server: RemoteStorageStubServer;
+  let localService: IStorageService;
+  let errorHandler: IErrorHandler;
+  let service: HybridStorageService;
+
+  beforeEach(() => {
+    server = new RemoteStorageStubServer();
+    localService = {
+      saveComponent: vi.fn().mockReturnValue(true),
+      loadComponent: vi.fn().mockReturnValue(content),
+      getLastEditedComponent: vi.fn().mockReturnValue(null),
+      getAllLocalComponents: vi.fn().mockReturnValue([localMetadata]),
+      deleteComponent: vi.fn().mockReturnValue(true)
+    };
+    errorHandler = {
+      handle: vi.fn(),
+      createAndHandle: vi.fn(),
+      handleIframeError: vi.fn(),
+      handleMathApiError: vi.fn(),
+      attemptRecovery: vi.fn()
+    };
+
+    service = new HybridStorageService(
+      localService,
+      new HttpRemoteStorageAdapter({ baseUrl: server.baseUrl, fetch: server.fetch }),
+      errorHandler
+    );
+  });
+
+  it('should route local components to the local storage service', async () => {
+    // Act
+    const saved = await service.saveComponent({ ...localMetadata }, content);
+    const loaded = await service.loadComponent('local-1', 'local');
+
+    // Assert
+    expect(saved).toBe(true);
+    expect(loaded).toEqual(content);
+    expect(localService.saveComponent).toHaveBeenCalled();
+    expect(server.requests).toEqual([]);
+  });
+
+  it('should route remote components to the remote endpoint', async () => {
+    // Act
+    const saved = await service.saveComponent({ ...remoteMetadata }, content);
+    const loaded = await service.loadComponent('remote-1', 'remote');
+
+    // Assert
+    expect(saved).toBe(true);
+    expect(loaded).toEqual(content);
+    expect(localService.saveComponent).not.toHaveBeenCalled();
+    expect(server.store.get('remote-1')?.metadata.lastEdited).toEqual(expect.any(String));
+  });
+
+  it('should combine local and remote component lists', async () => {
+    // Arrange
+    await service.saveComponent({ ...remoteMetadata }, content);
+
+    // Act
+    const components = await service.getAllComponents();
+
+    // Assert
+    expect(components.map(c => `${c.locationType}:${c.id}`)).toEqual(['local:local-1', 'remote:remote-1']);
+  });
+
+  it('should report network failures as NETWORK errors and fall back to local components', async () => {
+    // Arrange
+    server.setOffline(true);
+
+    // Act
+    const saved = await service.saveComponent({ ...remoteMetadata }, content);
+    const components = await service.getAllComponents();
+
+    // Assert
+    expect(saved).toBe(false);
+    expect(components).toEqual([localMetadata]);
+    expect(errorHandler.handle).toHaveBeenCalledTimes(2);
+    expect(errorHandler.handle).toHaveBeenCalledWith(
+      expect.objectContaining({ type: ErrorType.NETWORK })
+    );
+  });
+
+  it('should throw a STORAGE error when a remote component is missing', async () => {
+    // Act & Assert
+    await expect(service.loadComponent('missing', 'remote')).rejects.toMatchObject({
+      type: ErrorType.STORAGE,
+      message: 'Component not found: missing'
+    });
+    expect(errorHandler.handle).toHaveBeenCalledTimes(1);
+  });
+
+  it('should delete remote components and handle server errors', async () => {
+    // Arrange
+    await service.saveComponent({ ...remoteMetadata }, content);
+    server.failNext(503);
+
+    // Act
+    const failed = await service.deleteComponent('remote-1', 'remote');
+    const deleted = await service.deleteComponent('remote-1', 'remote');
+
+    // Assert
+    expect(failed).toBe(false);
+    expect(deleted).toBe(true);
+    expect(errorHandler.handle).toHaveBeenCalledWith(
+      expect.objectContaining({ type: ErrorType.NETWORK, message: expect.stringContaining('503') })
+    );
+  });
+});
@@ -0,0 +1,273 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MathStateStorageService } from '../MathStateStorageService';
+import { StorageService } from '../StorageService';
+import { STORAGE_EVENTS } from '../events';
+import { IStorageAdapter } from '../../adapters/IStorageAdapter';
+import { IMathApiAdapter } from '../../adapters/math/IMathApiAdapter';
+import { MATH_STATE_METADATA_KEY } from '../../components/Preview';
+import { MathPreview } from '../../factories/previews/MathPreviewFactory';
+import { IErrorHandler, ErrorType } from '../../errors/IErrorHandler';
+import { IEventBus } from '../../events/IEventBus';
+import { ComponentMetadata } from '../../models/ComponentMetadata';
+import { StorageComponentContent } from '../../models/index';
+
+/**
+ * In-memory storage adapter that serializes like localStorage
+ */
+class MemoryStorageAdapter implements IStorageAdapter {
+  public items = new Map<string, string>();
+
+  getItem<T>(key: string): T | null {
+    const item = this.items.get(key);
+    return item !== undefined ? JSON.parse(item) : null;
+  }
+
+  setItem<T>(key: string, value: T): boolean {
+    this.items.set(key, JSON.stringify(value));
+    return true;
+  }
+
+  removeItem(key: string): boolean {
+    this.items.delete(key);
+    return true;
+  }
+
+  clear(): boolean {
+    this.items.clear();
+    return true;
+  }
+
+  hasItem(key: string): boolean {
+    return this.items.has(key);
+  }
+}
+
+/**
+ * Fake Desmos adapter keeping its state in memory
+ */
+function createFakeAdapter(): IMathApiAdapter {
+  let state: unknown = { expressions: [] };
+
+  return {
+    getApiType: () => 'desmos',
+    getApiVersion: () => '1.9.0',
+    getSupportedFeatures: () => ['state', 'image'],
+    initialize: vi.fn(async () => undefined),
+    updateContent: vi.fn(async () => undefined),
+    getState: vi.fn(() => state),
+    setState: vi.fn(async (next: unknown) => { state = next; }),
+    captureImage: vi.fn(async () => 'data:image/png;base64,iVBORw0KGgo='),
+    destroy: vi.fn()
+  };
+}
+
+describe('MathStateStorageService', () => {
+  const metadata: ComponentMetadata = {
+    id: 'graph-1',
+    name: 'Parabola',
+    locationType: 'local'
+  };
+
+  let adapter: MemoryStorageAdapter;
+  let errorHandler: IErrorHandler;
+  let eventBus: IEventBus;
+  let service: MathStateStorageService;
+  let host: HTMLDivElement;
+
+  /**
+   * Create a started math preview backed by a fake adapter
+   */
+  async function createPreview(): Promise<MathPreview> {
+    const iframe = document.createElement('iframe');
+    const mathHost = document.createElement('div');
+    host.append(mathHost, iframe);
+
+    const preview = new MathPreview(iframe, eventBus, errorHandler, {}, createFakeAdapter(), mathHost);
+    await preview.start();
+    return preview;
+  }
+
+  beforeEach(() => {
+    adapter = new MemoryStorageAdapter();
+    errorHandler = {
+      handle: vi.fn(),
+      createAndHandle: vi.fn(),
+      handleIframeError: vi.fn(),
+      handleMathApiError: vi.fn(),
+      attemptRecovery: vi.fn()
+    };
+    eventBus = {
+      on: vi.fn(),
+      off: vi.fn(),
+      emit: vi.fn(),
+      once: vi.fn()
+    };
+
+    host = document.createElement('div');
+    document.body.appendChild(host);
+
+    const baseService = new StorageService(adapter, errorHandler);
+    service = new MathStateStorageService(baseService, adapter, errorHandler, eventBus, { captureThumbnails: true });
+  });
+
+  afterEach(() => {
+    host.remove();
+  });
+
+  it('should save the attached preview state under the namespaced metadata field', async () => {
+    // Arrange
+    const preview = await createPreview();
+    await preview.setState({ expressions: ['y=x^2'] });
+    service.attachPreview('graph-1', preview);
+    const content: StorageComponentContent = { html: '', css: '', js: '', metadata: { libraries: ['desmos'] } };
+
+    // Act
+    service.saveComponent({ ...metadata }, content);
+
+    // Assert
+    const stored = service.loadComponent('graph-1');
+    expect(content.metadata).toEqual({ libraries: ['desmos'] });
+    expect(stored.metadata?.libraries).toEqual(['desmos']);
+    expect(stored.metadata?.[MATH_STATE_METADATA_KEY]).toMatchObject({
+      apiType: 'desmos',
+      apiVersion: '1.9.0',
+      state: { expressions: ['y=x^2'] }
+    });
+  });
+
+  it('should restore saved state into a preview attached after reload', async () => {
+    // Arrange
+    const first = await createPreview();
+    await first.setState({ expressions: ['y=2x'] });
+    const detach = service.attachPreview('graph-1', first);
+    service.saveComponent({ ...metadata }, { html: '', css: '', js: '' });
+    detach();
+
+    const second = await createPreview();
+    service.attachPreview('graph-1', second);
+
+    // Act
+    const restored = await service.restoreState('graph-1');
+
+    // Assert
+    expect(restored).toBe(true);
+    expect(second.getState()).toEqual({ expressions: ['y=2x'] });
+  });
+
+  it('should keep the stored state when capturing the state fails', async () => {
+    // Arrange
+    const preview = await createPreview();
+    await preview.setState({ expressions: ['y=3x'] });
+    service.attachPreview('graph-1', preview);
+    service.saveComponent({ ...metadata }, { html: '', css: '', js: '' });
+    vi.spyOn(preview, 'saveState').mockImplementation(() => {
+      throw new Error('Calculator is not ready');
+    });
+
+    // Act
+    const saved = service.saveComponent({ ...metadata }, { html: '<p>Edited</p>', css: '', js: '' });
+
+    // Assert
+    const stored = service.readComponent('graph-1');
+    expect(saved).toBe(true);
+    expect(stored.html).toBe('<p>Edited</p>');
+    expect(stored.metadata?.[MATH_STATE_METADATA_KEY]).toMatchObject({ state: { expressions: ['y=3x'] } });
+    expect(errorHandler.handle).toHaveBeenCalledWith(expect.objectContaining({
+      message: 'Failed to capture math state for component: graph-1'
+    }));
+  });
+
+  it('should restore state without changing the last edited component', async () => {
+    // Arrange
+    const preview = await createPreview();
+    service.attachPreview('graph-1', preview);
+    service.saveComponent({ ...metadata }, { html: '', css: '', js: '' });
+    service.saveComponent({ id: 'graph-2', name: 'Line', locationType: 'local' }, { html: '', css: '', js: '' });
+
+    // Act
+    await service.restoreState('graph-1');
+
+    // Assert
+    expect(service.getLastEditedComponent()?.id).toBe('graph-2');
+  });
+
+  it('should not restore anything for components without math state', async () => {
+    // Arrange
+    service.saveComponent({ ...metadata }, { html: '<p>Plain</p>', css: '', js: '' });
+    const preview = await createPreview();
+    service.attachPreview('graph-1', preview);
+
+    // Act & Assert
+    await expect(service.restoreState('graph-1')).resolves.toBe(false);
+    expect(preview.getAdapter().setState).not.toHaveBeenCalled();
+  });
+
+  it('should capture a thumbnail on save and publish it', async () => {
+    // Arrange
+    const preview = await createPreview();
+    service.attachPreview('graph-1', preview);
+
+    // Act
+    service.saveComponent({ ...metadata }, { html: '', css: '', js: '' });
+    await vi.waitFor(() => expect(service.getThumbnail('graph-1')).not.toBeNull());
+
+    // Assert
+    expect(service.getThumbnail('graph-1')).toBe('data:image/png;base64,iVBORw0KGgo=');
+    expect(preview.getAdapter().captureImage).toHaveBeenCalledWith({ width: 320, height: 240 });
+    expect(eventBus.emit).toHaveBeenCalledWith(
+      STORAGE_EVENTS.THUMBNAIL_CAPTURED,
+      expect.objectContaining({ componentId: 'graph-1', apiType: 'desmos' })
+    );
+  });
+
+  it('should report thumbnail failures without failing the save', async () => {
+    // Arrange
+    const preview = await createPreview();
+    vi.mocked(preview.getAdapter().captureImage).mockRejectedValue(new Error('Screenshots are not supported'));
+    service.attachPreview('graph-1', preview);
+
+    // Act
+    const saved = service.saveComponent({ ...metadata }, { html: '', css: '', js: '' });
+    const thumbnail = await service.captureThumbnail('graph-1');
+
+    // Assert
+    expect(saved).toBe(true);
+    expect(thumbnail).toBeNull();
+    expect(errorHandler.handle).toHaveBeenCalledWith(expect.objectContaining({
+      type: ErrorType.STORAGE,
+      message: 'Failed to capture thumbnail for component: graph-1'
+    }));
+  });
+
+  it('should keep only the most recently captured thumbnails', async () => {
+    // Arrange
+    const baseService = new StorageService(adapter, errorHandler);
+    service = new MathStateStorageService(baseService, adapter, errorHandler, eventBus, { maxThumbnails: 2 });
+    const preview = await createPreview();
+
+    // Act
+    for (const id of ['graph-1', 'graph-2', 'graph-3']) {
+      service.attachPreview(id, preview);
+      await service.captureThumbnail(id);
+    }
+
+    // Assert
+    expect(service.getThumbnail('graph-1')).toBeNull();
+    expect(service.getThumbnail('graph-2')).not.toBeNull();
+    expect(service.getThumbnail('graph-3')).not.toBeNull();
+  });
+
+  it('should delete thumbnails with the component', async () => {
+    // Arrange
+    const preview = await createPreview();
+    service.attachPreview('graph-1', preview);
+    service.saveComponent({ ...metadata }, { html: '', css: '', js: '' });
+    await service.captureThumbnail('graph-1');
+
+    // Act
+    service.deleteComponent('graph-1');
+
+    // Assert
+    expect(service.getThumbnail('graph-1')).toBeNull();
+  });
+});
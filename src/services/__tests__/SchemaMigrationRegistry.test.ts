@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  SchemaMigrationRegistry,
+  registerDefaultMigrations,
+  PERSISTED_RECORD_TYPES
+} from '../SchemaMigrationRegistry';
+import { ErrorType } from '../../errors/IErrorHandler';
+
+describe('SchemaMigrationRegistry', () => {
+  let registry: SchemaMigrationRegistry;
+
+  beforeEach(() => {
+    registry = new SchemaMigrationRegistry();
+  });
+
+  it('should report version 0 for record types without migrations', () => {
+    expect(registry.getCurrentVersion('unknown')).toBe(0);
+  });
+
+  it('should apply migrations in version order', () => {
+    // Arrange - registered out of order on purpose
+    registry.register({ recordType: 'note', fromVersion: 1, migrate: data => {
+      const note = data as { text: string; steps: string[] };
+      return { ...note, steps: [...note.steps, 'v2'] };
+    } });
+    registry.register({ recordType: 'note', fromVersion: 0, migrate: data => ({ text: data, steps: ['v1'] }) });
+
+    // Act
+    const result = registry.migrate<{ text: string; steps: string[] }>('note', 'hello');
+
+    // Assert
+    expect(registry.getCurrentVersion('note')).toBe(2);
+    expect(result).toEqual({
+      data: { text: 'hello', steps: ['v1', 'v2'] },
+      fromVersion: 0,
+      toVersion: 2
+    });
+  });
+
+  it('should only apply migrations newer than the envelope version', () => {
+    // Arrange
+    registry.register({ recordType: 'note', fromVersion: 0, migrate: () => { throw new Error('should not run'); } });
+    registry.register({ recordType: 'note', fromVersion: 1, migrate: data => String(data).toUpperCase() });
+
+    // Act
+    const result = registry.migrate('note', registry.wrap('note', 'hello'));
+
+    // Assert
+    expect(result).toEqual({ data: 'hello', fromVersion: 2, toVersion: 2 });
+    expect(registry.migrate('note', { schemaVersion: 1, recordType: 'note', savedAt: '', data: 'hi' }).data).toBe('HI');
+  });
+
+  it('should reject duplicate migration steps', () => {
+    // Arrange
+    registry.register({ recordType: 'note', fromVersion: 0, migrate: data => data });
+
+    // Act & Assert
+    expect(() => registry.register({ recordType: 'note', fromVersion: 0, migrate: data => data }))
+      .toThrow(expect.objectContaining({ type: ErrorType.VALIDATION }));
+  });
+
+  it('should wrap migration failures in STORAGE errors', () => {
+    // Arrange
+    registry.register({ recordType: 'note', fromVersion: 0, migrate: () => { throw new Error('bad data'); } });
+
+    // Act & Assert
+    expect(() => registry.migrate('note', 'hello')).toThrow(expect.objectContaining({
+      type: ErrorType.STORAGE,
+      message: expect.stringContaining('bad data')
+    }));
+  });
+
+  it('should reject records written by a newer schema version', () => {
+    // Arrange
+    registry.register({ recordType: 'note', fromVersion: 0, migrate: data => data });
+
+    // Act & Assert
+    expect(() => registry.migrate('note', { schemaVersion: 5, recordType: 'note', savedAt: '', data: 'x' }))
+      .toThrow(expect.objectContaining({ type: ErrorType.STORAGE }));
+  });
+
+  describe('registerDefaultMigrations', () => {
+    beforeEach(() => {
+      registerDefaultMigrations(registry);
+    });
+
+    it('should wrap legacy component lists', () => {
+      // Act
+      const result = registry.migrate(PERSISTED_RECORD_TYPES.COMPONENT_LIST, [{ id: 'a' }]);
+
+      // Assert
+      expect(result).toEqual({ data: [{ id: 'a' }], fromVersion: 0, toVersion: 1 });
+    });
+
+    it('should fill missing code panes in legacy component content', () => {
+      // Act
+      const result = registry.migrate(PERSISTED_RECORD_TYPES.COMPONENT_CONTENT, { html: '<p></p>', metadata: { a: 1 } });
+
+      // Assert
+      expect(result.data).toEqual({ html: '<p></p>', css: '', js: '', metadata: { a: 1 } });
+    });
+
+    it('should reject malformed legacy records', () => {
+      expect(() => registry.migrate(PERSISTED_RECORD_TYPES.COMPONENT_LIST, { id: 'a' })).toThrow('not an array');
+      expect(() => registry.migrate(PERSISTED_RECORD_TYPES.COMPONENT_CONTENT, 'text')).toThrow('not an object');
+    });
+  });
+});
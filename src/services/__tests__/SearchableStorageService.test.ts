@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SearchableStorageService } from '../SearchableStorageService';
+import { IStorageService } from '../IStorageService';
+import { IErrorHandler } from '../../errors/IErrorHandler';
+import { ComponentMetadata } from '../../models/ComponentMetadata';
+import { StorageComponentContent } from '../../models/index';
+
+describe('SearchableStorageService', () => {
+  const stored: ComponentMetadata = {
+    id: 'stored',
+    name: 'Stored Widget',
+    locationType: 'local',
+    tags: ['geometry']
+  };
+
+  const content: StorageComponentContent = { html: '<svg class="triangle"></svg>', css: '', js: '' };
+
+  let baseService: IStorageService;
+  let errorHandler: IErrorHandler;
+  let service: SearchableStorageService;
+
+  beforeEach(() => {
+    baseService = {
+      saveComponent: vi.fn().mockReturnValue(true),
+      writeComponent: vi.fn().mockReturnValue(true),
+      loadComponent: vi.fn().mockReturnValue(content),
+      readComponent: vi.fn().mockReturnValue(content),
+      getLastEditedComponent: vi.fn().mockReturnValue(null),
+      getAllLocalComponents: vi.fn().mockReturnValue([stored]),
+      deleteComponent: vi.fn().mockReturnValue(true),
+      flush: vi.fn().mockResolvedValue(true)
+    };
+    errorHandler = {
+      handle: vi.fn(),
+      createAndHandle: vi.fn(),
+      handleIframeError: vi.fn(),
+      handleMathApiError: vi.fn(),
+      attemptRecovery: vi.fn()
+    };
+
+    service = new SearchableStorageService(baseService, errorHandler);
+  });
+
+  it('should build the index from storage on first search', () => {
+    // Act
+    const result = service.search({ text: 'triangle' });
+    service.search({ text: 'widget' });
+
+    // Assert
+    expect(result.hits.map(hit => hit.metadata.id)).toEqual(['stored']);
+    expect(baseService.getAllLocalComponents).toHaveBeenCalledTimes(1);
+    expect(baseService.readComponent).toHaveBeenCalledWith('stored');
+    expect(baseService.loadComponent).not.toHaveBeenCalled();
+  });
+
+  it('should index components as they are saved', () => {
+    // Arrange
+    service.search();
+
+    // Act
+    service.saveComponent(
+      { id: 'new', name: 'New Widget', locationType: 'local', tags: ['geometry', 'circles'] },
+      { html: '', css: '', js: 'drawCircle();' }
+    );
+
+    // Assert
+    expect(service.search({ text: 'drawcircle' }).hits.map(hit => hit.metadata.id)).toEqual(['new']);
+    expect(service.getTagFacets()).toEqual([
+      { tag: 'geometry', count: 2 },
+      { tag: 'circles', count: 1 }
+    ]);
+  });
+
+  it('should not index components the base service failed to save', () => {
+    // Arrange
+    service.search();
+    vi.mocked(baseService.saveComponent).mockReturnValue(false);
+
+    // Act
+    service.saveComponent({ id: 'failed', name: 'Failed', locationType: 'local' }, content);
+
+    // Assert
+    expect(service.search({ text: 'failed' }).total).toBe(0);
+  });
+
+  it('should remove deleted components from the index', () => {
+    // Arrange
+    service.search();
+
+    // Act
+    service.deleteComponent('stored');
+
+    // Assert
+    expect(service.search().total).toBe(0);
+  });
+
+  it('should index components without content by name and tags', () => {
+    // Arrange
+    vi.mocked(baseService.readComponent).mockImplementation(() => {
+      throw new Error('Component not found');
+    });
+
+    // Act
+    const result = service.search({ text: 'stored', tags: ['geometry'] });
+
+    // Assert
+    expect(result.total).toBe(1);
+    expect(service.search({ text: 'triangle' }).total).toBe(0);
+  });
+});
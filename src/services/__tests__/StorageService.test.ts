@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
 import { StorageService } from '../StorageService';
 import { IStorageAdapter } from '../../adapters/IStorageAdapter';
+import { IAsyncStorageAdapter } from '../../adapters/IAsyncStorageAdapter';
+import { AsyncStorageAdapterBridge } from '../../adapters/AsyncStorageAdapterBridge';
 import { IErrorHandler } from '../../errors/IErrorHandler';
 import { ComponentMetadata } from '../../models/ComponentMetadata';
 import { StorageComponentContent } from '../../models/index';
@@ -46,11 +48,17 @@ describe('StorageService', () => {
     metadata: { version: '1.0.0' }
   };
   
+  // Matches a record written inside a versioned schema envelope
+  const envelope = (recordType: string, data: unknown) =>
+    expect.objectContaining({ schemaVersion: 1, recordType, data });
+  
   let storageService: StorageService;
   
   beforeEach(() => {
     // Reset mocks before each test
     vi.clearAllMocks();
+    mockStorageAdapter.getItem.mockReset();
+    mockStorageAdapter.setItem.mockReset().mockReturnValue(true);
     
     // Create a fresh storage service instance
     storageService = new StorageService(
@@ -74,13 +82,13 @@ describe('StorageService', () => {
       // Should save component content
       expect(mockStorageAdapter.setItem).toHaveBeenCalledWith(
         'devpreview_component_test-component-1',
-        testContent
+        envelope('component-content', testContent)
       );
       
       // Should save to component list
       expect(mockStorageAdapter.setItem).toHaveBeenCalledWith(
         'devpreview_components',
-        [expect.objectContaining({ id: 'test-component-1' })]
+        envelope('component-list', [expect.objectContaining({ id: 'test-component-1' })])
       );
       
       // Should update last edited
@@ -109,10 +117,10 @@ describe('StorageService', () => {
       // Should update component in list
       expect(mockStorageAdapter.setItem).toHaveBeenCalledWith(
         'devpreview_components',
-        [expect.objectContaining({ 
+        envelope('component-list', [expect.objectContaining({ 
           id: 'test-component-1',
           name: 'Updated Name'
-        })]
+        })])
       );
     });
     
@@ -135,6 +143,22 @@ describe('StorageService', () => {
         })
       );
     });
+    
+    it('should return false when the adapter rejects a write', () => {
+      // Arrange
+      mockStorageAdapter.getItem.mockReturnValue(null);
+      mockStorageAdapter.setItem.mockReturnValueOnce(false);
+      
+      // Act
+      const result = storageService.saveComponent(testMetadata, testContent);
+      
+      // Assert
+      expect(result).toBe(false);
+      expect(mockStorageAdapter.setItem).not.toHaveBeenCalledWith('devpreview_last_edited', expect.anything());
+      expect(mockErrorHandler.handle).toHaveBeenCalledWith(
+        expect.objectContaining({ type: ErrorType.STORAGE })
+      );
+    });
   });
   // #endregion
   
@@ -188,6 +212,20 @@ describe('StorageService', () => {
       );
     });
   });
+  
+  describe('readComponent', () => {
+    it('should read component content without updating last edited', () => {
+      // Arrange
+      mockStorageAdapter.getItem.mockReturnValueOnce(testContent);
+      
+      // Act
+      const result = storageService.readComponent('test-component-1');
+      
+      // Assert
+      expect(result).toEqual(testContent);
+      expect(mockStorageAdapter.setItem).not.toHaveBeenCalledWith('devpreview_last_edited', expect.anything());
+    });
+  });
   // #endregion
   
   // #region getLastEditedComponent tests
@@ -315,7 +353,7 @@ describe('StorageService', () => {
       // Should update component list
       expect(mockStorageAdapter.setItem).toHaveBeenCalledWith(
         'devpreview_components',
-        [expect.objectContaining({ id: 'test-component-2' })]
+        envelope('component-list', [expect.objectContaining({ id: 'test-component-2' })])
       );
       
       // Should update last edited to next component
@@ -339,7 +377,7 @@ describe('StorageService', () => {
       // Should update component list to empty
       expect(mockStorageAdapter.setItem).toHaveBeenCalledWith(
         'devpreview_components',
-        []
+        envelope('component-list', [])
       );
       
       // Should remove last edited key
@@ -366,4 +404,253 @@ describe('StorageService', () => {
     });
   });
   // #endregion
-});
\ No newline at end of file
+  
+  // #region migrateTo tests
+  describe('migrateTo', () => {
+    // Minimal in-memory async adapter
+    const createAsyncAdapter = (initial: Record<string, unknown> = {}) => {
+      const items = new Map<string, unknown>(Object.entries(initial));
+      return {
+        items,
+        adapter: {
+          getItem: async (key: string) => (items.has(key) ? items.get(key) : null),
+          setItem: async (key: string, value: unknown) => { items.set(key, value); return true; },
+          removeItem: async (key: string) => items.delete(key),
+          clear: async () => { items.clear(); return true; },
+          hasItem: async (key: string) => items.has(key),
+          keys: async () => Array.from(items.keys())
+        } as IAsyncStorageAdapter
+      };
+    };
+    
+    it('should copy components into the target using the same keys', async () => {
+      // Arrange
+      const stored: Record<string, unknown> = {
+        'devpreview_components': [testMetadata],
+        'devpreview_component_test-component-1': testContent,
+        'devpreview_last_edited': 'test-component-1'
+      };
+      mockStorageAdapter.getItem.mockImplementation((key: string) => stored[key] ?? null);
+      const { items, adapter } = createAsyncAdapter();
+      
+      // Act
+      const result = await storageService.migrateTo(adapter);
+      
+      // Assert
+      expect(result).toBe(true);
+      expect(items.get('devpreview_components')).toEqual([testMetadata]);
+      expect(items.get('devpreview_component_test-component-1')).toEqual(testContent);
+      expect(items.get('devpreview_last_edited')).toBe('test-component-1');
+    });
+    
+    it('should not overwrite keys that already exist in the target', async () => {
+      // Arrange
+      const existingContent = { html: 'existing', css: '', js: '' };
+      mockStorageAdapter.getItem.mockImplementation((key: string) =>
+        key === 'devpreview_components' ? [testMetadata] : testContent
+      );
+      const { items, adapter } = createAsyncAdapter({
+        'devpreview_component_test-component-1': existingContent
+      });
+      
+      // Act
+      await storageService.migrateTo(adapter);
+      
+      // Assert
+      expect(items.get('devpreview_component_test-component-1')).toEqual(existingContent);
+    });
+    
+    it('should handle write failures', async () => {
+      // Arrange
+      mockStorageAdapter.getItem.mockImplementation((key: string) =>
+        key === 'devpreview_components' ? [testMetadata] : testContent
+      );
+      const { adapter } = createAsyncAdapter();
+      adapter.setItem = async () => false;
+      
+      // Act
+      const result = await storageService.migrateTo(adapter);
+      
+      // Assert
+      expect(result).toBe(false);
+      expect(mockErrorHandler.handle).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: ErrorType.STORAGE,
+          message: expect.stringContaining('Failed to migrate components')
+        })
+      );
+    });
+  });
+  // #endregion
+  
+  // #region async path tests
+  describe('async path', () => {
+    // In-memory async adapter that can be made to reject writes
+    const createAsyncAdapter = (items: Map<string, unknown>, accept: () => boolean) => ({
+      getItem: async (key: string) => (items.has(key) ? items.get(key) : null),
+      setItem: async (key: string, value: unknown) => {
+        if (!accept()) return false;
+        items.set(key, value);
+        return true;
+      },
+      removeItem: async (key: string) => items.delete(key),
+      clear: async () => { items.clear(); return true; },
+      hasItem: async (key: string) => items.has(key),
+      keys: async () => Array.from(items.keys())
+    } as IAsyncStorageAdapter);
+    
+    it('should report saves that fail to persist in the background', async () => {
+      // Arrange
+      let accept = true;
+      const bridge = new AsyncStorageAdapterBridge(createAsyncAdapter(new Map(), () => accept), mockErrorHandler);
+      const service = new StorageService(bridge, mockErrorHandler);
+      
+      // Act
+      const saved = await service.saveComponentAsync({ ...testMetadata }, testContent);
+      accept = false;
+      const quotaExceeded = await service.saveComponentAsync({ ...testMetadata, id: 'test-component-2' }, testContent);
+      
+      // Assert
+      expect(saved).toBe(true);
+      expect(quotaExceeded).toBe(false);
+      expect(bridge.hasItem('devpreview_component_test-component-2')).toBe(false);
+      expect(mockErrorHandler.handle).toHaveBeenCalledWith(expect.objectContaining({ type: ErrorType.STORAGE }));
+    });
+    
+    it('should load lazily stored component content', async () => {
+      // Arrange
+      const items = new Map<string, unknown>();
+      const writer = new StorageService(
+        new AsyncStorageAdapterBridge(createAsyncAdapter(items, () => true), mockErrorHandler),
+        mockErrorHandler
+      );
+      await writer.saveComponentAsync({ ...testMetadata }, testContent);
+      const bridge = new AsyncStorageAdapterBridge(createAsyncAdapter(items, () => true), mockErrorHandler, {
+        lazyKeyPrefixes: ['devpreview_component_']
+      });
+      await bridge.load();
+      const service = new StorageService(bridge, mockErrorHandler);
+      
+      // Act
+      const content = await service.readComponentAsync('test-component-1');
+      
+      // Assert
+      expect(content).toEqual(testContent);
+      expect(service.getAllLocalComponents().map(c => c.id)).toEqual(['test-component-1']);
+    });
+  });
+  // #endregion
+  
+  // #region schema migration tests
+  describe('schema migration', () => {
+    it('should revive lastEdited dates stored as strings', () => {
+      // Arrange
+      mockStorageAdapter.getItem.mockReturnValueOnce([
+        { ...testMetadata, lastEdited: '2025-01-01T00:00:00.000Z' }
+      ]);
+      
+      // Act
+      const [result] = storageService.getAllLocalComponents();
+      
+      // Assert
+      expect(result.lastEdited).toBeInstanceOf(Date);
+      expect(result.lastEdited?.toISOString()).toBe('2025-01-01T00:00:00.000Z');
+    });
+    
+    it('should read records stored in a versioned envelope', () => {
+      // Arrange
+      mockStorageAdapter.getItem.mockReturnValueOnce({
+        schemaVersion: 1,
+        recordType: 'component-content',
+        savedAt: '2025-01-01T00:00:00.000Z',
+        data: testContent
+      });
+      
+      // Act
+      const result = storageService.loadComponent('test-component-1');
+      
+      // Assert
+      expect(result).toEqual(testContent);
+      expect(mockStorageAdapter.setItem).not.toHaveBeenCalledWith(
+        'devpreview_component_test-component-1',
+        expect.anything()
+      );
+    });
+    
+    it('should write upgraded legacy records back in an envelope', () => {
+      // Arrange
+      mockStorageAdapter.getItem.mockReturnValueOnce({ html: '<p>legacy</p>' });
+      
+      // Act
+      const result = storageService.loadComponent('test-component-1');
+      
+      // Assert
+      expect(result).toEqual({ html: '<p>legacy</p>', css: '', js: '' });
+      expect(mockStorageAdapter.setItem).toHaveBeenCalledWith(
+        'devpreview_component_test-component-1',
+        envelope('component-content', result)
+      );
+    });
+    
+    it('should quarantine records that fail to migrate', () => {
+      // Arrange
+      const brokenList = { not: 'a list' };
+      mockStorageAdapter.getItem.mockImplementation((key: string) =>
+        key === 'devpreview_components' ? brokenList : null
+      );
+      mockStorageAdapter.setItem.mockReturnValue(true);
+      
+      // Act
+      const result = storageService.getAllLocalComponents();
+      
+      // Assert
+      expect(result).toEqual([]);
+      expect(mockStorageAdapter.setItem).toHaveBeenCalledWith(
+        'devpreview_quarantine',
+        [expect.objectContaining({
+          key: 'devpreview_components',
+          recordType: 'component-list',
+          record: brokenList,
+          error: expect.stringContaining('not an array')
+        })]
+      );
+      expect(mockStorageAdapter.removeItem).toHaveBeenCalledWith('devpreview_components');
+      expect(mockErrorHandler.handle).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: ErrorType.STORAGE,
+          message: expect.stringContaining('quarantined')
+        })
+      );
+    });
+    
+    it('should keep the original record if it cannot be quarantined', () => {
+      // Arrange
+      mockStorageAdapter.getItem.mockImplementation((key: string) =>
+        key === 'devpreview_components' ? 'corrupt' : null
+      );
+      mockStorageAdapter.setItem.mockReturnValue(false);
+      
+      // Act
+      storageService.getAllLocalComponents();
+      
+      // Assert
+      expect(mockStorageAdapter.removeItem).not.toHaveBeenCalled();
+    });
+    
+    it('should list quarantined records', () => {
+      // Arrange
+      const quarantined = [{
+        key: 'devpreview_component_x',
+        recordType: 'component-content',
+        record: 42,
+        error: 'Component content is not an object',
+        quarantinedAt: '2025-01-01T00:00:00.000Z'
+      }];
+      mockStorageAdapter.getItem.mockReturnValueOnce(quarantined);
+      
+      // Act & Assert
+      expect(storageService.getQuarantinedRecords()).toEqual(quarantined);
+    });
+  });
+  // #endregion
+});
@@ -0,0 +1,339 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SyncService } from '../SyncService';
+import { StorageService } from '../StorageService';
+import { SyncConflictResolver } from '../ISyncService';
+import { SYNC_EVENTS } from '../events';
+import { HttpRemoteStorageAdapter } from '../../adapters/HttpRemoteStorageAdapter';
+import { IStorageAdapter } from '../../adapters/IStorageAdapter';
+import { RemoteStorageStubServer } from '../../test/RemoteStorageStubServer';
+import { EnhancedEventBus } from '../../events/EnhancedEventBus';
+import { IErrorHandler, ErrorType } from '../../errors/IErrorHandler';
+import { ComponentMetadata } from '../../models/ComponentMetadata';
+import { StorageComponentContent } from '../../models/index';
+
+/**
+ * In-memory storage adapter that serializes like localStorage
+ */
+class MemoryStorageAdapter implements IStorageAdapter {
+  public items = new Map<string, string>();
+
+  getItem<T>(key: string): T | null {
+    const item = this.items.get(key);
+    return item !== undefined ? JSON.parse(item) : null;
+  }
+
+  setItem<T>(key: string, value: T): boolean {
+    this.items.set(key, JSON.stringify(value));
+    return true;
+  }
+
+  removeItem(key: string): boolean {
+    this.items.delete(key);
+    return true;
+  }
+
+  clear(): boolean {
+    this.items.clear();
+    return true;
+  }
+
+  hasItem(key: string): boolean {
+    return this.items.has(key);
+  }
+}
+
+describe('SyncService', () => {
+  const metadata: ComponentMetadata = {
+    id: 'widget-1',
+    name: 'Widget',
+    locationType: 'local'
+  };
+
+  const content: StorageComponentContent = {
+    html: '<div>\n  <p>one</p>\n</div>',
+    css: 'p {\n  color: red;\n}',
+    js: ''
+  };
+
+  let server: RemoteStorageStubServer;
+  let localService: StorageService;
+  let errorHandler: IErrorHandler;
+  let eventBus: EnhancedEventBus;
+
+  /**
+   * Create a sync service over the shared local storage and stub server
+   */
+  function createService(resolveConflict?: SyncConflictResolver): SyncService {
+    const adapter = new MemoryStorageAdapter();
+    localService = new StorageService(adapter, errorHandler);
+    return new SyncService(
+      localService,
+      new HttpRemoteStorageAdapter({ baseUrl: server.baseUrl, fetch: server.fetch }),
+      adapter,
+      errorHandler,
+      eventBus,
+      { resolveConflict }
+    );
+  }
+
+  /**
+   * Edit the remote copy as another client would
+   * Without a vector the stored vector is left as it was
+   */
+  function editRemote(changes: Partial<StorageComponentContent>, vector?: Record<string, number>): void {
+    const entry = server.store.get(metadata.id)!;
+    const remoteMetadata = vector ? { sync: { vector } } : entry.componentContent.metadata;
+    server.store.set(metadata.id, {
+      ...entry,
+      componentContent: { ...entry.componentContent, ...changes, metadata: remoteMetadata }
+    });
+  }
+
+  beforeEach(() => {
+    server = new RemoteStorageStubServer();
+    errorHandler = {
+      handle: vi.fn(),
+      createAndHandle: vi.fn(),
+      handleIframeError: vi.fn(),
+      handleMathApiError: vi.fn(),
+      attemptRecovery: vi.fn()
+    };
+    eventBus = new EnhancedEventBus();
+  });
+
+  it('should push a component that only exists locally', async () => {
+    // Arrange
+    const service = createService();
+    localService.saveComponent({ ...metadata }, content);
+
+    // Act
+    const result = await service.sync('widget-1');
+
+    // Assert
+    expect(result).toEqual({ componentId: 'widget-1', action: 'pushed', vector: { local: 1 } });
+    expect(server.store.get('widget-1')?.componentContent).toEqual({
+      ...content,
+      metadata: { sync: { vector: { local: 1 } } }
+    });
+    expect(server.store.get('widget-1')?.metadata.locationType).toBe('remote');
+    expect(service.getSyncMetadata('widget-1')).toEqual({
+      componentId: 'widget-1',
+      vector: { local: 1 },
+      lastSyncedAt: expect.any(Date)
+    });
+  });
+
+  it('should report nothing to do when neither copy changed', async () => {
+    // Arrange
+    const service = createService();
+    localService.saveComponent({ ...metadata }, content);
+    await service.sync('widget-1');
+
+    // Act
+    const result = await service.sync('widget-1');
+
+    // Assert
+    expect(result.action).toBe('none');
+    expect(server.requests.filter(r => r.method === 'PUT')).toHaveLength(1);
+  });
+
+  it('should push local edits made since the last sync', async () => {
+    // Arrange
+    const service = createService();
+    localService.saveComponent({ ...metadata }, content);
+    await service.sync('widget-1');
+    localService.saveComponent({ ...metadata }, { ...content, js: 'init();' });
+
+    // Act
+    const result = await service.sync('widget-1');
+
+    // Assert
+    expect(result).toEqual({ componentId: 'widget-1', action: 'pushed', vector: { local: 2 } });
+    expect(server.store.get('widget-1')?.componentContent.js).toBe('init();');
+  });
+
+  it('should leave the last edited component unchanged', async () => {
+    // Arrange
+    const service = createService();
+    localService.saveComponent({ ...metadata }, content);
+    localService.saveComponent({ id: 'widget-2', name: 'Other', locationType: 'local' }, content);
+    const remoteEdited = new Date('2026-01-02T03:04:05.000Z');
+
+    // Act
+    await service.sync('widget-1');
+    const lastEditedAfterPush = localService.getLastEditedComponent()?.id;
+    editRemote({ js: 'remote();' });
+    server.store.get('widget-1')!.metadata.lastEdited = remoteEdited;
+    const pull = await service.sync('widget-1');
+
+    // Assert
+    expect(lastEditedAfterPush).toBe('widget-2');
+    expect(pull.action).toBe('pulled');
+    expect(localService.getLastEditedComponent()?.id).toBe('widget-2');
+    expect(localService.getAllLocalComponents().find(c => c.id === 'widget-1')?.lastEdited).toEqual(remoteEdited);
+  });
+
+  it('should pull remote edits, including edits made without a change vector', async () => {
+    // Arrange
+    const service = createService();
+    localService.saveComponent({ ...metadata }, content);
+    await service.sync('widget-1');
+    editRemote({ js: 'remote();' });
+
+    // Act
+    const result = await service.sync('widget-1');
+
+    // Assert
+    expect(result).toEqual({ componentId: 'widget-1', action: 'pulled', vector: { local: 1, remote: 1 } });
+    expect(localService.loadComponent('widget-1')).toEqual({ ...content, js: 'remote();' });
+  });
+
+  it('should pull edits from replicas that update the change vector', async () => {
+    // Arrange
+    const service = createService();
+    localService.saveComponent({ ...metadata }, content);
+    await service.sync('widget-1');
+    editRemote({ html: '<p>tablet</p>' }, { local: 1, tablet: 1 });
+
+    // Act
+    const result = await service.sync('widget-1');
+
+    // Assert
+    expect(result).toEqual({ componentId: 'widget-1', action: 'pulled', vector: { local: 1, tablet: 1 } });
+    expect(localService.loadComponent('widget-1').html).toBe('<p>tablet</p>');
+  });
+
+  it('should merge concurrent edits to different lines', async () => {
+    // Arrange
+    const service = createService();
+    localService.saveComponent({ ...metadata }, content);
+    await service.sync('widget-1');
+    localService.saveComponent({ ...metadata }, { ...content, css: 'p {\n  color: blue;\n}' });
+    editRemote({ html: '<div>\n  <p>one</p>\n  <p>two</p>\n</div>' });
+
+    // Act
+    const result = await service.sync('widget-1');
+
+    // Assert
+    const expected = {
+      html: '<div>\n  <p>one</p>\n  <p>two</p>\n</div>',
+      css: 'p {\n  color: blue;\n}',
+      js: ''
+    };
+    expect(result).toEqual({ componentId: 'widget-1', action: 'merged', vector: { local: 3, remote: 1 } });
+    expect(localService.loadComponent('widget-1')).toEqual(expected);
+    expect(server.store.get('widget-1')?.componentContent).toEqual({
+      ...expected,
+      metadata: { sync: { vector: { local: 3, remote: 1 } } }
+    });
+  });
+
+  it('should announce conflicts and leave both copies untouched without a resolver', async () => {
+    // Arrange
+    const service = createService();
+    const conflictListener = vi.fn();
+    eventBus.on(SYNC_EVENTS.CONFLICT, conflictListener);
+    localService.saveComponent({ ...metadata }, content);
+    await service.sync('widget-1');
+    localService.saveComponent({ ...metadata }, { ...content, css: 'p {\n  color: blue;\n}' });
+    editRemote({ css: 'p {\n  color: green;\n}' });
+
+    // Act
+    const result = await service.sync('widget-1');
+
+    // Assert
+    expect(result).toEqual({ componentId: 'widget-1', action: 'conflict' });
+    expect(conflictListener).toHaveBeenCalledWith({
+      componentId: 'widget-1',
+      conflicts: [{
+        pane: 'css',
+        baseLines: ['  color: red;'],
+        localLines: ['  color: blue;'],
+        remoteLines: ['  color: green;'],
+        startLine: 2
+      }],
+      timestamp: expect.any(Number)
+    });
+    expect(localService.loadComponent('widget-1').css).toContain('blue');
+    expect(server.store.get('widget-1')?.componentContent.css).toContain('green');
+    expect(service.getSyncMetadata('widget-1')?.vector).toEqual({ local: 1 });
+  });
+
+  it('should apply the content chosen by the resolution callback', async () => {
+    // Arrange
+    const resolver = vi.fn().mockImplementation(async () => ({ strategy: 'remote' }));
+    const service = createService(resolver);
+    const resolvedListener = vi.fn();
+    eventBus.on(SYNC_EVENTS.CONFLICT_RESOLVED, resolvedListener);
+    localService.saveComponent({ ...metadata }, content);
+    await service.sync('widget-1');
+    localService.saveComponent({ ...metadata }, { ...content, css: 'p {\n  color: blue;\n}' });
+    editRemote({ css: 'p {\n  color: green;\n}' });
+
+    // Act
+    const result = await service.sync('widget-1');
+
+    // Assert
+    expect(resolver).toHaveBeenCalledWith(expect.objectContaining({
+      componentId: 'widget-1',
+      base: content,
+      merge: expect.objectContaining({
+        content: expect.objectContaining({
+          css: 'p {\n<<<<<<< local\n  color: blue;\n=======\n  color: green;\n>>>>>>> remote\n}'
+        })
+      })
+    }));
+    expect(result.action).toBe('resolved');
+    expect(localService.loadComponent('widget-1').css).toBe('p {\n  color: green;\n}');
+    expect(resolvedListener).toHaveBeenCalledWith({
+      componentId: 'widget-1',
+      strategy: 'remote',
+      timestamp: expect.any(Number)
+    });
+  });
+
+  it('should sync components present in both places and report progress', async () => {
+    // Arrange
+    const service = createService();
+    const progressListener = vi.fn();
+    const completedListener = vi.fn();
+    eventBus.on(SYNC_EVENTS.PROGRESS, progressListener);
+    eventBus.on(SYNC_EVENTS.COMPLETED, completedListener);
+    localService.saveComponent({ ...metadata }, content);
+    localService.saveComponent({ ...metadata, id: 'local-only' }, content);
+    await service.sync('widget-1');
+    editRemote({ js: 'remote();' });
+    progressListener.mockClear();
+
+    // Act
+    const results = await service.syncAll();
+
+    // Assert
+    expect(results.map(r => r.componentId)).toEqual(['widget-1']);
+    expect(progressListener).toHaveBeenCalledWith({
+      componentId: 'widget-1',
+      action: 'pulled',
+      completed: 1,
+      total: 1,
+      timestamp: expect.any(Number)
+    });
+    expect(completedListener).toHaveBeenLastCalledWith({ results, timestamp: expect.any(Number) });
+  });
+
+  it('should report network failures through the error handler', async () => {
+    // Arrange
+    const service = createService();
+    localService.saveComponent({ ...metadata }, content);
+    server.setOffline(true);
+
+    // Act
+    const result = await service.sync('widget-1');
+
+    // Assert
+    expect(result).toEqual({ componentId: 'widget-1', action: 'failed' });
+    expect(errorHandler.handle).toHaveBeenCalledWith(
+      expect.objectContaining({ type: ErrorType.NETWORK })
+    );
+    expect(service.getSyncMetadata('widget-1')).toBeNull();
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { VersionedStorageService } from '../VersionedStorageService';
+import { StorageService } from '../StorageService';
+import { STORAGE_EVENTS } from '../events';
+import { IStorageAdapter } from '../../adapters/IStorageAdapter';
+import { IErrorHandler, ErrorType } from '../../errors/IErrorHandler';
+import { IEventBus } from '../../events/IEventBus';
+import { ComponentMetadata } from '../../models/ComponentMetadata';
+import { StorageComponentContent } from '../../models/index';
+
+/**
+ * In-memory storage adapter that serializes like localStorage
+ */
+class MemoryStorageAdapter implements IStorageAdapter {
+  public items = new Map<string, string>();
+
+  getItem<T>(key: string): T | null {
+    const item = this.items.get(key);
+    return item !== undefined ? JSON.parse(item) : null;
+  }
+
+  setItem<T>(key: string, value: T): boolean {
+    this.items.set(key, JSON.stringify(value));
+    return true;
+  }
+
+  removeItem(key: string): boolean {
+    this.items.delete(key);
+    return true;
+  }
+
+  clear(): boolean {
+    this.items.clear();
+    return true;
+  }
+
+  hasItem(key: string): boolean {
+    return this.items.has(key);
+  }
+}
+
+describe('VersionedStorageService', () => {
+  const metadata: ComponentMetadata = {
+    id: 'widget-1',
+    name: 'Widget',
+    locationType: 'local'
+  };
+
+  const contentV1: StorageComponentContent = { html: '<p>one</p>', css: '', js: '' };
+  const contentV2: StorageComponentContent = { html: '<p>two</p>', css: 'p { color: red; }', js: '' };
+
+  let adapter: MemoryStorageAdapter;
+  let errorHandler: IErrorHandler;
+  let eventBus: IEventBus;
+  let service: VersionedStorageService;
+
+  beforeEach(() => {
+    adapter = new MemoryStorageAdapter();
+    errorHandler = {
+      handle: vi.fn(),
+      createAndHandle: vi.fn(),
+      handleIframeError: vi.fn(),
+      handleMathApiError: vi.fn(),
+      attemptRecovery: vi.fn()
+    };
+    eventBus = {
+      on: vi.fn(),
+      off: vi.fn(),
+      emit: vi.fn(),
+      once: vi.fn()
+    };
+
+    const baseService = new StorageService(adapter, errorHandler);
+    service = new VersionedStorageService(baseService, adapter, errorHandler, eventBus, { maxRevisions: 3 });
+  });
+
+  it('should record a revision on every changed save', () => {
+    // Act
+    service.saveComponent({ ...metadata }, contentV1);
+    service.saveComponent({ ...metadata }, contentV2);
+
+    // Assert
+    const revisions = service.getRevisions('widget-1');
+    expect(revisions.map(r => r.revisionNumber)).toEqual([2, 1]);
+    expect(revisions[0].createdAt).toBeInstanceOf(Date);
+    expect(eventBus.emit).toHaveBeenCalledWith(
+      STORAGE_EVENTS.REVISION_CREATED,
+      expect.objectContaining({ componentId: 'widget-1', revisionNumber: 2 })
+    );
+  });
+
+  it('should not record a revision when content is unchanged', () => {
+    // Act
+    service.saveComponent({ ...metadata }, contentV1);
+    service.saveComponent({ ...metadata }, { ...contentV1 });
+
+    // Assert
+    expect(service.getRevisions('widget-1')).toHaveLength(1);
+  });
+
+  it('should drop the oldest revisions beyond the retention count', () => {
+    // Act
+    for (let i = 1; i <= 5; i++) {
+      service.saveComponent({ ...metadata }, { html: `<p>${i}</p>`, css: '', js: '' });
+    }
+
+    // Assert
+    expect(service.getRevisions('widget-1').map(r => r.revisionNumber)).toEqual([5, 4, 3]);
+    expect(service.getRevisionContent('widget-1', 3).html).toBe('<p>3</p>');
+  });
+
+  it('should diff the html, css and js of two revisions', () => {
+    // Arrange
+    service.saveComponent({ ...metadata }, contentV1);
+    service.saveComponent({ ...metadata }, contentV2);
+
+    // Act
+    const diff = service.diffRevisions('widget-1', 1, 2);
+
+    // Assert
+    expect(diff.htmlDiff.map(entry => entry.type)).toEqual(['removed', 'added']);
+    expect(diff.cssDiff).toEqual([{ type: 'added', line: 'p { color: red; }', newLineNumber: 1 }]);
+    expect(diff.jsDiff).toEqual([]);
+  });
+
+  it('should restore a revision as the current content', () => {
+    // Arrange
+    service.saveComponent({ ...metadata }, contentV1);
+    service.saveComponent({ ...metadata }, contentV2);
+
+    // Act
+    const result = service.restoreRevision('widget-1', 1);
+
+    // Assert
+    expect(result).toBe(true);
+    expect(service.loadComponent('widget-1')).toEqual(contentV1);
+
+    const [latest] = service.getRevisions('widget-1');
+    expect(latest).toMatchObject({ revisionNumber: 3, restoredFrom: 1 });
+    expect(eventBus.emit).toHaveBeenCalledWith(
+      STORAGE_EVENTS.REVISION_RESTORED,
+      expect.objectContaining({ componentId: 'widget-1', revisionNumber: 1, newRevisionNumber: 3 })
+    );
+  });
+
+  it('should report a STORAGE error when restoring a missing revision', () => {
+    // Arrange
+    service.saveComponent({ ...metadata }, contentV1);
+
+    // Act
+    const result = service.restoreRevision('widget-1', 42);
+
+    // Assert
+    expect(result).toBe(false);
+    expect(errorHandler.handle).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: ErrorType.STORAGE,
+        message: expect.stringContaining('Revision 42 not found')
+      })
+    );
+  });
+
+  it('should report a STORAGE error when the revision history cannot be written', () => {
+    // Arrange
+    service.saveComponent({ ...metadata }, contentV1);
+    service.saveComponent({ ...metadata }, contentV2);
+    vi.mocked(eventBus.emit).mockClear();
+    const setItem = adapter.setItem.bind(adapter);
+    vi.spyOn(adapter, 'setItem').mockImplementation((key, value) =>
+      key.startsWith('devpreview_revisions_') ? false : setItem(key, value)
+    );
+
+    // Act
+    const result = service.restoreRevision('widget-1', 1);
+
+    // Assert
+    expect(result).toBe(false);
+    expect(service.getRevisions('widget-1')).toHaveLength(2);
+    expect(eventBus.emit).not.toHaveBeenCalledWith(STORAGE_EVENTS.REVISION_CREATED, expect.anything());
+    expect(eventBus.emit).not.toHaveBeenCalledWith(STORAGE_EVENTS.REVISION_RESTORED, expect.anything());
+    expect(errorHandler.handle).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: ErrorType.STORAGE,
+        message: 'Failed to record revision for component: widget-1'
+      })
+    );
+  });
+
+  it('should throw when loading a missing revision', () => {
+    expect(() => service.getRevisionContent('widget-1', 1)).toThrow('Revision 1 not found');
+  });
+
+  it('should remove revision history when a component is deleted', () => {
+    // Arrange
+    service.saveComponent({ ...metadata }, contentV1);
+
+    // Act
+    service.deleteComponent('widget-1');
+
+    // Assert
+    expect(adapter.hasItem('devpreview_revisions_widget-1')).toBe(false);
+    expect(service.getRevisions('widget-1')).toEqual([]);
+  });
+});
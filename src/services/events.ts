@@ -0,0 +1,382 @@
+import { ComponentSyncResult, SyncAction, SyncConflictResolution } from './ISyncService';
+import { PaneMergeConflict } from '../utils/threeWayMerge';
+
+/**
+ * Storage system event constants
+ * These events are published through the event bus during storage operations
+ */
+export const STORAGE_EVENTS = {
+  /**
+   * Emitted when a new revision of a component is recorded
+   * Event data: { componentId: string, revisionNumber: number, timestamp: number }
+   */
+  REVISION_CREATED: 'storage:revision:created',
+
+  /**
+   * Emitted when a component is restored to an earlier revision
+   * Event data: { componentId: string, revisionNumber: number, newRevisionNumber: number, timestamp: number }
+   */
+  REVISION_RESTORED: 'storage:revision:restored',
+
+  /**
+   * Emitted when a thumbnail of a component's math visualization is captured
+   * Event data: { componentId: string, apiType: string, thumbnail: string, timestamp: number }
+   */
+  THUMBNAIL_CAPTURED: 'storage:thumbnail:captured'
+} as const;
+
+/**
+ * Revision created event data interface
+ */
+export interface RevisionCreatedEvent {
+  /**
+   * ID of the component the revision belongs to
+   */
+  componentId: string;
+
+  /**
+   * Number of the newly recorded revision
+   */
+  revisionNumber: number;
+
+  /**
+   * Revision number the new revision was restored from, if any
+   */
+  restoredFrom?: number;
+
+  /**
+   * Creation timestamp
+   */
+  timestamp: number;
+}
+
+/**
+ * Revision restored event data interface
+ */
+export interface RevisionRestoredEvent {
+  /**
+   * ID of the restored component
+   */
+  componentId: string;
+
+  /**
+   * Revision number that was restored
+   */
+  revisionNumber: number;
+
+  /**
+   * Revision number of the current content after the restore
+   */
+  newRevisionNumber: number;
+
+  /**
+   * Restore timestamp
+   */
+  timestamp: number;
+}
+
+/**
+ * Thumbnail captured event data interface
+ */
+export interface ThumbnailCapturedEvent {
+  /**
+   * ID of the component the thumbnail belongs to
+   */
+  componentId: string;
+
+  /**
+   * Math API type of the captured visualization
+   */
+  apiType: string;
+
+  /**
+   * PNG data URL of the thumbnail
+   */
+  thumbnail: string;
+
+  /**
+   * Capture timestamp
+   */
+  timestamp: number;
+}
+
+/**
+ * Sync event constants
+ * These events are published through the enhanced event bus while
+ * synchronizing local and remote copies of components
+ */
+export const SYNC_EVENTS = {
+  /**
+   * Emitted when a sync run starts
+   * Event data: { componentIds: string[], timestamp: number }
+   */
+  STARTED: 'sync:started',
+
+  /**
+   * Emitted after each component in a sync run has been processed
+   * Event data: { componentId: string, action: SyncAction, completed: number, total: number, timestamp: number }
+   */
+  PROGRESS: 'sync:progress',
+
+  /**
+   * Emitted when both copies of a component were edited and could not be merged automatically
+   * Event data: { componentId: string, conflicts: PaneMergeConflict[], timestamp: number }
+   */
+  CONFLICT: 'sync:conflict',
+
+  /**
+   * Emitted when a conflict has been resolved through the resolution callback
+   * Event data: { componentId: string, strategy: 'local' | 'remote' | 'merged', timestamp: number }
+   */
+  CONFLICT_RESOLVED: 'sync:conflict:resolved',
+
+  /**
+   * Emitted when a sync run finishes
+   * Event data: { results: ComponentSyncResult[], timestamp: number }
+   */
+  COMPLETED: 'sync:completed'
+} as const;
+
+/**
+ * Sync started event data interface
+ */
+export interface SyncStartedEvent {
+  /**
+   * IDs of the components being synchronized
+   */
+  componentIds: string[];
+
+  /**
+   * Start timestamp
+   */
+  timestamp: number;
+}
+
+/**
+ * Sync progress event data interface
+ */
+export interface SyncProgressEvent {
+  /**
+   * ID of the component that was processed
+   */
+  componentId: string;
+
+  /**
+   * What the sync did with the component
+   */
+  action: SyncAction;
+
+  /**
+   * Number of components processed so far
+   */
+  completed: number;
+
+  /**
+   * Number of components in the run
+   */
+  total: number;
+
+  /**
+   * Progress timestamp
+   */
+  timestamp: number;
+}
+
+/**
+ * Sync conflict event data interface
+ */
+export interface SyncConflictEvent {
+  /**
+   * ID of the conflicting component
+   */
+  componentId: string;
+
+  /**
+   * Hunks that could not be merged automatically
+   */
+  conflicts: PaneMergeConflict[];
+
+  /**
+   * Detection timestamp
+   */
+  timestamp: number;
+}
+
+/**
+ * Sync conflict resolved event data interface
+ */
+export interface SyncConflictResolvedEvent {
+  /**
+   * ID of the component whose conflict was resolved
+   */
+  componentId: string;
+
+  /**
+   * Which content was kept
+   */
+  strategy: SyncConflictResolution['strategy'];
+
+  /**
+   * Resolution timestamp
+   */
+  timestamp: number;
+}
+
+/**
+ * Sync completed event data interface
+ */
+export interface SyncCompletedEvent {
+  /**
+   * Outcome for each synchronized component
+   */
+  results: ComponentSyncResult[];
+
+  /**
+   * Completion timestamp
+   */
+  timestamp: number;
+}
+
+/**
+ * Autosave event constants
+ * These events are published through the event bus as an autosave controller saves an editor
+ */
+export const AUTOSAVE_EVENTS = {
+  /**
+   * Emitted when the editor content starts or stops differing from the saved content
+   * Event data: { componentId: string, dirty: boolean, timestamp: number }
+   */
+  DIRTY_CHANGED: 'autosave:dirty-changed',
+
+  /**
+   * Emitted before the editor content is saved
+   * Event data: { componentId: string, timestamp: number }
+   */
+  SAVING: 'autosave:saving',
+
+  /**
+   * Emitted after the editor content is saved
+   * Event data: { componentId: string, timestamp: number }
+   */
+  SAVED: 'autosave:saved',
+
+  /**
+   * Emitted when saving the editor content fails
+   * Also emitted after SAVED if the storage adapter later fails to persist the save.
+   * Event data: { componentId: string, error: string, timestamp: number }
+   */
+  FAILED: 'autosave:failed',
+
+  /**
+   * Emitted when an unsaved draft left by an earlier session is restored into the editor
+   * Event data: { componentId: string, draftSavedAt: string, timestamp: number }
+   */
+  DRAFT_RECOVERED: 'autosave:draft-recovered',
+
+  /**
+   * Emitted instead of restoring a draft that is older than the component's last save
+   * The draft is kept; handle it with getDraft and discardDraft.
+   * Event data: { componentId: string, draftSavedAt: string, lastEdited: string, timestamp: number }
+   */
+  DRAFT_CONFLICT: 'autosave:draft-conflict'
+} as const;
+
+/**
+ * Autosave dirty changed event data interface
+ */
+export interface AutosaveDirtyChangedEvent {
+  /**
+   * ID of the edited component
+   */
+  componentId: string;
+
+  /**
+   * Whether the editor has unsaved changes
+   */
+  dirty: boolean;
+
+  /**
+   * Change timestamp
+   */
+  timestamp: number;
+}
+
+/**
+ * Autosave saving and saved event data interface
+ */
+export interface AutosaveEvent {
+  /**
+   * ID of the saved component
+   */
+  componentId: string;
+
+  /**
+   * Event timestamp
+   */
+  timestamp: number;
+}
+
+/**
+ * Autosave failed event data interface
+ */
+export interface AutosaveFailedEvent {
+  /**
+   * ID of the component that could not be saved
+   */
+  componentId: string;
+
+  /**
+   * Error message
+   */
+  error: string;
+
+  /**
+   * Failure timestamp
+   */
+  timestamp: number;
+}
+
+/**
+ * Autosave draft recovered event data interface
+ */
+export interface AutosaveDraftRecoveredEvent {
+  /**
+   * ID of the component the draft belongs to
+   */
+  componentId: string;
+
+  /**
+   * ISO timestamp of when the draft was written
+   */
+  draftSavedAt: string;
+
+  /**
+   * Recovery timestamp
+   */
+  timestamp: number;
+}
+
+/**
+ * Autosave draft conflict event data interface
+ */
+export interface AutosaveDraftConflictEvent {
+  /**
+   * ID of the component the draft belongs to
+   */
+  componentId: string;
+
+  /**
+   * ISO timestamp of when the draft was written
+   */
+  draftSavedAt: string;
+
+  /**
+   * ISO timestamp of when the component was last saved
+   */
+  lastEdited: string;
+
+  /**
+   * Conflict timestamp
+   */
+  timestamp: number;
+}
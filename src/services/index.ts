@@ -4,4 +4,39 @@
 
 // Storage service exports
 export * from './IStorageService';
-export * from './StorageService';
\ No newline at end of file
+export * from './StorageService';
+
+// Revision history exports
+export * from './events';
+export * from './IVersionedStorageService';
+export * from './VersionedStorageService';
+
+// Math state persistence exports
+export * from './IMathStateStorageService';
+export * from './MathStateStorageService';
+
+// Schema versioning exports
+export * from './ISchemaMigrationRegistry';
+export * from './SchemaMigrationRegistry';
+export * from './PersistedRecordStore';
+
+// Remote storage exports
+export * from './IHybridStorageService';
+export * from './HybridStorageService';
+
+// Sync exports
+export * from './ISyncService';
+export * from './SyncService';
+
+// Search exports
+export * from './ISearchableStorageService';
+export * from './ComponentSearchIndex';
+export * from './SearchableStorageService';
+
+// Archive exports
+export * from './IComponentArchiveService';
+export * from './ComponentArchiveService';
+
+// Autosave exports
+export * from './IAutosaveController';
+export * from './AutosaveController';
@@ -0,0 +1,126 @@
+import { RemoteFetchFunction, RemoteFetchResult } from '../adapters/HttpRemoteStorageAdapter';
+import {
+  ComponentListResponse,
+  ComponentLoadResponse,
+  ComponentSaveRequest,
+  ComponentSaveResponse
+} from '../adapters/RemoteStorageContract';
+
+/**
+ * Request recorded by the stub server
+ */
+export interface StubRequestLog {
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+/**
+ * In-process stub of the remote storage endpoint
+ * Implements the REST contract from RemoteStorageContract against an
+ * in-memory store, and exposes a fetch function to hand to the adapter.
+ */
+export class RemoteStorageStubServer {
+  /**
+   * Stored components keyed by ID, kept in their JSON wire format
+   */
+  public readonly store = new Map<string, ComponentLoadResponse>();
+
+  /**
+   * Every request received, in order
+   */
+  public readonly requests: StubRequestLog[] = [];
+
+  private offline = false;
+  private pendingFailures: number[] = [];
+
+  constructor(public readonly baseUrl: string = 'https://stub.test/api') {}
+
+  /**
+   * Simulate the network being unreachable
+   * @param offline Whether requests should fail at the transport level
+   */
+  setOffline(offline: boolean): void {
+    this.offline = offline;
+  }
+
+  /**
+   * Respond to the next request with an error status
+   * @param status HTTP status to return
+   */
+  failNext(status: number): void {
+    this.pendingFailures.push(status);
+  }
+
+  /**
+   * Fetch implementation routed to the stub
+   * @param url Request URL
+   * @param init Request options
+   * @returns Promise resolving to the stub response
+   */
+  fetch: RemoteFetchFunction = async (url, init = {}) => {
+    const method = (init.method || 'GET').toUpperCase();
+    const path = url.startsWith(this.baseUrl) ? url.slice(this.baseUrl.length) : url;
+    const body = typeof init.body === 'string' ? JSON.parse(init.body) : undefined;
+
+    this.requests.push({ method, path, body });
+
+    if (this.offline) {
+      throw new TypeError('Failed to fetch');
+    }
+
+    const failure = this.pendingFailures.shift();
+    if (failure !== undefined) {
+      return this.json(failure, { error: `Stub failure ${failure}` });
+    }
+
+    if (path === '/components' && method === 'GET') {
+      const response: ComponentListResponse = {
+        components: Array.from(this.store.values()).map(entry => entry.metadata)
+      };
+      return this.json(200, response);
+    }
+
+    const match = /^\/components\/([^/]+)$/.exec(path);
+    if (!match) {
+      return this.json(404, { error: 'Not found' });
+    }
+
+    const id = decodeURIComponent(match[1]);
+
+    switch (method) {
+      case 'GET': {
+        const entry = this.store.get(id);
+        return entry ? this.json(200, entry) : this.json(404, { error: 'Not found' });
+      }
+      case 'PUT': {
+        const request = body as ComponentSaveRequest;
+        this.store.set(id, JSON.parse(JSON.stringify({
+          metadata: request.metadata,
+          componentContent: request.componentContent
+        })));
+        const response: ComponentSaveResponse = { metadata: this.store.get(id)!.metadata };
+        return this.json(200, response);
+      }
+      case 'DELETE':
+        return this.store.delete(id)
+          ? new Response(null, { status: 204 })
+          : this.json(404, { error: 'Not found' });
+      default:
+        return this.json(405, { error: 'Method not allowed' });
+    }
+  };
+
+  /**
+   * Build a JSON response
+   * @param status HTTP status
+   * @param body Response body
+   * @returns Response instance
+   */
+  private json(status: number, body: unknown): RemoteFetchResult {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
@@ -34,6 +34,11 @@ beforeAll(() => {
     }),
   };
   
+  // Range layout is not implemented by jsdom (required by CodeMirror)
+  const emptyRect = () => DOMRect.fromRect();
+  Range.prototype.getBoundingClientRect = emptyRect;
+  Range.prototype.getClientRects = () => Object.assign([] as DOMRect[], { item: () => null }) as unknown as DOMRectList;
+  
   // Mock fetch API (for API service)
   window.fetch = vi.fn().mockImplementation(() => Promise.resolve({
     ok: true,
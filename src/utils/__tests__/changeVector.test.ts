@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { compareVectors, incrementVector, mergeVectors } from '../changeVector';
+
+describe('changeVector', () => {
+  it('should increment the count of a single replica', () => {
+    expect(incrementVector({ a: 1 }, 'a')).toEqual({ a: 2 });
+    expect(incrementVector({ a: 1 }, 'b')).toEqual({ a: 1, b: 1 });
+  });
+
+  it('should keep the highest count per replica when merging', () => {
+    expect(mergeVectors({ a: 2, b: 1 }, { b: 3, c: 1 })).toEqual({ a: 2, b: 3, c: 1 });
+  });
+
+  it('should order vectors by the edits they include', () => {
+    expect(compareVectors({ a: 1 }, { a: 1 })).toBe('equal');
+    expect(compareVectors({}, {})).toBe('equal');
+    expect(compareVectors({ a: 1 }, { a: 2 })).toBe('before');
+    expect(compareVectors({ a: 2, b: 1 }, { a: 2 })).toBe('after');
+    expect(compareVectors({ a: 2 }, { a: 1, b: 1 })).toBe('concurrent');
+  });
+});
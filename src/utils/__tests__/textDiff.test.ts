@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, splitLines } from '../textDiff';
+
+describe('textDiff', () => {
+  describe('splitLines', () => {
+    it('should treat an empty string as no lines', () => {
+      expect(splitLines('')).toEqual([]);
+    });
+
+    it('should split on both LF and CRLF line breaks', () => {
+      expect(splitLines('a\r\nb\nc')).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('diffLines', () => {
+    it('should mark identical texts as unchanged', () => {
+      // Act
+      const diff = diffLines('a\nb', 'a\nb');
+
+      // Assert
+      expect(diff.every(entry => entry.type === 'unchanged')).toBe(true);
+      expect(diff).toHaveLength(2);
+    });
+
+    it('should detect added and removed lines with line numbers', () => {
+      // Act
+      const diff = diffLines('a\nb\nc', 'a\nx\nc\nd');
+
+      // Assert
+      expect(diff).toEqual([
+        { type: 'unchanged', line: 'a', oldLineNumber: 1, newLineNumber: 1 },
+        { type: 'removed', line: 'b', oldLineNumber: 2 },
+        { type: 'added', line: 'x', newLineNumber: 2 },
+        { type: 'unchanged', line: 'c', oldLineNumber: 3, newLineNumber: 3 },
+        { type: 'added', line: 'd', newLineNumber: 4 }
+      ]);
+    });
+
+    it('should handle empty old or new text', () => {
+      expect(diffLines('', 'a').map(entry => entry.type)).toEqual(['added']);
+      expect(diffLines('a', '').map(entry => entry.type)).toEqual(['removed']);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { mergeText, mergeComponentContent } from '../threeWayMerge';
+
+describe('threeWayMerge', () => {
+  describe('mergeText', () => {
+    it('should take changes made on only one side', () => {
+      // Act
+      const result = mergeText('a\nb\nc', 'a\nB\nc', 'a\nb\nc\nd');
+
+      // Assert
+      expect(result).toEqual({ text: 'a\nB\nc\nd', conflicts: [] });
+    });
+
+    it('should take identical changes once', () => {
+      // Act
+      const result = mergeText('a\nb', 'a\nx', 'a\nx');
+
+      // Assert
+      expect(result).toEqual({ text: 'a\nx', conflicts: [] });
+    });
+
+    it('should mark regions changed differently on both sides', () => {
+      // Act
+      const result = mergeText('a\nb\nc', 'a\nlocal\nc', 'a\nremote\nc');
+
+      // Assert
+      expect(result.text).toBe('a\n<<<<<<< local\nlocal\n=======\nremote\n>>>>>>> remote\nc');
+      expect(result.conflicts).toEqual([{
+        baseLines: ['b'],
+        localLines: ['local'],
+        remoteLines: ['remote'],
+        startLine: 2
+      }]);
+    });
+
+    it('should treat different insertions at the same place as a conflict', () => {
+      // Act
+      const result = mergeText('', 'one', 'two');
+
+      // Assert
+      expect(result.conflicts).toHaveLength(1);
+      expect(result.conflicts[0].baseLines).toEqual([]);
+    });
+
+    it('should handle a deletion on one side', () => {
+      // Act
+      const result = mergeText('a\nb\nc', 'a\nc', 'a\nb\nc');
+
+      // Assert
+      expect(result).toEqual({ text: 'a\nc', conflicts: [] });
+    });
+  });
+
+  describe('mergeComponentContent', () => {
+    it('should merge each pane and report conflicts by pane', () => {
+      // Arrange
+      const base = { html: '<p>a</p>', css: 'p {}', js: 'x();', metadata: { theme: 'light', size: 1 } };
+      const local = { html: '<p>b</p>', css: 'p {}', js: 'y();', metadata: { theme: 'dark', size: 1 } };
+      const remote = { html: '<p>a</p>', css: 'div {}', js: 'z();', metadata: { theme: 'light', size: 2 } };
+
+      // Act
+      const result = mergeComponentContent(base, local, remote);
+
+      // Assert
+      expect(result.content.html).toBe('<p>b</p>');
+      expect(result.content.css).toBe('div {}');
+      expect(result.content.metadata).toEqual({ theme: 'dark', size: 2 });
+      expect(result.conflicts).toEqual([
+        expect.objectContaining({ pane: 'js', localLines: ['y();'], remoteLines: ['z();'] })
+      ]);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip } from '../zip';
+
+/**
+ * Read the entries of a stored zip archive through its central directory
+ */
+function readZip(bytes: Uint8Array): Array<{ path: string; text: string; crc: number }> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054B50);
+
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const entries = [];
+
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014B50);
+    const nameLength = view.getUint16(position + 28, true);
+    const size = view.getUint32(position + 24, true);
+    const offset = view.getUint32(position + 42, true);
+    const path = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+
+    expect(view.getUint32(offset, true)).toBe(0x04034B50);
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+    entries.push({
+      path,
+      text: decoder.decode(bytes.subarray(dataStart, dataStart + size)),
+      crc: view.getUint32(position + 16, true)
+    });
+
+    position += 46 + nameLength;
+  }
+
+  return entries;
+}
+
+describe('zip', () => {
+  it('should compute standard CRC-32 checksums', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xCBF43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+
+  it('should write stored entries readable through the central directory', () => {
+    // Act
+    const bytes = createZip([
+      { path: 'imsmanifest.xml', data: '<manifest/>' },
+      { path: 'café/index.html', data: new TextEncoder().encode('<p>é</p>') }
+    ]);
+
+    // Assert
+    expect(readZip(bytes)).toEqual([
+      { path: 'imsmanifest.xml', text: '<manifest/>', crc: crc32(new TextEncoder().encode('<manifest/>')) },
+      { path: 'café/index.html', text: '<p>é</p>', crc: crc32(new TextEncoder().encode('<p>é</p>')) }
+    ]);
+  });
+
+  it('should encode modification times as DOS date and time', () => {
+    // Act
+    const bytes = createZip([{ path: 'a.txt', data: 'a', modified: new Date(2024, 2, 15, 13, 45, 31) }]);
+    const view = new DataView(bytes.buffer);
+
+    // Assert
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15);
+    expect(view.getUint16(12, true)).toBe((44 << 9) | (3 << 5) | 15);
+  });
+});
@@ -0,0 +1,61 @@
+import { ChangeVector } from '../models/ComponentSync';
+
+/**
+ * Causal relationship between two change vectors
+ */
+export type ChangeVectorComparison = 'equal' | 'before' | 'after' | 'concurrent';
+
+/**
+ * Record one more edit by a replica
+ * @param vector Current change vector
+ * @param replicaId Replica that made the edit
+ * @returns New change vector
+ */
+export function incrementVector(vector: ChangeVector, replicaId: string): ChangeVector {
+  return { ...vector, [replicaId]: (vector[replicaId] || 0) + 1 };
+}
+
+/**
+ * Combine two change vectors, keeping the highest count per replica
+ * @param a First change vector
+ * @param b Second change vector
+ * @returns Change vector that includes every edit of both
+ */
+export function mergeVectors(a: ChangeVector, b: ChangeVector): ChangeVector {
+  const merged: ChangeVector = { ...a };
+
+  for (const [replicaId, count] of Object.entries(b)) {
+    merged[replicaId] = Math.max(merged[replicaId] || 0, count);
+  }
+
+  return merged;
+}
+
+/**
+ * Compare two change vectors
+ * @param a First change vector
+ * @param b Second change vector
+ * @returns 'before' if a happened before b, 'after' if a includes every edit
+ * of b and more, 'equal' if they match, otherwise 'concurrent'
+ */
+export function compareVectors(a: ChangeVector, b: ChangeVector): ChangeVectorComparison {
+  let aAhead = false;
+  let bAhead = false;
+
+  for (const replicaId of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const aCount = a[replicaId] || 0;
+    const bCount = b[replicaId] || 0;
+
+    if (aCount > bCount) {
+      aAhead = true;
+    } else if (bCount > aCount) {
+      bAhead = true;
+    }
+  }
+
+  if (aAhead && bAhead) {
+    return 'concurrent';
+  }
+
+  return aAhead ? 'after' : bAhead ? 'before' : 'equal';
+}
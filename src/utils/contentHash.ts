@@ -0,0 +1,13 @@
+/**
+ * Compute the SHA-256 digest of text
+ * Uses the Web Crypto API, available in browsers and Node 18+
+ * @param text Text to hash (encoded as UTF-8)
+ * @returns Promise resolving to the lowercase hex digest
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
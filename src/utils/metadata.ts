@@ -0,0 +1,20 @@
+import { ComponentMetadata } from '../models/ComponentMetadata';
+
+/**
+ * Converts date fields of component metadata back into Date objects
+ * JSON-based storage and transport return them as ISO strings;
+ * unparseable dates are dropped rather than surfacing as Invalid Date.
+ * @param metadata Component metadata as stored or received
+ * @returns Metadata with revived dates
+ */
+export function reviveMetadataDates(metadata: ComponentMetadata): ComponentMetadata {
+  if (metadata.lastEdited === undefined || metadata.lastEdited instanceof Date) {
+    return metadata;
+  }
+
+  const lastEdited = new Date(metadata.lastEdited);
+  return {
+    ...metadata,
+    lastEdited: isNaN(lastEdited.getTime()) ? undefined : lastEdited
+  };
+}
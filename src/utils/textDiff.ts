@@ -0,0 +1,103 @@
+/**
+ * Kind of change a diff entry represents
+ */
+export type LineDiffType = 'added' | 'removed' | 'unchanged';
+
+/**
+ * A single line in a line-based diff
+ */
+export interface LineDiffEntry {
+  /**
+   * Whether the line was added, removed or kept
+   */
+  type: LineDiffType;
+
+  /**
+   * Text of the line (without the line break)
+   */
+  line: string;
+
+  /**
+   * 1-based line number in the old text (absent for added lines)
+   */
+  oldLineNumber?: number;
+
+  /**
+   * 1-based line number in the new text (absent for removed lines)
+   */
+  newLineNumber?: number;
+}
+
+/**
+ * Split text into lines, treating an empty string as having no lines
+ * @param text Text to split
+ * @returns Array of lines
+ */
+export function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split(/\r?\n/);
+}
+
+/**
+ * Compute the longest common subsequence table for two line arrays
+ * table[i][j] holds the LCS length of oldLines[i..] and newLines[j..]
+ * @param oldLines Lines of the old text
+ * @param newLines Lines of the new text
+ * @returns LCS length table
+ */
+function buildLcsTable(oldLines: string[], newLines: string[]): Uint32Array[] {
+  const table: Uint32Array[] = [];
+  for (let i = 0; i <= oldLines.length; i++) {
+    table.push(new Uint32Array(newLines.length + 1));
+  }
+
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      table[i][j] = oldLines[i] === newLines[j]
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  return table;
+}
+
+/**
+ * Compute a line-based diff between two texts
+ * Removals are listed before additions where lines were replaced.
+ * @param oldText The original text
+ * @param newText The changed text
+ * @returns Ordered list of diff entries covering both texts
+ */
+export function diffLines(oldText: string, newText: string): LineDiffEntry[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  const table = buildLcsTable(oldLines, newLines);
+  const entries: LineDiffEntry[] = [];
+
+  let i = 0;
+  let j = 0;
+
+  while (i < oldLines.length && j < newLines.length) {
+    if (oldLines[i] === newLines[j]) {
+      entries.push({ type: 'unchanged', line: oldLines[i], oldLineNumber: i + 1, newLineNumber: j + 1 });
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      entries.push({ type: 'removed', line: oldLines[i], oldLineNumber: i + 1 });
+      i++;
+    } else {
+      entries.push({ type: 'added', line: newLines[j], newLineNumber: j + 1 });
+      j++;
+    }
+  }
+
+  for (; i < oldLines.length; i++) {
+    entries.push({ type: 'removed', line: oldLines[i], oldLineNumber: i + 1 });
+  }
+
+  for (; j < newLines.length; j++) {
+    entries.push({ type: 'added', line: newLines[j], newLineNumber: j + 1 });
+  }
+
+  return entries;
+}
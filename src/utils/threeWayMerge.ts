@@ -0,0 +1,237 @@
+import { StorageComponentContent } from '../models/index';
+import { diffLines, splitLines } from './textDiff';
+
+/**
+ * Code panes of a component that are merged line by line
+ */
+export type CodePane = 'html' | 'css' | 'js';
+
+/**
+ * Code panes in merge order
+ */
+export const CODE_PANES: CodePane[] = ['html', 'css', 'js'];
+
+/**
+ * Markers written around conflicting hunks in merged text
+ */
+export const MERGE_CONFLICT_MARKERS = {
+  LOCAL: '<<<<<<< local',
+  SEPARATOR: '=======',
+  REMOTE: '>>>>>>> remote'
+};
+
+/**
+ * A region that was changed differently on both sides
+ */
+export interface MergeConflictHunk {
+  /**
+   * Lines of the region in the common ancestor
+   */
+  baseLines: string[];
+
+  /**
+   * Lines of the region in the local copy
+   */
+  localLines: string[];
+
+  /**
+   * Lines of the region in the remote copy
+   */
+  remoteLines: string[];
+
+  /**
+   * 1-based line in the merged text where the conflict markers start
+   */
+  startLine: number;
+}
+
+/**
+ * Result of merging a single text
+ */
+export interface TextMergeResult {
+  /**
+   * Merged text, with conflict markers around unresolved hunks
+   */
+  text: string;
+
+  /**
+   * Conflicting hunks, in order
+   */
+  conflicts: MergeConflictHunk[];
+}
+
+/**
+ * Conflicting hunk in one of a component's code panes
+ */
+export interface PaneMergeConflict extends MergeConflictHunk {
+  /**
+   * Pane the conflict occurred in
+   */
+  pane: CodePane;
+}
+
+/**
+ * Result of merging a component's content
+ */
+export interface MergedComponentContent {
+  /**
+   * Merged content, with conflict markers in panes that could not be merged
+   */
+  content: StorageComponentContent;
+
+  /**
+   * Conflicting hunks across all panes
+   */
+  conflicts: PaneMergeConflict[];
+}
+
+/**
+ * Map each base line to the index of the matching line in another text
+ * @param baseText Common ancestor text
+ * @param otherText Changed text
+ * @returns Array indexed by base line holding the matched line index, or -1
+ */
+function matchBaseLines(baseText: string, otherText: string): number[] {
+  const matches: number[] = new Array(splitLines(baseText).length).fill(-1);
+
+  for (const entry of diffLines(baseText, otherText)) {
+    if (entry.type === 'unchanged') {
+      matches[entry.oldLineNumber! - 1] = entry.newLineNumber! - 1;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Compare two line arrays for equality
+ * @param a First lines
+ * @param b Second lines
+ * @returns True if both contain the same lines
+ */
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Merge two independently changed versions of a text against their common ancestor
+ * Regions changed on only one side take that side's lines; regions changed
+ * identically on both sides are taken once; other regions are conflicts and
+ * are written with local/remote conflict markers.
+ * @param baseText Common ancestor text
+ * @param localText Local version
+ * @param remoteText Remote version
+ * @returns Merged text and its conflicts
+ */
+export function mergeText(baseText: string, localText: string, remoteText: string): TextMergeResult {
+  const baseLines = splitLines(baseText);
+  const localLines = splitLines(localText);
+  const remoteLines = splitLines(remoteText);
+  const localMatches = matchBaseLines(baseText, localText);
+  const remoteMatches = matchBaseLines(baseText, remoteText);
+
+  const merged: string[] = [];
+  const conflicts: MergeConflictHunk[] = [];
+
+  let b = 0;
+  let l = 0;
+  let r = 0;
+
+  while (b < baseLines.length || l < localLines.length || r < remoteLines.length) {
+    // Find the next base line kept by both sides
+    let nextBase = b;
+    while (
+      nextBase < baseLines.length &&
+      (localMatches[nextBase] === -1 || remoteMatches[nextBase] === -1)
+    ) {
+      nextBase++;
+    }
+
+    const nextLocal = nextBase < baseLines.length ? localMatches[nextBase] : localLines.length;
+    const nextRemote = nextBase < baseLines.length ? remoteMatches[nextBase] : remoteLines.length;
+
+    if (nextBase === b && nextLocal === l && nextRemote === r) {
+      // Stable line, unchanged on both sides
+      merged.push(baseLines[b]);
+      b++;
+      l++;
+      r++;
+      continue;
+    }
+
+    const baseChunk = baseLines.slice(b, nextBase);
+    const localChunk = localLines.slice(l, nextLocal);
+    const remoteChunk = remoteLines.slice(r, nextRemote);
+
+    if (sameLines(localChunk, baseChunk)) {
+      merged.push(...remoteChunk);
+    } else if (sameLines(remoteChunk, baseChunk) || sameLines(localChunk, remoteChunk)) {
+      merged.push(...localChunk);
+    } else {
+      conflicts.push({
+        baseLines: baseChunk,
+        localLines: localChunk,
+        remoteLines: remoteChunk,
+        startLine: merged.length + 1
+      });
+      merged.push(
+        MERGE_CONFLICT_MARKERS.LOCAL,
+        ...localChunk,
+        MERGE_CONFLICT_MARKERS.SEPARATOR,
+        ...remoteChunk,
+        MERGE_CONFLICT_MARKERS.REMOTE
+      );
+    }
+
+    b = nextBase;
+    l = nextLocal;
+    r = nextRemote;
+  }
+
+  return { text: merged.join('\n'), conflicts };
+}
+
+/**
+ * Merge two independently changed versions of a component against their common ancestor
+ * The html, css and js panes are merged line by line. Metadata entries are
+ * merged per key, preferring the local value when both sides changed a key.
+ * @param base Common ancestor content
+ * @param local Local content
+ * @param remote Remote content
+ * @returns Merged content and conflicts across all panes
+ */
+export function mergeComponentContent(
+  base: StorageComponentContent,
+  local: StorageComponentContent,
+  remote: StorageComponentContent
+): MergedComponentContent {
+  const content: StorageComponentContent = { html: '', css: '', js: '' };
+  const conflicts: PaneMergeConflict[] = [];
+
+  for (const pane of CODE_PANES) {
+    const result = mergeText(base[pane] || '', local[pane] || '', remote[pane] || '');
+    content[pane] = result.text;
+    conflicts.push(...result.conflicts.map(hunk => ({ pane, ...hunk })));
+  }
+
+  if (base.metadata || local.metadata || remote.metadata) {
+    const baseMetadata = base.metadata || {};
+    const localMetadata = local.metadata || {};
+    const remoteMetadata = remote.metadata || {};
+    const keys = new Set([...Object.keys(localMetadata), ...Object.keys(remoteMetadata)]);
+    const metadata: Record<string, any> = {};
+
+    for (const key of keys) {
+      const localChanged = JSON.stringify(localMetadata[key]) !== JSON.stringify(baseMetadata[key]);
+      const value = localChanged ? localMetadata[key] : remoteMetadata[key];
+
+      if (value !== undefined) {
+        metadata[key] = value;
+      }
+    }
+
+    content.metadata = metadata;
+  }
+
+  return { content, conflicts };
+}
@@ -1,11 +1,33 @@
 import { defineConfig } from 'vite';
 import { resolve } from 'path';
+import { cpSync } from 'fs';
+import type { Plugin } from 'vite';
 import tsconfigPaths from 'vite-tsconfig-paths';
 import dts from 'vite-plugin-dts';
 
+// Locally bundled TeX renderers, copied to dist/vendor/ where previews load them from by default
+const mathRendererAssets: Record<string, string> = {
+  katex: 'node_modules/katex/dist',
+  mathjax: 'node_modules/mathjax/es5',
+};
+
+function copyMathRenderers(): Plugin {
+  return {
+    name: 'copy-math-renderers',
+    apply: 'build',
+    writeBundle(options) {
+      const outDir = options.dir || resolve(__dirname, 'dist');
+      Object.entries(mathRendererAssets).forEach(([name, source]) => {
+        cpSync(resolve(__dirname, source), resolve(outDir, 'vendor', name), { recursive: true });
+      });
+    },
+  };
+}
+
 export default defineConfig({
   plugins: [
     tsconfigPaths(),
+    copyMathRenderers(),
     dts({
       insertTypesEntry: true,
     }),
@@ -18,11 +40,11 @@ export default defineConfig({
       formats: ['es', 'umd'],
     },
     rollupOptions: {
-      external: ['codemirror'],
+      // CodeMirror, a peer dependency, and its modes and addons share one instance provided by the host; its stylesheet is bundled.
+      // terser, used only when publishing minified bundles, is an optional peer dependency.
+      external: (id) => (/^codemirror(\/|$)/.test(id) && !id.endsWith('.css')) || id === 'terser',
       output: {
-        globals: {
-          codemirror: 'CodeMirror',
-        },
+        globals: (id) => (id.startsWith('codemirror') ? 'CodeMirror' : id === 'terser' ? 'Terser' : id),
       },
     },
     sourcemap: true,